@@ -11,9 +11,16 @@ import { FormulaBar } from '@components/spreadsheet/FormulaBar';
 import { useSpreadsheetStore } from '@stores/spreadsheetStore';
 import ErrorBoundary from '@components/error/ErrorBoundary';
 import { ToastContainer } from '@components/ui/Toast';
+import { ReferenceIntegrityDialog } from '@components/dialogs/ReferenceIntegrityDialog';
+
+// TODAY/NOW 수식 갱신 주기
+const VOLATILE_REFRESH_INTERVAL = 60 * 1000;
 
 function App() {
   const initDB = useSpreadsheetStore((state) => state.initDB);
+  const recalculateVolatile = useSpreadsheetStore(
+    (state) => state.recalculateVolatile
+  );
   const saving = useSpreadsheetStore((state) => state.saving);
   const lastSaved = useSpreadsheetStore((state) => state.lastSaved);
   const hasUnsavedChanges = useSpreadsheetStore(
@@ -27,6 +34,12 @@ function App() {
     });
   }, [initDB]);
 
+  useEffect(() => {
+    // Keep volatile date formulas current while the app stays open
+    const timer = setInterval(recalculateVolatile, VOLATILE_REFRESH_INTERVAL);
+    return () => clearInterval(timer);
+  }, [recalculateVolatile]);
+
   return (
     <ErrorBoundary>
       <div className="flex flex-col h-screen bg-gray-100 dark:bg-gray-900">
@@ -81,6 +94,9 @@ function App() {
           </div>
         </footer>
 
+        {/* Rename/delete of referenced IDs */}
+        <ReferenceIntegrityDialog />
+
         {/* Toast Container */}
         <ToastContainer />
       </div>
@@ -0,0 +1,430 @@
+/**
+ * BranchMergeDialog Component
+ * 브랜치 - 작업본 사본 만들기/전환, 원본과 브랜치의 3-way 병합
+ * 한쪽만 바꾼 셀은 자동으로 합치고, 양쪽이 바꾼 셀과 이름 정의는 여기서 골라 적용한다
+ * (실행 취소 가능)
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import type { NamedRange, SpreadsheetMetadata } from '@types';
+import {
+  useSpreadsheetStore,
+  type BranchMerge,
+} from '@stores/spreadsheetStore';
+import { formatAuditValue } from '@services/formula/formulaAudit';
+import type { CellContent } from '@utils/versionUtils';
+import {
+  validateBranchName,
+  type ConflictChoice,
+  type MergeConflict,
+} from '@utils/mergeUtils';
+
+interface BranchMergeDialogProps {
+  onClose: () => void;
+}
+
+const formatContent = (content: CellContent | null) => {
+  if (!content) return '(빈 셀)';
+  return content.formula
+    ? `${content.formula} → ${formatAuditValue(content.value)}`
+    : formatAuditValue(content.value);
+};
+
+const formatName = (named: NamedRange | null) =>
+  named ? named.definition : '(삭제)';
+
+const describeRowConflict = (conflict: MergeConflict, sourceName: string) =>
+  conflict.kind === 'row' && conflict.deletedIn === 'ours'
+    ? {
+        ours: '(이 작업본에서 삭제)',
+        theirs: `'${sourceName}'에서 수정한 행`,
+      }
+    : { ours: '이 작업본에서 수정한 행', theirs: '(상대 쪽에서 삭제)' };
+
+export const BranchMergeDialog = ({ onClose }: BranchMergeDialogProps) => {
+  const spreadsheetName = useSpreadsheetStore((state) => state.spreadsheetName);
+  const branch = useSpreadsheetStore((state) => state.branch);
+  const createBranch = useSpreadsheetStore((state) => state.createBranch);
+  const listBranches = useSpreadsheetStore((state) => state.listBranches);
+  const switchSpreadsheet = useSpreadsheetStore(
+    (state) => state.switchSpreadsheet
+  );
+  const prepareMerge = useSpreadsheetStore((state) => state.prepareMerge);
+  const applyMerge = useSpreadsheetStore((state) => state.applyMerge);
+
+  const [branches, setBranches] = useState<SpreadsheetMetadata[]>([]);
+  const [name, setName] = useState('');
+  const [merge, setMerge] = useState<BranchMerge | null>(null);
+  const [choices, setChoices] = useState<Record<string, ConflictChoice>>({});
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const refreshBranches = useCallback(async () => {
+    setBranches(await listBranches());
+  }, [listBranches]);
+
+  useEffect(() => {
+    refreshBranches();
+  }, [refreshBranches]);
+
+  const handleCreate = async () => {
+    setMessage(null);
+    const validationError = validateBranchName(branches, name);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    setBusy(true);
+    const created = await createBranch(name);
+    setBusy(false);
+    if (!created) {
+      setError('브랜치를 만들지 못했습니다');
+      return;
+    }
+    setName('');
+    setError(null);
+    setMessage(`'${created.name}' 브랜치를 만들었습니다`);
+    await refreshBranches();
+  };
+
+  const handleSwitch = async (id: string, targetName: string) => {
+    setBusy(true);
+    await switchSpreadsheet(id);
+    setBusy(false);
+    setMerge(null);
+    setError(null);
+    setMessage(`'${targetName}'(으)로 전환했습니다`);
+    await refreshBranches();
+  };
+
+  const handlePrepareMerge = async (id: string) => {
+    setMessage(null);
+    setBusy(true);
+    const prepared = await prepareMerge(id);
+    setBusy(false);
+    if (!prepared) {
+      setError('병합할 수 없습니다 (분기 시점 버전이 없거나 관계없는 작업본)');
+      return;
+    }
+    setMerge(prepared);
+    setChoices({});
+    setError(null);
+  };
+
+  const chooseAll = (choice: ConflictChoice) => {
+    if (!merge) return;
+    setChoices(
+      Object.fromEntries(
+        merge.result.conflicts.map((conflict) => [conflict.id, choice])
+      )
+    );
+  };
+
+  const handleApply = () => {
+    if (!merge) return;
+    const unresolved = merge.result.conflicts.filter(
+      (conflict) => !choices[conflict.id]
+    ).length;
+    if (
+      unresolved > 0 &&
+      !window.confirm(
+        `고르지 않은 충돌 ${unresolved}개는 이 작업본의 값을 유지합니다. 병합하시겠습니까?`
+      )
+    ) {
+      return;
+    }
+
+    applyMerge(merge, choices);
+    setMerge(null);
+    setMessage(
+      `'${merge.sourceName}'의 변경을 병합했습니다 (실행 취소할 수 있습니다)`
+    );
+  };
+
+  const inputClassName =
+    'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 placeholder-gray-400 dark:placeholder-gray-500';
+
+  const smallButtonClassName =
+    'px-2 py-1 text-xs bg-gray-200 dark:bg-gray-600 text-gray-700 dark:text-gray-200 rounded hover:bg-gray-300 dark:hover:bg-gray-700 disabled:opacity-50';
+
+  const renderChoice = (
+    conflict: MergeConflict,
+    choice: ConflictChoice,
+    label: string,
+    content: string
+  ) => (
+    <label className="flex items-start gap-1 min-w-0">
+      <input
+        type="radio"
+        name={conflict.id}
+        checked={choices[conflict.id] === choice}
+        onChange={() =>
+          setChoices((prev) => ({ ...prev, [conflict.id]: choice }))
+        }
+        className="mt-0.5"
+      />
+      <span className="min-w-0">
+        <span className="block text-gray-500 dark:text-gray-400">{label}</span>
+        <span className="block truncate text-gray-900 dark:text-gray-100">
+          {content}
+        </span>
+      </span>
+    </label>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg p-6 w-[720px] max-h-[85vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold text-gray-900 dark:text-gray-100">
+            브랜치와 병합
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+            title="닫기"
+          >
+            ✕
+          </button>
+        </div>
+
+        {/* Current spreadsheet */}
+        <div className="mb-4 flex items-center justify-between gap-2 text-sm text-gray-700 dark:text-gray-300">
+          <span className="min-w-0 truncate">
+            현재 작업본: <span className="font-medium">{spreadsheetName}</span>
+            {branch && ` (⑂ '${branch.parentName}'에서 분기)`}
+          </span>
+          {branch && (
+            <div className="flex gap-1 shrink-0">
+              <button
+                onClick={() => handlePrepareMerge(branch.parentId)}
+                disabled={busy}
+                className={smallButtonClassName}
+                title="원본의 변경을 이 브랜치로 병합"
+              >
+                원본 변경 가져오기
+              </button>
+              <button
+                onClick={() => handleSwitch(branch.parentId, branch.parentName)}
+                disabled={busy}
+                className={smallButtonClassName}
+              >
+                원본으로 전환
+              </button>
+            </div>
+          )}
+        </div>
+
+        {/* New branch */}
+        <div className="mb-4 flex gap-2">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+            placeholder="브랜치 이름 (예: 아이템 밸런스 조정)"
+            className={inputClassName}
+            autoFocus
+          />
+          <button
+            onClick={handleCreate}
+            disabled={!name.trim() || busy}
+            className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 whitespace-nowrap"
+          >
+            브랜치 만들기
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-3 text-sm text-red-600 dark:text-red-400">
+            {error}
+          </div>
+        )}
+        {message && (
+          <div className="mb-3 text-sm text-green-700 dark:text-green-400">
+            {message}
+          </div>
+        )}
+
+        {/* Branch list */}
+        {branches.length === 0 ? (
+          <p className="mb-4 text-sm text-gray-500 dark:text-gray-400">
+            이 작업본에서 만든 브랜치가 없습니다
+          </p>
+        ) : (
+          <ul className="mb-4 divide-y divide-gray-200 dark:divide-gray-700 border border-gray-200 dark:border-gray-700 rounded max-h-48 overflow-y-auto">
+            {branches.map((item) => (
+              <li
+                key={item.id}
+                className="flex items-center justify-between gap-2 px-3 py-2"
+              >
+                <div className="min-w-0">
+                  <div className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">
+                    ⑂ {item.name}
+                  </div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400">
+                    {item.updatedAt.toLocaleString()}
+                  </div>
+                </div>
+                <div className="flex gap-1 shrink-0">
+                  <button
+                    onClick={() => handlePrepareMerge(item.id)}
+                    disabled={busy}
+                    className="px-2 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+                    title="이 브랜치의 변경을 현재 작업본으로 병합"
+                  >
+                    병합
+                  </button>
+                  <button
+                    onClick={() => handleSwitch(item.id, item.name)}
+                    disabled={busy}
+                    className={smallButtonClassName}
+                  >
+                    전환
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {/* Pending merge */}
+        {merge && (
+          <div className="border border-gray-200 dark:border-gray-700 rounded">
+            <div className="px-3 py-2 bg-gray-50 dark:bg-gray-700/50 text-sm text-gray-900 dark:text-gray-100">
+              <span className="font-medium">'{merge.sourceName}'</span> → 현재
+              작업본
+              <p className="text-xs text-gray-600 dark:text-gray-400">
+                자동 병합한 셀 {merge.result.stats.mergedCells}개 · 추가된 행{' '}
+                {merge.result.stats.addedRows}개 · 삭제된 행{' '}
+                {merge.result.stats.removedRows}개 · 병합한 이름 정의{' '}
+                {merge.result.stats.mergedNames}개 · 충돌{' '}
+                {merge.result.conflicts.length}개
+              </p>
+            </div>
+
+            {merge.result.conflicts.length > 0 && (
+              <>
+                <div className="flex justify-end gap-1 px-3 pt-2">
+                  <button
+                    onClick={() => chooseAll('ours')}
+                    className={smallButtonClassName}
+                  >
+                    모두 내 값
+                  </button>
+                  <button
+                    onClick={() => chooseAll('theirs')}
+                    className={smallButtonClassName}
+                  >
+                    모두 상대 값
+                  </button>
+                </div>
+                <ul className="px-3 py-2 space-y-2 max-h-72 overflow-y-auto">
+                  {merge.result.conflicts.map((conflict) => {
+                    const rowLabels = describeRowConflict(
+                      conflict,
+                      merge.sourceName
+                    );
+                    return (
+                      <li
+                        key={conflict.id}
+                        className="border border-gray-200 dark:border-gray-700 rounded p-2 text-xs"
+                      >
+                        <div className="mb-1 font-medium text-gray-900 dark:text-gray-100">
+                          {conflict.kind === 'name'
+                            ? `이름 정의 · ${conflict.name}`
+                            : `${conflict.sheetName} · ${conflict.rowKey}`}
+                          {conflict.kind === 'cell' &&
+                            ` · ${conflict.columnName}`}
+                        </div>
+                        {conflict.kind === 'name' ? (
+                          <div className="grid grid-cols-3 gap-2">
+                            <div className="min-w-0">
+                              <span className="block text-gray-500 dark:text-gray-400">
+                                분기 시점
+                              </span>
+                              <span className="block truncate text-gray-500 dark:text-gray-400 line-through">
+                                {formatName(conflict.base)}
+                              </span>
+                            </div>
+                            {renderChoice(
+                              conflict,
+                              'ours',
+                              '내 정의',
+                              formatName(conflict.ours)
+                            )}
+                            {renderChoice(
+                              conflict,
+                              'theirs',
+                              '상대 정의',
+                              formatName(conflict.theirs)
+                            )}
+                          </div>
+                        ) : conflict.kind === 'cell' ? (
+                          <div className="grid grid-cols-3 gap-2">
+                            <div className="min-w-0">
+                              <span className="block text-gray-500 dark:text-gray-400">
+                                분기 시점
+                              </span>
+                              <span className="block truncate text-gray-500 dark:text-gray-400 line-through">
+                                {formatContent(conflict.base)}
+                              </span>
+                            </div>
+                            {renderChoice(
+                              conflict,
+                              'ours',
+                              '내 값',
+                              formatContent(conflict.ours)
+                            )}
+                            {renderChoice(
+                              conflict,
+                              'theirs',
+                              '상대 값',
+                              formatContent(conflict.theirs)
+                            )}
+                          </div>
+                        ) : (
+                          <div className="grid grid-cols-2 gap-2">
+                            {renderChoice(
+                              conflict,
+                              'ours',
+                              '내 쪽',
+                              rowLabels.ours
+                            )}
+                            {renderChoice(
+                              conflict,
+                              'theirs',
+                              '상대 쪽',
+                              rowLabels.theirs
+                            )}
+                          </div>
+                        )}
+                      </li>
+                    );
+                  })}
+                </ul>
+              </>
+            )}
+
+            <div className="flex justify-end gap-2 px-3 py-2 border-t border-gray-200 dark:border-gray-700">
+              <button
+                onClick={() => setMerge(null)}
+                className="px-4 py-2 bg-gray-200 dark:bg-gray-600 text-gray-700 dark:text-gray-200 rounded hover:bg-gray-300 dark:hover:bg-gray-700"
+              >
+                취소
+              </button>
+              <button
+                onClick={handleApply}
+                className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
+              >
+                병합 적용
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,222 @@
+/**
+ * FormulaStepsDialog Component
+ * 수식 계산 단계 - 수식의 부분 식을 안쪽부터 한 단계씩 계산해 보여주고
+ * 참조되는 셀/참조하는 셀로 이동할 수 있다
+ */
+
+import { useMemo, useState } from 'react';
+import { useSpreadsheetStore } from '@stores/spreadsheetStore';
+import {
+  formatAuditValue,
+  type AuditCell,
+} from '@services/formula/formulaAudit';
+import type { FormulaStep } from '@services/formula/formulaEvaluator';
+import { formatSheetReference } from '@services/formula/formulaParser';
+import { isFormulaError } from '@services/formula/formulaErrors';
+import { columnIndexToLetter } from '@utils/gridUtils';
+
+interface FormulaStepsDialogProps {
+  sheetId: string;
+  rowId: string;
+  columnId: string;
+  onClose: () => void;
+}
+
+export const FormulaStepsDialog = ({
+  sheetId,
+  rowId,
+  columnId,
+  onClose,
+}: FormulaStepsDialogProps) => {
+  const [visibleCount, setVisibleCount] = useState(1);
+
+  const sheets = useSpreadsheetStore((state) => state.sheets);
+  const evaluateFormulaSteps = useSpreadsheetStore(
+    (state) => state.evaluateFormulaSteps
+  );
+  const getTracedCells = useSpreadsheetStore((state) => state.getTracedCells);
+  const setActiveSheet = useSpreadsheetStore((state) => state.setActiveSheet);
+  const setSelection = useSpreadsheetStore((state) => state.setSelection);
+
+  const sheet = sheets.find((s) => s.id === sheetId);
+  const rowIndex = sheet?.rows.findIndex((r) => r.id === rowId) ?? -1;
+  const columnIndex = sheet?.columns.findIndex((c) => c.id === columnId) ?? -1;
+  const cell = sheet?.rows[rowIndex]?.cells[columnId];
+
+  // Recalculated whenever the workbook changes while the dialog is open
+  const { steps, error } = useMemo((): {
+    steps: FormulaStep[];
+    error: string | null;
+  } => {
+    try {
+      return {
+        steps: evaluateFormulaSteps(sheetId, rowId, columnId),
+        error: null,
+      };
+    } catch (e) {
+      return { steps: [], error: e instanceof Error ? e.message : String(e) };
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [evaluateFormulaSteps, sheetId, rowId, columnId, sheets]);
+
+  const precedents = useMemo(
+    () => getTracedCells(sheetId, rowId, columnId, 'precedents'),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [getTracedCells, sheetId, rowId, columnId, sheets]
+  );
+  const dependents = useMemo(
+    () => getTracedCells(sheetId, rowId, columnId, 'dependents'),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [getTracedCells, sheetId, rowId, columnId, sheets]
+  );
+
+  if (!sheet || !cell) return null;
+
+  const address = formatSheetReference(
+    sheet.name,
+    `${columnIndexToLetter(columnIndex)}${rowIndex + 1}`
+  );
+  const shownSteps = steps.slice(0, visibleCount);
+  const finished = visibleCount >= steps.length;
+
+  const navigateTo = (target: AuditCell) => {
+    setActiveSheet(target.sheetId);
+    setSelection({
+      startRow: target.rowIndex,
+      endRow: target.rowIndex,
+      startColumn: target.columnIndex,
+      endColumn: target.columnIndex,
+    });
+  };
+
+  const renderCells = (title: string, cells: AuditCell[]) => (
+    <div className="flex-1 min-w-0">
+      <div className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+        {title} ({cells.length})
+      </div>
+      <div className="max-h-32 overflow-y-auto border border-gray-200 dark:border-gray-600 rounded">
+        {cells.length === 0 ? (
+          <div className="text-xs text-gray-500 dark:text-gray-400 p-2">
+            없음
+          </div>
+        ) : (
+          cells.map((target) => (
+            <div
+              key={target.sheetCellId}
+              className="text-xs font-mono p-1.5 cursor-pointer text-gray-900 dark:text-gray-100 hover:bg-gray-100 dark:hover:bg-gray-700"
+              onClick={() => navigateTo(target)}
+            >
+              {target.address}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+
+  const buttonClassName =
+    'px-3 py-1.5 text-sm rounded disabled:opacity-50 bg-gray-200 dark:bg-gray-600 text-gray-700 dark:text-gray-200 hover:bg-gray-300 dark:hover:bg-gray-700';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg p-6 w-[640px] max-h-[80vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold text-gray-900 dark:text-gray-100">
+            수식 계산 단계
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+            title="닫기"
+          >
+            ✕
+          </button>
+        </div>
+
+        {/* Formula */}
+        <div className="mb-4 p-3 bg-gray-50 dark:bg-gray-700 rounded border border-gray-200 dark:border-gray-600">
+          <div className="text-xs text-gray-500 dark:text-gray-400">
+            {address}
+          </div>
+          <div className="font-mono text-sm text-gray-900 dark:text-gray-100 break-all">
+            {cell.formula}
+          </div>
+        </div>
+
+        {/* Steps (innermost expressions first) */}
+        {error ? (
+          <div className="mb-4 text-sm text-red-600 dark:text-red-400">
+            {error}
+          </div>
+        ) : (
+          <div className="mb-4 border border-gray-200 dark:border-gray-600 rounded divide-y divide-gray-200 dark:divide-gray-600 max-h-72 overflow-y-auto">
+            {shownSteps.map((step, index) => (
+              <div
+                key={index}
+                className={`flex gap-2 p-1.5 text-xs font-mono ${
+                  index === shownSteps.length - 1
+                    ? 'bg-yellow-50 dark:bg-yellow-900/30'
+                    : ''
+                }`}
+                style={{ paddingLeft: `${8 + step.depth * 16}px` }}
+              >
+                <span className="flex-1 min-w-0 break-all text-gray-700 dark:text-gray-300">
+                  {step.expression}
+                </span>
+                <span
+                  className={
+                    isFormulaError(step.value)
+                      ? 'text-red-600 dark:text-red-400 font-semibold'
+                      : 'text-gray-900 dark:text-gray-100'
+                  }
+                >
+                  = {formatAuditValue(step.value)}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex gap-2 mb-4">
+          <button
+            onClick={() => setVisibleCount((count) => count + 1)}
+            disabled={finished}
+            className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+          >
+            다음 단계
+          </button>
+          <button
+            onClick={() => setVisibleCount(steps.length)}
+            disabled={finished}
+            className={buttonClassName}
+          >
+            모두 보기
+          </button>
+          <button
+            onClick={() => setVisibleCount(1)}
+            disabled={visibleCount <= 1}
+            className={buttonClassName}
+          >
+            처음부터
+          </button>
+          <span className="ml-auto self-center text-xs text-gray-500 dark:text-gray-400">
+            {Math.min(visibleCount, steps.length)} / {steps.length}
+          </span>
+        </div>
+
+        {/* Precedents / dependents */}
+        <div className="flex gap-4 mb-4">
+          {renderCells('참조되는 셀', precedents)}
+          {renderCells('참조하는 셀', dependents)}
+        </div>
+
+        <button
+          onClick={onClose}
+          className="w-full px-4 py-2 bg-gray-200 dark:bg-gray-600 text-gray-700 dark:text-gray-200 rounded hover:bg-gray-300 dark:hover:bg-gray-700"
+        >
+          닫기
+        </button>
+      </div>
+    </div>
+  );
+};
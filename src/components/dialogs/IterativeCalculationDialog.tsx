@@ -0,0 +1,135 @@
+/**
+ * IterativeCalculationDialog Component
+ * 반복 계산 설정 - 가격 ↔ 수요처럼 의도적으로 순환하는 밸런스 모델을
+ * 최대 반복 횟수와 허용 오차 안에서 수렴시킨다
+ */
+
+import { useState } from 'react';
+import { useSpreadsheetStore } from '@stores/spreadsheetStore';
+
+interface IterativeCalculationDialogProps {
+  onClose: () => void;
+}
+
+export const IterativeCalculationDialog = ({
+  onClose,
+}: IterativeCalculationDialogProps) => {
+  const iterativeCalculation = useSpreadsheetStore(
+    (state) => state.iterativeCalculation
+  );
+  const setIterativeCalculation = useSpreadsheetStore(
+    (state) => state.setIterativeCalculation
+  );
+
+  const [enabled, setEnabled] = useState(iterativeCalculation.enabled);
+  const [maxIterations, setMaxIterations] = useState(
+    String(iterativeCalculation.maxIterations)
+  );
+  const [tolerance, setTolerance] = useState(
+    String(iterativeCalculation.tolerance)
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  const handleApply = async () => {
+    const iterations = Number(maxIterations);
+    const change = Number(tolerance);
+    if (!Number.isInteger(iterations) || iterations < 1) {
+      setError('최대 반복 횟수는 1 이상의 정수여야 합니다');
+      return;
+    }
+    if (!Number.isFinite(change) || change < 0) {
+      setError('최대 변화량은 0 이상의 숫자여야 합니다');
+      return;
+    }
+
+    await setIterativeCalculation({
+      enabled,
+      maxIterations: iterations,
+      tolerance: change,
+    });
+    onClose();
+  };
+
+  const inputClassName =
+    'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 disabled:opacity-50';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg p-6 w-[420px]">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold text-gray-900 dark:text-gray-100">
+            반복 계산
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+            title="닫기"
+          >
+            ✕
+          </button>
+        </div>
+
+        <label className="flex items-center gap-2 mb-2 text-sm text-gray-900 dark:text-gray-100">
+          <input
+            type="checkbox"
+            checked={enabled}
+            onChange={(e) => setEnabled(e.target.checked)}
+          />
+          순환 참조를 반복 계산으로 허용
+        </label>
+        <p className="mb-4 text-xs text-gray-500 dark:text-gray-400">
+          꺼져 있으면 순환 참조는 #CIRC! 오류가 됩니다. 최대 반복 횟수 안에
+          수렴하지 않는 셀은 #NUM! 오류로 표시됩니다.
+        </p>
+
+        <div className="mb-4 grid grid-cols-2 gap-3">
+          <label className="text-sm text-gray-700 dark:text-gray-300">
+            최대 반복 횟수
+            <input
+              type="number"
+              min={1}
+              step={1}
+              value={maxIterations}
+              onChange={(e) => setMaxIterations(e.target.value)}
+              disabled={!enabled}
+              className={`${inputClassName} mt-1`}
+            />
+          </label>
+          <label className="text-sm text-gray-700 dark:text-gray-300">
+            최대 변화량
+            <input
+              type="number"
+              min={0}
+              step="any"
+              value={tolerance}
+              onChange={(e) => setTolerance(e.target.value)}
+              disabled={!enabled}
+              className={`${inputClassName} mt-1`}
+            />
+          </label>
+        </div>
+
+        {error && (
+          <div className="mb-4 text-sm text-red-600 dark:text-red-400">
+            {error}
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <button
+            onClick={onClose}
+            className="flex-1 px-4 py-2 bg-gray-200 dark:bg-gray-600 text-gray-700 dark:text-gray-200 rounded hover:bg-gray-300 dark:hover:bg-gray-700"
+          >
+            취소
+          </button>
+          <button
+            onClick={handleApply}
+            className="flex-1 px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
+          >
+            적용
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,328 @@
+/**
+ * NamedRangesDialog Component
+ * 이름 관리자 - 이름 있는 범위/상수/LAMBDA 함수 생성, 이름 변경, 삭제 및 사용처 검색
+ */
+
+import { useState } from 'react';
+import { useSpreadsheetStore } from '@stores/spreadsheetStore';
+import {
+  isLambdaDefinition,
+  validateNamedRange,
+  type NameUsage,
+} from '@services/formula/namedRanges';
+import { formatSheetReference } from '@services/formula/formulaParser';
+import { columnIndexToLetter } from '@utils/gridUtils';
+import type { NamedRange } from '@types';
+
+interface NamedRangesDialogProps {
+  onClose: () => void;
+}
+
+export const NamedRangesDialog = ({ onClose }: NamedRangesDialogProps) => {
+  const [name, setName] = useState('');
+  const [definition, setDefinition] = useState('');
+  const [comment, setComment] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const [editingDefinition, setEditingDefinition] = useState('');
+  const [usageTarget, setUsageTarget] = useState<NamedRange | null>(null);
+  const [usages, setUsages] = useState<NameUsage[]>([]);
+
+  const names = useSpreadsheetStore((state) => state.names);
+  const sheets = useSpreadsheetStore((state) => state.sheets);
+  const activeSheetId = useSpreadsheetStore((state) => state.activeSheetId);
+  const selection = useSpreadsheetStore((state) => state.selection);
+  const addName = useSpreadsheetStore((state) => state.addName);
+  const updateName = useSpreadsheetStore((state) => state.updateName);
+  const renameName = useSpreadsheetStore((state) => state.renameName);
+  const deleteName = useSpreadsheetStore((state) => state.deleteName);
+  const findNameUsages = useSpreadsheetStore((state) => state.findNameUsages);
+  const setActiveSheet = useSpreadsheetStore((state) => state.setActiveSheet);
+  const setSelection = useSpreadsheetStore((state) => state.setSelection);
+
+  const activeSheet = sheets.find((s) => s.id === activeSheetId);
+
+  // 현재 선택 영역을 시트 이름이 포함된 참조로 변환 ('Drop Table'!F2:F200)
+  const handleUseSelection = () => {
+    if (!activeSheet || !selection) return;
+
+    const start = `${columnIndexToLetter(selection.startColumn)}${selection.startRow + 1}`;
+    const end = `${columnIndexToLetter(selection.endColumn)}${selection.endRow + 1}`;
+    const reference = start === end ? start : `${start}:${end}`;
+    setDefinition(formatSheetReference(activeSheet.name, reference));
+  };
+
+  const handleAdd = () => {
+    const validationError = validateNamedRange(names, name.trim(), definition);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    if (addName(name.trim(), definition, comment.trim() || undefined)) {
+      setName('');
+      setDefinition('');
+      setComment('');
+      setError(null);
+    }
+  };
+
+  const startEditing = (named: NamedRange) => {
+    setEditingId(named.id);
+    setEditingName(named.name);
+    setEditingDefinition(named.definition);
+    setError(null);
+  };
+
+  const handleSaveEdit = (named: NamedRange) => {
+    const newName = editingName.trim();
+    const validationError = validateNamedRange(
+      names,
+      newName,
+      editingDefinition,
+      named.id
+    );
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    if (newName !== named.name) {
+      renameName(named.id, newName);
+    }
+    if (editingDefinition.trim() !== named.definition) {
+      updateName(named.id, { definition: editingDefinition });
+    }
+
+    setEditingId(null);
+    setError(null);
+  };
+
+  const handleDelete = (named: NamedRange) => {
+    const count = findNameUsages(named.name).length;
+    const message =
+      count > 0
+        ? `'${named.name}'을(를) ${count}곳에서 사용 중입니다. 삭제하시겠습니까?`
+        : `'${named.name}'을(를) 삭제하시겠습니까?`;
+
+    if (window.confirm(message)) {
+      deleteName(named.id);
+      if (usageTarget?.id === named.id) {
+        setUsageTarget(null);
+        setUsages([]);
+      }
+    }
+  };
+
+  const handleShowUsages = (named: NamedRange) => {
+    setUsageTarget(named);
+    setUsages(findNameUsages(named.name));
+  };
+
+  const navigateToUsage = (usage: NameUsage) => {
+    if (usage.type !== 'cell') return;
+
+    setActiveSheet(usage.sheetId);
+    setSelection({
+      startRow: usage.rowIndex,
+      endRow: usage.rowIndex,
+      startColumn: usage.columnIndex,
+      endColumn: usage.columnIndex,
+    });
+  };
+
+  const inputClassName =
+    'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 placeholder-gray-400 dark:placeholder-gray-500';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg p-6 w-[600px] max-h-[80vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold text-gray-900 dark:text-gray-100">
+            이름 관리자
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+            title="닫기"
+          >
+            ✕
+          </button>
+        </div>
+
+        {/* New name */}
+        <div className="mb-4 space-y-2">
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="이름 (예: CRIT_MULTIPLIER)"
+              className={inputClassName}
+              autoFocus
+            />
+            <input
+              type="text"
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              placeholder="설명 (선택)"
+              className={inputClassName}
+            />
+          </div>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={definition}
+              onChange={(e) => setDefinition(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+              placeholder="정의 (예: 1.5, 'Drop Table'!F2:F200, LAMBDA(hp, def, hp * (1 + def / 100)))"
+              className={`${inputClassName} font-mono`}
+            />
+            <button
+              onClick={handleUseSelection}
+              disabled={!selection}
+              className="px-3 py-2 bg-gray-200 dark:bg-gray-600 text-gray-700 dark:text-gray-200 rounded hover:bg-gray-300 dark:hover:bg-gray-700 disabled:opacity-50 whitespace-nowrap"
+              title="현재 선택 영역을 정의로 사용"
+            >
+              선택 영역
+            </button>
+            <button
+              onClick={handleAdd}
+              disabled={!name.trim() || !definition.trim()}
+              className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 whitespace-nowrap"
+            >
+              추가
+            </button>
+          </div>
+          {error && (
+            <div className="text-sm text-red-600 dark:text-red-400">
+              {error}
+            </div>
+          )}
+        </div>
+
+        {/* Names list */}
+        {names.length === 0 ? (
+          <div className="text-sm text-gray-500 dark:text-gray-400 p-3 text-center">
+            정의된 이름이 없습니다
+          </div>
+        ) : (
+          <div className="mb-4 border border-gray-200 dark:border-gray-600 rounded divide-y divide-gray-200 dark:divide-gray-600">
+            {names.map((named) => (
+              <div key={named.id} className="p-2 text-sm">
+                {editingId === named.id ? (
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      value={editingName}
+                      onChange={(e) => setEditingName(e.target.value)}
+                      className={inputClassName}
+                    />
+                    <input
+                      type="text"
+                      value={editingDefinition}
+                      onChange={(e) => setEditingDefinition(e.target.value)}
+                      className={`${inputClassName} font-mono`}
+                    />
+                    <button
+                      onClick={() => handleSaveEdit(named)}
+                      className="px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700"
+                    >
+                      저장
+                    </button>
+                    <button
+                      onClick={() => setEditingId(null)}
+                      className="px-3 py-1 bg-gray-200 dark:bg-gray-600 text-gray-700 dark:text-gray-200 rounded hover:bg-gray-300 dark:hover:bg-gray-700"
+                    >
+                      취소
+                    </button>
+                  </div>
+                ) : (
+                  <div className="flex items-center gap-2">
+                    <div className="flex-1 min-w-0">
+                      <div className="font-medium text-gray-900 dark:text-gray-100">
+                        {named.name}
+                        {isLambdaDefinition(named.definition) && (
+                          <span className="ml-2 px-1.5 py-0.5 text-xs bg-purple-100 dark:bg-purple-900 text-purple-700 dark:text-purple-200 rounded">
+                            ƒx 함수
+                          </span>
+                        )}
+                      </div>
+                      <div className="font-mono text-xs text-gray-600 dark:text-gray-400 truncate">
+                        = {named.definition}
+                      </div>
+                      {named.comment && (
+                        <div className="text-xs text-gray-500 dark:text-gray-400">
+                          {named.comment}
+                        </div>
+                      )}
+                    </div>
+                    <button
+                      onClick={() => handleShowUsages(named)}
+                      className="px-2 py-1 text-xs bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 rounded hover:bg-gray-200 dark:hover:bg-gray-600"
+                    >
+                      사용처
+                    </button>
+                    <button
+                      onClick={() => startEditing(named)}
+                      className="px-2 py-1 text-xs bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 rounded hover:bg-gray-200 dark:hover:bg-gray-600"
+                    >
+                      편집
+                    </button>
+                    <button
+                      onClick={() => handleDelete(named)}
+                      className="px-2 py-1 text-xs bg-red-100 dark:bg-red-900 text-red-700 dark:text-red-200 rounded hover:bg-red-200 dark:hover:bg-red-800"
+                    >
+                      삭제
+                    </button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Usages */}
+        {usageTarget && (
+          <div className="mb-4 p-3 bg-gray-50 dark:bg-gray-700 rounded border border-gray-200 dark:border-gray-600">
+            <div className="text-sm text-gray-700 dark:text-gray-300">
+              '{usageTarget.name}' 사용처 {usages.length}개
+            </div>
+            <div className="mt-2 max-h-40 overflow-y-auto space-y-1">
+              {usages.map((usage, index) => (
+                <div
+                  key={index}
+                  className="text-xs p-2 rounded cursor-pointer hover:bg-gray-100 dark:hover:bg-gray-600"
+                  onClick={() => navigateToUsage(usage)}
+                >
+                  {usage.type === 'cell' ? (
+                    <span className="font-medium text-gray-900 dark:text-gray-100">
+                      {usage.sheetName} •{' '}
+                      {columnIndexToLetter(usage.columnIndex)}
+                      {usage.rowIndex + 1}
+                    </span>
+                  ) : (
+                    <span className="font-medium text-gray-900 dark:text-gray-100">
+                      이름 {usage.name}
+                    </span>
+                  )}
+                  <span className="font-mono text-gray-700 dark:text-gray-300">
+                    : {usage.formula}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <button
+          onClick={onClose}
+          className="w-full px-4 py-2 bg-gray-200 dark:bg-gray-600 text-gray-700 dark:text-gray-200 rounded hover:bg-gray-300 dark:hover:bg-gray-700"
+        >
+          닫기
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,171 @@
+/**
+ * ReferenceColumnDialog Component
+ * 열을 다른 시트의 키 열을 가리키는 참조 열로 설정
+ */
+
+import { useState } from 'react';
+import { useSpreadsheetStore } from '@stores/spreadsheetStore';
+import { getReferenceOptions } from '@utils/referenceUtils';
+
+interface ReferenceColumnDialogProps {
+  sheetId: string;
+  columnId: string;
+  onClose: () => void;
+}
+
+export const ReferenceColumnDialog = ({
+  sheetId,
+  columnId,
+  onClose,
+}: ReferenceColumnDialogProps) => {
+  const sheets = useSpreadsheetStore((state) => state.sheets);
+  const updateColumn = useSpreadsheetStore((state) => state.updateColumn);
+
+  const column = sheets
+    .find((s) => s.id === sheetId)
+    ?.columns.find((c) => c.id === columnId);
+
+  // Prefer another sheet, then its ID / Name columns
+  const initialSheet =
+    sheets.find((s) => s.id === column?.reference?.sheetId) ??
+    sheets.find((s) => s.id !== sheetId) ??
+    sheets[0];
+  const findColumnId = (targetId: string, name: string) =>
+    sheets
+      .find((s) => s.id === targetId)
+      ?.columns.find(
+        (c) => c.id.toLowerCase() === name || c.name.toLowerCase() === name
+      )?.id;
+
+  const [targetSheetId, setTargetSheetId] = useState(initialSheet?.id ?? '');
+  const [keyColumnId, setKeyColumnId] = useState(
+    column?.reference?.keyColumnId ??
+      findColumnId(initialSheet?.id ?? '', 'id') ??
+      initialSheet?.columns[0]?.id ??
+      ''
+  );
+  const [displayColumnId, setDisplayColumnId] = useState(
+    column?.reference
+      ? (column.reference.displayColumnId ?? '')
+      : (findColumnId(initialSheet?.id ?? '', 'name') ?? '')
+  );
+
+  const targetSheet = sheets.find((s) => s.id === targetSheetId);
+  const optionCount = targetSheet
+    ? getReferenceOptions(sheets, {
+        sheetId: targetSheetId,
+        keyColumnId,
+      }).length
+    : 0;
+
+  const handleSheetChange = (id: string) => {
+    setTargetSheetId(id);
+    setKeyColumnId(
+      findColumnId(id, 'id') ??
+        sheets.find((s) => s.id === id)?.columns[0]?.id ??
+        ''
+    );
+    setDisplayColumnId(findColumnId(id, 'name') ?? '');
+  };
+
+  const handleApply = () => {
+    if (!targetSheet || !keyColumnId) return;
+
+    updateColumn(sheetId, columnId, {
+      type: 'reference',
+      reference: {
+        sheetId: targetSheetId,
+        keyColumnId,
+        ...(displayColumnId && { displayColumnId }),
+      },
+    });
+    onClose();
+  };
+
+  const inputClassName =
+    'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg p-6 w-[420px]">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold text-gray-900 dark:text-gray-100">
+            참조 열 설정{column ? ` - ${column.name}` : ''}
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+            title="닫기"
+          >
+            ✕
+          </button>
+        </div>
+
+        <div className="space-y-3 mb-4">
+          <label className="block text-sm text-gray-700 dark:text-gray-300">
+            참조할 시트
+            <select
+              value={targetSheetId}
+              onChange={(e) => handleSheetChange(e.target.value)}
+              className={`${inputClassName} mt-1`}
+            >
+              {sheets.map((sheet) => (
+                <option key={sheet.id} value={sheet.id}>
+                  {sheet.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="block text-sm text-gray-700 dark:text-gray-300">
+            키 열 (ID)
+            <select
+              value={keyColumnId}
+              onChange={(e) => setKeyColumnId(e.target.value)}
+              className={`${inputClassName} mt-1`}
+            >
+              {targetSheet?.columns.map((c) => (
+                <option key={c.id} value={c.id}>
+                  {c.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="block text-sm text-gray-700 dark:text-gray-300">
+            함께 표시할 열
+            <select
+              value={displayColumnId}
+              onChange={(e) => setDisplayColumnId(e.target.value)}
+              className={`${inputClassName} mt-1`}
+            >
+              <option value="">(표시 안 함)</option>
+              {targetSheet?.columns.map((c) => (
+                <option key={c.id} value={c.id}>
+                  {c.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            현재 {optionCount}개의 ID를 고를 수 있습니다
+          </p>
+        </div>
+
+        <div className="flex gap-2">
+          <button
+            onClick={onClose}
+            className="flex-1 px-4 py-2 bg-gray-200 dark:bg-gray-600 text-gray-700 dark:text-gray-200 rounded hover:bg-gray-300 dark:hover:bg-gray-700"
+          >
+            취소
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={!targetSheet || !keyColumnId}
+            className="flex-1 px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+          >
+            적용
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
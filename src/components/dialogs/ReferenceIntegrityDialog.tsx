@@ -0,0 +1,126 @@
+/**
+ * ReferenceIntegrityDialog Component
+ * 다른 시트에서 참조 중인 ID를 바꾸거나 행을 삭제할 때 처리 방법 선택
+ * (참조도 변경 / 참조 비우기 / 참조된 대상 유지)
+ */
+
+import { useSpreadsheetStore } from '@stores/spreadsheetStore';
+import {
+  validateReferenceResolution,
+  type ReferenceResolution,
+} from '@utils/referenceUtils';
+
+// 시트별로 보여줄 참조 행 수
+const MAX_LISTED_REFERENCES = 5;
+
+export const ReferenceIntegrityDialog = () => {
+  const change = useSpreadsheetStore((state) => state.pendingReferenceChange);
+  const sheets = useSpreadsheetStore((state) => state.sheets);
+  const resolveReferenceChange = useSpreadsheetStore(
+    (state) => state.resolveReferenceChange
+  );
+
+  if (!change) return null;
+
+  const sheet = sheets.find((s) => s.id === change.sheetId);
+  const oldKey = change.references[0]?.key ?? '';
+  const canCascade = validateReferenceResolution(change, 'cascade') === null;
+
+  // Group the inbound references by sheet and column
+  const groups = new Map<string, { title: string; rows: number[] }>();
+  change.references.forEach((ref) => {
+    const source = sheets.find((s) => s.id === ref.sheetId);
+    const column = source?.columns.find((c) => c.id === ref.columnId);
+    const rowIndex = source?.rows.findIndex((r) => r.id === ref.rowId) ?? -1;
+    const groupKey = `${ref.sheetId}:${ref.columnId}`;
+    const group = groups.get(groupKey) ?? {
+      title: `${source?.name ?? ref.sheetId} · ${column?.name ?? ref.columnId}`,
+      rows: [],
+    };
+    group.rows.push(rowIndex + 1);
+    groups.set(groupKey, group);
+  });
+
+  const resolve = (resolution: ReferenceResolution) => {
+    resolveReferenceChange(resolution);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg p-6 w-[480px]">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold text-gray-900 dark:text-gray-100">
+            참조 중인 ID
+          </h2>
+          <button
+            onClick={() => resolve('block')}
+            className="text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+            title="닫기"
+          >
+            ✕
+          </button>
+        </div>
+
+        <p className="mb-3 text-sm text-gray-700 dark:text-gray-300">
+          {change.targets.length > 1 ? (
+            change.action === 'rename' ? (
+              `ID ${change.targets.length}개를 바꾸면 `
+            ) : (
+              `${sheet?.name ?? ''}의 ${change.targets.length}개 행을 삭제하면 `
+            )
+          ) : change.action === 'rename' ? (
+            <>
+              <span className="font-mono">{oldKey}</span>
+              {' → '}
+              <span className="font-mono">
+                {String(change.targets[0]?.value ?? '')}
+              </span>
+              {' 로 바꾸면 '}
+            </>
+          ) : (
+            <>
+              {sheet?.name ?? ''}의 <span className="font-mono">{oldKey}</span>
+              {' 행을 삭제하면 '}
+            </>
+          )}
+          {change.references.length}개의 참조가 끊어집니다.
+        </p>
+
+        <ul className="mb-4 max-h-48 overflow-y-auto text-sm text-gray-600 dark:text-gray-400 space-y-1">
+          {[...groups.entries()].map(([groupKey, group]) => (
+            <li key={groupKey}>
+              <span className="font-medium">{group.title}</span>
+              {' — '}
+              {group.rows.slice(0, MAX_LISTED_REFERENCES).join(', ')}행
+              {group.rows.length > MAX_LISTED_REFERENCES &&
+                ` 외 ${group.rows.length - MAX_LISTED_REFERENCES}개`}
+            </li>
+          ))}
+        </ul>
+
+        <div className="flex gap-2">
+          <button
+            onClick={() => resolve('block')}
+            className="flex-1 px-4 py-2 bg-gray-200 dark:bg-gray-600 text-gray-700 dark:text-gray-200 rounded hover:bg-gray-300 dark:hover:bg-gray-700"
+          >
+            {change.action === 'rename' ? '참조된 ID 유지' : '참조된 행 유지'}
+          </button>
+          <button
+            onClick={() => resolve('nullify')}
+            className="flex-1 px-4 py-2 bg-red-600 text-white rounded hover:bg-red-700"
+          >
+            참조 비우기
+          </button>
+          {canCascade && (
+            <button
+              onClick={() => resolve('cascade')}
+              className="flex-1 px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
+            >
+              참조도 변경
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
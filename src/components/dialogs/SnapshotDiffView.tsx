@@ -0,0 +1,224 @@
+/**
+ * SnapshotDiffView Component
+ * 두 버전 사이의 셀 단위 변경 목록 (추가/삭제된 행, 바뀐 값과 수식)
+ * onRestoreRows가 있으면 행을 골라 기준 버전으로 되돌릴 수 있다
+ */
+
+import { useState } from 'react';
+import type { Sheet } from '@types';
+import { formatAuditValue } from '@services/formula/formulaAudit';
+import {
+  summarizeDiff,
+  type CellContent,
+  type RowDiff,
+  type SheetDiff,
+} from '@utils/versionUtils';
+
+// 시트별로 처음에 보여줄 행 수
+const MAX_LISTED_ROWS = 50;
+
+interface SnapshotDiffViewProps {
+  diffs: SheetDiff[];
+  baseSheets: Sheet[];
+  targetSheets: Sheet[];
+  onRestoreRows?: (sheetId: string, rowIds: string[]) => void;
+}
+
+const statusStyles: Record<RowDiff['status'], string> = {
+  added: 'text-green-700 dark:text-green-400',
+  removed: 'text-red-700 dark:text-red-400',
+  changed: 'text-yellow-700 dark:text-yellow-400',
+};
+
+const statusMarks: Record<RowDiff['status'], string> = {
+  added: '+',
+  removed: '−',
+  changed: '~',
+};
+
+const formatContent = (content: CellContent | null) => {
+  if (!content) return '(빈 셀)';
+  return content.formula
+    ? `${content.formula} → ${formatAuditValue(content.value)}`
+    : formatAuditValue(content.value);
+};
+
+export const SnapshotDiffView = ({
+  diffs,
+  baseSheets,
+  targetSheets,
+  onRestoreRows,
+}: SnapshotDiffViewProps) => {
+  const [selected, setSelected] = useState<Record<string, string[]>>({});
+  const [expanded, setExpanded] = useState<Record<string, boolean>>({});
+
+  const summary = summarizeDiff(diffs);
+
+  if (diffs.length === 0) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        두 버전이 같습니다
+      </p>
+    );
+  }
+
+  const findColumnName = (sheetId: string, columnId: string) =>
+    [...targetSheets, ...baseSheets]
+      .find((s) => s.id === sheetId)
+      ?.columns.find((c) => c.id === columnId)?.name ?? columnId;
+
+  // Row number and the first column's value (보통 ID) of the version holding the row
+  const getRowLabel = (sheetId: string, row: RowDiff) => {
+    const sheets = row.status === 'removed' ? baseSheets : targetSheets;
+    const sheet = sheets.find((s) => s.id === sheetId);
+    const firstColumn = sheet?.columns[0];
+    const key = firstColumn
+      ? sheet?.rows[row.rowIndex]?.cells[firstColumn.id]?.value
+      : null;
+    return key === null || key === undefined || key === ''
+      ? `${row.rowIndex + 1}행`
+      : `${row.rowIndex + 1}행 (${String(key)})`;
+  };
+
+  const toggleRow = (sheetId: string, rowId: string) =>
+    setSelected((prev) => {
+      const rows = prev[sheetId] ?? [];
+      return {
+        ...prev,
+        [sheetId]: rows.includes(rowId)
+          ? rows.filter((id) => id !== rowId)
+          : [...rows, rowId],
+      };
+    });
+
+  const restoreSelected = (sheetId: string) => {
+    const rowIds = selected[sheetId] ?? [];
+    if (!onRestoreRows || rowIds.length === 0) return;
+    onRestoreRows(sheetId, rowIds);
+    setSelected((prev) => ({ ...prev, [sheetId]: [] }));
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-gray-700 dark:text-gray-300">
+        추가된 행 {summary.addedRows}개 · 삭제된 행 {summary.removedRows}개 ·
+        바뀐 셀 {summary.changedCells}개 ({summary.changedRows}행)
+      </p>
+
+      {diffs.map((diff) => {
+        const rows = expanded[diff.sheetId]
+          ? diff.rows
+          : diff.rows.slice(0, MAX_LISTED_ROWS);
+        const selectedCount = selected[diff.sheetId]?.length ?? 0;
+        // Only rows that exist in the base version can be restored
+        const canRestore = onRestoreRows && diff.status === 'changed';
+
+        return (
+          <div
+            key={diff.sheetId}
+            className="border border-gray-200 dark:border-gray-700 rounded"
+          >
+            <div className="flex justify-between items-center px-3 py-2 bg-gray-50 dark:bg-gray-700/50">
+              <span className="text-sm font-medium text-gray-900 dark:text-gray-100">
+                {diff.name}
+                {diff.status !== 'changed' && (
+                  <span className={`ml-2 ${statusStyles[diff.status]}`}>
+                    {diff.status === 'added' ? '추가된 시트' : '삭제된 시트'}
+                  </span>
+                )}
+              </span>
+              {canRestore && (
+                <button
+                  onClick={() => restoreSelected(diff.sheetId)}
+                  disabled={selectedCount === 0}
+                  className="px-2 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+                >
+                  선택한 행 복원 ({selectedCount})
+                </button>
+              )}
+            </div>
+
+            {(diff.addedColumns.length > 0 ||
+              diff.removedColumns.length > 0) && (
+              <p className="px-3 pt-2 text-xs text-gray-600 dark:text-gray-400">
+                {diff.addedColumns.length > 0 &&
+                  `추가된 열: ${diff.addedColumns.join(', ')} `}
+                {diff.removedColumns.length > 0 &&
+                  `삭제된 열: ${diff.removedColumns.join(', ')}`}
+              </p>
+            )}
+
+            <ul className="px-3 py-2 space-y-2 text-sm">
+              {rows.map((row) => (
+                <li key={row.rowId}>
+                  <label className="flex items-center gap-2">
+                    {canRestore && (
+                      <input
+                        type="checkbox"
+                        disabled={row.status === 'added'}
+                        checked={
+                          selected[diff.sheetId]?.includes(row.rowId) ?? false
+                        }
+                        onChange={() => toggleRow(diff.sheetId, row.rowId)}
+                        title={
+                          row.status === 'added'
+                            ? '기준 버전에 없는 행입니다'
+                            : '이 행을 기준 버전으로 되돌리기'
+                        }
+                      />
+                    )}
+                    <span
+                      className={`font-mono w-4 ${statusStyles[row.status]}`}
+                    >
+                      {statusMarks[row.status]}
+                    </span>
+                    <span className="text-gray-900 dark:text-gray-100">
+                      {getRowLabel(diff.sheetId, row)}
+                    </span>
+                  </label>
+                  <ul className="ml-10 text-xs text-gray-600 dark:text-gray-400">
+                    {row.cells.map((cell) => (
+                      <li key={cell.columnId}>
+                        <span className="font-medium">
+                          {findColumnName(diff.sheetId, cell.columnId)}
+                        </span>
+                        {': '}
+                        {row.status === 'changed' ? (
+                          <>
+                            <span className="line-through">
+                              {formatContent(cell.before)}
+                            </span>
+                            {' → '}
+                            <span>{formatContent(cell.after)}</span>
+                            {cell.formulaChanged && (
+                              <span className="ml-1 text-purple-600 dark:text-purple-400">
+                                (수식 변경)
+                              </span>
+                            )}
+                          </>
+                        ) : (
+                          formatContent(cell.before ?? cell.after)
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                </li>
+              ))}
+            </ul>
+
+            {diff.rows.length > rows.length && (
+              <button
+                onClick={() =>
+                  setExpanded((prev) => ({ ...prev, [diff.sheetId]: true }))
+                }
+                className="px-3 pb-2 text-xs text-blue-600 dark:text-blue-400 hover:underline"
+              >
+                {diff.rows.length - rows.length}개 더 보기
+              </button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
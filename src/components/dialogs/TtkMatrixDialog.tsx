@@ -0,0 +1,173 @@
+/**
+ * TtkMatrixDialog Component
+ * 캐릭터 시트 × 적 시트의 TTK(처치 시간) 매트릭스 시트 생성
+ * 기준 시간에 따라 빠름/적정/느림 조건부 서식이 함께 적용된다
+ */
+
+import { useState } from 'react';
+import { useSpreadsheetStore } from '@stores/spreadsheetStore';
+import { validateTtkMatrixSources } from '@utils/combatMatrix';
+
+interface TtkMatrixDialogProps {
+  onClose: () => void;
+}
+
+export const TtkMatrixDialog = ({ onClose }: TtkMatrixDialogProps) => {
+  const sheets = useSpreadsheetStore((state) => state.sheets);
+  const createTtkMatrix = useSpreadsheetStore((state) => state.createTtkMatrix);
+
+  // Default to the Character / Enemy template sheets
+  const findSheetId = (pattern: RegExp) =>
+    (sheets.find((s) => pattern.test(s.name)) ?? sheets[0])?.id ?? '';
+
+  const [characterSheetId, setCharacterSheetId] = useState(() =>
+    findSheetId(/character/i)
+  );
+  const [enemySheetId, setEnemySheetId] = useState(() => findSheetId(/enemy/i));
+  const [fast, setFast] = useState('5');
+  const [slow, setSlow] = useState('15');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleCreate = () => {
+    const characterSheet = sheets.find((s) => s.id === characterSheetId);
+    const enemySheet = sheets.find((s) => s.id === enemySheetId);
+    if (!characterSheet || !enemySheet) {
+      setError('캐릭터 시트와 적 시트를 선택하세요');
+      return;
+    }
+
+    const fastSeconds = Number(fast);
+    const slowSeconds = Number(slow);
+    if (
+      !Number.isFinite(fastSeconds) ||
+      !Number.isFinite(slowSeconds) ||
+      fastSeconds < 0 ||
+      slowSeconds < fastSeconds
+    ) {
+      setError('기준 시간은 0 이상이고, 느림 기준이 빠름 기준보다 커야 합니다');
+      return;
+    }
+
+    const validationError = validateTtkMatrixSources(
+      characterSheet,
+      enemySheet
+    );
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    if (
+      createTtkMatrix(characterSheetId, enemySheetId, {
+        fast: fastSeconds,
+        slow: slowSeconds,
+      })
+    ) {
+      onClose();
+    }
+  };
+
+  const inputClassName =
+    'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg p-6 w-[440px]">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold text-gray-900 dark:text-gray-100">
+            TTK 매트릭스
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+            title="닫기"
+          >
+            ✕
+          </button>
+        </div>
+
+        <p className="mb-4 text-xs text-gray-500 dark:text-gray-400">
+          캐릭터(행)가 적(열)을 처치하는 시간을 =TTK(...) 수식으로 채운 새
+          시트를 만듭니다. Name, Attack, HP 열이 필요하며 Defense, Attack Speed,
+          Crit Chance, Crit Multiplier 열이 있으면 함께 사용합니다.
+        </p>
+
+        <div className="space-y-3 mb-4">
+          <label className="block text-sm text-gray-700 dark:text-gray-300">
+            캐릭터 시트
+            <select
+              value={characterSheetId}
+              onChange={(e) => setCharacterSheetId(e.target.value)}
+              className={`${inputClassName} mt-1`}
+            >
+              {sheets.map((sheet) => (
+                <option key={sheet.id} value={sheet.id}>
+                  {sheet.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="block text-sm text-gray-700 dark:text-gray-300">
+            적 시트
+            <select
+              value={enemySheetId}
+              onChange={(e) => setEnemySheetId(e.target.value)}
+              className={`${inputClassName} mt-1`}
+            >
+              {sheets.map((sheet) => (
+                <option key={sheet.id} value={sheet.id}>
+                  {sheet.name}
+                </option>
+              ))}
+            </select>
+          </label>
+          <div className="grid grid-cols-2 gap-3">
+            <label className="text-sm text-gray-700 dark:text-gray-300">
+              빠름 기준 (초 미만)
+              <input
+                type="number"
+                min={0}
+                step="any"
+                value={fast}
+                onChange={(e) => setFast(e.target.value)}
+                className={`${inputClassName} mt-1`}
+              />
+            </label>
+            <label className="text-sm text-gray-700 dark:text-gray-300">
+              느림 기준 (초 초과)
+              <input
+                type="number"
+                min={0}
+                step="any"
+                value={slow}
+                onChange={(e) => setSlow(e.target.value)}
+                className={`${inputClassName} mt-1`}
+              />
+            </label>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mb-4 text-sm text-red-600 dark:text-red-400">
+            {error}
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <button
+            onClick={onClose}
+            className="flex-1 px-4 py-2 bg-gray-200 dark:bg-gray-600 text-gray-700 dark:text-gray-200 rounded hover:bg-gray-300 dark:hover:bg-gray-700"
+          >
+            취소
+          </button>
+          <button
+            onClick={handleCreate}
+            className="flex-1 px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
+          >
+            생성
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
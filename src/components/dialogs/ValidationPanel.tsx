@@ -28,6 +28,7 @@ export const ValidationPanel = ({ sheet, onClose }: ValidationPanelProps) => {
   const [isValidating, setIsValidating] = useState(false);
   const [validationComplete, setValidationComplete] = useState(false);
 
+  const sheets = useSpreadsheetStore((state) => state.sheets);
   const setSelection = useSpreadsheetStore((state) => state.setSelection);
   const { validateSheet } = useDataValidation();
 
@@ -91,7 +92,7 @@ export const ValidationPanel = ({ sheet, onClose }: ValidationPanelProps) => {
 
     // Simulate async validation with setTimeout
     setTimeout(() => {
-      const result = validateSheet(sheet);
+      const result = validateSheet(sheet, sheets);
 
       const allErrors = [
         ...convertToDisplayFormat(sheet, result.errors),
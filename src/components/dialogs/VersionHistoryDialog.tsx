@@ -0,0 +1,300 @@
+/**
+ * VersionHistoryDialog Component
+ * 버전 기록 - 이름 붙인 스냅샷 저장/목록, 두 버전 비교,
+ * 버전 전체 또는 선택한 행 복원 (복원은 실행 취소할 수 있다)
+ */
+
+import { useEffect, useMemo, useState } from 'react';
+import type { Snapshot } from '@types';
+import { useSpreadsheetStore } from '@stores/spreadsheetStore';
+import { diffWorkbooks, validateSnapshotName } from '@utils/versionUtils';
+import { SnapshotDiffView } from './SnapshotDiffView';
+
+// 비교 대상으로 고를 수 있는 현재 작업본
+const CURRENT_VERSION = 'current';
+
+interface VersionHistoryDialogProps {
+  onClose: () => void;
+}
+
+interface ComparedVersions {
+  base: Snapshot | null; // null: 현재 작업본
+  target: Snapshot | null;
+}
+
+export const VersionHistoryDialog = ({
+  onClose,
+}: VersionHistoryDialogProps) => {
+  const sheets = useSpreadsheetStore((state) => state.sheets);
+  const snapshots = useSpreadsheetStore((state) => state.snapshots);
+  const loadSnapshots = useSpreadsheetStore((state) => state.loadSnapshots);
+  const createSnapshot = useSpreadsheetStore((state) => state.createSnapshot);
+  const getSnapshot = useSpreadsheetStore((state) => state.getSnapshot);
+  const deleteSnapshot = useSpreadsheetStore((state) => state.deleteSnapshot);
+  const restoreSnapshot = useSpreadsheetStore((state) => state.restoreSnapshot);
+  const restoreSnapshotRows = useSpreadsheetStore(
+    (state) => state.restoreSnapshotRows
+  );
+
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [baseId, setBaseId] = useState('');
+  const [targetId, setTargetId] = useState(CURRENT_VERSION);
+  const [compared, setCompared] = useState<ComparedVersions | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadSnapshots();
+  }, [loadSnapshots]);
+
+  // The current workbook side follows live edits (행 복원 후 바로 반영)
+  const baseSheets = compared?.base?.data.sheets ?? sheets;
+  const targetSheets = compared?.target?.data.sheets ?? sheets;
+  const diffs = useMemo(
+    () => (compared ? diffWorkbooks(baseSheets, targetSheets) : []),
+    [compared, baseSheets, targetSheets]
+  );
+
+  const loadVersion = async (id: string) =>
+    id === CURRENT_VERSION ? null : getSnapshot(id);
+
+  const handleCreate = async () => {
+    setMessage(null);
+    const validationError = validateSnapshotName(snapshots, name);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    const snapshot = await createSnapshot(name, description);
+    if (!snapshot) {
+      setError('스냅샷을 저장하지 못했습니다');
+      return;
+    }
+    setName('');
+    setDescription('');
+    setError(null);
+    setMessage(`'${snapshot.name}' 버전을 저장했습니다`);
+  };
+
+  const handleCompare = async (base = baseId, target = targetId) => {
+    setMessage(null);
+    if (!base || base === target) {
+      setError('서로 다른 두 버전을 고르세요');
+      return;
+    }
+
+    const [baseVersion, targetVersion] = await Promise.all([
+      loadVersion(base),
+      loadVersion(target),
+    ]);
+    if (
+      (base !== CURRENT_VERSION && !baseVersion) ||
+      (target !== CURRENT_VERSION && !targetVersion)
+    ) {
+      setError('버전을 불러오지 못했습니다');
+      return;
+    }
+    setBaseId(base);
+    setTargetId(target);
+    setCompared({ base: baseVersion, target: targetVersion });
+    setError(null);
+  };
+
+  const handleRestore = async (id: string, snapshotName: string) => {
+    if (
+      !window.confirm(
+        `작업본 전체를 '${snapshotName}' 버전으로 되돌리시겠습니까? (실행 취소할 수 있습니다)`
+      )
+    ) {
+      return;
+    }
+
+    const snapshot = await getSnapshot(id);
+    if (!snapshot) {
+      setError('버전을 불러오지 못했습니다');
+      return;
+    }
+    restoreSnapshot(snapshot);
+    setError(null);
+    setMessage(`'${snapshotName}' 버전으로 되돌렸습니다`);
+  };
+
+  const handleDelete = async (id: string, snapshotName: string) => {
+    if (!window.confirm(`'${snapshotName}' 버전을 삭제하시겠습니까?`)) return;
+
+    await deleteSnapshot(id);
+    if (baseId === id || targetId === id) {
+      setCompared(null);
+    }
+  };
+
+  // Rows go back from the base snapshot into the current workbook
+  const handleRestoreRows = (sheetId: string, rowIds: string[]) => {
+    if (!compared?.base) return;
+    const count = restoreSnapshotRows(compared.base, sheetId, rowIds);
+    setMessage(`${count}개 행을 '${compared.base.name}' 버전으로 되돌렸습니다`);
+  };
+
+  const inputClassName =
+    'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100 placeholder-gray-400 dark:placeholder-gray-500';
+
+  const versionOptions = (
+    <>
+      <option value={CURRENT_VERSION}>현재 작업본</option>
+      {snapshots.map((snapshot) => (
+        <option key={snapshot.id} value={snapshot.id}>
+          {snapshot.name}
+        </option>
+      ))}
+    </>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg p-6 w-[720px] max-h-[85vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold text-gray-900 dark:text-gray-100">
+            버전 기록
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+            title="닫기"
+          >
+            ✕
+          </button>
+        </div>
+
+        {/* New snapshot */}
+        <div className="mb-4 flex gap-2">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+            placeholder="버전 이름 (예: pre-patch 1.4 balance)"
+            className={inputClassName}
+            autoFocus
+          />
+          <input
+            type="text"
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="설명 (선택)"
+            className={inputClassName}
+          />
+          <button
+            onClick={handleCreate}
+            disabled={!name.trim()}
+            className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 whitespace-nowrap"
+          >
+            버전 저장
+          </button>
+        </div>
+
+        {error && (
+          <div className="mb-3 text-sm text-red-600 dark:text-red-400">
+            {error}
+          </div>
+        )}
+        {message && (
+          <div className="mb-3 text-sm text-green-700 dark:text-green-400">
+            {message}
+          </div>
+        )}
+
+        {/* Snapshot list */}
+        {snapshots.length === 0 ? (
+          <p className="mb-4 text-sm text-gray-500 dark:text-gray-400">
+            저장한 버전이 없습니다
+          </p>
+        ) : (
+          <ul className="mb-4 divide-y divide-gray-200 dark:divide-gray-700 border border-gray-200 dark:border-gray-700 rounded max-h-56 overflow-y-auto">
+            {snapshots.map((snapshot) => (
+              <li
+                key={snapshot.id}
+                className="flex items-center justify-between gap-2 px-3 py-2"
+              >
+                <div className="min-w-0">
+                  <div className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">
+                    {snapshot.name}
+                  </div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400 truncate">
+                    {snapshot.createdAt.toLocaleString()}
+                    {snapshot.description && ` · ${snapshot.description}`}
+                  </div>
+                </div>
+                <div className="flex gap-1 shrink-0">
+                  <button
+                    onClick={() => handleCompare(snapshot.id, CURRENT_VERSION)}
+                    className="px-2 py-1 text-xs bg-gray-200 dark:bg-gray-600 text-gray-700 dark:text-gray-200 rounded hover:bg-gray-300 dark:hover:bg-gray-700"
+                    title="현재 작업본과 비교"
+                  >
+                    비교
+                  </button>
+                  <button
+                    onClick={() => handleRestore(snapshot.id, snapshot.name)}
+                    className="px-2 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700"
+                  >
+                    복원
+                  </button>
+                  <button
+                    onClick={() => handleDelete(snapshot.id, snapshot.name)}
+                    className="px-2 py-1 text-xs bg-red-600 text-white rounded hover:bg-red-700"
+                  >
+                    삭제
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {/* Compare any two versions */}
+        <div className="mb-4 flex items-end gap-2">
+          <label className="flex-1 text-sm text-gray-700 dark:text-gray-300">
+            기준 버전
+            <select
+              value={baseId}
+              onChange={(e) => setBaseId(e.target.value)}
+              className={`${inputClassName} mt-1`}
+            >
+              <option value="">(선택)</option>
+              {versionOptions}
+            </select>
+          </label>
+          <label className="flex-1 text-sm text-gray-700 dark:text-gray-300">
+            비교 버전
+            <select
+              value={targetId}
+              onChange={(e) => setTargetId(e.target.value)}
+              className={`${inputClassName} mt-1`}
+            >
+              {versionOptions}
+            </select>
+          </label>
+          <button
+            onClick={() => handleCompare()}
+            disabled={!baseId}
+            className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+          >
+            비교
+          </button>
+        </div>
+
+        {compared && (
+          <SnapshotDiffView
+            diffs={diffs}
+            baseSheets={baseSheets}
+            targetSheets={targetSheets}
+            onRestoreRows={
+              compared.base && !compared.target ? handleRestoreRows : undefined
+            }
+          />
+        )}
+      </div>
+    </div>
+  );
+};
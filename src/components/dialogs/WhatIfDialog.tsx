@@ -0,0 +1,253 @@
+/**
+ * WhatIfDialog Component
+ * 가상 분석 - 목표값 찾기(수식 결과를 목표값에 맞추는 입력 값 찾기)와
+ * 선택 영역에 1·2변수 데이터 표 채우기 (결과는 실행 취소할 수 있다)
+ */
+
+import { useState } from 'react';
+import { useSpreadsheetStore } from '@stores/spreadsheetStore';
+import {
+  resolveWhatIfCell,
+  validateDataTable,
+  validateGoalSeek,
+  type DataTableInputs,
+} from '@services/formula/whatIf';
+import { formatAuditValue } from '@services/formula/formulaAudit';
+import { getCellReference, getRangeReference } from '@utils/gridUtils';
+
+type WhatIfMode = 'goalSeek' | 'dataTable';
+
+interface WhatIfDialogProps {
+  onClose: () => void;
+}
+
+export const WhatIfDialog = ({ onClose }: WhatIfDialogProps) => {
+  const sheets = useSpreadsheetStore((state) => state.sheets);
+  const activeSheetId = useSpreadsheetStore((state) => state.activeSheetId);
+  const selection = useSpreadsheetStore((state) => state.selection);
+  const goalSeek = useSpreadsheetStore((state) => state.goalSeek);
+  const fillDataTable = useSpreadsheetStore((state) => state.fillDataTable);
+
+  const [mode, setMode] = useState<WhatIfMode>('goalSeek');
+  const [targetReference, setTargetReference] = useState(
+    selection ? getCellReference(selection.startRow, selection.startColumn) : ''
+  );
+  const [targetValue, setTargetValue] = useState('');
+  const [inputReference, setInputReference] = useState('');
+  const [rowInputReference, setRowInputReference] = useState('');
+  const [columnInputReference, setColumnInputReference] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const resolve = (reference: string) =>
+    resolveWhatIfCell(sheets, activeSheetId, reference);
+
+  const handleGoalSeek = () => {
+    setMessage(null);
+    const target = resolve(targetReference);
+    const input = resolve(inputReference);
+    const value = Number(targetValue);
+    if (!target || !input) {
+      setError('셀 참조가 올바르지 않습니다 (예: B2, Stats!C5)');
+      return;
+    }
+    if (targetValue.trim() === '' || !Number.isFinite(value)) {
+      setError('목표값은 숫자여야 합니다');
+      return;
+    }
+
+    const validationError = validateGoalSeek(sheets, target, input);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    const result = goalSeek(target, value, input);
+    if (!result) return;
+    setError(null);
+    setMessage(
+      result.found
+        ? `${inputReference.trim()} = ${formatAuditValue(result.value)} (결과 ${formatAuditValue(result.result)}, ${result.iterations}회 반복)`
+        : `해를 찾지 못했습니다. 가장 가까운 값: ${formatAuditValue(result.value)} → ${formatAuditValue(result.result)}`
+    );
+  };
+
+  const handleDataTable = () => {
+    setMessage(null);
+    if (!selection) {
+      setError('데이터 표로 사용할 범위를 먼저 선택하세요');
+      return;
+    }
+
+    const inputs: DataTableInputs = {};
+    for (const [reference, key] of [
+      [rowInputReference, 'rowInput'],
+      [columnInputReference, 'columnInput'],
+    ] as const) {
+      if (reference.trim() === '') continue;
+      const cell = resolve(reference);
+      if (!cell) {
+        setError(`셀 참조가 올바르지 않습니다: ${reference}`);
+        return;
+      }
+      inputs[key] = cell;
+    }
+
+    const validationError = validateDataTable(
+      sheets,
+      activeSheetId,
+      selection,
+      inputs
+    );
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    if (fillDataTable(activeSheetId, selection, inputs)) {
+      setError(null);
+      setMessage('데이터 표를 채웠습니다');
+    }
+  };
+
+  const inputClassName =
+    'w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100';
+  const tabClassName = (active: boolean) =>
+    `flex-1 px-3 py-1 text-sm rounded ${
+      active
+        ? 'bg-blue-600 text-white'
+        : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
+    }`;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white dark:bg-gray-800 rounded-lg p-6 w-[480px]">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-bold text-gray-900 dark:text-gray-100">
+            가상 분석
+          </h2>
+          <button
+            onClick={onClose}
+            className="text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200"
+            title="닫기"
+          >
+            ✕
+          </button>
+        </div>
+
+        <div className="flex gap-2 mb-4">
+          <button
+            onClick={() => setMode('goalSeek')}
+            className={tabClassName(mode === 'goalSeek')}
+          >
+            목표값 찾기
+          </button>
+          <button
+            onClick={() => setMode('dataTable')}
+            className={tabClassName(mode === 'dataTable')}
+          >
+            데이터 표
+          </button>
+        </div>
+
+        {mode === 'goalSeek' ? (
+          <div className="space-y-3 mb-4">
+            <label className="block text-sm text-gray-700 dark:text-gray-300">
+              수식 셀
+              <input
+                type="text"
+                value={targetReference}
+                onChange={(e) => setTargetReference(e.target.value)}
+                placeholder="예: F12"
+                className={`${inputClassName} mt-1`}
+              />
+            </label>
+            <label className="block text-sm text-gray-700 dark:text-gray-300">
+              찾는 값
+              <input
+                type="number"
+                step="any"
+                value={targetValue}
+                onChange={(e) => setTargetValue(e.target.value)}
+                placeholder="예: 12"
+                className={`${inputClassName} mt-1`}
+              />
+            </label>
+            <label className="block text-sm text-gray-700 dark:text-gray-300">
+              값을 바꿀 셀
+              <input
+                type="text"
+                value={inputReference}
+                onChange={(e) => setInputReference(e.target.value)}
+                placeholder="예: B2"
+                className={`${inputClassName} mt-1`}
+              />
+            </label>
+          </div>
+        ) : (
+          <div className="space-y-3 mb-4">
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              범위:{' '}
+              {selection
+                ? getRangeReference(
+                    selection.startRow,
+                    selection.startColumn,
+                    selection.endRow,
+                    selection.endColumn
+                  )
+                : '선택 없음'}
+              . 첫 행과 첫 열에 대입할 값(또는 수식)을 두고, 두 입력을 모두 쓰면
+              왼쪽 위 셀에 수식을 둡니다.
+            </p>
+            <label className="block text-sm text-gray-700 dark:text-gray-300">
+              행 입력 셀 (첫 행의 값을 대입)
+              <input
+                type="text"
+                value={rowInputReference}
+                onChange={(e) => setRowInputReference(e.target.value)}
+                placeholder="예: B1"
+                className={`${inputClassName} mt-1`}
+              />
+            </label>
+            <label className="block text-sm text-gray-700 dark:text-gray-300">
+              열 입력 셀 (첫 열의 값을 대입)
+              <input
+                type="text"
+                value={columnInputReference}
+                onChange={(e) => setColumnInputReference(e.target.value)}
+                placeholder="예: B2"
+                className={`${inputClassName} mt-1`}
+              />
+            </label>
+          </div>
+        )}
+
+        {error && (
+          <div className="mb-4 text-sm text-red-600 dark:text-red-400">
+            {error}
+          </div>
+        )}
+        {message && (
+          <div className="mb-4 text-sm text-green-700 dark:text-green-400">
+            {message}
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <button
+            onClick={onClose}
+            className="flex-1 px-4 py-2 bg-gray-200 dark:bg-gray-600 text-gray-700 dark:text-gray-200 rounded hover:bg-gray-300 dark:hover:bg-gray-700"
+          >
+            닫기
+          </button>
+          <button
+            onClick={mode === 'goalSeek' ? handleGoalSeek : handleDataTable}
+            className="flex-1 px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
+          >
+            {mode === 'goalSeek' ? '찾기' : '표 채우기'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -11,6 +11,7 @@ import {
   type GameDataTemplate,
 } from '@utils/gameTemplates';
 import { useGameDataTemplate } from '@hooks/useGameDataTemplate';
+import { TtkMatrixDialog } from '../dialogs/TtkMatrixDialog';
 
 interface TemplateInfo {
   type: GameDataTemplateType;
@@ -99,6 +100,7 @@ export const Sidebar = () => {
   const [editingSheetId, setEditingSheetId] = useState<string | null>(null);
   const [editingName, setEditingName] = useState('');
   const [showTemplateGallery, setShowTemplateGallery] = useState(false);
+  const [showTtkMatrixDialog, setShowTtkMatrixDialog] = useState(false);
   const [selectedTemplate, setSelectedTemplate] =
     useState<GameDataTemplateType | null>(null);
 
@@ -254,6 +256,13 @@ export const Sidebar = () => {
         >
           📋 템플릿 둘러보기
         </button>
+        <button
+          onClick={() => setShowTtkMatrixDialog(true)}
+          className="w-full mt-2 px-3 py-2 text-sm rounded border border-primary-300 dark:border-primary-700 text-primary-700 dark:text-primary-300 hover:bg-primary-50 dark:hover:bg-primary-900/30 transition-colors"
+          title="캐릭터 × 적 처치 시간 매트릭스 시트 생성"
+        >
+          ⚔️ TTK 매트릭스 만들기
+        </button>
       </div>
 
       {/* Template Gallery Modal */}
@@ -268,6 +277,11 @@ export const Sidebar = () => {
           onCreate={handleCreateFromTemplate}
         />
       )}
+
+      {/* TTK Matrix Dialog */}
+      {showTtkMatrixDialog && (
+        <TtkMatrixDialog onClose={() => setShowTtkMatrixDialog(false)} />
+      )}
     </div>
   );
 };
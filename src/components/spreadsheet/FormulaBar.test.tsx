@@ -6,7 +6,8 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { render, screen, fireEvent } from '@testing-library/react';
 import { FormulaBar } from './FormulaBar';
 import { useSpreadsheetStore } from '@stores/spreadsheetStore';
-import type { Sheet, SelectionRange } from '@types';
+import type { Sheet, SelectionRange, NamedRange } from '@types';
+import type { FormulaEditing } from '@services/formula/formulaEditor';
 
 // Mock the store
 vi.mock('@stores/spreadsheetStore', () => ({
@@ -66,6 +67,11 @@ describe('FormulaBar', () => {
     sheets: [mockSheet],
     selection: null as SelectionRange | null,
     updateCell: vi.fn(),
+    names: [] as NamedRange[],
+    formulaEditing: null as FormulaEditing | null,
+    startFormulaEditing: vi.fn(),
+    stopFormulaEditing: vi.fn(),
+    setActiveSheet: vi.fn(),
   };
 
   beforeEach(() => {
@@ -202,6 +208,34 @@ describe('FormulaBar', () => {
     expect(screen.getByText('SUM')).toBeInTheDocument();
   });
 
+  it('shows workbook LAMBDA functions in autocomplete', () => {
+    (
+      useSpreadsheetStore as unknown as ReturnType<typeof vi.fn>
+    ).mockImplementation(
+      (selector: (state: typeof defaultStoreState) => unknown) =>
+        selector({
+          ...defaultStoreState,
+          selection: { startRow: 0, endRow: 0, startColumn: 0, endColumn: 0 },
+          names: [
+            {
+              id: 'name-1',
+              name: 'Effective_HP',
+              definition: 'LAMBDA(hp, def, hp * (1 + def / 100))',
+            },
+            { id: 'name-2', name: 'EXTRA_RATE', definition: '1.5' },
+          ],
+        })
+    );
+
+    render(<FormulaBar />);
+
+    const input = screen.getByPlaceholderText(/값 또는 수식/i);
+    fireEvent.change(input, { target: { value: '=E' } });
+
+    expect(screen.getByText('EFFECTIVE_HP')).toBeInTheDocument();
+    expect(screen.queryByText('EXTRA_RATE')).not.toBeInTheDocument();
+  });
+
   it('allows selecting function from autocomplete with Tab', () => {
     (
       useSpreadsheetStore as unknown as ReturnType<typeof vi.fn>
@@ -276,4 +310,85 @@ describe('FormulaBar', () => {
     // Arrow up to go back
     fireEvent.keyDown(input, { key: 'ArrowUp' });
   });
+
+  describe('formula editing', () => {
+    // Stable selection so re-renders keep the edited text
+    const selection = { startRow: 0, endRow: 0, startColumn: 0, endColumn: 0 };
+
+    const mockSelected = (overrides: Partial<typeof defaultStoreState> = {}) =>
+      (
+        useSpreadsheetStore as unknown as ReturnType<typeof vi.fn>
+      ).mockImplementation(
+        (selector: (state: typeof defaultStoreState) => unknown) =>
+          selector({
+            ...defaultStoreState,
+            selection,
+            ...overrides,
+          })
+      );
+
+    it('shows the signature and current parameter of a game function', () => {
+      mockSelected();
+      render(<FormulaBar />);
+
+      const input = screen.getByPlaceholderText(/값 또는 수식/i);
+      fireEvent.focus(input);
+      fireEvent.change(input, { target: { value: '=STAT_SCALE(10, ' } });
+
+      expect(screen.getByText('레벨에 따른 스탯 스케일링')).toBeInTheDocument();
+      expect(
+        screen.getByText('baseValue', { selector: '.font-bold' })
+      ).toBeInTheDocument();
+      expect(screen.getByText(/기본 값/)).toBeInTheDocument();
+    });
+
+    it('shows parse errors inline while editing', () => {
+      mockSelected();
+      render(<FormulaBar />);
+
+      const input = screen.getByPlaceholderText(/값 또는 수식/i);
+      fireEvent.focus(input);
+      fireEvent.change(input, { target: { value: '=(1 + 2' } });
+
+      expect(screen.getByText(/Expected '\)'/)).toBeInTheDocument();
+    });
+
+    it('starts reference picking after an operator', () => {
+      const startFormulaEditing = vi.fn();
+      mockSelected({ startFormulaEditing });
+      render(<FormulaBar />);
+
+      const input = screen.getByPlaceholderText(/값 또는 수식/i);
+      fireEvent.change(input, { target: { value: '=SUM(' } });
+
+      expect(startFormulaEditing).toHaveBeenCalledWith(
+        'sheet-1',
+        'row-0',
+        'col-A'
+      );
+    });
+
+    it('inserts references picked from the grid', () => {
+      mockSelected();
+      const { rerender } = render(<FormulaBar />);
+
+      const input = screen.getByPlaceholderText(
+        /값 또는 수식/i
+      ) as HTMLInputElement;
+      fireEvent.change(input, { target: { value: '=SUM(' } });
+
+      mockSelected({
+        formulaEditing: {
+          sheetId: 'sheet-1',
+          rowId: 'row-0',
+          columnId: 'col-A',
+          pickedReference: 'B1:B2',
+          pickCount: 1,
+        },
+      });
+      rerender(<FormulaBar />);
+
+      expect(input.value).toBe('=SUM(B1:B2');
+    });
+  });
 });
@@ -1,23 +1,84 @@
 /**
  * FormulaBar Component
  * 수식 입력 및 표시 바
+ * 편집 중에는 토큰 색상 구분, 괄호 짝 표시, 함수 인수 도움말, 수식 오류를 보여주고
+ * 그리드에서 셀/범위를 클릭해 참조를 넣을 수 있다
  */
 
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useMemo } from 'react';
 import { useSpreadsheetStore } from '@stores/spreadsheetStore';
-import { FORMULA_FUNCTIONS } from '@services/formula/formulaFunctions';
+import { getFunctionNames } from '@services/formula/namedRanges';
+import {
+  getFormulaBodyOffset,
+  getFormulaError,
+  getFunctionCallContext,
+  highlightFormula,
+  insertReference,
+  type FormulaSegment,
+} from '@services/formula/formulaEditor';
+import {
+  getActiveParameterIndex,
+  getFunctionSignature,
+  getSignatureLabels,
+} from '@services/formula/functionSignatures';
+
+/**
+ * 토큰 종류별 글자 색
+ */
+const SEGMENT_CLASSES: Partial<Record<FormulaSegment['type'], string>> = {
+  prefix: 'text-gray-500 dark:text-gray-400',
+  function: 'text-blue-700 dark:text-blue-400',
+  cell: 'text-green-700 dark:text-green-400',
+  range: 'text-green-700 dark:text-green-400',
+  column: 'text-purple-700 dark:text-purple-400',
+  name: 'text-purple-700 dark:text-purple-400',
+  number: 'text-orange-600 dark:text-orange-400',
+  boolean: 'text-orange-600 dark:text-orange-400',
+  string: 'text-amber-800 dark:text-amber-300',
+  error: 'text-red-600 dark:text-red-400',
+  operator: 'text-gray-600 dark:text-gray-300',
+  comma: 'text-gray-600 dark:text-gray-300',
+  lparen: 'text-gray-600 dark:text-gray-300',
+  rparen: 'text-gray-600 dark:text-gray-300',
+  invalid: 'text-red-600 dark:text-red-400',
+};
+
+/**
+ * 편집 대상 셀 (다른 시트에서 참조를 고르는 동안에도 유지)
+ */
+interface EditTarget {
+  sheetId: string;
+  rowId: string;
+  columnId: string;
+  cellRef: string;
+}
 
 export const FormulaBar = () => {
   const [inputValue, setInputValue] = useState('');
   const [showAutocomplete, setShowAutocomplete] = useState(false);
   const [filteredFunctions, setFilteredFunctions] = useState<string[]>([]);
   const [selectedIndex, setSelectedIndex] = useState(0);
+  const [cursor, setCursor] = useState(0);
+  const [focused, setFocused] = useState(false);
+  const [editTarget, setEditTarget] = useState<EditTarget | null>(null);
   const inputRef = useRef<HTMLInputElement>(null);
+  const overlayRef = useRef<HTMLDivElement>(null);
+  // Span of the reference picked last (the next pick replaces it)
+  const pickedSpanRef = useRef<{ start: number; end: number } | null>(null);
 
   const sheets = useSpreadsheetStore((state) => state.sheets);
   const activeSheetId = useSpreadsheetStore((state) => state.activeSheetId);
   const selection = useSpreadsheetStore((state) => state.selection);
   const updateCell = useSpreadsheetStore((state) => state.updateCell);
+  const names = useSpreadsheetStore((state) => state.names);
+  const formulaEditing = useSpreadsheetStore((state) => state.formulaEditing);
+  const startFormulaEditing = useSpreadsheetStore(
+    (state) => state.startFormulaEditing
+  );
+  const stopFormulaEditing = useSpreadsheetStore(
+    (state) => state.stopFormulaEditing
+  );
+  const setActiveSheet = useSpreadsheetStore((state) => state.setActiveSheet);
 
   const activeSheet = sheets.find((s) => s.id === activeSheetId);
 
@@ -43,6 +104,9 @@ export const FormulaBar = () => {
 
   // Update input when selection changes
   useEffect(() => {
+    // Keep the edit while references are picked from the grid
+    if (formulaEditing) return;
+
     const selectedCell = getSelectedCell();
     if (selectedCell) {
       // Show formula if exists, otherwise show value
@@ -52,19 +116,83 @@ export const FormulaBar = () => {
     } else {
       setInputValue('');
     }
+    setEditTarget(null);
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [selection, activeSheet]);
 
+  // Enable reference picking only where a reference can be inserted
+  const updatePicking = (value: string, position: number) => {
+    const target = editTarget ?? getEditTarget();
+    const canPick =
+      target !== null &&
+      insertReference(
+        value,
+        position,
+        '',
+        pickedSpanRef.current ?? undefined
+      ) !== null;
+
+    if (canPick) {
+      if (!editTarget) setEditTarget(target);
+      startFormulaEditing(target.sheetId, target.rowId, target.columnId);
+    } else if (formulaEditing) {
+      stopFormulaEditing();
+    }
+  };
+
+  const getEditTarget = (): EditTarget | null => {
+    const selectedCell = getSelectedCell();
+    if (!selectedCell || !activeSheet) return null;
+    return {
+      sheetId: activeSheet.id,
+      rowId: selectedCell.rowId,
+      columnId: selectedCell.columnId,
+      cellRef: selectedCell.cellRef,
+    };
+  };
+
+  // Insert a reference picked from the grid
+  useEffect(() => {
+    const reference = formulaEditing?.pickedReference;
+    if (!reference) return;
+
+    const inserted = insertReference(
+      inputValue,
+      cursor,
+      reference,
+      pickedSpanRef.current ?? undefined
+    );
+    if (!inserted) return;
+
+    pickedSpanRef.current = { start: inserted.start, end: inserted.end };
+    setInputValue(inserted.value);
+    setCursor(inserted.end);
+
+    const input = inputRef.current;
+    setTimeout(() => {
+      input?.focus();
+      input?.setSelectionRange(inserted.end, inserted.end);
+    }, 0);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [formulaEditing?.pickCount]);
+
   // Handle input change
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = e.target.value;
+    const position = e.target.selectionStart ?? value.length;
     setInputValue(value);
+    setCursor(position);
+    if (!editTarget) setEditTarget(getEditTarget());
+
+    // Typing ends the previous pick
+    pickedSpanRef.current = null;
+    updatePicking(value, position);
 
     // Show autocomplete for functions
     if (value.includes('=')) {
-      const lastWord = value.split(/[^A-Za-z_]/).pop() || '';
+      const lastWord = value.split(/[^A-Za-z_.]/).pop() || '';
       if (lastWord.length > 0) {
-        const matches = Object.keys(FORMULA_FUNCTIONS).filter((fn) =>
+        const matches = getFunctionNames(names).filter((fn) =>
           fn.toLowerCase().startsWith(lastWord.toLowerCase())
         );
         if (matches.length > 0) {
@@ -82,6 +210,18 @@ export const FormulaBar = () => {
     }
   };
 
+  // Track the caret for paren matching and argument hints
+  const handleSelect = (e: React.SyntheticEvent<HTMLInputElement>) => {
+    const input = e.currentTarget;
+    const position = input.selectionStart ?? input.value.length;
+    if (overlayRef.current) overlayRef.current.scrollLeft = input.scrollLeft;
+    if (position === cursor) return;
+
+    setCursor(position);
+    if (pickedSpanRef.current?.end !== position) pickedSpanRef.current = null;
+    if (editTarget) updatePicking(input.value, position);
+  };
+
   // Handle key down
   const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
     if (showAutocomplete) {
@@ -104,7 +244,11 @@ export const FormulaBar = () => {
     } else if (e.key === 'Enter') {
       handleSubmit();
     } else if (e.key === 'Escape') {
-      // Cancel edit
+      // Cancel edit (and leave the sheet references were picked from)
+      if (editTarget && editTarget.sheetId !== activeSheetId) {
+        setActiveSheet(editTarget.sheetId);
+      }
+      finishEditing();
       const selectedCell = getSelectedCell();
       if (selectedCell) {
         const displayValue =
@@ -125,36 +269,74 @@ export const FormulaBar = () => {
     const after = inputValue.substring(cursorPos);
 
     // Find the start of the current word
-    const lastWordStart = before.split(/[^A-Za-z_]/).pop()?.length || 0;
+    const lastWordStart = before.split(/[^A-Za-z_.]/).pop()?.length || 0;
     const newBefore = before.substring(0, before.length - lastWordStart);
 
     const newValue = `${newBefore}${funcName}(${after}`;
+    const newCursorPos = newBefore.length + funcName.length + 1;
     setInputValue(newValue);
+    setCursor(newCursorPos);
     setShowAutocomplete(false);
+    updatePicking(newValue, newCursorPos);
 
     // Set cursor position after function name and opening parenthesis
     setTimeout(() => {
-      const newCursorPos = newBefore.length + funcName.length + 1;
       input.setSelectionRange(newCursorPos, newCursorPos);
       input.focus();
     }, 0);
   };
 
+  // Leave reference picking mode
+  const finishEditing = () => {
+    pickedSpanRef.current = null;
+    setEditTarget(null);
+    if (formulaEditing) stopFormulaEditing();
+  };
+
   // Submit value to cell
   const handleSubmit = () => {
-    const selectedCell = getSelectedCell();
-    if (!selectedCell || !activeSheet) return;
+    const target = editTarget ?? getEditTarget();
+    if (!target) return;
 
-    updateCell(
-      activeSheet.id,
-      selectedCell.rowId,
-      selectedCell.columnId,
-      inputValue
-    );
+    updateCell(target.sheetId, target.rowId, target.columnId, inputValue);
+    finishEditing();
+
+    // Return to the edited cell after picking references on another sheet
+    if (target.sheetId !== activeSheetId) setActiveSheet(target.sheetId);
     inputRef.current?.blur();
   };
 
   const selectedCell = getSelectedCell();
+  const editing = focused || formulaEditing !== null;
+  const isFormula = getFormulaBodyOffset(inputValue) !== null;
+
+  const segments = useMemo(
+    () => (editing && isFormula ? highlightFormula(inputValue, cursor) : []),
+    [editing, isFormula, inputValue, cursor]
+  );
+  const formulaError = useMemo(
+    () => (editing ? getFormulaError(inputValue) : null),
+    [editing, inputValue]
+  );
+
+  // Signature of the function call around the caret
+  const signatureHint = useMemo(() => {
+    if (!editing || !isFormula) return null;
+    const context = getFunctionCallContext(inputValue, cursor);
+    const signature = context && getFunctionSignature(context.name, names);
+    if (!context || !signature) return null;
+
+    const activeIndex = getActiveParameterIndex(
+      signature,
+      context.argumentIndex
+    );
+    return { signature, activeIndex };
+  }, [editing, isFormula, inputValue, cursor, names]);
+
+  const activeParam =
+    signatureHint && signatureHint.activeIndex >= 0
+      ? signatureHint.signature.params[signatureHint.activeIndex]
+      : null;
 
   return (
     <div className="bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700 px-4 py-2">
@@ -162,7 +344,11 @@ export const FormulaBar = () => {
         {/* Cell Reference */}
         <div className="flex items-center gap-2">
           <span className="text-sm font-semibold text-gray-700 dark:text-gray-200 min-w-[60px]">
-            {selectedCell ? selectedCell.cellRef : '-'}
+            {editTarget && formulaEditing
+              ? editTarget.cellRef
+              : selectedCell
+                ? selectedCell.cellRef
+                : '-'}
           </span>
         </div>
 
@@ -174,13 +360,47 @@ export const FormulaBar = () => {
             value={inputValue}
             onChange={handleInputChange}
             onKeyDown={handleKeyDown}
+            onSelect={handleSelect}
+            onFocus={() => setFocused(true)}
+            onBlur={() => setFocused(false)}
             placeholder={
               selectedCell ? '값 또는 수식(=)을 입력하세요' : '셀을 선택하세요'
             }
-            disabled={!selectedCell}
-            className="w-full px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-50 dark:disabled:bg-gray-700 disabled:text-gray-500 dark:disabled:text-gray-400 bg-white dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+            disabled={!selectedCell && !editTarget}
+            spellCheck={false}
+            className={`w-full px-3 py-1.5 text-sm border rounded focus:outline-none focus:ring-2 disabled:bg-gray-50 dark:disabled:bg-gray-700 disabled:text-gray-500 dark:disabled:text-gray-400 bg-white dark:bg-gray-700 ${
+              formulaError
+                ? 'border-red-400 focus:ring-red-400'
+                : 'border-gray-300 dark:border-gray-600 focus:ring-blue-500'
+            } ${
+              segments.length > 0
+                ? 'text-transparent caret-gray-900 dark:caret-gray-100'
+                : 'text-gray-900 dark:text-gray-100'
+            }`}
           />
 
+          {/* Syntax highlighting drawn over the (transparent) input text */}
+          {segments.length > 0 && (
+            <div
+              ref={overlayRef}
+              aria-hidden="true"
+              className="absolute inset-0 px-3 py-1.5 text-sm border border-transparent overflow-hidden whitespace-pre pointer-events-none"
+            >
+              {segments.map((segment) => (
+                <span
+                  key={segment.start}
+                  className={`${SEGMENT_CLASSES[segment.type] ?? 'text-gray-900 dark:text-gray-100'}${
+                    segment.matchedParen
+                      ? ' rounded-sm bg-yellow-200 dark:bg-yellow-700'
+                      : ''
+                  }`}
+                >
+                  {segment.text}
+                </span>
+              ))}
+            </div>
+          )}
+
           {/* Autocomplete Dropdown */}
           {showAutocomplete && filteredFunctions.length > 0 && (
             <div className="absolute top-full left-0 mt-1 w-full max-w-xs bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded shadow-lg z-50 max-h-60 overflow-y-auto">
@@ -201,6 +421,50 @@ export const FormulaBar = () => {
               ))}
             </div>
           )}
+
+          {/* Argument hint and parse error */}
+          {!showAutocomplete && (signatureHint || formulaError) && (
+            <div className="absolute top-full left-0 mt-1 max-w-lg bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded shadow-lg z-50 px-3 py-2 text-xs space-y-1">
+              {signatureHint && (
+                <>
+                  <div className="font-mono text-gray-900 dark:text-gray-100">
+                    {signatureHint.signature.name}(
+                    {getSignatureLabels(signatureHint.signature).map(
+                      (label, index) => (
+                        <span key={index}>
+                          {index > 0 && ', '}
+                          <span
+                            className={
+                              label.paramIndex === signatureHint.activeIndex
+                                ? 'font-bold text-blue-600 dark:text-blue-400'
+                                : ''
+                            }
+                          >
+                            {label.text}
+                          </span>
+                        </span>
+                      )
+                    )}
+                    )
+                  </div>
+                  <div className="text-gray-600 dark:text-gray-300">
+                    {signatureHint.signature.description}
+                  </div>
+                  {activeParam?.description && (
+                    <div className="text-gray-600 dark:text-gray-300">
+                      <span className="font-semibold">{activeParam.name}</span>:{' '}
+                      {activeParam.description}
+                    </div>
+                  )}
+                </>
+              )}
+              {formulaError && (
+                <div className="text-red-600 dark:text-red-400">
+                  ⚠ {formulaError}
+                </div>
+              )}
+            </div>
+          )}
         </div>
 
         {/* Function List Button */}
@@ -213,7 +477,7 @@ export const FormulaBar = () => {
             } else if (!inputValue) {
               setInputValue('=');
             }
-            setFilteredFunctions(Object.keys(FORMULA_FUNCTIONS));
+            setFilteredFunctions(getFunctionNames(names));
             setShowAutocomplete(true);
             inputRef.current?.focus();
           }}
@@ -0,0 +1,161 @@
+/**
+ * ReferenceCellEditor Component
+ * 참조 열 편집기: 참조 대상 시트의 현재 ID를 검색해서 고르는 팝업 피커
+ */
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { CustomCellEditorProps } from '@ag-grid-community/react';
+import type { ReferenceOption } from '@utils/referenceUtils';
+
+export interface ReferenceCellEditorParams {
+  options: ReferenceOption[];
+}
+
+export const ReferenceCellEditor = ({
+  value,
+  onValueChange,
+  stopEditing,
+  options,
+}: CustomCellEditorProps & ReferenceCellEditorParams) => {
+  const [search, setSearch] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const isDark = document.documentElement.classList.contains('dark');
+
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, []);
+
+  // Match the search text against both the ID and the display name
+  const filtered = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    if (!term) return options;
+    return options.filter(
+      (option) =>
+        option.key.toLowerCase().includes(term) ||
+        option.label?.toLowerCase().includes(term)
+    );
+  }, [options, search]);
+
+  const choose = (key: string | null) => {
+    onValueChange(key);
+    stopEditing();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex((i) => Math.min(i + 1, filtered.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex((i) => Math.max(i - 1, 0));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      e.stopPropagation();
+      // 일치하는 ID가 없으면 입력한 텍스트를 그대로 넣는다 (검증에서 끊어진 참조로 표시)
+      const option = filtered[activeIndex];
+      choose(option ? option.key : search.trim() || null);
+    }
+  };
+
+  return (
+    <div
+      style={{
+        width: '260px',
+        backgroundColor: isDark ? '#1f2937' : '#ffffff',
+        color: isDark ? '#e5e7eb' : '#000000',
+        border: `1px solid ${isDark ? '#374151' : '#ccc'}`,
+        borderRadius: '4px',
+        boxShadow: '0 2px 8px rgba(0,0,0,0.15)',
+        fontSize: '13px',
+      }}
+    >
+      <input
+        ref={inputRef}
+        type="text"
+        value={search}
+        placeholder={value ? `현재: ${value}` : 'ID 또는 이름 검색'}
+        onChange={(e) => {
+          setSearch(e.target.value);
+          setActiveIndex(0);
+        }}
+        onKeyDown={handleKeyDown}
+        style={{
+          width: '100%',
+          padding: '6px 8px',
+          border: 'none',
+          borderBottom: `1px solid ${isDark ? '#374151' : '#e5e7eb'}`,
+          outline: 'none',
+          boxSizing: 'border-box',
+          backgroundColor: 'transparent',
+          color: 'inherit',
+        }}
+      />
+      <div style={{ maxHeight: '220px', overflowY: 'auto' }}>
+        {filtered.length === 0 && (
+          <div style={{ padding: '6px 8px', color: '#9ca3af' }}>
+            일치하는 ID가 없습니다
+          </div>
+        )}
+        {filtered.map((option, index) => (
+          <div
+            key={option.rowId}
+            onMouseDown={(e) => {
+              // Keep focus in the editor so the grid does not stop editing first
+              e.preventDefault();
+              choose(option.key);
+            }}
+            onMouseEnter={() => setActiveIndex(index)}
+            style={{
+              padding: '4px 8px',
+              cursor: 'pointer',
+              display: 'flex',
+              justifyContent: 'space-between',
+              gap: '8px',
+              backgroundColor:
+                index === activeIndex
+                  ? isDark
+                    ? '#1e3a8a'
+                    : '#e3f2fd'
+                  : option.key === String(value ?? '')
+                    ? isDark
+                      ? '#374151'
+                      : '#f5f5f5'
+                    : 'transparent',
+            }}
+          >
+            <span style={{ fontFamily: 'monospace' }}>{option.key}</span>
+            {option.label && (
+              <span
+                style={{
+                  color: isDark ? '#9ca3af' : '#6b7280',
+                  overflow: 'hidden',
+                  textOverflow: 'ellipsis',
+                  whiteSpace: 'nowrap',
+                }}
+              >
+                {option.label}
+              </span>
+            )}
+          </div>
+        ))}
+      </div>
+      {value !== null && value !== undefined && value !== '' && (
+        <div
+          onMouseDown={(e) => {
+            e.preventDefault();
+            choose(null);
+          }}
+          style={{
+            padding: '4px 8px',
+            cursor: 'pointer',
+            borderTop: `1px solid ${isDark ? '#374151' : '#e5e7eb'}`,
+            color: isDark ? '#9ca3af' : '#6b7280',
+          }}
+        >
+          참조 지우기
+        </div>
+      )}
+    </div>
+  );
+};
@@ -22,13 +22,32 @@ import { useDataValidation } from '@hooks/useDataValidation';
 import { ContextMenu, type ContextMenuItem } from '@components/ui/ContextMenu';
 import type { Sheet, Cell, CellType } from '@types';
 import type { ValidationResult } from '@services/validation/validationEngine';
+import type {
+  FormulaTrace,
+  TraceDirection,
+} from '@services/formula/formulaAudit';
+import {
+  FORMULA_ERROR_DESCRIPTIONS,
+  isFormulaError,
+} from '@services/formula/formulaErrors';
 import {
   cellStyleToCSS,
   mergeStyles,
   getConditionalStyle,
   applyNumberFormat,
   formatCellValue,
+  generateSheetCellId,
+  parseCellId,
 } from '@utils/cellUtils';
+import { FormulaStepsDialog } from '@components/dialogs/FormulaStepsDialog';
+import { ReferenceColumnDialog } from '@components/dialogs/ReferenceColumnDialog';
+import {
+  describeReference,
+  getReferenceOptions,
+  toReferenceKey,
+  type ReferenceOption,
+} from '@utils/referenceUtils';
+import { ReferenceCellEditor } from './ReferenceCellEditor';
 
 // Register AG Grid modules
 ModuleRegistry.registerModules([ClientSideRowModelModule]);
@@ -42,6 +61,7 @@ const EditableHeaderComponent = (props: IHeaderParams) => {
   const [isEditing, setIsEditing] = useState(false);
   const [editValue, setEditValue] = useState(props.displayName || '');
   const [showTypeMenu, setShowTypeMenu] = useState(false);
+  const [showReferenceDialog, setShowReferenceDialog] = useState(false);
   const [menuPosition, setMenuPosition] = useState({ top: 0, left: 0 });
   const inputRef = useRef<HTMLInputElement>(null);
   const menuRef = useRef<HTMLDivElement>(null);
@@ -107,6 +127,13 @@ const EditableHeaderComponent = (props: IHeaderParams) => {
   const handleTypeChange = (newType: CellType) => {
     if (!sheet || !columnId) return;
 
+    // Reference columns need a target sheet first
+    if (newType === 'reference') {
+      setShowReferenceDialog(true);
+      setShowTypeMenu(false);
+      return;
+    }
+
     updateColumn(sheet.id, columnId, { type: newType });
     setShowTypeMenu(false);
   };
@@ -169,10 +196,15 @@ const EditableHeaderComponent = (props: IHeaderParams) => {
     formula: { icon: 'ƒ', label: '수식' },
     select: { icon: '▼', label: '선택' },
     multiselect: { icon: '☰', label: '다중선택' },
+    reference: { icon: '🔗', label: '참조' },
   };
 
   const currentType = column?.type || 'text';
   const typeInfo = typeConfig[currentType];
+  const referenceTarget =
+    column?.type === 'reference' && column.reference
+      ? (describeReference(sheets, column.reference) ?? '삭제된 시트')
+      : null;
 
   if (isEditing) {
     const isDark = document.documentElement.classList.contains('dark');
@@ -263,7 +295,9 @@ const EditableHeaderComponent = (props: IHeaderParams) => {
           zIndex: 10,
           position: 'relative',
         }}
-        title={`타입: ${typeInfo.label} (클릭하여 변경)`}
+        title={`타입: ${typeInfo.label}${
+          referenceTarget ? ` → ${referenceTarget}` : ''
+        } (클릭하여 변경)`}
       >
         {typeInfo.icon}
       </button>
@@ -333,6 +367,17 @@ const EditableHeaderComponent = (props: IHeaderParams) => {
           </div>,
           document.body
         )}
+
+      {showReferenceDialog &&
+        sheet &&
+        createPortal(
+          <ReferenceColumnDialog
+            sheetId={sheet.id}
+            columnId={columnId}
+            onClose={() => setShowReferenceDialog(false)}
+          />,
+          document.body
+        )}
     </div>
   );
 };
@@ -345,8 +390,23 @@ interface CustomCellRendererParams extends ICellRendererParams {
     columnOptions?: string[]
   ) => ValidationResult;
   sheet?: Sheet;
+  formulaTrace?: FormulaTrace | null;
+  referenceLookups?: Record<string, ReferenceLookup>;
 }
 
+// Live IDs of a reference column's target sheet (columnId -> lookup)
+interface ReferenceLookup {
+  options: ReferenceOption[];
+  keys: string[];
+  labels: Map<string, string | null>;
+}
+
+// Highlight colors for traced precedents/dependents
+const TRACE_COLORS = {
+  precedents: { border: '#2563eb', background: '#dbeafe', arrow: '→' },
+  dependents: { border: '#16a34a', background: '#dcfce7', arrow: '←' },
+};
+
 // Custom Cell Renderer Component (DO NOT USE HOOKS HERE - it's not a React component!)
 const CustomCellRenderer = (props: CustomCellRendererParams) => {
   const sheet = props.sheet;
@@ -409,8 +469,18 @@ const CustomCellRenderer = (props: CustomCellRendererParams) => {
   let hasError = false;
   let hasWarning = false;
 
+  // Reference columns validate against the target sheet's live IDs
+  const referenceLookup =
+    column?.type === 'reference'
+      ? props.referenceLookups?.[column.id]
+      : undefined;
+
   if (props.validateCell && column) {
-    validationResult = props.validateCell(cell, column.type, column.options);
+    validationResult = props.validateCell(
+      cell,
+      column.type,
+      referenceLookup ? referenceLookup.keys : column.options
+    );
     hasError = validationResult.errors.length > 0;
     hasWarning = validationResult.warnings.length > 0;
   }
@@ -419,7 +489,15 @@ const CustomCellRenderer = (props: CustomCellRendererParams) => {
   let validationStyle: React.CSSProperties = {};
   let tooltipMessage = String(displayValue);
 
-  if (hasError) {
+  if (isFormulaError(cell.value)) {
+    // Formula error values (#DIV/0!, #REF!, ...) are shown distinctly
+    validationStyle = {
+      color: '#dc2626', // red-600 text
+      fontWeight: 600,
+      fontFamily: 'monospace',
+    };
+    tooltipMessage = `${cell.value}: ${cell.error ?? FORMULA_ERROR_DESCRIPTIONS[cell.value]}`;
+  } else if (hasError) {
     validationStyle = {
       backgroundColor: '#fee2e2', // red-100 background
       color: '#991b1b', // red-900 text
@@ -452,6 +530,66 @@ const CustomCellRenderer = (props: CustomCellRendererParams) => {
     };
   }
 
+  // Dashed outline around the spill range of a dynamic array formula
+  let spillStyles: React.CSSProperties = {};
+  const anchorIds = cell.spilledFrom
+    ? parseCellId(cell.spilledFrom)
+    : { rowId, columnId };
+  const anchorRow = sheet.rows.find((r) => r.id === anchorIds.rowId);
+  const anchor = anchorRow?.cells[anchorIds.columnId];
+  if (anchor?.spill && anchorRow && anchor.value !== '#SPILL!') {
+    const top = anchorRow.index;
+    const left =
+      sheet.columns.find((c) => c.id === anchorIds.columnId)?.index ?? 0;
+    const spillBorder = '1px dashed #2563eb';
+    spillStyles = {
+      ...(rowIndex === top && { borderTop: spillBorder }),
+      ...(rowIndex === top + anchor.spill.rows - 1 && {
+        borderBottom: spillBorder,
+      }),
+      ...(columnIndex === left && { borderLeft: spillBorder }),
+      ...(columnIndex === left + anchor.spill.columns - 1 && {
+        borderRight: spillBorder,
+      }),
+    };
+  }
+
+  // Traced precedents/dependents of the audited cell
+  let traceStyles: React.CSSProperties = {};
+  let traceMarker: { label: string; color: string } | null = null;
+  const trace = props.formulaTrace;
+  if (trace) {
+    const sheetCellId = generateSheetCellId(sheet.id, cell.id);
+    const colors = TRACE_COLORS[trace.direction];
+    const level = trace.cells[sheetCellId];
+
+    if (trace.sheetCellId === sheetCellId) {
+      traceStyles = {
+        outline: `2px solid ${colors.border}`,
+        outlineOffset: -2,
+      };
+    } else if (level !== undefined) {
+      traceStyles = {
+        backgroundColor: colors.background,
+        outline: `1px dashed ${colors.border}`,
+        outlineOffset: -1,
+      };
+      traceMarker = {
+        label: trace.levels > 1 ? `${colors.arrow}${level}` : colors.arrow,
+        color: colors.border,
+      };
+      tooltipMessage = `${tooltipMessage} (${
+        trace.direction === 'precedents' ? '참조되는 셀' : '참조하는 셀'
+      } ${level}단계)`;
+    }
+  }
+
+  // Name of the referenced row shown next to the ID
+  const referenceLabel =
+    referenceLookup && cell.value !== null && cell.value !== ''
+      ? referenceLookup.labels.get(toReferenceKey(cell.value))
+      : null;
+
   return (
     <div
       style={{
@@ -463,6 +601,9 @@ const CustomCellRenderer = (props: CustomCellRendererParams) => {
         padding: '4px 8px',
         boxSizing: 'border-box',
         border: mergedStyles.border || cssStyle.border,
+        ...spillStyles,
+        ...traceStyles,
+        position: 'relative',
         display: 'flex',
         alignItems: 'center',
         justifyContent: cssStyle.textAlign || 'left',
@@ -470,6 +611,34 @@ const CustomCellRenderer = (props: CustomCellRendererParams) => {
       title={tooltipMessage}
     >
       {displayValue}
+      {referenceLabel && (
+        <span
+          style={{
+            marginLeft: '6px',
+            fontSize: '11px',
+            color: '#6b7280',
+            overflow: 'hidden',
+            textOverflow: 'ellipsis',
+            whiteSpace: 'nowrap',
+          }}
+        >
+          {referenceLabel}
+        </span>
+      )}
+      {traceMarker && (
+        <span
+          style={{
+            position: 'absolute',
+            top: 0,
+            right: 2,
+            fontSize: '10px',
+            lineHeight: 1,
+            color: traceMarker.color,
+          }}
+        >
+          {traceMarker.label}
+        </span>
+      )}
     </div>
   );
 };
@@ -489,15 +658,28 @@ export const SpreadsheetGrid = ({ sheetId }: SpreadsheetGridProps) => {
   const pasteFromClipboard = useSpreadsheetStore(
     (state) => state.pasteFromClipboard
   );
+  const fillSelection = useSpreadsheetStore((state) => state.fillSelection);
   const addRow = useSpreadsheetStore((state) => state.addRow);
   const addColumn = useSpreadsheetStore((state) => state.addColumn);
   const removeRow = useSpreadsheetStore((state) => state.removeRow);
+  const removeRows = useSpreadsheetStore((state) => state.removeRows);
   const removeColumn = useSpreadsheetStore((state) => state.removeColumn);
   const mergeCells = useSpreadsheetStore((state) => state.mergeCells);
   const unmergeCells = useSpreadsheetStore((state) => state.unmergeCells);
   const getMergedCell = useSpreadsheetStore((state) => state.getMergedCell);
   const applyCellStyle = useSpreadsheetStore((state) => state.applyCellStyle);
   const sortSheet = useSpreadsheetStore((state) => state.sortSheet);
+  const formulaTrace = useSpreadsheetStore((state) => state.formulaTrace);
+  const formulaEditing = useSpreadsheetStore((state) => state.formulaEditing);
+  const pickFormulaReference = useSpreadsheetStore(
+    (state) => state.pickFormulaReference
+  );
+  const traceFormulaCell = useSpreadsheetStore(
+    (state) => state.traceFormulaCell
+  );
+  const clearFormulaTrace = useSpreadsheetStore(
+    (state) => state.clearFormulaTrace
+  );
 
   // Initialize data validation hook at component level
   const { validateCell } = useDataValidation();
@@ -509,9 +691,30 @@ export const SpreadsheetGrid = ({ sheetId }: SpreadsheetGridProps) => {
     items: ContextMenuItem[];
   } | null>(null);
 
+  // Cell shown in the formula steps dialog
+  const [stepsCell, setStepsCell] = useState<{
+    rowId: string;
+    columnId: string;
+  } | null>(null);
+
   const currentSheetId = sheetId || activeSheetId;
   const sheet = sheets.find((s) => s.id === currentSheetId);
 
+  // Resolve reference columns against their target sheets
+  const referenceLookups = useMemo(() => {
+    const lookups: Record<string, ReferenceLookup> = {};
+    sheet?.columns.forEach((col) => {
+      if (col.type !== 'reference' || !col.reference) return;
+      const options = getReferenceOptions(sheets, col.reference);
+      lookups[col.id] = {
+        options,
+        keys: options.map((o) => o.key),
+        labels: new Map(options.map((o) => [o.key, o.label])),
+      };
+    });
+    return lookups;
+  }, [sheet, sheets]);
+
   // Memoize cellRendererParams to prevent infinite re-renders
   // This is critical! Without useMemo, AG Grid will re-render infinitely
   // because it detects new object references on every render
@@ -521,8 +724,10 @@ export const SpreadsheetGrid = ({ sheetId }: SpreadsheetGridProps) => {
     () => ({
       validateCell: validateCell,
       sheet: sheet,
+      formulaTrace: formulaTrace,
+      referenceLookups: referenceLookups,
     }),
-    [validateCell, sheet]
+    [validateCell, sheet, formulaTrace, referenceLookups]
   );
 
   // Convert sheet data to AG Grid format
@@ -540,8 +745,13 @@ export const SpreadsheetGrid = ({ sheetId }: SpreadsheetGridProps) => {
       cellRenderer: CustomCellRenderer,
       cellRendererParams: cellRendererParams,
       headerComponent: EditableHeaderComponent,
+      ...(referenceLookups[col.id] && {
+        cellEditor: ReferenceCellEditor,
+        cellEditorPopup: true,
+        cellEditorParams: { options: referenceLookups[col.id].options },
+      }),
     }));
-  }, [sheet, cellRendererParams]);
+  }, [sheet, cellRendererParams, referenceLookups]);
 
   const rowData = useMemo(() => {
     if (!sheet) return [];
@@ -605,15 +815,23 @@ export const SpreadsheetGrid = ({ sheetId }: SpreadsheetGridProps) => {
 
       if (colIndex < 0) return;
 
-      // Set selection to single cell
-      setSelection({
+      const range = {
         startRow: rowIndex,
         endRow: rowIndex,
         startColumn: colIndex,
         endColumn: colIndex,
-      });
+      };
+
+      // While a formula is being edited, clicks insert references instead
+      if (formulaEditing) {
+        pickFormulaReference(sheet.id, range);
+        return;
+      }
+
+      // Set selection to single cell
+      setSelection(range);
     },
-    [sheet, setSelection]
+    [sheet, setSelection, formulaEditing, pickFormulaReference]
   );
 
   // Handle range selection (다중 선택 지원)
@@ -654,6 +872,12 @@ export const SpreadsheetGrid = ({ sheetId }: SpreadsheetGridProps) => {
       };
     });
 
+    // Dragging while a formula is being edited picks a range reference
+    if (formulaEditing) {
+      pickFormulaReference(sheet.id, ranges[ranges.length - 1]);
+      return;
+    }
+
     // 첫 번째 범위를 주 선택 영역으로 설정
     if (ranges.length > 0) {
       setSelection(ranges[0]);
@@ -665,7 +889,13 @@ export const SpreadsheetGrid = ({ sheetId }: SpreadsheetGridProps) => {
         setMultiSelection([]);
       }
     }
-  }, [sheet, setSelection, setMultiSelection]);
+  }, [
+    sheet,
+    setSelection,
+    setMultiSelection,
+    formulaEditing,
+    pickFormulaReference,
+  ]);
 
   // Handle cell context menu (right-click)
   const onCellContextMenu = useCallback(
@@ -684,6 +914,19 @@ export const SpreadsheetGrid = ({ sheetId }: SpreadsheetGridProps) => {
       if (!row) return;
 
       const hasMergedCell = getMergedCell(currentSheetId, rowIndex, columnIndex);
+      const clickedColumnId = sheet.columns[columnIndex].id;
+      const hasFormula = !!row.cells[clickedColumnId]?.formula;
+
+      // Auditing works on the clicked cell
+      const traceClickedCell = (direction: TraceDirection) => {
+        setSelection({
+          startRow: rowIndex,
+          endRow: rowIndex,
+          startColumn: columnIndex,
+          endColumn: columnIndex,
+        });
+        traceFormulaCell(direction);
+      };
 
       const menuItems: ContextMenuItem[] = [
         {
@@ -707,6 +950,20 @@ export const SpreadsheetGrid = ({ sheetId }: SpreadsheetGridProps) => {
           shortcut: 'Ctrl+V',
           action: () => pasteFromClipboard(),
         },
+        {
+          id: 'fill-down',
+          label: '아래로 채우기',
+          icon: '⏬',
+          action: () => fillSelection('down'),
+          disabled: !selection || selection.startRow === selection.endRow,
+        },
+        {
+          id: 'fill-right',
+          label: '오른쪽으로 채우기',
+          icon: '⏩',
+          action: () => fillSelection('right'),
+          disabled: !selection || selection.startColumn === selection.endColumn,
+        },
         {
           id: 'separator1',
           label: '',
@@ -737,7 +994,7 @@ export const SpreadsheetGrid = ({ sheetId }: SpreadsheetGridProps) => {
                 const r = sheet.rows[i];
                 if (r) rowsToDelete.push(r.id);
               }
-              rowsToDelete.forEach((rowId) => removeRow(currentSheetId, rowId));
+              removeRows(currentSheetId, rowsToDelete);
             } else {
               removeRow(currentSheetId, row.id);
             }
@@ -828,6 +1085,40 @@ export const SpreadsheetGrid = ({ sheetId }: SpreadsheetGridProps) => {
             }
           },
         },
+        {
+          id: 'separator5',
+          label: '',
+          separator: true,
+          action: () => {},
+        },
+        {
+          id: 'trace-precedents',
+          label: '참조되는 셀 추적',
+          icon: '⤴',
+          disabled: !hasFormula,
+          action: () => traceClickedCell('precedents'),
+        },
+        {
+          id: 'trace-dependents',
+          label: '참조하는 셀 추적',
+          icon: '⤵',
+          action: () => traceClickedCell('dependents'),
+        },
+        {
+          id: 'clear-trace',
+          label: '추적 지우기',
+          icon: '✖',
+          disabled: !formulaTrace,
+          action: () => clearFormulaTrace(),
+        },
+        {
+          id: 'formula-steps',
+          label: '수식 계산 단계',
+          icon: '🧮',
+          disabled: !hasFormula,
+          action: () =>
+            setStepsCell({ rowId: row.id, columnId: clickedColumnId }),
+        },
       ];
 
       const mouseEvent = event.event as MouseEvent;
@@ -845,13 +1136,19 @@ export const SpreadsheetGrid = ({ sheetId }: SpreadsheetGridProps) => {
       copySelection,
       cutSelection,
       pasteFromClipboard,
+      fillSelection,
       addRow,
       addColumn,
       removeRow,
+      removeRows,
       removeColumn,
       mergeCells,
       unmergeCells,
       sortSheet,
+      setSelection,
+      formulaTrace,
+      traceFormulaCell,
+      clearFormulaTrace,
     ]
   );
 
@@ -946,6 +1243,14 @@ export const SpreadsheetGrid = ({ sheetId }: SpreadsheetGridProps) => {
           onClose={() => setContextMenu(null)}
         />
       )}
+      {stepsCell && (
+        <FormulaStepsDialog
+          sheetId={sheet.id}
+          rowId={stepsCell.rowId}
+          columnId={stepsCell.columnId}
+          onClose={() => setStepsCell(null)}
+        />
+      )}
     </div>
   );
 };
@@ -14,6 +14,11 @@ import { ValidationPanel } from '../dialogs/ValidationPanel';
 import { ConditionalFormatDialog } from '../dialogs/ConditionalFormatDialog';
 import { AdvancedFormatDialog } from '../dialogs/AdvancedFormatDialog';
 import { ShortcutHelpDialog } from '../dialogs/ShortcutHelpDialog';
+import { NamedRangesDialog } from '../dialogs/NamedRangesDialog';
+import { IterativeCalculationDialog } from '../dialogs/IterativeCalculationDialog';
+import { WhatIfDialog } from '../dialogs/WhatIfDialog';
+import { VersionHistoryDialog } from '../dialogs/VersionHistoryDialog';
+import { BranchMergeDialog } from '../dialogs/BranchMergeDialog';
 import { ChartDialog } from '../charts/ChartDialog';
 
 export const Toolbar = () => {
@@ -28,6 +33,11 @@ export const Toolbar = () => {
     useState(false);
   const [showShortcutHelp, setShowShortcutHelp] = useState(false);
   const [showChartDialog, setShowChartDialog] = useState(false);
+  const [showNamedRangesDialog, setShowNamedRangesDialog] = useState(false);
+  const [showIterativeDialog, setShowIterativeDialog] = useState(false);
+  const [showWhatIfDialog, setShowWhatIfDialog] = useState(false);
+  const [showVersionHistory, setShowVersionHistory] = useState(false);
+  const [showBranchDialog, setShowBranchDialog] = useState(false);
 
   const activeSheetId = useSpreadsheetStore((state) => state.activeSheetId);
   const sheets = useSpreadsheetStore((state) => state.sheets);
@@ -48,8 +58,9 @@ export const Toolbar = () => {
   const mergeCells = useSpreadsheetStore((state) => state.mergeCells);
   const getMergedCell = useSpreadsheetStore((state) => state.getMergedCell);
   const unmergeCells = useSpreadsheetStore((state) => state.unmergeCells);
-  const removeRow = useSpreadsheetStore((state) => state.removeRow);
+  const removeRows = useSpreadsheetStore((state) => state.removeRows);
   const removeColumn = useSpreadsheetStore((state) => state.removeColumn);
+  const rerollRandom = useSpreadsheetStore((state) => state.rerollRandom);
   const { importFile, exportSheet } = useImportExport();
   const { theme, toggleTheme } = useTheme();
 
@@ -106,7 +117,7 @@ export const Toolbar = () => {
               const row = activeSheet.rows[i];
               if (row) rowsToDelete.push(row.id);
             }
-            rowsToDelete.forEach((rowId) => removeRow(activeSheetId, rowId));
+            removeRows(activeSheetId, rowsToDelete);
           }
         },
       },
@@ -158,7 +169,7 @@ export const Toolbar = () => {
       activeSheet,
       activeSheetId,
       addRow,
-      removeRow,
+      removeRows,
     ]
   );
 
@@ -197,7 +208,7 @@ export const Toolbar = () => {
       if (row) rowsToDelete.push(row.id);
     }
 
-    rowsToDelete.forEach((rowId) => removeRow(activeSheetId, rowId));
+    removeRows(activeSheetId, rowsToDelete);
   };
 
   const handleDeleteColumn = () => {
@@ -363,6 +374,18 @@ export const Toolbar = () => {
         >
           <span className="text-sm">{saving ? '⏳' : '💿'}</span>
         </ToolbarButton>
+        <ToolbarButton
+          onClick={() => setShowVersionHistory(true)}
+          title="버전 기록 (스냅샷, 비교, 복원)"
+        >
+          <span className="text-sm">🕘</span>
+        </ToolbarButton>
+        <ToolbarButton
+          onClick={() => setShowBranchDialog(true)}
+          title="브랜치와 병합"
+        >
+          <span className="text-sm">⑂</span>
+        </ToolbarButton>
 
         <div className="w-px h-6 bg-gray-300 dark:bg-gray-600 mx-1" />
 
@@ -533,6 +556,30 @@ export const Toolbar = () => {
         >
           <span className="text-sm">⚙️</span>
         </ToolbarButton>
+        <ToolbarButton
+          onClick={() => setShowNamedRangesDialog(true)}
+          title="이름 관리자"
+        >
+          <span className="text-sm">🏷️</span>
+        </ToolbarButton>
+        <ToolbarButton
+          onClick={() => rerollRandom()}
+          title="난수 다시 굴리기 (RAND, RANDBETWEEN, WEIGHTED_PICK)"
+        >
+          <span className="text-sm">🎲</span>
+        </ToolbarButton>
+        <ToolbarButton
+          onClick={() => setShowIterativeDialog(true)}
+          title="반복 계산 (순환 참조)"
+        >
+          <span className="text-sm">🔁</span>
+        </ToolbarButton>
+        <ToolbarButton
+          onClick={() => setShowWhatIfDialog(true)}
+          title="가상 분석 (목표값 찾기, 데이터 표)"
+        >
+          <span className="text-sm">🎯</span>
+        </ToolbarButton>
 
         <div className="w-px h-6 bg-gray-300 dark:bg-gray-600 mx-1" />
 
@@ -632,6 +679,33 @@ export const Toolbar = () => {
         />
       )}
 
+      {/* Named Ranges Dialog */}
+      {showNamedRangesDialog && (
+        <NamedRangesDialog onClose={() => setShowNamedRangesDialog(false)} />
+      )}
+
+      {/* Iterative Calculation Dialog */}
+      {showIterativeDialog && (
+        <IterativeCalculationDialog
+          onClose={() => setShowIterativeDialog(false)}
+        />
+      )}
+
+      {/* What-If Analysis Dialog */}
+      {showWhatIfDialog && (
+        <WhatIfDialog onClose={() => setShowWhatIfDialog(false)} />
+      )}
+
+      {/* Version History Dialog */}
+      {showVersionHistory && (
+        <VersionHistoryDialog onClose={() => setShowVersionHistory(false)} />
+      )}
+
+      {/* Branch & Merge Dialog */}
+      {showBranchDialog && (
+        <BranchMergeDialog onClose={() => setShowBranchDialog(false)} />
+      )}
+
       {/* Shortcut Help Dialog */}
       {showShortcutHelp && (
         <ShortcutHelpDialog
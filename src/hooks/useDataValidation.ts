@@ -51,16 +51,19 @@ export const useDataValidation = () => {
   );
 
   // Validate sheet (can be called manually, not during render)
-  const validateSheetData = useCallback((sheet: Sheet): ValidationResult => {
-    setIsValidating(true);
-    const result = validateSheet(sheet);
-    setValidationResults((prev) => ({
-      ...prev,
-      [`sheet_${sheet.id}`]: result,
-    }));
-    setIsValidating(false);
-    return result;
-  }, []);
+  const validateSheetData = useCallback(
+    (sheet: Sheet, sheets?: Sheet[]): ValidationResult => {
+      setIsValidating(true);
+      const result = validateSheet(sheet, sheets);
+      setValidationResults((prev) => ({
+        ...prev,
+        [`sheet_${sheet.id}`]: result,
+      }));
+      setIsValidating(false);
+      return result;
+    },
+    []
+  );
 
   return {
     validateCell: validateCellData,
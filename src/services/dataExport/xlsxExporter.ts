@@ -4,7 +4,11 @@
  */
 
 import * as XLSX from 'xlsx';
-import type { Sheet, CellStyle } from '@types';
+import type { Sheet, CellStyle, CellValue } from '@types';
+import {
+  isFormulaError,
+  type FormulaErrorCode,
+} from '@services/formula/formulaErrors';
 
 export interface XLSXExportOptions {
   includeFormatting?: boolean;
@@ -37,7 +41,7 @@ export const exportToXLSX = (
       const rowData: any[] = [];
       sheet.columns.forEach((col) => {
         const cell = row.cells[col.id];
-        rowData.push(cell?.value ?? '');
+        rowData.push(toXLSXValue(cell?.value ?? ''));
       });
       worksheetData.push(rowData);
     });
@@ -70,6 +74,33 @@ export const exportToXLSX = (
   );
 };
 
+/**
+ * Excel 오류 코드 번호 (MS-XLSB 2.5.97.2)
+ * #CIRC!처럼 Excel에 없는 오류는 텍스트로 내보낸다
+ */
+const XLSX_ERROR_NUMBERS: Partial<Record<FormulaErrorCode, number>> = {
+  '#NULL!': 0x00,
+  '#DIV/0!': 0x07,
+  '#VALUE!': 0x0f,
+  '#REF!': 0x17,
+  '#NAME?': 0x1d,
+  '#NUM!': 0x24,
+  '#N/A': 0x2a,
+};
+
+/**
+ * Convert cell value to XLSX cell data (error values become error cells)
+ */
+function toXLSXValue(value: CellValue): CellValue | XLSX.CellObject {
+  if (isFormulaError(value)) {
+    const errorNumber = XLSX_ERROR_NUMBERS[value];
+    if (errorNumber !== undefined) {
+      return { t: 'e', v: errorNumber, w: value };
+    }
+  }
+  return value;
+}
+
 /**
  * Apply cell styles to XLSX worksheet
  */
@@ -163,8 +163,8 @@ function extractCellValue(xlsxCell: XLSX.CellObject | undefined): {
     case 's': // String
       return { value: String(xlsxCell.v), type: 'text' };
 
-    case 'e': // Error
-      return { value: String(xlsxCell.v), type: 'text' };
+    case 'e': // Error (keep the error code text, e.g. #N/A)
+      return { value: xlsxCell.w ?? String(xlsxCell.v), type: 'text' };
 
     default:
       return { value: String(xlsxCell.v), type: 'text' };
@@ -0,0 +1,90 @@
+/**
+ * Dependency Graph Tests
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { DependencyGraph } from './dependencyGraph';
+
+describe('DependencyGraph', () => {
+  let graph: DependencyGraph;
+
+  beforeEach(() => {
+    graph = new DependencyGraph();
+  });
+
+  it('should track dependents and replace precedents', () => {
+    graph.setPrecedents('C1', ['A1', 'B1']);
+    expect(graph.getDependents('A1')).toEqual(new Set(['C1']));
+
+    graph.setPrecedents('C1', ['B1']);
+    expect(graph.getDependents('A1').size).toBe(0);
+    expect(graph.getPrecedents('C1')).toEqual(new Set(['B1']));
+
+    graph.clearPrecedents('C1');
+    expect(graph.getDependents('B1').size).toBe(0);
+  });
+
+  it('should mark transitive dependents as dirty', () => {
+    graph.setPrecedents('B1', ['A1']);
+    graph.setPrecedents('C1', ['B1']);
+    graph.setPrecedents('D1', ['X1']);
+
+    expect(graph.collectDirty(['A1'])).toEqual(new Set(['B1', 'C1']));
+  });
+
+  it('should order a diamond so every cell follows its precedents', () => {
+    graph.setPrecedents('D1', ['B1', 'C1']);
+    graph.setPrecedents('C1', ['B1']);
+    graph.setPrecedents('B1', ['A1']);
+
+    const order = graph.topologicalOrder(graph.collectDirty(['A1']));
+    expect(order).toEqual(['B1', 'C1', 'D1']);
+  });
+
+  it('should order cells reading a spill after its anchor', () => {
+    graph.setPrecedents('A1', ['X1']);
+    graph.setSpill('A1', ['A2', 'A3']);
+    graph.setPrecedents('B1', ['A3']);
+
+    const order = graph.topologicalOrder(graph.collectDirty(['X1']));
+    expect(order.indexOf('A1')).toBeLessThan(order.indexOf('A3'));
+    expect(order.indexOf('A3')).toBeLessThan(order.indexOf('B1'));
+
+    graph.setSpill('A1', []);
+    expect(graph.getDependents('A1').size).toBe(0);
+  });
+
+  it('should append cells in a cycle after the sortable cells', () => {
+    graph.setPrecedents('B1', ['A1', 'C1']);
+    graph.setPrecedents('C1', ['B1']);
+    graph.setPrecedents('D1', ['A1']);
+
+    expect(graph.hasCycle('B1')).toBe(true);
+    expect(graph.hasCycle('D1')).toBe(false);
+
+    const order = graph.topologicalOrder(graph.collectDirty(['A1']));
+    expect(order[0]).toBe('D1');
+    expect(order.slice(1).sort()).toEqual(['B1', 'C1']);
+  });
+
+  it('should find only the cells that lie on a cycle', () => {
+    graph.setPrecedents('B1', ['A1', 'C1']);
+    graph.setPrecedents('C1', ['B1']);
+    graph.setPrecedents('D1', ['C1']); // After the cycle
+    graph.setPrecedents('E1', ['E1', 'A1']); // Self reference
+
+    const dirty = graph.collectDirty(['A1']);
+    expect(graph.findCyclicCells(dirty).sort()).toEqual(['B1', 'C1', 'E1']);
+  });
+
+  it('should always mark volatile cells and their dependents dirty', () => {
+    graph.setPrecedents('B1', ['A1']);
+    graph.setVolatile('A1', true);
+    graph.setPrecedents('D1', ['C1']);
+
+    expect(graph.collectDirty(['C1'])).toEqual(new Set(['A1', 'B1', 'D1']));
+
+    graph.setVolatile('A1', false);
+    expect(graph.collectDirty([]).size).toBe(0);
+  });
+});
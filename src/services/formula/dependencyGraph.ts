@@ -0,0 +1,237 @@
+/**
+ * Dependency Graph
+ * 수식 셀 간 의존성 그래프 (평가기와 캐시가 공유)
+ * 노드는 시트 ID를 포함한 셀 ID (generateSheetCellId)
+ */
+
+export class DependencyGraph {
+  private dependents: Map<string, Set<string>>; // sheetCellId -> cells that reference it
+  private precedents: Map<string, Set<string>>; // sheetCellId -> cells it references
+  private spills: Map<string, Set<string>>; // anchor sheetCellId -> spilled sheetCellIds
+  private spillAnchors: Map<string, string>; // spilled sheetCellId -> anchor sheetCellId
+  private volatile: Set<string>; // cells recalculated on every recalculation (TODAY, NOW)
+
+  constructor() {
+    this.dependents = new Map();
+    this.precedents = new Map();
+    this.spills = new Map();
+    this.spillAnchors = new Map();
+    this.volatile = new Set();
+  }
+
+  /**
+   * Replace the cells a formula cell references
+   */
+  setPrecedents(sheetCellId: string, refs: Iterable<string>): void {
+    this.clearPrecedents(sheetCellId);
+
+    const precedents = new Set(refs);
+    precedents.forEach((ref) => {
+      const dependents = this.dependents.get(ref) ?? new Set<string>();
+      dependents.add(sheetCellId);
+      this.dependents.set(ref, dependents);
+    });
+    this.precedents.set(sheetCellId, precedents);
+  }
+
+  /**
+   * Remove a cell's outgoing references (e.g. when its formula is cleared)
+   */
+  clearPrecedents(sheetCellId: string): void {
+    const refs = this.precedents.get(sheetCellId);
+    if (!refs) return;
+
+    refs.forEach((ref) => this.dependents.get(ref)?.delete(sheetCellId));
+    this.precedents.delete(sheetCellId);
+  }
+
+  /**
+   * Get all cells a given cell's formula references
+   */
+  getPrecedents(sheetCellId: string): Set<string> {
+    return this.precedents.get(sheetCellId) || new Set();
+  }
+
+  /**
+   * Get the cells that directly depend on a given cell
+   * 배열 수식이 펼친 셀도 앵커 셀의 의존 셀로 취급된다
+   */
+  getDependents(sheetCellId: string): Set<string> {
+    const dependents = this.dependents.get(sheetCellId) || new Set();
+    const spilled = this.spills.get(sheetCellId);
+    return spilled ? new Set([...dependents, ...spilled]) : dependents;
+  }
+
+  /**
+   * Register the cells an array formula spilled into (빈 목록이면 해제)
+   */
+  setSpill(sheetCellId: string, spilledIds: Iterable<string>): void {
+    this.spills.get(sheetCellId)?.forEach((id) => this.spillAnchors.delete(id));
+
+    const spilled = new Set(spilledIds);
+    if (spilled.size === 0) {
+      this.spills.delete(sheetCellId);
+    } else {
+      this.spills.set(sheetCellId, spilled);
+      spilled.forEach((id) => this.spillAnchors.set(id, sheetCellId));
+    }
+  }
+
+  /**
+   * Get the cells an array formula spilled into
+   */
+  getSpill(sheetCellId: string): Set<string> {
+    return this.spills.get(sheetCellId) || new Set();
+  }
+
+  /**
+   * Mark whether a formula cell uses a volatile function (TODAY, NOW)
+   */
+  setVolatile(sheetCellId: string, volatile: boolean): void {
+    if (volatile) {
+      this.volatile.add(sheetCellId);
+    } else {
+      this.volatile.delete(sheetCellId);
+    }
+  }
+
+  /**
+   * Check whether a formula cell uses a volatile function
+   */
+  isVolatile(sheetCellId: string): boolean {
+    return this.volatile.has(sheetCellId);
+  }
+
+  /**
+   * Get every cell that uses a volatile function
+   */
+  getVolatileCells(): string[] {
+    return Array.from(this.volatile);
+  }
+
+  /**
+   * Check whether following dependents from a cell leads back to it
+   */
+  hasCycle(sheetCellId: string): boolean {
+    const visited = new Set<string>();
+    const pending = [sheetCellId];
+
+    for (let i = 0; i < pending.length; i++) {
+      for (const dependent of this.getDependents(pending[i])) {
+        if (dependent === sheetCellId) return true;
+        if (!visited.has(dependent)) {
+          visited.add(dependent);
+          pending.push(dependent);
+        }
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Mark every cell that directly or indirectly depends on the sources as dirty
+   * 소스 셀 자체는 순환 참조로 다시 도달할 때만 포함된다
+   * 휘발성 셀(TODAY, NOW)과 그 의존 셀은 항상 포함된다
+   */
+  collectDirty(sources: Iterable<string>): Set<string> {
+    const dirty = new Set<string>(this.volatile);
+    const queue = [...sources, ...this.volatile];
+
+    for (let i = 0; i < queue.length; i++) {
+      const current = queue[i];
+      this.getDependents(current).forEach((dependent) => {
+        if (!dirty.has(dependent)) {
+          dirty.add(dependent);
+          queue.push(dependent);
+        }
+      });
+    }
+    return dirty;
+  }
+
+  /**
+   * Order dirty cells so every cell comes after the dirty cells it references
+   * 순환 참조로 정렬할 수 없는 셀은 마지막에 붙는다 (평가 시 #CIRC!)
+   */
+  topologicalOrder(cells: Iterable<string>): string[] {
+    const { order, blocked } = this.sortCells(cells);
+    return [...order, ...blocked];
+  }
+
+  /**
+   * Find the cells that lie on a circular reference
+   * 순환 참조 뒤에 있을 뿐인 의존 셀은 포함되지 않는다
+   */
+  findCyclicCells(cells: Iterable<string>): string[] {
+    const { order, blocked } = this.sortCells(cells);
+    // Self references (=A1+1 in A1) do not block the sort
+    return [
+      ...order.filter((id) => this.getPrecedents(id).has(id)),
+      ...blocked.filter((id) => this.hasCycle(id)),
+    ];
+  }
+
+  /**
+   * Kahn's algorithm: sortable cells in order, and the cells blocked by cycles
+   */
+  private sortCells(cells: Iterable<string>): {
+    order: string[];
+    blocked: string[];
+  } {
+    const pending = new Set(cells);
+    const inDegree = new Map<string, number>();
+
+    pending.forEach((id) => {
+      let degree = 0;
+      this.getPrecedentsWithSpills(id).forEach((ref) => {
+        if (pending.has(ref) && ref !== id) degree++;
+      });
+      inDegree.set(id, degree);
+    });
+
+    const ready = Array.from(pending).filter((id) => inDegree.get(id) === 0);
+    const order: string[] = [];
+
+    for (let i = 0; i < ready.length; i++) {
+      const current = ready[i];
+      order.push(current);
+      pending.delete(current);
+
+      this.getDependents(current).forEach((dependent) => {
+        const remaining = inDegree.get(dependent);
+        if (!pending.has(dependent) || remaining === undefined) return;
+        const degree = remaining - 1;
+        inDegree.set(dependent, degree);
+        if (degree === 0) ready.push(dependent);
+      });
+    }
+
+    return { order, blocked: Array.from(pending) };
+  }
+
+  /**
+   * Precedents including the anchor of a spilled cell
+   */
+  private getPrecedentsWithSpills(sheetCellId: string): Set<string> {
+    const refs = new Set(this.getPrecedents(sheetCellId));
+    const anchorId = this.spillAnchors.get(sheetCellId);
+    if (anchorId) refs.add(anchorId);
+    return refs;
+  }
+
+  /**
+   * Clear the whole graph
+   */
+  clear(): void {
+    this.dependents.clear();
+    this.precedents.clear();
+    this.spills.clear();
+    this.spillAnchors.clear();
+    this.volatile.clear();
+  }
+}
+
+/**
+ * Singleton instance shared by formulaEvaluator and formulaCache
+ */
+export const dependencyGraph = new DependencyGraph();
@@ -0,0 +1,87 @@
+/**
+ * Formula Audit Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { DependencyGraph } from './dependencyGraph';
+import {
+  describeTracedCells,
+  formatAuditValue,
+  traceCells,
+} from './formulaAudit';
+import { createRangeValue } from './formulaFunctions';
+import { createMockSheet } from '@test/utils/mockData';
+import { generateSheetCellId } from '@utils/cellUtils';
+
+describe('formulaAudit', () => {
+  describe('traceCells', () => {
+    // A1 → B1 → C1, B1 → D1
+    const graph = new DependencyGraph();
+    graph.setPrecedents('C1', ['B1']);
+    graph.setPrecedents('D1', ['B1']);
+    graph.setPrecedents('B1', ['A1']);
+
+    it('should follow dependents one level at a time', () => {
+      expect(traceCells(graph, 'A1', 'dependents')).toEqual(
+        new Map([['B1', 1]])
+      );
+      expect(traceCells(graph, 'A1', 'dependents', 2)).toEqual(
+        new Map([
+          ['B1', 1],
+          ['C1', 2],
+          ['D1', 2],
+        ])
+      );
+    });
+
+    it('should follow precedents and stop at the start cell', () => {
+      expect(traceCells(graph, 'C1', 'precedents', 5)).toEqual(
+        new Map([
+          ['B1', 1],
+          ['A1', 2],
+        ])
+      );
+
+      const cyclic = new DependencyGraph();
+      cyclic.setPrecedents('A1', ['B1']);
+      cyclic.setPrecedents('B1', ['A1']);
+      expect(traceCells(cyclic, 'A1', 'precedents', 3)).toEqual(
+        new Map([['B1', 1]])
+      );
+    });
+  });
+
+  it('should resolve traced cells to sorted addresses', () => {
+    const sheet = createMockSheet({
+      name: 'Item Data',
+      columns: ['A', 'B'],
+      rows: [
+        { A: 1, B: 2 },
+        { A: 3, B: 4 },
+      ],
+    });
+
+    const traced = new Map([
+      [generateSheetCellId(sheet.id, 'row-1:col-A'), 2],
+      [generateSheetCellId(sheet.id, 'row-0:col-B'), 1],
+      [generateSheetCellId(sheet.id, 'row-9:col-A'), 1],
+    ]);
+
+    expect(
+      describeTracedCells([sheet], traced).map((c) => [c.address, c.level])
+    ).toEqual([
+      ["'Item Data'!B1", 1],
+      ["'Item Data'!A2", 2],
+    ]);
+  });
+
+  it('should format intermediate values', () => {
+    expect(formatAuditValue(12.5)).toBe('12.5');
+    expect(formatAuditValue('Sword')).toBe('"Sword"');
+    expect(formatAuditValue('#DIV/0!')).toBe('#DIV/0!');
+    expect(formatAuditValue(null)).toBe('(빈 셀)');
+    expect(formatAuditValue(createRangeValue([1, 2, 3, 4], 2, 2))).toBe(
+      '{1, 2; 3, 4}'
+    );
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Formula Audit
+ * 참조되는 셀/참조하는 셀 추적과 수식 계산 단계 표시를 위한 도우미
+ */
+
+import type { CellValue, Sheet } from '@types';
+import { parseCellId, parseSheetCellId } from '@utils/cellUtils';
+import { columnIndexToLetter } from '@utils/gridUtils';
+import type { DependencyGraph } from './dependencyGraph';
+import { isFormulaError } from './formulaErrors';
+import { formatSheetReference } from './formulaParser';
+
+/**
+ * 추적 방향
+ * precedents: 수식이 참조하는 셀, dependents: 이 셀을 참조하는 수식 셀
+ */
+export type TraceDirection = 'precedents' | 'dependents';
+
+/**
+ * 그리드에 표시 중인 추적 (같은 셀을 다시 추적하면 한 단계씩 넓어진다)
+ */
+export interface FormulaTrace {
+  sheetCellId: string; // 추적을 시작한 셀
+  direction: TraceDirection;
+  levels: number;
+  cells: Record<string, number>; // sheetCellId → 단계
+}
+
+/**
+ * 추적된 셀의 위치
+ */
+export interface AuditCell {
+  sheetCellId: string;
+  sheetId: string;
+  sheetName: string;
+  rowIndex: number;
+  columnIndex: number;
+  address: string; // 'Item Data'!B2
+  level: number; // 1 = 직접 참조
+}
+
+/**
+ * 배열 값 표시 시 최대 요소 수
+ */
+const MAX_DISPLAYED_ITEMS = 12;
+
+/**
+ * Follow the dependency graph from a cell for the given number of levels
+ * @returns 시트 ID를 포함한 셀 ID → 처음 도달한 단계 (시작 셀 제외)
+ */
+export const traceCells = (
+  graph: DependencyGraph,
+  sheetCellId: string,
+  direction: TraceDirection,
+  levels = 1
+): Map<string, number> => {
+  const traced = new Map<string, number>();
+  let frontier = [sheetCellId];
+
+  for (let level = 1; level <= levels && frontier.length > 0; level++) {
+    const next: string[] = [];
+    frontier.forEach((current) => {
+      const linked =
+        direction === 'precedents'
+          ? graph.getPrecedents(current)
+          : graph.getDependents(current);
+
+      linked.forEach((id) => {
+        if (id === sheetCellId || traced.has(id)) return;
+        traced.set(id, level);
+        next.push(id);
+      });
+    });
+    frontier = next;
+  }
+
+  return traced;
+};
+
+/**
+ * Resolve traced cells to sheet positions (삭제된 셀은 제외)
+ * 시트 순서, 행, 열 순으로 정렬된다
+ */
+export const describeTracedCells = (
+  sheets: Sheet[],
+  traced: Map<string, number>
+): AuditCell[] => {
+  const cells: AuditCell[] = [];
+
+  sheets.forEach((sheet) => {
+    const sheetCells: AuditCell[] = [];
+
+    traced.forEach((level, sheetCellId) => {
+      const { sheetId, cellId } = parseSheetCellId(sheetCellId);
+      if (sheetId !== sheet.id) return;
+
+      const { rowId, columnId } = parseCellId(cellId);
+      const rowIndex = sheet.rows.findIndex((r) => r.id === rowId);
+      const columnIndex = sheet.columns.findIndex((c) => c.id === columnId);
+      if (rowIndex < 0 || columnIndex < 0) return;
+
+      sheetCells.push({
+        sheetCellId,
+        sheetId,
+        sheetName: sheet.name,
+        rowIndex,
+        columnIndex,
+        address: formatSheetReference(
+          sheet.name,
+          `${columnIndexToLetter(columnIndex)}${rowIndex + 1}`
+        ),
+        level,
+      });
+    });
+
+    sheetCells.sort(
+      (a, b) => a.rowIndex - b.rowIndex || a.columnIndex - b.columnIndex
+    );
+    cells.push(...sheetCells);
+  });
+
+  return cells;
+};
+
+/**
+ * Format an intermediate value for display (배열은 {1, 2; 3, 4} 형태)
+ */
+export const formatAuditValue = (value: CellValue | CellValue[]): string => {
+  if (Array.isArray(value)) {
+    const { rows, columns } = value as { rows?: number; columns?: number };
+    const width = rows !== undefined && columns !== undefined ? columns : 1;
+    const shown = value.slice(0, MAX_DISPLAYED_ITEMS);
+
+    let text = '';
+    shown.forEach((item, i) => {
+      if (i > 0) text += i % width === 0 ? '; ' : ', ';
+      text += formatAuditValue(item);
+    });
+    if (value.length > shown.length) text += ', …';
+    return `{${text}}`;
+  }
+
+  if (value === null) return '(빈 셀)';
+  if (isFormulaError(value)) return value;
+  if (typeof value === 'string') return `"${value}"`;
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+  if (value instanceof Date) return value.toLocaleString();
+  return String(value);
+};
@@ -1,23 +1,25 @@
 /**
  * Formula Cache
  * 수식 계산 결과 캐싱 및 무효화
+ * 키는 시트 ID를 포함한 셀 ID (generateSheetCellId)이므로 시트 간 의존성도 추적된다
+ * 의존성은 평가기와 공유하는 DependencyGraph에 기록된다
  */
 
 import type { CellValue } from '@types';
+import { DependencyGraph, dependencyGraph } from './dependencyGraph';
 
 export interface CacheEntry {
   value: CellValue;
   timestamp: number;
-  dependencies: Set<string>;
 }
 
 export class FormulaCache {
   private cache: Map<string, CacheEntry>;
-  private dependencyGraph: Map<string, Set<string>>; // cellId -> cells that depend on it
+  private dependencyGraph: DependencyGraph;
 
-  constructor() {
+  constructor(graph: DependencyGraph = new DependencyGraph()) {
     this.cache = new Map();
-    this.dependencyGraph = new Map();
+    this.dependencyGraph = graph;
   }
 
   /**
@@ -30,20 +32,13 @@ export class FormulaCache {
 
   /**
    * Set cached value
+   * @param dependencies - 참조한 셀 목록 (생략하면 그래프의 기존 의존성 유지)
    */
-  set(cellId: string, value: CellValue, dependencies: string[] = []): void {
-    this.cache.set(cellId, {
-      value,
-      timestamp: Date.now(),
-      dependencies: new Set(dependencies),
-    });
-
-    // Update dependency graph
-    for (const dep of dependencies) {
-      if (!this.dependencyGraph.has(dep)) {
-        this.dependencyGraph.set(dep, new Set());
-      }
-      this.dependencyGraph.get(dep)!.add(cellId);
+  set(cellId: string, value: CellValue, dependencies?: string[]): void {
+    this.cache.set(cellId, { value, timestamp: Date.now() });
+
+    if (dependencies) {
+      this.dependencyGraph.setPrecedents(cellId, dependencies);
     }
   }
 
@@ -70,37 +65,19 @@ export class FormulaCache {
   }
 
   /**
-   * Get all cells that directly or indirectly depend on a given cell
+   * Get a cell and all cells that directly or indirectly depend on it
    */
   private getCascadeDependents(cellId: string): Set<string> {
-    const visited = new Set<string>();
-    const queue: string[] = [cellId];
-
-    while (queue.length > 0) {
-      const current = queue.shift()!;
-      if (visited.has(current)) continue;
-
-      visited.add(current);
-
-      const dependents = this.dependencyGraph.get(current);
-      if (dependents) {
-        dependents.forEach((dep) => {
-          if (!visited.has(dep)) {
-            queue.push(dep);
-          }
-        });
-      }
-    }
-
-    return visited;
+    const cascade = this.dependencyGraph.collectDirty([cellId]);
+    cascade.add(cellId);
+    return cascade;
   }
 
   /**
-   * Clear entire cache
+   * Clear every cached value (the shared dependency graph is kept)
    */
   clear(): void {
     this.cache.clear();
-    this.dependencyGraph.clear();
   }
 
   /**
@@ -108,7 +85,6 @@ export class FormulaCache {
    */
   getStats(): {
     size: number;
-    dependencies: number;
     oldestEntry: number | null;
   } {
     let oldestTimestamp: number | null = null;
@@ -121,7 +97,6 @@ export class FormulaCache {
 
     return {
       size: this.cache.size,
-      dependencies: this.dependencyGraph.size,
       oldestEntry: oldestTimestamp,
     };
   }
@@ -139,12 +114,8 @@ export class FormulaCache {
       }
     }
 
-    toDelete.forEach((cellId) => {
-      this.cache.delete(cellId);
-      // Also remove from dependency graph
-      this.dependencyGraph.delete(cellId);
-      this.dependencyGraph.forEach((deps) => deps.delete(cellId));
-    });
+    // Dependencies stay in the graph so recalculation still reaches these cells
+    toDelete.forEach((cellId) => this.cache.delete(cellId));
   }
 
   /**
@@ -155,42 +126,15 @@ export class FormulaCache {
     calculator: (cellId: string) => CellValue
   ): void {
     // Topological sort to calculate in dependency order
-    const sorted = this.topologicalSort(cellIds);
+    const sorted = this.dependencyGraph.topologicalOrder(cellIds);
 
     for (const cellId of sorted) {
-      const value = calculator(cellId);
-      const entry = this.cache.get(cellId);
-      const dependencies = entry ? Array.from(entry.dependencies) : [];
-      this.set(cellId, value, dependencies);
+      this.set(cellId, calculator(cellId));
     }
   }
-
-  /**
-   * Topological sort for dependency-ordered calculation
-   */
-  private topologicalSort(cellIds: string[]): string[] {
-    const visited = new Set<string>();
-    const result: string[] = [];
-
-    const visit = (cellId: string) => {
-      if (visited.has(cellId)) return;
-      visited.add(cellId);
-
-      // Visit dependencies first
-      const entry = this.cache.get(cellId);
-      if (entry) {
-        entry.dependencies.forEach(visit);
-      }
-
-      result.push(cellId);
-    };
-
-    cellIds.forEach(visit);
-    return result;
-  }
 }
 
 /**
- * Singleton instance
+ * Singleton instance (formulaEvaluator와 같은 의존성 그래프 사용)
  */
-export const formulaCache = new FormulaCache();
+export const formulaCache = new FormulaCache(dependencyGraph);
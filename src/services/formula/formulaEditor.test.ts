@@ -0,0 +1,122 @@
+/**
+ * Formula Editor Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  formatRangeReference,
+  getFormulaError,
+  getFunctionCallContext,
+  highlightFormula,
+  insertReference,
+} from './formulaEditor';
+
+describe('formulaEditor', () => {
+  describe('highlightFormula', () => {
+    it('splits a formula into typed segments covering the whole input', () => {
+      const input = '=SUM(A1:A3, 2) & "x"';
+      const segments = highlightFormula(input);
+
+      expect(segments.map((s) => s.text).join('')).toBe(input);
+      expect(segments.map((s) => [s.text, s.type])).toEqual([
+        ['=', 'prefix'],
+        ['SUM', 'function'],
+        ['(', 'lparen'],
+        ['A1:A3', 'range'],
+        [',', 'comma'],
+        [' ', 'text'],
+        ['2', 'number'],
+        [')', 'rparen'],
+        [' ', 'text'],
+        ['&', 'operator'],
+        [' ', 'text'],
+        ['"x"', 'string'],
+      ]);
+    });
+
+    it('marks the parenthesis next to the cursor and its pair', () => {
+      const input = '=ROUND((1 + 2) * 3, 1)';
+      const matched = (cursor: number) =>
+        highlightFormula(input, cursor)
+          .filter((s) => s.matchedParen)
+          .map((s) => s.start);
+
+      expect(matched(8)).toEqual([7, 13]); // after '(('
+      expect(matched(14)).toEqual([7, 13]); // after ')'
+      expect(matched(input.length)).toEqual([6, 21]);
+      expect(matched(10)).toEqual([]);
+    });
+
+    it('does not tokenize plain values', () => {
+      expect(highlightFormula('hello')).toEqual([
+        { text: 'hello', start: 0, type: 'text' },
+      ]);
+    });
+  });
+
+  describe('getFunctionCallContext', () => {
+    it('finds the innermost function and argument index', () => {
+      const input = '=IF(A1 > 0, ROUND(B1, ';
+      expect(getFunctionCallContext(input, 8)).toEqual({
+        name: 'IF',
+        argumentIndex: 0,
+      });
+      expect(getFunctionCallContext(input, input.length)).toEqual({
+        name: 'ROUND',
+        argumentIndex: 1,
+      });
+    });
+
+    it('skips grouping parentheses and closed calls', () => {
+      expect(getFunctionCallContext('=MAX(1, (2 + 3', 14)).toEqual({
+        name: 'MAX',
+        argumentIndex: 1,
+      });
+      expect(getFunctionCallContext('=SUM(1) + ', 10)).toBeNull();
+    });
+  });
+
+  describe('getFormulaError', () => {
+    it('reports unbalanced parentheses and parse errors', () => {
+      expect(getFormulaError('=SUM(1, 2')).toBe("Expected ')'");
+      expect(getFormulaError('=1 + 2)')).toBe("Unmatched ')'");
+      expect(getFormulaError('=1 +')).toBe('Unexpected end of formula');
+      expect(getFormulaError('=SUM(1, 2)')).toBeNull();
+      expect(getFormulaError('plain text (')).toBeNull();
+    });
+  });
+
+  describe('insertReference', () => {
+    it('inserts after operators, commas and opening parentheses', () => {
+      expect(insertReference('=', 1, 'A1')).toEqual({
+        value: '=A1',
+        start: 1,
+        end: 3,
+      });
+      expect(insertReference('=SUM(A1, )', 9, 'B2:B5')?.value).toBe(
+        '=SUM(A1, B2:B5)'
+      );
+      expect(insertReference('=A1 *', 5, 'C1')?.value).toBe('=A1 *C1');
+    });
+
+    it('refuses positions where a reference cannot go', () => {
+      expect(insertReference('=A1', 3, 'B1')).toBeNull();
+      expect(insertReference('=SUM', 2, 'B1')).toBeNull();
+      expect(insertReference('A1', 2, 'B1')).toBeNull();
+    });
+
+    it('replaces the reference picked last', () => {
+      const first = insertReference('=SUM(', 5, 'A1')!;
+      const second = insertReference(first.value, first.end, 'A1:A4', first);
+      expect(second).toEqual({ value: '=SUM(A1:A4', start: 5, end: 10 });
+    });
+  });
+
+  it('formats selections as references', () => {
+    const cell = { startRow: 1, endRow: 1, startColumn: 2, endColumn: 2 };
+    const range = { startRow: 0, endRow: 9, startColumn: 1, endColumn: 1 };
+
+    expect(formatRangeReference(cell)).toBe('C2');
+    expect(formatRangeReference(range, 'Item Data')).toBe("'Item Data'!B1:B10");
+  });
+});
@@ -0,0 +1,270 @@
+/**
+ * Formula Editor
+ * 수식 입력줄 도우미 - 토큰 색상 구분, 괄호 짝 찾기, 현재 함수 인수 위치, 참조 삽입
+ */
+
+import type { SelectionRange } from '@types';
+import { columnIndexToLetter } from '@utils/gridUtils';
+import {
+  FormulaParser,
+  formatSheetReference,
+  type Token,
+} from './formulaParser';
+
+/**
+ * 색상 구분용 구간 (입력 문자열 전체를 빈틈없이 덮는다)
+ */
+export interface FormulaSegment {
+  text: string;
+  start: number;
+  type: Token['type'] | 'prefix' | 'text' | 'invalid'; // text: 공백, 수식이 아닌 값
+  matchedParen?: boolean; // 커서 옆 괄호와 그 짝
+}
+
+/**
+ * 커서가 들어 있는 함수 호출
+ */
+export interface FunctionCallContext {
+  name: string;
+  argumentIndex: number; // 0부터
+}
+
+/**
+ * 토큰 (입력 문자열 기준 위치 포함)
+ */
+interface PositionedToken extends Token {
+  start: number;
+  end: number;
+}
+
+const parser = new FormulaParser();
+
+/**
+ * Tokenize the input as typed (위치는 '='를 포함한 입력 기준)
+ * 수식이 아니거나 토큰화할 수 없으면 null
+ */
+const tokenizeInput = (input: string): PositionedToken[] | null => {
+  const offset = getFormulaBodyOffset(input);
+  if (offset === null) return null;
+
+  try {
+    return parser.tokenize(input.substring(offset)).map((token) => ({
+      ...token,
+      start: (token.start ?? 0) + offset,
+      end: (token.end ?? 0) + offset,
+    }));
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Position right after the leading '=' (수식이 아니면 null)
+ */
+export const getFormulaBodyOffset = (input: string): number | null => {
+  const equals = input.indexOf('=');
+  if (equals === -1 || input.substring(0, equals).trim() !== '') return null;
+  return equals + 1;
+};
+
+const isParen = (token: Token): boolean =>
+  token.type === 'lparen' || token.type === 'rparen';
+
+/**
+ * Index of the token whose parenthesis pairs with the token at the index
+ * @returns 짝이 없으면 -1
+ */
+const findMatchingParen = (tokens: Token[], index: number): number => {
+  const step = tokens[index].type === 'lparen' ? 1 : -1;
+  let depth = 0;
+
+  for (let i = index; i >= 0 && i < tokens.length; i += step) {
+    if (tokens[i].type === 'lparen') depth += step;
+    else if (tokens[i].type === 'rparen') depth -= step;
+    if (depth === 0) return i;
+  }
+  return -1;
+};
+
+/**
+ * Split the input into coloured segments
+ * 커서 바로 앞이나 뒤의 괄호와 그 짝에는 matchedParen이 표시된다
+ */
+export const highlightFormula = (
+  input: string,
+  cursor?: number
+): FormulaSegment[] => {
+  const tokens = tokenizeInput(input);
+  if (!tokens) {
+    const type = getFormulaBodyOffset(input) === null ? 'text' : 'invalid';
+    return input ? [{ text: input, start: 0, type }] : [];
+  }
+
+  const matched = new Set<number>();
+  if (cursor !== undefined) {
+    const parenIndex = [
+      tokens.findIndex((t) => t.end === cursor && isParen(t)),
+      tokens.findIndex((t) => t.start === cursor && isParen(t)),
+    ].find((i) => i !== -1);
+
+    if (parenIndex !== undefined) {
+      const pair = findMatchingParen(tokens, parenIndex);
+      if (pair !== -1) {
+        matched.add(parenIndex);
+        matched.add(pair);
+      }
+    }
+  }
+
+  const offset = getFormulaBodyOffset(input) ?? 0;
+  const segments: FormulaSegment[] = [
+    { text: input.substring(0, offset), start: 0, type: 'prefix' },
+  ];
+  let position = offset;
+
+  const pushGap = (end: number) => {
+    if (end > position) {
+      segments.push({
+        text: input.substring(position, end),
+        start: position,
+        type: 'text',
+      });
+    }
+  };
+
+  tokens.forEach((token, index) => {
+    pushGap(token.start);
+    segments.push({
+      text: input.substring(token.start, token.end),
+      start: token.start,
+      type: token.type,
+      ...(matched.has(index) && { matchedParen: true }),
+    });
+    position = token.end;
+  });
+  pushGap(input.length);
+
+  return segments;
+};
+
+/**
+ * Find the innermost function call that contains the cursor
+ * @returns 함수 호출 안이 아니면 null
+ */
+export const getFunctionCallContext = (
+  input: string,
+  cursor: number
+): FunctionCallContext | null => {
+  const tokens = tokenizeInput(input);
+  if (!tokens) return null;
+
+  const stack: (FunctionCallContext | null)[] = [];
+  for (let i = 0; i < tokens.length && tokens[i].end <= cursor; i++) {
+    const token = tokens[i];
+    if (token.type === 'lparen') {
+      const previous = tokens[i - 1];
+      stack.push(
+        previous?.type === 'function'
+          ? { name: previous.value, argumentIndex: 0 }
+          : null // Grouping parentheses
+      );
+    } else if (token.type === 'rparen') {
+      stack.pop();
+    } else if (token.type === 'comma' && stack.length > 0) {
+      const current = stack[stack.length - 1];
+      if (current) current.argumentIndex++;
+    }
+  }
+
+  for (let i = stack.length - 1; i >= 0; i--) {
+    if (stack[i]) return stack[i];
+  }
+  return null;
+};
+
+/**
+ * Parse error message for the input (수식이 아니거나 올바르면 null)
+ */
+export const getFormulaError = (input: string): string | null => {
+  if (getFormulaBodyOffset(input) === null) return null;
+
+  const tokens = tokenizeInput(input);
+  if (tokens) {
+    let depth = 0;
+    for (const token of tokens) {
+      if (token.type === 'lparen') depth++;
+      if (token.type === 'rparen' && --depth < 0) return "Unmatched ')'";
+    }
+    if (depth > 0) return "Expected ')'";
+  }
+
+  try {
+    parser.parse(input);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid formula';
+  }
+};
+
+/**
+ * Insert a picked cell/range reference at the cursor
+ * 커서 앞이 '=', 연산자, '(' 또는 ','이면 삽입하고,
+ * replace 구간(바로 전에 고른 참조) 끝에 커서가 있으면 그 참조를 바꾼다
+ * @returns 참조를 넣을 수 없는 위치이면 null
+ */
+export const insertReference = (
+  input: string,
+  cursor: number,
+  reference: string,
+  replace?: { start: number; end: number }
+): { value: string; start: number; end: number } | null => {
+  const offset = getFormulaBodyOffset(input);
+  if (offset === null || cursor < offset) return null;
+
+  let start = cursor;
+  if (replace && replace.end === cursor) {
+    start = replace.start;
+  } else {
+    const tokens = tokenizeInput(input);
+    if (!tokens || tokens.some((t) => t.start < cursor && t.end > cursor)) {
+      return null;
+    }
+    const previous = [...tokens].reverse().find((t) => t.end <= cursor);
+    if (previous && !['operator', 'lparen', 'comma'].includes(previous.type)) {
+      return null;
+    }
+  }
+
+  return {
+    value: input.substring(0, start) + reference + input.substring(cursor),
+    start,
+    end: start + reference.length,
+  };
+};
+
+/**
+ * 수식 입력줄에서 편집 중인 셀 (그리드 클릭이 선택 대신 참조 삽입이 된다)
+ */
+export interface FormulaEditing {
+  sheetId: string;
+  rowId: string;
+  columnId: string;
+  pickedReference: string | null; // 그리드에서 마지막으로 고른 참조
+  pickCount: number; // 같은 참조를 다시 골라도 변경이 감지되도록 증가
+}
+
+/**
+ * Format a selection as a reference (A1, B2:C5, 'Item Data'!B2:B50)
+ * 다른 시트의 범위이면 시트 이름을 붙인다
+ */
+export const formatRangeReference = (
+  range: SelectionRange,
+  sheetName?: string
+): string => {
+  const start = `${columnIndexToLetter(range.startColumn)}${range.startRow + 1}`;
+  const end = `${columnIndexToLetter(range.endColumn)}${range.endRow + 1}`;
+  return formatSheetReference(
+    sheetName,
+    start === end ? start : `${start}:${end}`
+  );
+};
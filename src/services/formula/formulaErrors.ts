@@ -0,0 +1,80 @@
+/**
+ * Formula Errors
+ * 스프레드시트 오류 값 (#DIV/0!, #REF!, #NAME?, #N/A, #SPILL! 등)
+ */
+
+/**
+ * 수식 오류 코드
+ * 오류 값은 셀 값에 코드 문자열 그대로 저장되며 연산자와 함수를 통해 전파된다
+ */
+export type FormulaErrorCode =
+  | '#DIV/0!'
+  | '#REF!'
+  | '#NAME?'
+  | '#VALUE!'
+  | '#N/A'
+  | '#NUM!'
+  | '#NULL!'
+  | '#CIRC!'
+  | '#SPILL!'
+  | '#CALC!';
+
+export const FORMULA_ERROR_CODES: readonly FormulaErrorCode[] = [
+  '#DIV/0!',
+  '#REF!',
+  '#NAME?',
+  '#VALUE!',
+  '#N/A',
+  '#NUM!',
+  '#NULL!',
+  '#CIRC!',
+  '#SPILL!',
+  '#CALC!',
+];
+
+/**
+ * 오류 코드 설명 (셀 툴팁 등에 표시)
+ */
+export const FORMULA_ERROR_DESCRIPTIONS: Record<FormulaErrorCode, string> = {
+  '#DIV/0!': '0으로 나눌 수 없습니다',
+  '#REF!': '잘못된 셀 참조입니다',
+  '#NAME?': '알 수 없는 함수 또는 이름입니다',
+  '#VALUE!': '잘못된 값 또는 인수입니다',
+  '#N/A': '값을 찾을 수 없습니다',
+  '#NUM!': '잘못된 숫자입니다',
+  '#NULL!': '빈 범위입니다',
+  '#CIRC!': '순환 참조입니다',
+  '#SPILL!': '배열 결과를 펼칠 영역이 비어있지 않습니다',
+  '#CALC!': '빈 배열 결과입니다',
+};
+
+/**
+ * 오류 코드를 가진 수식 평가 오류
+ */
+export class FormulaError extends Error {
+  readonly code: FormulaErrorCode;
+
+  constructor(code: FormulaErrorCode, message?: string) {
+    super(message ?? FORMULA_ERROR_DESCRIPTIONS[code]);
+    this.name = 'FormulaError';
+    this.code = code;
+  }
+}
+
+/**
+ * 값이 오류 값(#DIV/0! 등)인지 확인
+ */
+export const isFormulaError = (value: unknown): value is FormulaErrorCode =>
+  typeof value === 'string' &&
+  FORMULA_ERROR_CODES.includes(value as FormulaErrorCode);
+
+/**
+ * 임의의 예외를 FormulaError로 변환 (코드가 없는 오류는 #VALUE!)
+ */
+export const toFormulaError = (error: unknown): FormulaError => {
+  if (error instanceof FormulaError) return error;
+  return new FormulaError(
+    '#VALUE!',
+    error instanceof Error ? error.message : undefined
+  );
+};
@@ -2,9 +2,10 @@
  * Formula Evaluator Tests
  */
 
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { FormulaEvaluator } from './formulaEvaluator';
 import { createMockSheet } from '@test/utils/mockData';
+import { generateSheetCellId } from '@utils/cellUtils';
 
 describe('FormulaEvaluator', () => {
   let evaluator: FormulaEvaluator;
@@ -251,6 +252,127 @@ describe('FormulaEvaluator', () => {
     });
   });
 
+  describe('Error Values', () => {
+    it('should throw typed errors', () => {
+      const sheet = createMockSheet();
+
+      expect(() => evaluator.evaluate('test', '=1/0', sheet)).toThrow(
+        expect.objectContaining({ code: '#DIV/0!' })
+      );
+      expect(() => evaluator.evaluate('test', '=NOPE(1)', sheet)).toThrow(
+        expect.objectContaining({ code: '#NAME?' })
+      );
+      expect(() => evaluator.evaluate('test', '=Missing!A1', sheet)).toThrow(
+        expect.objectContaining({ code: '#REF!' })
+      );
+    });
+
+    it('should report circular references as #CIRC!', () => {
+      const sheet = createMockSheet({
+        columns: ['A'],
+        rows: [{ A: null }],
+      });
+      sheet.rows[0].cells['col-A'].formula = '=A1';
+
+      expect(() => evaluator.evaluate('row-0:col-A', '=A1', sheet)).toThrow(
+        expect.objectContaining({ code: '#CIRC!' })
+      );
+    });
+
+    it('should propagate errors from referenced cells through operators', () => {
+      const sheet = createMockSheet({
+        columns: ['A', 'B'],
+        rows: [
+          { A: 10, B: 0 },
+          { A: null, B: '#N/A' },
+        ],
+      });
+      sheet.rows[1].cells['col-A'].formula = '=A1/B1';
+
+      expect(() => evaluator.evaluate('test', '=A2 + 1', sheet)).toThrow(
+        expect.objectContaining({ code: '#DIV/0!' })
+      );
+      expect(() => evaluator.evaluate('test', '=B2 & "x"', sheet)).toThrow(
+        expect.objectContaining({ code: '#N/A' })
+      );
+    });
+
+    it('should return #VALUE! for arithmetic on non-numeric text', () => {
+      const sheet = createMockSheet({
+        columns: ['A'],
+        rows: [{ A: 'abc' }, { A: '5' }, {}],
+      });
+      const run = (formula: string) => () =>
+        evaluator.evaluate('test', formula, sheet);
+
+      ['=-"abc"', '="abc"*2', '=1+"abc"', '=A1-1', '=2^A1', '=10/A1'].forEach(
+        (formula) =>
+          expect(run(formula)).toThrow(
+            expect.objectContaining({ code: '#VALUE!' })
+          )
+      );
+      // Numeric text and empty cells still count as numbers
+      expect(run('=-A2')()).toBe(-5);
+      expect(run('=A2*2 + A3')()).toBe(10);
+      expect(run('="3"+"4"')()).toBe(7);
+      // Comparisons and concatenation accept any text
+      expect(run('=A1&"!"')()).toBe('abc!');
+      expect(run('=A1="abc"')()).toBe(true);
+    });
+
+    it('should propagate errors through functions', () => {
+      const sheet = createMockSheet({
+        columns: ['A'],
+        rows: [{ A: 1 }, { A: '#REF!' }, { A: 3 }],
+      });
+
+      expect(evaluator.evaluate('test', '=SUM(A1:A3)', sheet)).toBe('#REF!');
+      expect(evaluator.evaluate('test', '=ROUND(1/0, 2)', sheet)).toBe(
+        '#DIV/0!'
+      );
+      expect(evaluator.evaluate('test', '=COUNT(A1:A3)', sheet)).toBe(2);
+    });
+
+    it('should handle errors with IFERROR, ISERROR, ISERR and ISNA', () => {
+      const sheet = createMockSheet({
+        columns: ['id', 'attack'],
+        rows: [
+          { id: 'sword', attack: 50 },
+          { id: 'axe', attack: 70 },
+        ],
+      });
+
+      expect(
+        evaluator.evaluate(
+          'test',
+          '=IFERROR(VLOOKUP("bow", A1:B2, 2, FALSE), 0)',
+          sheet
+        )
+      ).toBe(0);
+      expect(evaluator.evaluate('test', '=IFERROR(B1 * 2, 0)', sheet)).toBe(
+        100
+      );
+      expect(evaluator.evaluate('test', '=ISERROR(1/0)', sheet)).toBe(true);
+      expect(evaluator.evaluate('test', '=ISERROR(B1)', sheet)).toBe(false);
+      expect(
+        evaluator.evaluate('test', '=ISNA(MATCH("bow", A1:A2, 0))', sheet)
+      ).toBe(true);
+      expect(evaluator.evaluate('test', '=ISERR(#N/A)', sheet)).toBe(false);
+      expect(evaluator.evaluate('test', '=ISERR(#REF!)', sheet)).toBe(true);
+    });
+
+    it('should only propagate errors from the IF condition', () => {
+      const sheet = createMockSheet();
+
+      expect(
+        evaluator.evaluate('test', '=IF(ISERROR(1/0), "bad", 1/0)', sheet)
+      ).toBe('bad');
+      expect(evaluator.evaluate('test', '=IF(1/0, 1, 2)', sheet)).toBe(
+        '#DIV/0!'
+      );
+    });
+  });
+
   describe('Statistical Functions', () => {
     it('should calculate MEDIAN with odd count', () => {
       const sheet = createMockSheet({
@@ -319,4 +441,1141 @@ describe('FormulaEvaluator', () => {
       expect(result).toBe(5);
     });
   });
+
+  describe('Conditional Aggregation Functions', () => {
+    const drops = () =>
+      createMockSheet({
+        columns: ['source', 'rarity', 'level', 'rate'],
+        rows: [
+          { source: 'Goblin', rarity: 'common', level: 5, rate: 0.5 },
+          { source: 'Goblin', rarity: 'legendary', level: 12, rate: 0.01 },
+          { source: 'Goblin Chief', rarity: 'rare', level: 20, rate: 0.2 },
+          { source: 'Orc', rarity: 'legendary', level: 25, rate: 0.02 },
+          { source: 'Orc', rarity: 'common', level: null, rate: 0.6 },
+        ],
+      });
+
+    it('should evaluate SUMIF with text and comparison criteria', () => {
+      const sheet = drops();
+
+      expect(
+        evaluator.evaluate('test', '=SUMIF(A1:A5, "Goblin", D1:D5)', sheet)
+      ).toBeCloseTo(0.51);
+      expect(evaluator.evaluate('test', '=SUMIF(C1:C5, ">=12")', sheet)).toBe(
+        57
+      );
+      expect(
+        evaluator.evaluate('test', '=SUMIF(B1:B5, "<>common", C1:C5)', sheet)
+      ).toBe(57);
+    });
+
+    it('should support wildcards and blank criteria', () => {
+      const sheet = drops();
+
+      expect(evaluator.evaluate('test', '=COUNTIF(A1:A5, "gob*")', sheet)).toBe(
+        3
+      );
+      expect(evaluator.evaluate('test', '=COUNTIF(A1:A5, "Or?")', sheet)).toBe(
+        2
+      );
+      expect(evaluator.evaluate('test', '=COUNTIF(C1:C5, "")', sheet)).toBe(1);
+      expect(evaluator.evaluate('test', '=COUNTIF(C1:C5, "<>")', sheet)).toBe(
+        4
+      );
+    });
+
+    it('should evaluate multiple criteria pairs', () => {
+      const sheet = drops();
+
+      expect(
+        evaluator.evaluate(
+          'test',
+          '=COUNTIFS(B1:B5, "legendary", C1:C5, ">10")',
+          sheet
+        )
+      ).toBe(2);
+      expect(
+        evaluator.evaluate(
+          'test',
+          '=SUMIFS(D1:D5, A1:A5, "Orc", B1:B5, "common")',
+          sheet
+        )
+      ).toBe(0.6);
+      expect(
+        evaluator.evaluate('test', '=MAXIFS(C1:C5, A1:A5, "Goblin*")', sheet)
+      ).toBe(20);
+      expect(
+        evaluator.evaluate('test', '=MINIFS(C1:C5, B1:B5, "legendary")', sheet)
+      ).toBe(12);
+    });
+
+    it('should evaluate AVERAGEIF(S)', () => {
+      const sheet = drops();
+
+      expect(
+        evaluator.evaluate(
+          'test',
+          '=AVERAGEIF(B1:B5, "legendary", C1:C5)',
+          sheet
+        )
+      ).toBe(18.5);
+      expect(
+        evaluator.evaluate(
+          'test',
+          '=AVERAGEIFS(C1:C5, A1:A5, "Goblin", C1:C5, "<10")',
+          sheet
+        )
+      ).toBe(5);
+      expect(
+        evaluator.evaluate('test', '=AVERAGEIF(A1:A5, "Dragon", C1:C5)', sheet)
+      ).toBe('#DIV/0!');
+    });
+
+    it('should compare numeric criteria against numbers only', () => {
+      const sheet = createMockSheet({
+        columns: ['A'],
+        rows: [{ A: 10 }, { A: '10' }, { A: 'ten' }, { A: true }],
+      });
+
+      expect(evaluator.evaluate('test', '=COUNTIF(A1:A4, 10)', sheet)).toBe(2);
+      expect(evaluator.evaluate('test', '=COUNTIF(A1:A4, ">5")', sheet)).toBe(
+        2
+      );
+      expect(evaluator.evaluate('test', '=COUNTIF(A1:A4, TRUE)', sheet)).toBe(
+        1
+      );
+    });
+
+    it('should return #VALUE! for mismatched ranges or criteria', () => {
+      const sheet = drops();
+
+      expect(
+        evaluator.evaluate('test', '=SUMIFS(D1:D5, A1:A4, "Orc")', sheet)
+      ).toBe('#VALUE!');
+      expect(
+        evaluator.evaluate('test', '=COUNTIFS(A1:A5, "Orc", B1:B5)', sheet)
+      ).toBe('#VALUE!');
+    });
+
+    it('should only propagate errors from matched values', () => {
+      const sheet = createMockSheet({
+        columns: ['A', 'B'],
+        rows: [
+          { A: 'x', B: 1 },
+          { A: 'y', B: '#N/A' },
+        ],
+      });
+
+      expect(
+        evaluator.evaluate('test', '=SUMIF(A1:A2, "x", B1:B2)', sheet)
+      ).toBe(1);
+      expect(
+        evaluator.evaluate('test', '=SUMIF(A1:A2, "y", B1:B2)', sheet)
+      ).toBe('#N/A');
+      expect(evaluator.evaluate('test', '=COUNTIF(B1:B2, ">0")', sheet)).toBe(
+        1
+      );
+    });
+  });
+
+  describe('Dynamic Array Functions', () => {
+    const items = () =>
+      createMockSheet({
+        columns: ['A', 'B'],
+        rows: [
+          { A: 'Sword', B: 30 },
+          { A: 'Bow', B: 10 },
+          { A: 'Sword', B: 20 },
+        ],
+      });
+
+    it('should generate sequences', () => {
+      const result = evaluator.evaluateArray(
+        'test',
+        '=SEQUENCE(2, 3, 10, 5)',
+        createMockSheet()
+      );
+      expect(Array.isArray(result)).toBe(true);
+      expect(result).toMatchObject({ rows: 2, columns: 3 });
+      expect(Array.from(result as unknown[])).toEqual([10, 15, 20, 25, 30, 35]);
+      expect(
+        evaluator.evaluate('test', '=SEQUENCE(0)', createMockSheet())
+      ).toBe('#CALC!');
+    });
+
+    it('should filter rows by a condition', () => {
+      const sheet = items();
+      const result = evaluator.evaluateArray(
+        'test',
+        '=FILTER(A1:B3, B1:B3>15)',
+        sheet
+      );
+      expect(result).toMatchObject({ rows: 2, columns: 2 });
+      expect(Array.from(result as unknown[])).toEqual([
+        'Sword',
+        30,
+        'Sword',
+        20,
+      ]);
+      expect(
+        evaluator.evaluate('test', '=FILTER(A1:A3, B1:B3>100, "none")', sheet)
+      ).toBe('none');
+      expect(
+        evaluator.evaluate('test', '=FILTER(A1:A3, B1:B3>100)', sheet)
+      ).toBe('#CALC!');
+    });
+
+    it('should sort and deduplicate', () => {
+      const sheet = items();
+      const sorted = evaluator.evaluateArray(
+        'test',
+        '=SORT(A1:B3, 2, -1)',
+        sheet
+      );
+      expect(Array.from(sorted as unknown[])).toEqual([
+        'Sword',
+        30,
+        'Sword',
+        20,
+        'Bow',
+        10,
+      ]);
+
+      const unique = evaluator.evaluateArray('test', '=UNIQUE(A1:A3)', sheet);
+      expect(unique).toMatchObject({ rows: 2, columns: 1 });
+      expect(Array.from(unique as unknown[])).toEqual(['Sword', 'Bow']);
+    });
+
+    it('should broadcast operators over arrays', () => {
+      const sheet = items();
+      const result = evaluator.evaluateArray('test', '=B1:B3*2', sheet);
+      expect(Array.from(result as unknown[])).toEqual([60, 20, 40]);
+      expect(evaluator.evaluate('test', '=B1:B3*2', sheet)).toBe(60);
+      expect(() => evaluator.evaluate('test', '=B1:B3+A1:B3', sheet)).toThrow(
+        'Array sizes do not match'
+      );
+    });
+  });
+
+  describe('Cross-Sheet References', () => {
+    it('should evaluate a reference to another sheet', () => {
+      const current = createMockSheet({ name: 'Enemy', rows: [{ A: 2 }] });
+      const stats = createMockSheet({
+        name: 'StatProgression',
+        rows: [{ A: 100, B: 15 }],
+      });
+
+      const result = evaluator.evaluate(
+        'test',
+        '=StatProgression!A1*A1',
+        current,
+        [current, stats]
+      );
+      expect(result).toBe(200);
+    });
+
+    it('should evaluate quoted sheet names with spaces in ranges', () => {
+      const current = createMockSheet({ name: 'Summary' });
+      const items = createMockSheet({
+        name: 'Item Data',
+        rows: [{ B: 10 }, { B: 20 }, { B: 30 }],
+      });
+
+      const result = evaluator.evaluate(
+        'test',
+        "=SUM('Item Data'!B1:B3)",
+        current,
+        [current, items]
+      );
+      expect(result).toBe(60);
+    });
+
+    it('should match sheet names case-insensitively', () => {
+      const current = createMockSheet({ name: 'Enemy' });
+      const stats = createMockSheet({ name: 'Stats', rows: [{ A: 7 }] });
+
+      const result = evaluator.evaluate('test', '=stats!a1', current, [
+        current,
+        stats,
+      ]);
+      expect(result).toBe(7);
+    });
+
+    it('should evaluate formulas on the referenced sheet in that sheet', () => {
+      const current = createMockSheet({ name: 'Enemy' });
+      const stats = createMockSheet({
+        name: 'Stats',
+        rows: [{ A: 5, B: null }],
+      });
+      // Stats!B1 = A1 * 2 (A1 of the Stats sheet, not the current sheet)
+      stats.rows[0].cells['col-B'].formula = '=A1*2';
+
+      const result = evaluator.evaluate('test', '=Stats!B1', current, [
+        current,
+        stats,
+      ]);
+      expect(result).toBe(10);
+    });
+
+    it('should throw for an unknown sheet', () => {
+      const current = createMockSheet({ name: 'Enemy' });
+
+      expect(() => {
+        evaluator.evaluate('test', '=Missing!A1', current, [current]);
+      }).toThrow('Unknown sheet: Missing');
+    });
+
+    it('should track dependents across sheets', () => {
+      const current = createMockSheet({ name: 'Enemy', rows: [{ A: null }] });
+      const stats = createMockSheet({ name: 'Stats', rows: [{ A: 1 }] });
+
+      evaluator.evaluate('row-0:col-A', '=Stats!A1', current, [current, stats]);
+
+      const dependents = evaluator.getDependents(`${stats.id}!row-0:col-A`);
+      expect(dependents.has(`${current.id}!row-0:col-A`)).toBe(true);
+      expect(
+        evaluator
+          .getPrecedents(`${current.id}!row-0:col-A`)
+          .has(`${stats.id}!row-0:col-A`)
+      ).toBe(true);
+    });
+
+    it('should detect circular references across sheets', () => {
+      const first = createMockSheet({ name: 'First', rows: [{ A: null }] });
+      const second = createMockSheet({ name: 'Second', rows: [{ A: null }] });
+      first.rows[0].cells['col-A'].formula = '=Second!A1';
+      second.rows[0].cells['col-A'].formula = '=First!A1';
+
+      expect(() => {
+        evaluator.evaluate('row-0:col-A', '=Second!A1', first, [first, second]);
+      }).toThrow('Circular reference detected');
+    });
+  });
+
+  describe('Lookup Functions', () => {
+    const items = () =>
+      createMockSheet({
+        name: 'Item',
+        columns: ['A', 'B', 'C'],
+        rows: [
+          { A: 'ID', B: 'Name', C: 'Attack' },
+          { A: 1001, B: 'Sword', C: 50 },
+          { A: 1002, B: 'Axe', C: 70 },
+          { A: 1003, B: 'Bow', C: 40 },
+        ],
+      });
+
+    it('should keep the 2D shape of ranges', () => {
+      const sheet = items();
+      expect(evaluator.evaluate('test', '=INDEX(A2:C4, 2, 3)', sheet)).toBe(70);
+      expect(evaluator.evaluate('test', '=INDEX(A1:C1, 2)', sheet)).toBe(
+        'Name'
+      );
+      expect(evaluator.evaluate('test', '=INDEX(A2:C4, 4, 1)', sheet)).toBe(
+        '#REF!'
+      );
+    });
+
+    it('should return a whole column or row for a 0 index', () => {
+      const sheet = items();
+      const column = evaluator.evaluateArray(
+        'test',
+        '=INDEX(A2:C4, 0, 3)',
+        sheet
+      );
+      expect(Array.from(column as unknown[])).toEqual([50, 70, 40]);
+      expect(column).toMatchObject({ rows: 3, columns: 1 });
+
+      const row = evaluator.evaluateArray('test', '=INDEX(A2:C4, 2, 0)', sheet);
+      expect(Array.from(row as unknown[])).toEqual([1002, 'Axe', 70]);
+      expect(row).toMatchObject({ rows: 1, columns: 3 });
+
+      expect(
+        evaluator.evaluateArray('test', '=INDEX(A2:C4, 0, 0)', sheet)
+      ).toHaveLength(9);
+      expect(
+        evaluator.evaluate('test', '=SUM(INDEX(A2:C4, 0, 3))', sheet)
+      ).toBe(160);
+      expect(evaluator.evaluate('test', '=INDEX(A2:C4, 0, 4)', sheet)).toBe(
+        '#REF!'
+      );
+    });
+
+    it('should evaluate VLOOKUP with exact match from another sheet', () => {
+      const current = createMockSheet({ name: 'Drop', rows: [{ A: 1003 }] });
+      const result = evaluator.evaluate(
+        'test',
+        '=VLOOKUP(A1, Item!A2:C4, 3, FALSE)',
+        current,
+        [current, items()]
+      );
+      expect(result).toBe(40);
+    });
+
+    it('should evaluate VLOOKUP with approximate match', () => {
+      const sheet = createMockSheet({
+        columns: ['A', 'B'],
+        rows: [
+          { A: 0, B: 'Bronze' },
+          { A: 100, B: 'Silver' },
+          { A: 500, B: 'Gold' },
+        ],
+      });
+      expect(evaluator.evaluate('test', '=VLOOKUP(250, A1:B3, 2)', sheet)).toBe(
+        'Silver'
+      );
+      expect(evaluator.evaluate('test', '=VLOOKUP(-5, A1:B3, 2)', sheet)).toBe(
+        '#N/A'
+      );
+    });
+
+    it('should evaluate HLOOKUP', () => {
+      const sheet = items();
+      expect(
+        evaluator.evaluate('test', '=HLOOKUP("attack", A1:C4, 3, FALSE)', sheet)
+      ).toBe(70);
+    });
+
+    it('should evaluate MATCH in all match modes', () => {
+      const sheet = items();
+      expect(evaluator.evaluate('test', '=MATCH("axe", B2:B4, 0)', sheet)).toBe(
+        2
+      );
+      expect(evaluator.evaluate('test', '=MATCH("b*", B2:B4, 0)', sheet)).toBe(
+        3
+      );
+      expect(evaluator.evaluate('test', '=MATCH(1002.5, A2:A4)', sheet)).toBe(
+        2
+      );
+      expect(evaluator.evaluate('test', '=MATCH(9999, C2:C4, 0)', sheet)).toBe(
+        '#N/A'
+      );
+    });
+
+    it('should combine INDEX and MATCH', () => {
+      const sheet = items();
+      expect(
+        evaluator.evaluate(
+          'test',
+          '=INDEX(C2:C4, MATCH("Sword", B2:B4, 0))',
+          sheet
+        )
+      ).toBe(50);
+    });
+
+    it('should evaluate XLOOKUP with fallbacks and match modes', () => {
+      const sheet = items();
+      expect(
+        evaluator.evaluate('test', '=XLOOKUP(1002, A2:A4, B2:B4)', sheet)
+      ).toBe('Axe');
+      expect(
+        evaluator.evaluate('test', '=XLOOKUP(9, A2:A4, B2:B4, "없음")', sheet)
+      ).toBe('없음');
+      expect(
+        evaluator.evaluate('test', '=XLOOKUP(45, C2:C4, B2:B4, "", -1)', sheet)
+      ).toBe('Bow');
+      expect(
+        evaluator.evaluate('test', '=XLOOKUP(45, C2:C4, B2:B4, "", 1)', sheet)
+      ).toBe('Sword');
+    });
+  });
+
+  describe('Column Name References', () => {
+    const items = () =>
+      createMockSheet({
+        name: 'Items',
+        columns: ['id', 'attack', 'buyPrice'],
+        rows: [
+          { id: 'sword', attack: 50, buyPrice: 100 },
+          { id: 'axe', attack: 70, buyPrice: 150 },
+        ],
+      });
+
+    it('should evaluate same-row column references', () => {
+      const sheet = items();
+      expect(
+        evaluator.evaluate('row-1:col-buyPrice', '=[attack] * 1.2', sheet)
+      ).toBe(84);
+    });
+
+    it('should evaluate table-style column references', () => {
+      const current = createMockSheet({ name: 'Shop' });
+      const sheet = items();
+      expect(
+        evaluator.evaluate('test', '=SUM(Items[buyPrice])', current, [
+          current,
+          sheet,
+        ])
+      ).toBe(250);
+      expect(
+        evaluator.evaluate(
+          'test',
+          '=INDEX(\'Items\'[attack], MATCH("axe", Items[id], 0))',
+          current,
+          [current, sheet]
+        )
+      ).toBe(70);
+    });
+
+    it('should keep working after columns are reordered', () => {
+      const sheet = items();
+      sheet.columns.reverse();
+      expect(
+        evaluator.evaluate('row-0:col-buyPrice', '=[Attack] + 1', sheet)
+      ).toBe(51);
+    });
+
+    it('should track dependencies of column references', () => {
+      const sheet = items();
+      evaluator.evaluate('row-0:col-buyPrice', '=[attack] * 2', sheet);
+
+      expect(
+        evaluator.getPrecedents(`${sheet.id}!row-0:col-buyPrice`)
+      ).toContain(`${sheet.id}!row-0:col-attack`);
+    });
+
+    it('should report unknown columns and missing row context', () => {
+      const sheet = items();
+      expect(() =>
+        evaluator.evaluate('row-0:col-attack', '=[defense]', sheet)
+      ).toThrow('Unknown column: defense');
+      expect(() => evaluator.evaluate('test', '=[attack]', sheet)).toThrow(
+        'can only be used inside a sheet row'
+      );
+    });
+  });
+
+  describe('Named Ranges', () => {
+    const drops = () =>
+      createMockSheet({
+        name: 'Drop Table',
+        columns: ['item', 'weight'],
+        rows: [
+          { item: 'potion', weight: 60 },
+          { item: 'sword', weight: 30 },
+          { item: 'gem', weight: 10 },
+        ],
+      });
+
+    it('should evaluate named constants', () => {
+      evaluator.setNames([
+        { id: 'n1', name: 'CRIT_MULTIPLIER', definition: '1.5' },
+      ]);
+      expect(
+        evaluator.evaluate('test', '=100 * crit_multiplier', createMockSheet())
+      ).toBe(150);
+    });
+
+    it('should evaluate named ranges on other sheets', () => {
+      const current = createMockSheet({ name: 'Summary' });
+      const sheet = drops();
+      evaluator.setNames([
+        { id: 'n1', name: 'DropWeights', definition: "'Drop Table'!B1:B3" },
+      ]);
+      expect(
+        evaluator.evaluate('test', '=SUM(DropWeights)', current, [
+          current,
+          sheet,
+        ])
+      ).toBe(100);
+    });
+
+    it('should evaluate names defined in terms of other names', () => {
+      evaluator.setNames([
+        { id: 'n1', name: 'BASE', definition: '10' },
+        { id: 'n2', name: 'DOUBLE', definition: 'BASE * 2' },
+      ]);
+      expect(evaluator.evaluate('test', '=DOUBLE + 1', createMockSheet())).toBe(
+        21
+      );
+    });
+
+    it('should report unknown and circular names', () => {
+      evaluator.setNames([
+        { id: 'n1', name: 'LOOP_A', definition: 'LOOP_B' },
+        { id: 'n2', name: 'LOOP_B', definition: 'LOOP_A' },
+      ]);
+      const sheet = createMockSheet();
+      expect(() => evaluator.evaluate('test', '=MISSING', sheet)).toThrow(
+        'Unknown name: MISSING'
+      );
+      expect(() => evaluator.evaluate('test', '=LOOP_A', sheet)).toThrow(
+        'Circular name definition'
+      );
+    });
+  });
+
+  describe('LET and LAMBDA', () => {
+    const stats = () =>
+      createMockSheet({
+        columns: ['A', 'B'],
+        rows: [{ A: 1000, B: 50 }],
+      });
+
+    it('should bind LET names in order', () => {
+      const sheet = stats();
+      expect(
+        evaluator.evaluate(
+          'test',
+          '=LET(scale, A1 / 100, bonus, scale * 2, bonus + scale)',
+          sheet
+        )
+      ).toBe(30);
+    });
+
+    it('should shadow workbook names and keep error bindings', () => {
+      evaluator.setNames([{ id: 'n1', name: 'x', definition: '100' }]);
+      const sheet = stats();
+      expect(evaluator.evaluate('test', '=LET(x, 2, x * 3) + x', sheet)).toBe(
+        106
+      );
+      expect(
+        evaluator.evaluate(
+          'test',
+          '=LET(ratio, A1 / 0, IFERROR(ratio, -1))',
+          sheet
+        )
+      ).toBe(-1);
+    });
+
+    it('should reject malformed LET and uncalled LAMBDA', () => {
+      const sheet = stats();
+      expect(() => evaluator.evaluate('test', '=LET(x, 1)', sheet)).toThrow(
+        'LET requires name/value pairs'
+      );
+      expect(() =>
+        evaluator.evaluate('test', '=LET(A1, 1, A1)', sheet)
+      ).toThrow('Invalid LET/LAMBDA name');
+      expect(() =>
+        evaluator.evaluate('test', '=LAMBDA(x, x * 2)', sheet)
+      ).toThrow('LAMBDA must be called with arguments');
+    });
+
+    it('should call LAMBDA values bound with LET', () => {
+      const sheet = stats();
+      expect(
+        evaluator.evaluate(
+          'test',
+          '=LET(rate, 2, double, LAMBDA(v, v * rate), double(B1) + double(1))',
+          sheet
+        )
+      ).toBe(102);
+    });
+
+    it('should call LAMBDA functions saved as workbook names', () => {
+      evaluator.setNames([
+        {
+          id: 'n1',
+          name: 'EFFECTIVE_HP',
+          definition: 'LAMBDA(hp, def, hp * (1 + def / 100))',
+        },
+      ]);
+      const sheet = stats();
+
+      expect(evaluator.evaluate('test', '=effective_hp(A1, B1)', sheet)).toBe(
+        1500
+      );
+      expect(() =>
+        evaluator.evaluate('test', '=EFFECTIVE_HP(A1)', sheet)
+      ).toThrow('EFFECTIVE_HP expects 2 argument(s), got 1');
+      expect(() => evaluator.evaluate('test', '=EFFECTIVE_HP', sheet)).toThrow(
+        'LAMBDA must be called with arguments'
+      );
+    });
+
+    it('should support recursive LAMBDA names up to a depth limit', () => {
+      evaluator.setNames([
+        {
+          id: 'n1',
+          name: 'FACT',
+          definition: 'LAMBDA(n, IF(n <= 1, 1, n * FACT(n - 1)))',
+        },
+        { id: 'n2', name: 'FOREVER', definition: 'LAMBDA(n, FOREVER(n + 1))' },
+      ]);
+      const sheet = stats();
+
+      expect(evaluator.evaluate('test', '=FACT(5)', sheet)).toBe(120);
+      expect(() => evaluator.evaluate('test', '=FOREVER(1)', sheet)).toThrow(
+        'LAMBDA recursion limit exceeded'
+      );
+    });
+
+    it('should track references inside saved LAMBDA bodies', () => {
+      evaluator.setNames([
+        { id: 'n1', name: 'WITH_BASE', definition: 'LAMBDA(v, v + B1)' },
+      ]);
+      const sheet = stats();
+      const cellId = `${sheet.rows[0].id}:col-A`;
+
+      evaluator.evaluate(cellId, '=WITH_BASE(1)', sheet);
+
+      expect(
+        evaluator.getPrecedents(generateSheetCellId(sheet.id, cellId))
+      ).toContain(generateSheetCellId(sheet.id, `${sheet.rows[0].id}:col-B`));
+    });
+  });
+
+  describe('Date Functions', () => {
+    const sheet = () =>
+      createMockSheet({
+        columns: ['A', 'B'],
+        rows: [
+          { A: '2025-01-31', B: '2025-03-10' },
+          { A: '2025-01-01', B: '2025-01-06' },
+        ],
+      });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should build dates and read their parts', () => {
+      const date = evaluator.evaluate('test', '=DATE(2025, 13, 1)', sheet());
+      expect(date).toEqual(new Date(2026, 0, 1));
+      expect(evaluator.evaluate('test', '=YEAR(A1)', sheet())).toBe(2025);
+      expect(evaluator.evaluate('test', '=MONTH(A1)', sheet())).toBe(1);
+      expect(evaluator.evaluate('test', '=DAY(A1)', sheet())).toBe(31);
+      expect(evaluator.evaluate('test', '=YEAR("soon")', sheet())).toBe(
+        '#VALUE!'
+      );
+    });
+
+    it('should add days and subtract dates', () => {
+      expect(
+        evaluator.evaluate('test', '=DATEVALUE(A2) + 14', sheet())
+      ).toEqual(new Date(2025, 0, 15));
+      expect(
+        evaluator.evaluate('test', '=DATEVALUE(B1) - DATEVALUE(A1)', sheet())
+      ).toBe(38);
+      expect(evaluator.evaluate('test', '=DAYS(B1, A1)', sheet())).toBe(38);
+      expect(
+        evaluator.evaluate('test', '=DATE(2025,1,1) = DATEVALUE(A2)', sheet())
+      ).toBe(true);
+    });
+
+    it('should compute DATEDIF in every unit', () => {
+      const datedif = (unit: string) =>
+        evaluator.evaluate('test', `=DATEDIF(A1, B1, "${unit}")`, sheet());
+
+      expect(datedif('D')).toBe(38);
+      expect(datedif('M')).toBe(1);
+      expect(datedif('Y')).toBe(0);
+      expect(datedif('MD')).toBe(7);
+      expect(datedif('YM')).toBe(1);
+      expect(datedif('YD')).toBe(38);
+      expect(datedif('W')).toBe('#NUM!');
+      expect(evaluator.evaluate('test', '=DATEDIF(B1, A1, "D")', sheet())).toBe(
+        '#NUM!'
+      );
+    });
+
+    it('should shift months keeping the end of month', () => {
+      expect(evaluator.evaluate('test', '=EDATE(A1, 1)', sheet())).toEqual(
+        new Date(2025, 1, 28)
+      );
+      expect(evaluator.evaluate('test', '=EOMONTH(A2, 0)', sheet())).toEqual(
+        new Date(2025, 0, 31)
+      );
+    });
+
+    it('should number weekdays and count working days', () => {
+      // 2025-01-01 is a Wednesday
+      expect(evaluator.evaluate('test', '=WEEKDAY(A2)', sheet())).toBe(4);
+      expect(evaluator.evaluate('test', '=WEEKDAY(A2, 2)', sheet())).toBe(3);
+      expect(evaluator.evaluate('test', '=WEEKDAY(A2, 3)', sheet())).toBe(2);
+      expect(evaluator.evaluate('test', '=NETWORKDAYS(A2, B2)', sheet())).toBe(
+        4
+      );
+      expect(
+        evaluator.evaluate('test', '=NETWORKDAYS(A2, B2, A2)', sheet())
+      ).toBe(3);
+      expect(evaluator.evaluate('test', '=WORKDAY(A2, 3)', sheet())).toEqual(
+        new Date(2025, 0, 6)
+      );
+    });
+
+    it('should return the current date and mark the cell volatile', () => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date(2025, 4, 20, 15, 30));
+      const data = sheet();
+      const cellId = `${data.rows[0].id}:col-A`;
+
+      expect(evaluator.evaluate(cellId, '=TODAY()', data)).toEqual(
+        new Date(2025, 4, 20)
+      );
+      expect(evaluator.evaluate('test', '=NOW()', data)).toEqual(
+        new Date(2025, 4, 20, 15, 30)
+      );
+
+      const graph = evaluator.getGraph();
+      expect(graph.isVolatile(generateSheetCellId(data.id, cellId))).toBe(true);
+      evaluator.evaluate(cellId, '=B1', data);
+      expect(graph.isVolatile(generateSheetCellId(data.id, cellId))).toBe(
+        false
+      );
+    });
+  });
+
+  describe('Text and Regex Functions', () => {
+    const items = () =>
+      createMockSheet({
+        columns: ['A', 'B', 'C'],
+        rows: [
+          { A: 'Weapon', B: 101, C: 'fire, ice,,poison' },
+          { A: 'npc_guard', B: 'item_sword_001', C: '  Iron   Sword ' },
+          { A: 'npc_merchant', B: 'ITEM_bow', C: null },
+        ],
+      });
+    const run = (formula: string) =>
+      evaluator.evaluate('test', formula, items());
+
+    it('should format numbers and dates with TEXT', () => {
+      expect(run('=TEXT(1234.5, "#,##0.00")')).toBe('1,234.50');
+      expect(run('=TEXT(0.125, "0.0%")')).toBe('12.5%');
+      expect(run('=TEXT(B1, "000000")')).toBe('000101');
+      expect(run('=TEXT(-3.14159, "0.##")')).toBe('-3.14');
+      expect(run('=TEXT(-5, "0;(0)")')).toBe('(5)');
+      expect(run('=TEXT(42, """Lv.""0")')).toBe('Lv.42');
+      expect(run('=TEXT(DATE(2025, 3, 1), "yyyy-mm-dd")')).toBe('2025-03-01');
+      expect(run('=TEXT(DATE(2025, 3, 1) + 0.5, "hh:mm")')).toBe('12:00');
+      expect(run('=TEXT(A1, "0")')).toBe('Weapon');
+    });
+
+    it('should build ids from other columns', () => {
+      expect(run('="item_" & LOWER(A1) & "_" & TEXT(B1, "0000")')).toBe(
+        'item_weapon_0101'
+      );
+      expect(run('=TEXTJOIN("_", TRUE, "item", LOWER(A1), C3, B1)')).toBe(
+        'item_weapon_101'
+      );
+      expect(run('=TEXTJOIN(",", FALSE, A1:A2, C3)')).toBe('Weapon,npc_guard,');
+    });
+
+    it('should split tag lists into a row', () => {
+      const result = evaluator.evaluateArray(
+        'test',
+        '=SPLIT(C1, ",")',
+        items()
+      );
+      expect(result).toMatchObject({ rows: 1, columns: 3 });
+      expect(Array.from(result as unknown[])).toEqual([
+        'fire',
+        ' ice',
+        'poison',
+      ]);
+      expect(
+        Array.from(
+          evaluator.evaluateArray(
+            'test',
+            '=SPLIT("a-b", "-b", FALSE, FALSE)',
+            items()
+          ) as unknown[]
+        )
+      ).toEqual(['a', '']);
+    });
+
+    it('should substitute, trim and find text', () => {
+      expect(run('=SUBSTITUTE("a_b_c", "_", "-")')).toBe('a-b-c');
+      expect(run('=SUBSTITUTE("a_b_c", "_", "-", 2)')).toBe('a_b-c');
+      expect(run('=TRIM(C2)')).toBe('Iron Sword');
+      expect(run('=FIND("_", A2)')).toBe(4);
+      expect(run('=FIND("N", A2)')).toBe('#VALUE!');
+      expect(run('=SEARCH("N*_", A2)')).toBe(1);
+      expect(run('=SEARCH("guard", A2)')).toBe(5);
+    });
+
+    it('should match, extract and replace with regular expressions', () => {
+      expect(run('=REGEXMATCH(B2, "^item_[a-z]+_\\d{3}$")')).toBe(true);
+      expect(run('=REGEXMATCH(B3, "^item_")')).toBe(false);
+      expect(run('=REGEXMATCH(B3, "(?i)^item_")')).toBe(true);
+      expect(run('=REGEXEXTRACT(B2, "_(\\d+)$")')).toBe('001');
+      expect(run('=REGEXEXTRACT(B3, "\\d+")')).toBe('#N/A');
+      expect(run('=REGEXREPLACE(A3, "^npc_(\\w+)", "$1_npc")')).toBe(
+        'merchant_npc'
+      );
+      expect(run('=REGEXMATCH(A1, "[")')).toBe('#VALUE!');
+    });
+
+    it('should filter rows with REGEXMATCH over a range', () => {
+      const result = evaluator.evaluateArray(
+        'test',
+        '=FILTER(A1:A3, REGEXMATCH(A1:A3, "^npc_"))',
+        items()
+      );
+      expect(Array.from(result as unknown[])).toEqual([
+        'npc_guard',
+        'npc_merchant',
+      ]);
+    });
+  });
+
+  describe('Random Functions', () => {
+    const pool = () =>
+      createMockSheet({
+        columns: ['A', 'B'],
+        rows: [
+          { A: 'common', B: 0 },
+          { A: 'rare', B: 3 },
+          { A: 'epic', B: null },
+        ],
+      });
+
+    it('should keep RAND stable per cell until the seed changes', () => {
+      const sheet = pool();
+      const first = evaluator.evaluate('row-0:col-C', '=RAND()', sheet);
+      const again = evaluator.evaluate('row-0:col-C', '=RAND()', sheet);
+      const other = evaluator.evaluate('row-1:col-C', '=RAND()', sheet);
+
+      expect(again).toBe(first);
+      expect(other).not.toBe(first);
+      expect(first).toBeGreaterThanOrEqual(0);
+      expect(first).toBeLessThan(1);
+
+      evaluator.setRandomSeed(7);
+      expect(evaluator.evaluate('row-0:col-C', '=RAND()', sheet)).not.toBe(
+        first
+      );
+      evaluator.setRandomSeed(0);
+      expect(evaluator.evaluate('row-0:col-C', '=RAND()', sheet)).toBe(first);
+    });
+
+    it('should draw separate values for each call in a formula', () => {
+      const sheet = pool();
+      expect(evaluator.evaluate('test', '=RAND() = RAND()', sheet)).toBe(false);
+    });
+
+    it('should roll integers within RANDBETWEEN bounds', () => {
+      const sheet = pool();
+      for (let i = 0; i < 20; i++) {
+        const value = evaluator.evaluate(
+          `row-${i}:col-C`,
+          '=RANDBETWEEN(1, 6)',
+          sheet
+        ) as number;
+        expect(Number.isInteger(value)).toBe(true);
+        expect(value).toBeGreaterThanOrEqual(1);
+        expect(value).toBeLessThanOrEqual(6);
+      }
+      expect(evaluator.evaluate('test', '=RANDBETWEEN(6, 1)', sheet)).toBe(
+        '#NUM!'
+      );
+    });
+
+    it('should return the same RAND_SEED value for the same keys', () => {
+      const sheet = pool();
+      const value = evaluator.evaluate('a', '=RAND_SEED(42, A1)', sheet);
+
+      expect(evaluator.evaluate('b', '=RAND_SEED(42, "common")', sheet)).toBe(
+        value
+      );
+      expect(evaluator.evaluate('a', '=RAND_SEED(42, A2)', sheet)).not.toBe(
+        value
+      );
+    });
+
+    it('should only pick items with a positive weight', () => {
+      const sheet = pool();
+      for (let i = 0; i < 20; i++) {
+        expect(
+          evaluator.evaluate(
+            `row-${i}:col-C`,
+            '=WEIGHTED_PICK(A1:A3, B1:B3)',
+            sheet
+          )
+        ).toBe('rare');
+      }
+      expect(
+        evaluator.evaluate('test', '=WEIGHTED_PICK(A1:A3, B1:B2)', sheet)
+      ).toBe('#VALUE!');
+      expect(
+        evaluator.evaluate('test', '=WEIGHTED_PICK(A1:A3, B1:B3 * 0)', sheet)
+      ).toBe('#NUM!');
+    });
+  });
+
+  describe('Probability and Gacha Functions', () => {
+    const run = (formula: string, sheet = createMockSheet()) =>
+      evaluator.evaluate('test', formula, sheet);
+
+    it('should calculate binomial probabilities with BINOM.DIST', () => {
+      expect(run('=BINOM.DIST(1, 10, 0.1, FALSE)')).toBeCloseTo(0.38742, 5);
+      expect(run('=BINOM.DIST(2, 10, 0.5, TRUE)')).toBeCloseTo(0.0546875, 10);
+      expect(run('=1 - BINOM.DIST(0, 100, 0.01, TRUE)')).toBeCloseTo(
+        0.63397,
+        5
+      );
+      expect(run('=BINOM.DIST(11, 10, 0.5, FALSE)')).toBe('#NUM!');
+      expect(run('=BINOM.DIST(1, 10, 1.5, FALSE)')).toBe('#NUM!');
+    });
+
+    it('should apply hard and soft pity to per-pull rates', () => {
+      expect(run('=GACHA_PITY_RATE(0.6, 10, 90, 74, 6)')).toBeCloseTo(0.6);
+      expect(run('=GACHA_PITY_RATE(0.6, 80, 90, 74, 6)')).toBeCloseTo(42.6);
+      expect(run('=GACHA_PITY_RATE(0.6, 90, 90)')).toBe(100);
+      expect(run('=GACHA_PITY_RATE(0.6, 80, 0, 74)')).toBe('#VALUE!');
+      expect(run('=GACHA_PITY_RATE(0.6, 80, 70, 74)')).toBe('#NUM!');
+
+      const curve = evaluator.evaluateArray(
+        'test',
+        '=GACHA_PITY_CURVE(10, 4, 3)',
+        createMockSheet()
+      );
+      expect(curve).toMatchObject({ rows: 4, columns: 1 });
+      [10, 10, 55, 100].forEach((rate, i) =>
+        expect((curve as number[])[i]).toBeCloseTo(rate)
+      );
+    });
+
+    it('should calculate cumulative probability and expected pulls', () => {
+      expect(run('=GACHA_PROB(1, 100)')).toBeCloseTo(63.397, 3);
+      expect(run('=GACHA_PROB(0.6, 90, 90)')).toBeCloseTo(100, 10);
+      expect(run('=GACHA_PROB(0.6, 200, 90, 74)')).toBeCloseTo(100, 10);
+      expect(run('=GACHA_EXPECTED_PULLS(1)')).toBeCloseTo(100);
+      expect(run('=GACHA_EXPECTED_PULLS(50, 2)')).toBeCloseTo(1.5);
+      expect(run('=GACHA_EXPECTED_PULLS(0)')).toBe('#NUM!');
+
+      const expected = run('=GACHA_EXPECTED_PULLS(0.6, 90, 74, 6)') as number;
+      expect(expected).toBeGreaterThan(50);
+      expect(expected).toBeLessThan(90);
+    });
+
+    it('should never exceed 100% at hard pity', () => {
+      // Summing a long distribution of tiny rates overshoots by rounding
+      expect(run('=GACHA_PROB(0.006, 90, 90)')).toBeLessThanOrEqual(100);
+      expect(run('=GACHA_PROB(0.006, 90, 90)')).toBeCloseTo(100, 10);
+      expect(
+        run('=GACHA_FEATURED_PROB(0.006, 180, 50, 90)')
+      ).toBeLessThanOrEqual(100);
+      expect(
+        run('=GACHA_FEATURED_PROB(0.006, 90, 50, 90, 0, 0, TRUE)')
+      ).toBeLessThanOrEqual(100);
+    });
+
+    it('should include the 50/50 rate-up guarantee', () => {
+      expect(run('=GACHA_FEATURED_PROB(50, 2, 50, 2)')).toBeCloseTo(62.5);
+      expect(run('=GACHA_FEATURED_PROB(50, 2, 50, 2, 0, 0, TRUE)')).toBeCloseTo(
+        100
+      );
+      expect(run('=GACHA_FEATURED_PROB(50, 4, 50, 2)')).toBeCloseTo(100);
+      expect(run('=GACHA_FEATURED_EXPECTED(50, 50, 2)')).toBeCloseTo(2.25);
+      expect(
+        run('=GACHA_FEATURED_EXPECTED(50, 50, 2, 0, 0, TRUE)')
+      ).toBeCloseTo(1.5);
+      expect(run('=GACHA_FEATURED_PROB(1, 10, 120)')).toBe('#NUM!');
+    });
+
+    it('should split a rarity rate across items by weight', () => {
+      const sheet = createMockSheet({
+        columns: ['A', 'B'],
+        rows: [
+          { A: 1, B: true },
+          { A: 1, B: false },
+          { A: 2, B: false },
+        ],
+      });
+
+      expect(
+        run('=GACHA_ITEM_RATE(0.6, A1, A1:A3, B1, B1:B3)', sheet)
+      ).toBeCloseTo(0.3);
+      expect(
+        run('=GACHA_ITEM_RATE(0.6, A3, A1:A3, B3, B1:B3)', sheet)
+      ).toBeCloseTo(0.2);
+      expect(run('=GACHA_ITEM_RATE(0.6, A3, A1:A3)', sheet)).toBeCloseTo(0.3);
+      expect(run('=GACHA_ITEM_RATE(0.6, A3, A1:A3, B3, B1:B2)', sheet)).toBe(
+        '#VALUE!'
+      );
+    });
+  });
+
+  describe('Combat Simulation Functions', () => {
+    const run = (formula: string, sheet = createMockSheet()) =>
+      evaluator.evaluate('test', formula, sheet);
+
+    it('should calculate DPS with defense, attack speed and crits', () => {
+      expect(run('=DPS(100)')).toBe(100);
+      expect(run('=DPS(100, 100, 2)')).toBe(100);
+      expect(run('=DPS(100, 0, 1, 50, 2)')).toBe(150);
+      expect(run('=DPS(100, 0, 1, 100)')).toBe(150);
+      expect(run('=DPS("fast")')).toBe('#VALUE!');
+      expect(run('=DPS(100, 0, 1, 120)')).toBe('#NUM!');
+    });
+
+    it('should calculate time-to-kill and effective HP', () => {
+      const sheet = createMockSheet({
+        columns: ['HP', 'Attack', 'Defense'],
+        rows: [{ HP: 1200, Attack: 100, Defense: 50 }],
+      });
+
+      expect(run('=TTK(1200, 100)')).toBe(12);
+      expect(run('=TTK(A1, B1, C1)', sheet)).toBeCloseTo(18);
+      expect(run('=TTK(A1, B1, C1)', sheet)).toBeCloseTo(
+        run('=EHP(A1, C1) / DPS(B1)', sheet) as number
+      );
+      expect(run('=TTK(1200, 0)')).toBe('#DIV/0!');
+      expect(run('=EHP(1000, 100)')).toBe(2000);
+      expect(run('=EHP(1000, 0, 20)')).toBe(1250);
+      expect(run('=EHP(1000, 0, 100)')).toBe('#NUM!');
+    });
+  });
+
+  describe('Formula Steps', () => {
+    const stats = () => {
+      const sheet = createMockSheet({
+        columns: ['A', 'B', 'C'],
+        rows: [
+          { A: 100, B: 20, C: null },
+          { A: 50, B: 0, C: null },
+        ],
+      });
+      sheet.rows[0].cells['col-C'].formula = '=A1*2';
+      return sheet;
+    };
+
+    it('should record intermediate values innermost first', () => {
+      const steps = evaluator.evaluateSteps(
+        'row-1:col-C',
+        '=(A1 - B1) * 1.5 + SUM(A1:A2)',
+        stats()
+      );
+
+      expect(steps.map((s) => [s.expression, s.depth])).toEqual([
+        ['A1', 3],
+        ['B1', 3],
+        ['A1 - B1', 2],
+        ['(A1 - B1) * 1.5', 1],
+        ['A1:A2', 2],
+        ['SUM(A1:A2)', 1],
+        ['(A1 - B1) * 1.5 + SUM(A1:A2)', 0],
+      ]);
+      expect(
+        steps.map((s) =>
+          Array.isArray(s.value) ? Array.from(s.value) : s.value
+        )
+      ).toEqual([100, 20, 80, 120, [100, 50], 150, 270]);
+    });
+
+    it('should use referenced formula results without their inner steps', () => {
+      const steps = evaluator.evaluateSteps('row-1:col-C', '=C1 + 1', stats());
+
+      expect(steps.map((s) => s.expression)).toEqual(['C1', 'C1 + 1']);
+      expect(steps[0].value).toBe(200);
+    });
+
+    it('should record the step where an error happens', () => {
+      const steps = evaluator.evaluateSteps(
+        'row-1:col-C',
+        '=IFERROR(A1 / B2, -1)',
+        stats()
+      );
+
+      expect(steps.map((s) => [s.expression, s.value])).toEqual([
+        ['A1', 100],
+        ['B2', 0],
+        ['A1 / B2', '#DIV/0!'],
+        ['-1', -1],
+        ['IFERROR(A1 / B2, -1)', -1],
+      ]);
+      expect(() => evaluator.evaluateSteps('test', '=SUM(', stats())).toThrow();
+    });
+  });
 });
@@ -3,84 +3,342 @@
  * 수식 평가 및 의존성 관리
  */
 
-import type { CellValue, Sheet, Cell } from '@types';
-import { FormulaParser, type FormulaAST } from './formulaParser';
-import { FORMULA_FUNCTIONS } from './formulaFunctions';
+import type {
+  CellValue,
+  Sheet,
+  Cell,
+  Column,
+  NamedRange,
+  IterativeCalculation,
+} from '@types';
+import { generateSheetCellId, parseCellId } from '@utils/cellUtils';
+import {
+  FormulaParser,
+  formatFormulaAST,
+  formatReferenceParts,
+  parseReferenceParts,
+  type ASTNodeType,
+  type FormulaAST,
+} from './formulaParser';
+import {
+  FORMULA_FUNCTIONS,
+  BINDING_FUNCTIONS,
+  ERROR_HANDLING_FUNCTIONS,
+  RANGE_ERROR_TOLERANT_FUNCTIONS,
+  VOLATILE_FUNCTIONS,
+  createRangeValue,
+  fromDateSerial,
+  toDateSerial,
+  type RangeValue,
+} from './formulaFunctions';
+import {
+  FormulaError,
+  isFormulaError,
+  toFormulaError,
+  type FormulaErrorCode,
+} from './formulaErrors';
+import { DependencyGraph, dependencyGraph } from './dependencyGraph';
+import { FormulaCache, formulaCache } from './formulaCache';
+import { createSeededRandom, hashSeed, withRandomSource } from './seededRandom';
+
+/**
+ * 수식 평가 컨텍스트
+ * 현재 시트와 시트 간 참조(Sheet1!A1)를 해석하기 위한 워크북의 전체 시트 목록
+ * cellId는 같은 행 열 참조([attack])를 해석하는 데 사용된다
+ */
+export interface EvaluationContext {
+  sheet: Sheet;
+  sheets: Sheet[];
+  cellId: string;
+  locals?: Map<string, LocalValue>; // LET/LAMBDA 지역 이름 (소문자 키)
+}
+
+/**
+ * LAMBDA 함수 값: 매개변수 이름(소문자), 본문, 정의 시점의 지역 이름
+ */
+export interface LambdaValue {
+  params: string[];
+  body: FormulaAST;
+  locals: Map<string, LocalValue>;
+}
+
+/**
+ * LET/LAMBDA로 바인딩된 지역 이름의 값
+ */
+export type LocalValue = CellValue | CellValue[] | LambdaValue;
+
+/**
+ * 수식 계산 단계 (수식 계산 대화상자에서 안쪽 식부터 계산 순서대로 표시)
+ */
+export interface FormulaStep {
+  expression: string; // 계산한 부분 식 (SUM(B2:B4))
+  value: CellValue | CellValue[]; // 결과 값 (오류는 오류 코드)
+  depth: number; // AST 깊이 (0 = 수식 전체)
+  type: ASTNodeType;
+}
+
+/**
+ * evaluateSteps가 기록할 노드의 깊이와 기록된 단계
+ */
+interface StepTrace {
+  depths: Map<FormulaAST, number>;
+  steps: FormulaStep[];
+}
+
+/**
+ * 재귀 LAMBDA 호출 깊이 제한 (초과 시 #NUM!)
+ */
+const MAX_LAMBDA_DEPTH = 100;
+
+const isLambdaValue = (value: LocalValue): value is LambdaValue =>
+  typeof value === 'object' &&
+  value !== null &&
+  !Array.isArray(value) &&
+  !(value instanceof Date);
 
 export class FormulaEvaluator {
   private parser: FormulaParser;
-  private dependencies: Map<string, Set<string>>; // cellId -> dependent cellIds
+  private graph: DependencyGraph; // Shared with the formula cache
+  private cache: FormulaCache; // Up-to-date results of referenced formula cells
   private evaluating: Set<string>; // Track cells being evaluated to detect circular refs
+  private names: NamedRange[] = []; // Workbook-level named ranges/constants
+  private resolvingNames: Set<string> = new Set(); // Detect circular name definitions
+  private lambdaDepth = 0; // Nested LAMBDA calls (recursion guard)
+  private randomSeed = 0; // Workbook seed for RAND/RANDBETWEEN/WEIGHTED_PICK
+  private iterativeCalculation: IterativeCalculation | null = null; // Allow convergent cycles
+  private stepTrace: StepTrace | null = null; // Set while evaluateSteps records values
 
-  constructor() {
+  constructor(
+    graph: DependencyGraph = new DependencyGraph(),
+    cache: FormulaCache = new FormulaCache(graph)
+  ) {
     this.parser = new FormulaParser();
-    this.dependencies = new Map();
+    this.graph = graph;
+    this.cache = cache;
     this.evaluating = new Set();
   }
 
   /**
    * Evaluate formula for a cell
+   * 오류 값(#N/A 등)은 결과로 반환되고, 평가 중 발생한 오류는 FormulaError로 던져진다
+   * 배열 결과는 왼쪽 위 값을 반환한다 (전체 배열은 evaluateArray)
+   * @param sheets - 시트 간 참조를 해석할 워크북의 시트 목록 (기본값: 현재 시트만)
+   */
+  evaluate(
+    cellId: string,
+    formula: string,
+    sheet: Sheet,
+    sheets: Sheet[] = [sheet]
+  ): CellValue {
+    const result = this.evaluateArray(cellId, formula, sheet, sheets);
+    return Array.isArray(result) ? (result[0] ?? null) : result;
+  }
+
+  /**
+   * Evaluate formula, keeping array results (for spilling into neighbour cells)
+   * =FILTER(...), =SEQUENCE(5), =A1:B3 → rows × columns 범위 값
    */
-  evaluate(cellId: string, formula: string, sheet: Sheet): CellValue {
+  evaluateArray(
+    cellId: string,
+    formula: string,
+    sheet: Sheet,
+    sheets: Sheet[] = [sheet]
+  ): CellValue | RangeValue {
+    const context: EvaluationContext = { sheet, sheets, cellId };
+    const key = generateSheetCellId(sheet.id, cellId);
+
     try {
       // Check for circular reference before evaluation
-      if (this.evaluating.has(cellId)) {
-        throw new Error('Circular reference detected');
+      if (this.evaluating.has(key)) {
+        throw new FormulaError('#CIRC!', 'Circular reference detected');
       }
 
-      this.evaluating.add(cellId);
+      this.evaluating.add(key);
 
-      // Parse formula
-      const ast = this.parser.parse(formula);
+      const result = this.evaluateFormulaAST(this.parse(formula), context, key);
 
-      // Extract references and update dependencies
-      const refs = this.parser.extractReferences(ast);
-      this.updateDependencies(cellId, refs);
+      this.evaluating.delete(key);
+      return result;
+    } catch (error) {
+      this.evaluating.delete(key);
+      throw toFormulaError(error);
+    }
+  }
 
-      // Detect circular references using DFS
-      if (this.hasCircularReference(cellId)) {
-        throw new Error('Circular reference detected');
-      }
+  /**
+   * Evaluate a formula and record every intermediate value
+   * 리터럴을 제외한 각 부분 식의 값을 계산이 끝난 순서(안쪽부터)대로 반환한다
+   * 참조한 다른 수식 셀의 내부 계산은 포함되지 않는다
+   */
+  evaluateSteps(
+    cellId: string,
+    formula: string,
+    sheet: Sheet,
+    sheets: Sheet[] = [sheet]
+  ): FormulaStep[] {
+    const context: EvaluationContext = { sheet, sheets, cellId };
+    const key = generateSheetCellId(sheet.id, cellId);
+    const ast = this.parse(formula);
 
-      // Evaluate AST
-      const result = this.evaluateAST(ast, sheet);
+    const depths = new Map<FormulaAST, number>();
+    const visit = (node: FormulaAST, depth: number) => {
+      if (node.type !== 'literal') depths.set(node, depth);
+      node.children?.forEach((child) => visit(child, depth + 1));
+    };
+    visit(ast, 0);
 
-      // Result should be a single value, not an array
-      // Arrays are only valid within function arguments
-      if (Array.isArray(result)) {
-        throw new Error('Range cannot be used as a standalone expression');
-      }
+    const trace: StepTrace = { depths, steps: [] };
+    this.stepTrace = trace;
+    this.evaluating.add(key);
+    try {
+      this.evaluateFormulaAST(ast, context, key);
+    } catch {
+      // The failing step is recorded with its error code
+    } finally {
+      this.evaluating.delete(key);
+      this.stepTrace = null;
+    }
+    return trace.steps;
+  }
 
-      this.evaluating.delete(cellId);
-      return result;
+  /**
+   * Evaluate a parsed formula for a cell (dependencies, circular check, spill shape)
+   */
+  private evaluateFormulaAST(
+    ast: FormulaAST,
+    context: EvaluationContext,
+    key: string
+  ): CellValue | RangeValue {
+    // Resolve references (including other sheets) and update dependencies
+    const { refs, volatile } = this.collectReferences(ast, context);
+    this.updateDependencies(key, refs, volatile);
+
+    // Detect circular references using DFS (allowed in iterative calculation)
+    if (!this.isIterative() && this.hasCircularReference(key)) {
+      throw new FormulaError('#CIRC!', 'Circular reference detected');
+    }
+
+    // Evaluate AST (random functions draw from this cell's seeded sequence)
+    const result = withRandomSource(
+      createSeededRandom(hashSeed(this.randomSeed, key)),
+      () => this.evaluateAST(ast, context)
+    );
+
+    if (Array.isArray(result)) {
+      const { rows, columns } = result as Partial<RangeValue>;
+      return rows !== undefined && columns !== undefined
+        ? (result as RangeValue)
+        : createRangeValue([...result], result.length, 1);
+    }
+    return result;
+  }
+
+  /**
+   * Record the cells a formula references without evaluating it
+   * 전체 재계산 전에 의존성 그래프를 만들어 계산 순서를 정할 때 사용
+   */
+  registerReferences(
+    cellId: string,
+    formula: string,
+    sheet: Sheet,
+    sheets: Sheet[] = [sheet]
+  ): void {
+    const key = generateSheetCellId(sheet.id, cellId);
+    try {
+      const ast = this.parser.parse(formula);
+      const { refs, volatile } = this.collectReferences(ast, {
+        sheet,
+        sheets,
+        cellId,
+      });
+      this.updateDependencies(key, refs, volatile);
+    } catch {
+      // Syntax errors are reported when the formula is evaluated
+      this.clearCellDependencies(key);
+    }
+  }
+
+  /**
+   * Parse formula (syntax errors become #NAME?)
+   */
+  private parse(formula: string): FormulaAST {
+    try {
+      return this.parser.parse(formula);
     } catch (error) {
-      this.evaluating.delete(cellId);
+      throw new FormulaError(
+        '#NAME?',
+        error instanceof Error ? error.message : undefined
+      );
+    }
+  }
+
+  /**
+   * Evaluate AST node (evaluateSteps 중이면 결과를 단계로 기록)
+   */
+  private evaluateAST(
+    node: FormulaAST,
+    context: EvaluationContext
+  ): CellValue | CellValue[] {
+    const depth = this.stepTrace?.depths.get(node);
+    if (depth === undefined) return this.evaluateNode(node, context);
+
+    const record = (value: CellValue | CellValue[]) =>
+      this.stepTrace?.steps.push({
+        expression: formatFormulaAST(node),
+        value,
+        depth,
+        type: node.type,
+      });
+
+    try {
+      const value = this.evaluateNode(node, context);
+      record(value);
+      return value;
+    } catch (error) {
+      record(toFormulaError(error).code);
       throw error;
     }
   }
 
   /**
-   * Evaluate AST node
+   * Evaluate a single AST node by type
    */
-  private evaluateAST(node: FormulaAST, sheet: Sheet): CellValue | CellValue[] {
+  private evaluateNode(
+    node: FormulaAST,
+    context: EvaluationContext
+  ): CellValue | CellValue[] {
     switch (node.type) {
       case 'literal':
         return node.value;
 
       case 'cell':
-        return this.evaluateCell(node.value as string, sheet);
+        return this.evaluateCell(
+          node.value as string,
+          this.resolveSheet(node.sheet, context),
+          context
+        );
 
       case 'range':
-        return this.evaluateRange(node.value as string, sheet);
+        return this.evaluateRange(
+          node.value as string,
+          this.resolveSheet(node.sheet, context),
+          context
+        );
+
+      case 'column':
+        return this.evaluateColumn(node, context);
+
+      case 'name':
+        return this.evaluateLocalOrName(node.value as string, context);
 
       case 'operator':
-        return this.evaluateOperator(node, sheet);
+        return this.evaluateOperator(node, context);
 
       case 'unary':
-        return this.evaluateUnary(node, sheet);
+        return this.evaluateUnary(node, context);
 
       case 'function':
-        return this.evaluateFunction(node, sheet);
+        return this.evaluateFunction(node, context);
 
       default:
         throw new Error(`Unknown node type: ${node.type}`);
@@ -90,38 +348,371 @@ export class FormulaEvaluator {
   /**
    * Evaluate cell reference
    */
-  private evaluateCell(cellRef: string, sheet: Sheet): CellValue {
-    const cell = this.getCellByReference(cellRef, sheet);
+  private evaluateCell(
+    cellRef: string,
+    sheet: Sheet,
+    context: EvaluationContext
+  ): CellValue {
+    return this.evaluateCellValue(
+      this.getCellByReference(cellRef, sheet),
+      sheet,
+      context
+    );
+  }
+
+  /**
+   * Get a cell's value, evaluating its formula (in its own sheet) if needed
+   * 참조한 셀의 오류는 오류 값으로 반환되어 전파된다 (순환 참조는 그대로 던짐)
+   */
+  private evaluateCellValue(
+    cell: Cell | undefined,
+    sheet: Sheet,
+    context: EvaluationContext
+  ): CellValue {
     if (!cell) return null;
 
-    // If cell has formula, evaluate it recursively
     if (cell.formula) {
-      return this.evaluate(cell.id, cell.formula, sheet);
+      // Cells recalculated in dependency order are already cached
+      const key = generateSheetCellId(sheet.id, cell.id);
+      if (this.cache.has(key)) {
+        return this.cache.get(key) as CellValue;
+      }
+
+      // Iterative calculation: a cell on the current cycle gives its previous value
+      if (this.isIterative() && this.evaluating.has(key)) {
+        return isFormulaError(cell.value) ? null : cell.value;
+      }
+
+      try {
+        return this.evaluate(cell.id, cell.formula, sheet, context.sheets);
+      } catch (error) {
+        const formulaError = toFormulaError(error);
+        if (formulaError.code === '#CIRC!') throw formulaError;
+        return formulaError.code;
+      }
     }
 
     return cell.value;
   }
 
+  /**
+   * Evaluate column name reference
+   * [attack] → 같은 행의 값, Items[buyPrice] → 열 전체 (rows × 1 범위)
+   */
+  private evaluateColumn(
+    node: FormulaAST,
+    context: EvaluationContext
+  ): CellValue | RangeValue {
+    const sheet = this.resolveSheet(node.sheet, context);
+    const column = this.resolveColumn(node.value as string, sheet);
+
+    if (node.sheet === undefined) {
+      const row = this.getCurrentRow(node.value as string, context);
+      return this.evaluateCellValue(row.cells[column.id], sheet, context);
+    }
+
+    const values = sheet.rows.map((row) =>
+      this.evaluateCellValue(row.cells[column.id], sheet, context)
+    );
+    return createRangeValue(values, values.length, 1);
+  }
+
+  /**
+   * Evaluate a LET/LAMBDA local name, falling back to workbook names
+   */
+  private evaluateLocalOrName(
+    name: string,
+    context: EvaluationContext
+  ): CellValue | CellValue[] {
+    const key = name.toLowerCase();
+    if (!context.locals?.has(key)) {
+      return this.evaluateName(name, context);
+    }
+
+    const value = context.locals.get(key) as LocalValue;
+    if (isLambdaValue(value)) {
+      throw new FormulaError('#CALC!', `${name} must be called with arguments`);
+    }
+    return value;
+  }
+
+  /**
+   * Evaluate named range or constant
+   * 정의는 참조하는 셀의 시트 기준으로 평가된다
+   */
+  private evaluateName(
+    name: string,
+    context: EvaluationContext
+  ): CellValue | CellValue[] {
+    const named = this.findName(name);
+    const key = named.name.toLowerCase();
+
+    if (this.resolvingNames.has(key)) {
+      throw new FormulaError(
+        '#CIRC!',
+        `Circular name definition: ${named.name}`
+      );
+    }
+
+    this.resolvingNames.add(key);
+    try {
+      return this.evaluateAST(this.parse(named.definition), context);
+    } finally {
+      this.resolvingNames.delete(key);
+    }
+  }
+
+  /**
+   * Find a named range by name (case-insensitive)
+   */
+  private findName(name: string): NamedRange {
+    const named = this.names.find(
+      (n) => n.name.toLowerCase() === name.toLowerCase()
+    );
+    if (!named) {
+      throw new FormulaError('#NAME?', `Unknown name: ${name}`);
+    }
+    return named;
+  }
+
+  /**
+   * Resolve a column by id or name (case-insensitive)
+   */
+  private resolveColumn(columnName: string, sheet: Sheet): Column {
+    const lower = columnName.toLowerCase();
+    const column =
+      sheet.columns.find((c) => c.id === columnName) ??
+      sheet.columns.find((c) => c.name === columnName) ??
+      sheet.columns.find(
+        (c) => c.id.toLowerCase() === lower || c.name.toLowerCase() === lower
+      );
+
+    if (!column) {
+      throw new FormulaError('#REF!', `Unknown column: ${columnName}`);
+    }
+    return column;
+  }
+
+  /**
+   * Get the row of the cell being evaluated (for same-row column references)
+   */
+  private getCurrentRow(columnName: string, context: EvaluationContext) {
+    const { rowId } = parseCellId(context.cellId);
+    const row = context.sheet.rows.find((r) => r.id === rowId);
+
+    if (!row) {
+      throw new FormulaError(
+        '#VALUE!',
+        `[${columnName}] can only be used inside a sheet row`
+      );
+    }
+    return row;
+  }
+
   /**
    * Evaluate range reference
+   * 행 우선 순서의 값과 rows × columns 크기를 함께 반환
    */
-  private evaluateRange(range: string, sheet: Sheet): CellValue[] {
-    const cellRefs = this.parser['expandRange'](range);
-    return cellRefs.map((ref) => this.evaluateCell(ref, sheet));
+  private evaluateRange(
+    range: string,
+    sheet: Sheet,
+    context: EvaluationContext
+  ): RangeValue {
+    const [start, end] = range
+      .split(':')
+      .map((ref) => parseReferenceParts(ref));
+    if (!start || !end) {
+      throw new FormulaError('#REF!', `Invalid range: ${range}`);
+    }
+
+    const top = Math.min(start.rowIndex, end.rowIndex);
+    const bottom = Math.max(start.rowIndex, end.rowIndex);
+    const left = Math.min(start.columnIndex, end.columnIndex);
+    const right = Math.max(start.columnIndex, end.columnIndex);
+
+    const values: CellValue[] = [];
+    for (let rowIndex = top; rowIndex <= bottom; rowIndex++) {
+      for (let columnIndex = left; columnIndex <= right; columnIndex++) {
+        const ref = formatReferenceParts({
+          rowIndex,
+          columnIndex,
+          absoluteRow: false,
+          absoluteColumn: false,
+        });
+        values.push(this.evaluateCell(ref, sheet, context));
+      }
+    }
+
+    return createRangeValue(values, bottom - top + 1, right - left + 1);
+  }
+
+  /**
+   * Resolve the sheet a reference points to
+   * 시트 이름이 없으면 현재 시트, 있으면 이름(대소문자 무시)으로 검색
+   */
+  private resolveSheet(
+    sheetName: string | undefined,
+    context: EvaluationContext
+  ): Sheet {
+    if (sheetName === undefined) return context.sheet;
+
+    const target =
+      context.sheets.find((s) => s.name === sheetName) ??
+      context.sheets.find(
+        (s) => s.name.toLowerCase() === sheetName.toLowerCase()
+      ) ??
+      (context.sheet.name.toLowerCase() === sheetName.toLowerCase()
+        ? context.sheet
+        : undefined);
+
+    if (!target) {
+      throw new FormulaError('#REF!', `Unknown sheet: ${sheetName}`);
+    }
+
+    // Prefer the sheet instance being evaluated (may be a draft)
+    return target.id === context.sheet.id ? context.sheet : target;
+  }
+
+  /**
+   * Collect the sheet-qualified ids of every existing cell the AST references
+   * volatile은 수식(또는 참조한 이름)이 TODAY/NOW 등 휘발성 함수를 쓰는지 여부
+   */
+  private collectReferences(
+    ast: FormulaAST,
+    context: EvaluationContext
+  ): { refs: string[]; volatile: boolean } {
+    const refs: Set<string> = new Set();
+    let volatile = false;
+
+    const addCell = (cellRef: string, sheet: Sheet) => {
+      const cell = this.getCellByReference(cellRef, sheet);
+      if (cell) {
+        refs.add(generateSheetCellId(sheet.id, cell.id));
+      }
+    };
+
+    const addColumn = (node: FormulaAST) => {
+      try {
+        const sheet = this.resolveSheet(node.sheet, context);
+        const column = this.resolveColumn(node.value as string, sheet);
+        const rows =
+          node.sheet === undefined
+            ? [this.getCurrentRow(node.value as string, context)]
+            : sheet.rows;
+
+        rows.forEach((row) => {
+          const cell = row.cells[column.id];
+          if (cell) {
+            refs.add(generateSheetCellId(sheet.id, cell.id));
+          }
+        });
+      } catch {
+        // Unknown sheets/columns are reported during evaluation
+      }
+    };
+
+    const visitedNames = new Set<string>();
+    const addName = (name: string) => {
+      const key = name.toLowerCase();
+      if (visitedNames.has(key)) return;
+      visitedNames.add(key);
+
+      try {
+        traverse(this.parser.parse(this.findName(name).definition));
+      } catch {
+        // Unknown names and invalid definitions are reported during evaluation
+      }
+    };
+
+    const traverse = (node: FormulaAST) => {
+      if (node.type === 'column') {
+        addColumn(node);
+      }
+
+      if (
+        node.type === 'function' &&
+        VOLATILE_FUNCTIONS.has(String(node.value).toUpperCase())
+      ) {
+        volatile = true;
+      }
+
+      // Names and saved lambdas (workbook functions) referenced by the formula
+      if (
+        node.type === 'name' ||
+        (node.type === 'function' &&
+          !FORMULA_FUNCTIONS[String(node.value).toUpperCase()])
+      ) {
+        addName(node.value as string);
+      }
+
+      if (node.type === 'cell' || node.type === 'range') {
+        let sheet: Sheet;
+        try {
+          sheet = this.resolveSheet(node.sheet, context);
+        } catch {
+          // Unknown sheets are reported during evaluation
+          return;
+        }
+
+        if (node.type === 'cell') {
+          addCell(node.value as string, sheet);
+        } else {
+          this.parser
+            .expandRange(node.value as string)
+            .forEach((ref) => addCell(ref, sheet));
+        }
+      }
+
+      if (node.children) {
+        node.children.forEach(traverse);
+      }
+    };
+
+    traverse(ast);
+    return { refs: Array.from(refs), volatile };
   }
 
   /**
    * Evaluate operator
    */
-  private evaluateOperator(node: FormulaAST, sheet: Sheet): CellValue {
+  private evaluateOperator(
+    node: FormulaAST,
+    context: EvaluationContext
+  ): CellValue | RangeValue {
     if (!node.children || node.children.length !== 2) {
       throw new Error('Operator requires two operands');
     }
 
-    const left = this.evaluateAST(node.children[0], sheet);
-    const right = this.evaluateAST(node.children[1], sheet);
+    const left = this.evaluateAST(node.children[0], context);
+    const right = this.evaluateAST(node.children[1], context);
+    const op = String(node.operator || node.value);
 
-    const op = node.operator || node.value;
+    // Ranges are combined element by element (C2:C50="X" → TRUE/FALSE array)
+    if (Array.isArray(left) || Array.isArray(right)) {
+      return this.broadcast(left, right, (a, b) =>
+        this.applyOperator(op, a, b)
+      );
+    }
+
+    return this.applyOperator(op, left, right);
+  }
+
+  /**
+   * Apply a binary operator to two scalar values
+   */
+  private applyOperator(op: string, left: CellValue, right: CellValue) {
+    this.throwIfError(left);
+    this.throwIfError(right);
+
+    // Date ± days stays a date, date - date is a number of days
+    const leftIsDate = left instanceof Date;
+    const rightIsDate = right instanceof Date;
+    if (op === '+' && leftIsDate !== rightIsDate) {
+      return fromDateSerial(this.toNumber(left) + this.toNumber(right));
+    }
+    if (op === '-' && leftIsDate && !rightIsDate) {
+      return fromDateSerial(this.toNumber(left) - this.toNumber(right));
+    }
 
     switch (op) {
       case '+':
@@ -132,7 +723,9 @@ export class FormulaEvaluator {
         return this.toNumber(left) * this.toNumber(right);
       case '/': {
         const divisor = this.toNumber(right);
-        if (divisor === 0) throw new Error('Division by zero');
+        if (divisor === 0) {
+          throw new FormulaError('#DIV/0!', 'Division by zero');
+        }
         return this.toNumber(left) / divisor;
       }
       case '^':
@@ -140,63 +733,336 @@ export class FormulaEvaluator {
       case '&':
         return String(left ?? '') + String(right ?? '');
       case '=':
-        return left === right;
+        return this.isSameValue(left, right);
       case '<>':
-        return left !== right;
+        return !this.isSameValue(left, right);
       case '>':
-        return this.toNumber(left) > this.toNumber(right);
+        return this.toComparable(left) > this.toComparable(right);
       case '<':
-        return this.toNumber(left) < this.toNumber(right);
+        return this.toComparable(left) < this.toComparable(right);
       case '>=':
-        return this.toNumber(left) >= this.toNumber(right);
+        return this.toComparable(left) >= this.toComparable(right);
       case '<=':
-        return this.toNumber(left) <= this.toNumber(right);
+        return this.toComparable(left) <= this.toComparable(right);
       default:
-        throw new Error(`Unknown operator: ${op}`);
+        throw new FormulaError('#VALUE!', `Unknown operator: ${op}`);
+    }
+  }
+
+  /**
+   * Compare two scalar values (dates are equal when they are the same time)
+   */
+  private isSameValue(left: CellValue, right: CellValue): boolean {
+    if (left instanceof Date && right instanceof Date) {
+      return left.getTime() === right.getTime();
     }
+    return left === right;
   }
 
   /**
    * Evaluate unary operator
    */
-  private evaluateUnary(node: FormulaAST, sheet: Sheet): CellValue {
+  private evaluateUnary(
+    node: FormulaAST,
+    context: EvaluationContext
+  ): CellValue | RangeValue {
     if (!node.children || node.children.length !== 1) {
       throw new Error('Unary operator requires one operand');
     }
 
-    const operand = this.evaluateAST(node.children[0], sheet);
+    const operand = this.evaluateAST(node.children[0], context);
     const op = node.operator || node.value;
 
-    switch (op) {
-      case '-':
-        return -this.toNumber(operand);
-      case '+':
-        return this.toNumber(operand);
-      default:
-        throw new Error(`Unknown unary operator: ${op}`);
+    const apply = (value: CellValue): CellValue => {
+      this.throwIfError(value);
+      switch (op) {
+        case '-':
+          return -this.toNumber(value);
+        case '+':
+          return this.toNumber(value);
+        default:
+          throw new FormulaError('#VALUE!', `Unknown unary operator: ${op}`);
+      }
+    };
+
+    return Array.isArray(operand)
+      ? this.broadcast(operand, null, (value) => apply(value))
+      : apply(operand);
+  }
+
+  /**
+   * Apply an operation element by element
+   * 스칼라는 배열 크기로 확장되고, 두 배열은 크기가 같아야 한다
+   * 요소 계산 중 발생한 오류는 해당 요소의 오류 값이 된다
+   */
+  private broadcast(
+    left: CellValue | CellValue[],
+    right: CellValue | CellValue[],
+    operation: (a: CellValue, b: CellValue) => CellValue
+  ): RangeValue {
+    const shapeOf = (value: CellValue[]) => {
+      const { rows, columns } = value as Partial<RangeValue>;
+      return rows !== undefined && columns !== undefined
+        ? { rows, columns }
+        : { rows: value.length, columns: 1 };
+    };
+
+    const shape = shapeOf((Array.isArray(left) ? left : right) as CellValue[]);
+    if (Array.isArray(left) && Array.isArray(right)) {
+      const other = shapeOf(right);
+      if (other.rows !== shape.rows || other.columns !== shape.columns) {
+        throw new FormulaError('#VALUE!', 'Array sizes do not match');
+      }
+    }
+
+    const at = (value: CellValue | CellValue[], index: number) =>
+      Array.isArray(value) ? (value[index] ?? null) : value;
+
+    const values: CellValue[] = [];
+    for (let i = 0; i < shape.rows * shape.columns; i++) {
+      try {
+        values.push(operation(at(left, i), at(right, i)));
+      } catch (error) {
+        values.push(toFormulaError(error).code);
+      }
     }
+    return createRangeValue(values, shape.rows, shape.columns);
   }
 
   /**
    * Evaluate function
    */
-  private evaluateFunction(node: FormulaAST, sheet: Sheet): CellValue {
+  private evaluateFunction(
+    node: FormulaAST,
+    context: EvaluationContext
+  ): CellValue | CellValue[] {
     const funcName = (node.value as string).toUpperCase();
-    const func = FORMULA_FUNCTIONS[funcName];
 
+    // LET/LAMBDA bind names instead of evaluating their arguments
+    if (BINDING_FUNCTIONS.has(funcName)) {
+      if (funcName === 'LET') return this.evaluateLet(node, context);
+      throw new FormulaError('#CALC!', 'LAMBDA must be called with arguments');
+    }
+
+    // Error arguments are passed to lambdas as values
+    const lambda = this.findLambda(funcName, context);
+    if (lambda) {
+      return this.invokeLambda(
+        funcName,
+        lambda,
+        this.evaluateArguments(node, context),
+        context
+      );
+    }
+
+    const func = FORMULA_FUNCTIONS[funcName];
     if (!func) {
-      throw new Error(`Unknown function: ${funcName}`);
+      throw new FormulaError('#NAME?', `Unknown function: ${funcName}`);
     }
 
-    // Evaluate arguments
-    const args = (node.children || []).map((child) =>
-      this.evaluateAST(child, sheet)
-    );
+    const args = this.evaluateArguments(node, context);
+
+    // Propagate the first error argument unless the function handles errors
+    if (!ERROR_HANDLING_FUNCTIONS.has(funcName)) {
+      const error = this.findErrorArgument(
+        args,
+        RANGE_ERROR_TOLERANT_FUNCTIONS.has(funcName)
+      );
+      if (error) return error;
+    }
 
     // Call function
     return func(...args);
   }
 
+  /**
+   * Evaluate function arguments (errors become values so IFERROR/ISERROR can see them)
+   */
+  private evaluateArguments(
+    node: FormulaAST,
+    context: EvaluationContext
+  ): (CellValue | CellValue[])[] {
+    return (node.children || []).map((child) => {
+      try {
+        return this.evaluateAST(child, context);
+      } catch (error) {
+        const formulaError = toFormulaError(error);
+        if (formulaError.code === '#CIRC!') throw formulaError;
+        return formulaError.code;
+      }
+    });
+  }
+
+  /**
+   * Evaluate LET(name1, value1, [name2, value2, ...], calculation)
+   * 이름은 순서대로 바인딩되어 뒤의 값과 계산식에서 사용할 수 있다
+   */
+  private evaluateLet(
+    node: FormulaAST,
+    context: EvaluationContext
+  ): CellValue | CellValue[] {
+    const children = node.children || [];
+    if (children.length < 3 || children.length % 2 === 0) {
+      throw new FormulaError(
+        '#VALUE!',
+        'LET requires name/value pairs followed by a calculation'
+      );
+    }
+
+    const locals = new Map(context.locals);
+    const scope: EvaluationContext = { ...context, locals };
+
+    for (let i = 0; i < children.length - 1; i += 2) {
+      const name = this.getLocalName(children[i]);
+      const valueNode = children[i + 1];
+
+      if (
+        valueNode.type === 'function' &&
+        String(valueNode.value).toUpperCase() === 'LAMBDA'
+      ) {
+        locals.set(name, this.createLambda(valueNode, new Map(locals)));
+        continue;
+      }
+
+      try {
+        locals.set(name, this.evaluateAST(valueNode, scope));
+      } catch (error) {
+        // Errors are bound as values so the calculation can handle them
+        const formulaError = toFormulaError(error);
+        if (formulaError.code === '#CIRC!') throw formulaError;
+        locals.set(name, formulaError.code);
+      }
+    }
+
+    return this.evaluateAST(children[children.length - 1], scope);
+  }
+
+  /**
+   * Find the lambda a function call refers to
+   * LET 지역 LAMBDA → 내장 함수 → 워크북 이름으로 저장된 LAMBDA 순서로 찾는다
+   */
+  private findLambda(
+    funcName: string,
+    context: EvaluationContext
+  ): LambdaValue | undefined {
+    const key = funcName.toLowerCase();
+    if (context.locals?.has(key)) {
+      const local = context.locals.get(key) as LocalValue;
+      if (!isLambdaValue(local)) {
+        throw new FormulaError('#VALUE!', `${funcName} is not a LAMBDA`);
+      }
+      return local;
+    }
+
+    if (FORMULA_FUNCTIONS[funcName]) return undefined;
+
+    const named = this.names.find((n) => n.name.toLowerCase() === key);
+    if (!named) return undefined;
+
+    const ast = this.parse(named.definition);
+    if (
+      ast.type !== 'function' ||
+      String(ast.value).toUpperCase() !== 'LAMBDA'
+    ) {
+      throw new FormulaError('#VALUE!', `${named.name} is not a LAMBDA`);
+    }
+    return this.createLambda(ast, new Map());
+  }
+
+  /**
+   * Create a lambda from LAMBDA(param1, ..., calculation)
+   */
+  private createLambda(
+    node: FormulaAST,
+    locals: Map<string, LocalValue>
+  ): LambdaValue {
+    const children = node.children || [];
+    if (children.length === 0) {
+      throw new FormulaError('#VALUE!', 'LAMBDA requires a calculation');
+    }
+
+    const params = children
+      .slice(0, -1)
+      .map((child) => this.getLocalName(child));
+    if (new Set(params).size !== params.length) {
+      throw new FormulaError('#VALUE!', 'Duplicate LAMBDA parameter names');
+    }
+
+    return { params, body: children[children.length - 1], locals };
+  }
+
+  /**
+   * Call a lambda with evaluated arguments
+   */
+  private invokeLambda(
+    funcName: string,
+    lambda: LambdaValue,
+    args: (CellValue | CellValue[])[],
+    context: EvaluationContext
+  ): CellValue | CellValue[] {
+    if (args.length !== lambda.params.length) {
+      throw new FormulaError(
+        '#VALUE!',
+        `${funcName} expects ${lambda.params.length} argument(s), got ${args.length}`
+      );
+    }
+    if (this.lambdaDepth >= MAX_LAMBDA_DEPTH) {
+      throw new FormulaError('#NUM!', 'LAMBDA recursion limit exceeded');
+    }
+
+    const locals = new Map(lambda.locals);
+    lambda.params.forEach((param, index) => locals.set(param, args[index]));
+
+    this.lambdaDepth++;
+    try {
+      return this.evaluateAST(lambda.body, { ...context, locals });
+    } finally {
+      this.lambdaDepth--;
+    }
+  }
+
+  /**
+   * Get the (lowercase) name bound by LET/LAMBDA
+   */
+  private getLocalName(node: FormulaAST): string {
+    if (node.type !== 'name') {
+      throw new FormulaError(
+        '#VALUE!',
+        `Invalid LET/LAMBDA name: ${String(node.value)}`
+      );
+    }
+    return String(node.value).toLowerCase();
+  }
+
+  /**
+   * Find the first error value among function arguments
+   * @param skipRanges - 범위 안의 오류는 무시 (조회 함수 등)
+   */
+  private findErrorArgument(
+    args: (CellValue | CellValue[])[],
+    skipRanges: boolean
+  ): FormulaErrorCode | undefined {
+    for (const arg of args) {
+      if (Array.isArray(arg)) {
+        if (skipRanges) continue;
+        const error = arg.find(isFormulaError);
+        if (error !== undefined) return error;
+      } else if (isFormulaError(arg)) {
+        return arg;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Throw error values so they propagate through operators
+   */
+  private throwIfError(value: CellValue | CellValue[]): void {
+    if (isFormulaError(value)) {
+      throw new FormulaError(value);
+    }
+  }
+
   /**
    * Get cell by A1 reference
    */
@@ -223,76 +1089,150 @@ export class FormulaEvaluator {
   /**
    * Update dependencies for a cell
    */
-  private updateDependencies(cellId: string, refs: string[]): void {
-    // Clear old dependencies for this cell
-    this.dependencies.forEach((deps) => deps.delete(cellId));
-
-    // Add new dependencies
-    for (const ref of refs) {
-      if (!this.dependencies.has(ref)) {
-        this.dependencies.set(ref, new Set());
-      }
-      this.dependencies.get(ref)!.add(cellId);
-    }
+  private updateDependencies(
+    sheetCellId: string,
+    refs: string[],
+    volatile: boolean
+  ): void {
+    this.graph.setPrecedents(sheetCellId, refs);
+    this.graph.setVolatile(sheetCellId, volatile);
   }
 
   /**
-   * Detect circular reference using DFS
+   * Detect circular reference
+   * 셀의 의존 셀을 따라가다 자기 자신으로 돌아오면 순환 참조
    */
-  private hasCircularReference(cellId: string): boolean {
-    const visited = new Set<string>();
-    const recStack = new Set<string>();
+  private hasCircularReference(sheetCellId: string): boolean {
+    return this.graph.hasCycle(sheetCellId);
+  }
 
-    const dfs = (id: string): boolean => {
-      visited.add(id);
-      recStack.add(id);
+  /**
+   * Get the dependency graph shared with the formula cache
+   */
+  getGraph(): DependencyGraph {
+    return this.graph;
+  }
 
-      const deps = this.dependencies.get(id) || new Set();
-      for (const dep of deps) {
-        if (!visited.has(dep)) {
-          if (dfs(dep)) return true;
-        } else if (recStack.has(dep)) {
-          return true; // Cycle detected
-        }
-      }
+  /**
+   * Get all cells that depend on a given cell
+   * @param sheetCellId - 시트 ID를 포함한 셀 ID (generateSheetCellId)
+   */
+  getDependents(sheetCellId: string): Set<string> {
+    return this.graph.getDependents(sheetCellId);
+  }
 
-      recStack.delete(id);
-      return false;
-    };
+  /**
+   * Register the cells an array formula spilled into
+   * 펼쳐진 셀은 앵커 셀의 의존 셀로 취급된다 (빈 배열이면 해제)
+   */
+  setSpill(sheetCellId: string, spilledIds: string[]): void {
+    this.graph.setSpill(sheetCellId, spilledIds);
+  }
 
-    return dfs(cellId);
+  /**
+   * Get all cells a given cell's formula references
+   * @param sheetCellId - 시트 ID를 포함한 셀 ID (generateSheetCellId)
+   */
+  getPrecedents(sheetCellId: string): Set<string> {
+    return this.graph.getPrecedents(sheetCellId);
   }
 
   /**
-   * Get all cells that depend on a given cell
+   * Remove a cell's outgoing references (e.g. when its formula is cleared)
    */
-  getDependents(cellId: string): Set<string> {
-    return this.dependencies.get(cellId) || new Set();
+  clearCellDependencies(sheetCellId: string): void {
+    this.graph.clearPrecedents(sheetCellId);
+    this.graph.setVolatile(sheetCellId, false);
   }
 
   /**
-   * Clear all dependencies
+   * Clear all dependencies and cached results
    */
   clearDependencies(): void {
-    this.dependencies.clear();
+    this.graph.clear();
+    this.cache.clear();
   }
 
   /**
-   * Convert value to number
+   * Set the workbook-level named ranges/constants used by formulas
+   */
+  setNames(names: NamedRange[]): void {
+    this.names = names;
+  }
+
+  /**
+   * Get the registered named ranges/constants
+   */
+  getNames(): NamedRange[] {
+    return this.names;
+  }
+
+  /**
+   * Set the workbook seed used by random functions
+   */
+  setRandomSeed(seed: number): void {
+    this.randomSeed = seed;
+  }
+
+  /**
+   * Get the workbook seed used by random functions
+   */
+  getRandomSeed(): number {
+    return this.randomSeed;
+  }
+
+  /**
+   * Set the workbook's iterative calculation settings
+   * 켜져 있으면 순환 참조를 #CIRC! 대신 이전 값으로 계산한다 (반복은 재계산이 담당)
+   */
+  setIterativeCalculation(settings: IterativeCalculation | null): void {
+    this.iterativeCalculation = settings;
+  }
+
+  /**
+   * Get the iterative calculation settings (꺼져 있으면 null)
+   */
+  getIterativeCalculation(): IterativeCalculation | null {
+    return this.isIterative() ? this.iterativeCalculation : null;
+  }
+
+  private isIterative(): boolean {
+    return this.iterativeCalculation?.enabled === true;
+  }
+
+  /**
+   * Convert value to number for arithmetic
+   * 숫자가 아닌 텍스트는 #VALUE! (빈 문자열은 빈 셀처럼 0)
    */
   private toNumber(value: CellValue | CellValue[]): number {
     // Reject arrays - they should only be used in functions
     if (Array.isArray(value)) {
-      throw new Error('Cannot use range in this context');
+      throw new FormulaError('#VALUE!', 'Cannot use range in this context');
     }
 
     if (typeof value === 'number') return value;
     if (typeof value === 'boolean') return value ? 1 : 0;
+    if (value instanceof Date) return toDateSerial(value);
+    if (typeof value === 'string') {
+      if (value.trim() === '') return 0;
+      const num = Number(value);
+      if (isNaN(num)) {
+        throw new FormulaError('#VALUE!', `Not a number: "${value}"`);
+      }
+      return num;
+    }
+    return 0;
+  }
+
+  /**
+   * Convert value to number for comparison operators (숫자가 아닌 텍스트는 0)
+   */
+  private toComparable(value: CellValue): number {
     if (typeof value === 'string') {
       const num = parseFloat(value);
       return isNaN(num) ? 0 : num;
     }
-    return 0;
+    return this.toNumber(value);
   }
 
   /**
@@ -308,6 +1248,9 @@ export class FormulaEvaluator {
 }
 
 /**
- * Singleton instance
+ * Singleton instance (formulaCache와 의존성 그래프를 공유)
  */
-export const formulaEvaluator = new FormulaEvaluator();
+export const formulaEvaluator = new FormulaEvaluator(
+  dependencyGraph,
+  formulaCache
+);
@@ -4,10 +4,75 @@
  */
 
 import type { CellValue } from '@types';
+import {
+  addDays,
+  addMonths,
+  differenceInCalendarDays,
+  endOfMonth,
+  format as formatDate,
+  getDaysInMonth,
+  isValid,
+  isWeekend,
+  parseISO,
+  startOfDay,
+} from 'date-fns';
+import { isFormulaError } from './formulaErrors';
+import { createSeededRandom, hashSeed, nextRandom } from './seededRandom';
 
 export type FormulaFunction = (
   ...args: (CellValue | CellValue[])[]
-) => CellValue;
+) => CellValue | CellValue[];
+
+/**
+ * 범위 값: 행 우선으로 평탄화된 값 + 2차원 크기 (rows × columns)
+ * 일반 배열처럼 다룰 수 있어 기존 함수는 그대로 동작한다
+ */
+export type RangeValue = CellValue[] & { rows: number; columns: number };
+
+/**
+ * 평탄화된 값에 2차원 크기 정보를 붙여 범위 값 생성
+ */
+export const createRangeValue = (
+  values: CellValue[],
+  rows: number,
+  columns: number
+): RangeValue => Object.assign(values, { rows, columns });
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const SERIAL_EPOCH = Date.UTC(1899, 11, 30);
+
+/**
+ * 날짜를 일련번호로 변환 (1900-01-01 = 2, 소수부는 시간)
+ * 날짜 연산(+, -, 비교)은 일련번호로 계산된다
+ */
+export const toDateSerial = (date: Date): number =>
+  (Date.UTC(
+    date.getFullYear(),
+    date.getMonth(),
+    date.getDate(),
+    date.getHours(),
+    date.getMinutes(),
+    date.getSeconds(),
+    date.getMilliseconds()
+  ) -
+    SERIAL_EPOCH) /
+  MS_PER_DAY;
+
+/**
+ * 일련번호를 날짜로 변환 (로컬 시간 기준)
+ */
+export const fromDateSerial = (serial: number): Date => {
+  const days = Math.floor(serial);
+  return new Date(
+    1899,
+    11,
+    30 + days,
+    0,
+    0,
+    0,
+    Math.round((serial - days) * MS_PER_DAY)
+  );
+};
 
 /**
  * 내장 함수 맵
@@ -34,12 +99,29 @@ export const FORMULA_FUNCTIONS: Record<string, FormulaFunction> = {
   STDEVP,
   VAR,
   VARP,
+  'BINOM.DIST': BINOM_DIST,
+
+  // Conditional Aggregation Functions
+  SUMIF,
+  SUMIFS,
+  COUNTIF,
+  COUNTIFS,
+  AVERAGEIF,
+  AVERAGEIFS,
+  MAXIFS,
+  MINIFS,
 
   // Logical Functions
   IF,
   AND,
   OR,
   NOT,
+  IFERROR,
+
+  // Information Functions
+  ISERROR,
+  ISERR,
+  ISNA,
 
   // Text Functions
   CONCATENATE,
@@ -49,6 +131,54 @@ export const FORMULA_FUNCTIONS: Record<string, FormulaFunction> = {
   UPPER,
   LOWER,
   LEN,
+  TRIM,
+  TEXT,
+  TEXTJOIN,
+  SPLIT,
+  SUBSTITUTE,
+  FIND,
+  SEARCH,
+  REGEXMATCH,
+  REGEXEXTRACT,
+  REGEXREPLACE,
+
+  // Lookup Functions
+  VLOOKUP,
+  HLOOKUP,
+  XLOOKUP,
+  INDEX,
+  MATCH,
+
+  // Dynamic Array Functions
+  FILTER,
+  SORT,
+  UNIQUE,
+  SEQUENCE,
+
+  // Date Functions
+  TODAY,
+  NOW,
+  DATE,
+  DATEVALUE,
+  YEAR,
+  MONTH,
+  DAY,
+  HOUR,
+  MINUTE,
+  SECOND,
+  DAYS,
+  DATEDIF,
+  EDATE,
+  EOMONTH,
+  WEEKDAY,
+  NETWORKDAYS,
+  WORKDAY,
+
+  // Random Functions
+  RAND,
+  RANDBETWEEN,
+  RAND_SEED,
+  WEIGHTED_PICK,
 
   // Game Data Functions
   DAMAGE_CALC,
@@ -58,8 +188,73 @@ export const FORMULA_FUNCTIONS: Record<string, FormulaFunction> = {
   DROP_RATE,
   EXP_CURVE,
   GACHA_RATE,
+
+  // Gacha Probability Functions
+  GACHA_PITY_RATE,
+  GACHA_PITY_CURVE,
+  GACHA_PROB,
+  GACHA_EXPECTED_PULLS,
+  GACHA_FEATURED_PROB,
+  GACHA_FEATURED_EXPECTED,
+  GACHA_ITEM_RATE,
+
+  // Combat Simulation Functions
+  DPS,
+  TTK,
+  EHP,
 };
 
+/**
+ * 오류 값을 인수로 받아 직접 처리하는 함수 (오류를 전파하지 않음)
+ */
+export const ERROR_HANDLING_FUNCTIONS: ReadonlySet<string> = new Set([
+  'IF',
+  'IFERROR',
+  'ISERROR',
+  'ISERR',
+  'ISNA',
+]);
+
+/**
+ * 범위 안의 오류 값을 무시하는 함수 (일치한 값이 오류일 때만 결과가 오류)
+ */
+export const RANGE_ERROR_TOLERANT_FUNCTIONS: ReadonlySet<string> = new Set([
+  'COUNT',
+  'COUNTA',
+  'SUMIF',
+  'SUMIFS',
+  'COUNTIF',
+  'COUNTIFS',
+  'AVERAGEIF',
+  'AVERAGEIFS',
+  'MAXIFS',
+  'MINIFS',
+  'VLOOKUP',
+  'HLOOKUP',
+  'XLOOKUP',
+  'INDEX',
+  'MATCH',
+  'FILTER',
+  'SORT',
+  'UNIQUE',
+]);
+
+/**
+ * 참조가 바뀌지 않아도 재계산할 때마다 다시 계산하는 휘발성 함수
+ */
+export const VOLATILE_FUNCTIONS: ReadonlySet<string> = new Set([
+  'TODAY',
+  'NOW',
+]);
+
+/**
+ * 인수를 미리 평가하지 않고 평가기가 직접 처리하는 함수 (지역 이름 바인딩)
+ */
+export const BINDING_FUNCTIONS: ReadonlySet<string> = new Set([
+  'LET',
+  'LAMBDA',
+]);
+
 // ============ Math Functions ============
 
 /**
@@ -290,7 +485,155 @@ function VARP(...args: (CellValue | CellValue[])[]): CellValue {
   if (numbers.length === 0) return null;
 
   const avg = numbers.reduce((sum, n) => sum + n, 0) / numbers.length;
-  return numbers.reduce((sum, n) => sum + Math.pow(n - avg, 2), 0) / numbers.length;
+  return (
+    numbers.reduce((sum, n) => sum + Math.pow(n - avg, 2), 0) / numbers.length
+  );
+}
+
+/**
+ * BINOM.DIST(successes, trials, probability, cumulative)
+ * 이항 분포: trials번 시도 중 정확히(cumulative가 TRUE면 이하) successes번 성공할 확률
+ *
+ * Examples:
+ * - BINOM.DIST(1, 10, 0.1, FALSE) → 0.387 (10번 중 정확히 1번)
+ * - 1 - BINOM.DIST(0, 80, 0.006, TRUE) → 80연차 안에 한 번 이상 나올 확률
+ */
+function BINOM_DIST(
+  successes: CellValue | CellValue[],
+  trials: CellValue | CellValue[],
+  probability: CellValue | CellValue[],
+  cumulative: CellValue | CellValue[]
+): CellValue {
+  const k = toNumber(successes);
+  const n = toNumber(trials);
+  const p = toNumber(probability);
+  if (k === null || n === null || p === null) return '#VALUE!';
+
+  const count = Math.trunc(k);
+  const total = Math.trunc(n);
+  if (total < 0 || count < 0 || count > total || p < 0 || p > 1) {
+    return '#NUM!';
+  }
+
+  if (!toBoolean(cumulative)) return binomialProbability(count, total, p);
+
+  let sum = 0;
+  for (let i = 0; i <= count; i++) {
+    sum += binomialProbability(i, total, p);
+  }
+  return Math.min(sum, 1);
+}
+
+// ============ Conditional Aggregation Functions ============
+
+/**
+ * SUMIF: 조건을 만족하는 값의 합계
+ * 예: SUMIF(B2:B50, "Goblin", F2:F50), SUMIF(C2:C50, ">=10")
+ */
+function SUMIF(
+  range: CellValue | CellValue[],
+  criteria: CellValue | CellValue[],
+  sumRange?: CellValue | CellValue[]
+): CellValue {
+  return SUMIFS(sumRange ?? range, range, criteria);
+}
+
+/**
+ * SUMIFS: 모든 조건(범위, 조건 쌍)을 만족하는 값의 합계
+ */
+function SUMIFS(
+  sumRange: CellValue | CellValue[],
+  ...criteria: (CellValue | CellValue[])[]
+): CellValue {
+  const matched = filterByCriteria(sumRange, criteria);
+  if (matched === null) return '#VALUE!';
+
+  const error = matched.find(isFormulaError);
+  if (error !== undefined) return error;
+
+  return flattenAndFilter(matched).reduce((sum, n) => sum + n, 0);
+}
+
+/**
+ * COUNTIF: 조건을 만족하는 셀 개수
+ * 예: COUNTIF(D2:D200, "legendary")
+ */
+function COUNTIF(
+  range: CellValue | CellValue[],
+  criteria: CellValue | CellValue[]
+): CellValue {
+  return COUNTIFS(range, criteria);
+}
+
+/**
+ * COUNTIFS: 모든 조건(범위, 조건 쌍)을 만족하는 행 개수
+ */
+function COUNTIFS(...criteria: (CellValue | CellValue[])[]): CellValue {
+  const matched = filterByCriteria(criteria[0], criteria);
+  return matched === null ? '#VALUE!' : matched.length;
+}
+
+/**
+ * AVERAGEIF: 조건을 만족하는 값의 평균 (없으면 #DIV/0!)
+ */
+function AVERAGEIF(
+  range: CellValue | CellValue[],
+  criteria: CellValue | CellValue[],
+  averageRange?: CellValue | CellValue[]
+): CellValue {
+  return AVERAGEIFS(averageRange ?? range, range, criteria);
+}
+
+/**
+ * AVERAGEIFS: 모든 조건을 만족하는 값의 평균 (없으면 #DIV/0!)
+ */
+function AVERAGEIFS(
+  averageRange: CellValue | CellValue[],
+  ...criteria: (CellValue | CellValue[])[]
+): CellValue {
+  const matched = filterByCriteria(averageRange, criteria);
+  if (matched === null) return '#VALUE!';
+
+  const error = matched.find(isFormulaError);
+  if (error !== undefined) return error;
+
+  const numbers = flattenAndFilter(matched);
+  if (numbers.length === 0) return '#DIV/0!';
+  return numbers.reduce((sum, n) => sum + n, 0) / numbers.length;
+}
+
+/**
+ * MAXIFS: 모든 조건을 만족하는 값 중 최대값 (없으면 0)
+ */
+function MAXIFS(
+  maxRange: CellValue | CellValue[],
+  ...criteria: (CellValue | CellValue[])[]
+): CellValue {
+  const matched = filterByCriteria(maxRange, criteria);
+  if (matched === null) return '#VALUE!';
+
+  const error = matched.find(isFormulaError);
+  if (error !== undefined) return error;
+
+  const numbers = flattenAndFilter(matched);
+  return numbers.length === 0 ? 0 : Math.max(...numbers);
+}
+
+/**
+ * MINIFS: 모든 조건을 만족하는 값 중 최소값 (없으면 0)
+ */
+function MINIFS(
+  minRange: CellValue | CellValue[],
+  ...criteria: (CellValue | CellValue[])[]
+): CellValue {
+  const matched = filterByCriteria(minRange, criteria);
+  if (matched === null) return '#VALUE!';
+
+  const error = matched.find(isFormulaError);
+  if (error !== undefined) return error;
+
+  const numbers = flattenAndFilter(matched);
+  return numbers.length === 0 ? 0 : Math.min(...numbers);
 }
 
 // ============ Logical Functions ============
@@ -303,6 +646,7 @@ function IF(
   trueValue: CellValue | CellValue[],
   falseValue: CellValue | CellValue[]
 ): CellValue {
+  if (isFormulaError(condition)) return condition;
   return (toBoolean(condition) ? trueValue : falseValue) as CellValue;
 }
 
@@ -329,6 +673,42 @@ function NOT(value: CellValue | CellValue[]): CellValue {
   return !toBoolean(value);
 }
 
+/**
+ * IFERROR: 오류 값이면 대체 값 반환
+ * 예: IFERROR(VLOOKUP(A2, Items!A:D, 2, FALSE), 0)
+ */
+function IFERROR(
+  value: CellValue | CellValue[],
+  valueIfError: CellValue | CellValue[]
+): CellValue {
+  const scalar = toScalar(value);
+  return isFormulaError(scalar) ? toScalar(valueIfError) : scalar;
+}
+
+// ============ Information Functions ============
+
+/**
+ * ISERROR: 오류 값인지 확인 (#N/A 포함)
+ */
+function ISERROR(value: CellValue | CellValue[]): CellValue {
+  return isFormulaError(toScalar(value));
+}
+
+/**
+ * ISERR: #N/A를 제외한 오류 값인지 확인
+ */
+function ISERR(value: CellValue | CellValue[]): CellValue {
+  const scalar = toScalar(value);
+  return isFormulaError(scalar) && scalar !== '#N/A';
+}
+
+/**
+ * ISNA: #N/A 오류인지 확인
+ */
+function ISNA(value: CellValue | CellValue[]): CellValue {
+  return toScalar(value) === '#N/A';
+}
+
 // ============ Text Functions ============
 
 /**
@@ -398,165 +778,1716 @@ function LEN(text: CellValue | CellValue[]): CellValue {
   return String(text ?? '').length;
 }
 
-// ============ Game Data Functions ============
+/**
+ * TRIM: 앞뒤 공백을 없애고 단어 사이 공백을 하나로 줄임
+ */
+function TRIM(text: CellValue | CellValue[]): CellValue {
+  return String(text ?? '')
+    .replace(/ +/g, ' ')
+    .trim();
+}
 
 /**
- * DAMAGE_CALC: 데미지 계산
- * DAMAGE_CALC(attack, defense) = attack * (100 / (100 + defense))
+ * TEXT(value, format): 숫자/날짜를 서식 문자열에 맞춰 텍스트로 변환
+ *
+ * Examples:
+ * - TEXT(1234.5, "#,##0.00") → "1,234.50"
+ * - TEXT(0.125, "0.0%") → "12.5%"
+ * - TEXT(7, "000") → "007"
+ * - TEXT(DATE(2025, 3, 1), "yyyy-mm-dd") → "2025-03-01"
  */
-function DAMAGE_CALC(
-  attack: CellValue | CellValue[],
-  defense: CellValue | CellValue[]
+function TEXT(
+  value: CellValue | CellValue[],
+  formatText: CellValue | CellValue[]
 ): CellValue {
-  const atk = toNumber(attack);
-  const def = toNumber(defense);
+  const pattern = String(formatText ?? '');
 
-  if (atk === null || def === null) return null;
+  if (isDateFormat(pattern)) {
+    const date = toDate(value);
+    return date ? formatDatePattern(date, pattern) : '#VALUE!';
+  }
 
-  return Math.floor(atk * (100 / (100 + def)));
+  const num = toNumber(value);
+  if (num === null) return String(value ?? ''); // Text is returned unchanged
+  return formatNumberPattern(num, pattern);
 }
 
 /**
- * STAT_TOTAL: 스탯 합계 (여러 스탯 값을 합산)
+ * TEXTJOIN(delimiter, ignoreEmpty, text1, [text2], ...)
+ * 구분자로 값(범위 포함)을 이어 붙임
+ *
+ * Examples:
+ * - TEXTJOIN(",", TRUE, A1:A5) → "fire,ice,poison"
+ * - TEXTJOIN("_", FALSE, "item", LOWER([type]), [id]) → "item_weapon_101"
  */
-function STAT_TOTAL(...stats: (CellValue | CellValue[])[]): CellValue {
-  return SUM(...stats);
+function TEXTJOIN(
+  delimiter: CellValue | CellValue[],
+  ignoreEmpty: CellValue | CellValue[],
+  ...texts: (CellValue | CellValue[])[]
+): CellValue {
+  const skipEmpty = toBoolean(ignoreEmpty);
+  return flatten(texts)
+    .map((v) => String(v ?? ''))
+    .filter((v) => !skipEmpty || v !== '')
+    .join(String(delimiter ?? ''));
 }
 
 /**
- * RARITY_BONUS: 레어도에 따른 보너스 계산
+ * SPLIT(text, delimiter, [splitByEach=TRUE], [removeEmpty=TRUE])
+ * 텍스트를 나눠 한 행으로 펼침
+ * splitByEach가 TRUE면 구분자의 각 문자로 나눈다
+ *
+ * Examples:
+ * - SPLIT("fire,ice,poison", ",") → fire | ice | poison
+ * - SPLIT("a, b;c", ",;") → a |  b | c
  */
-function RARITY_BONUS(rarity: CellValue | CellValue[]): CellValue {
-  const rarityStr = String(rarity ?? '').toLowerCase();
+function SPLIT(
+  text: CellValue | CellValue[],
+  delimiter: CellValue | CellValue[],
+  splitByEach: CellValue | CellValue[] = true,
+  removeEmpty: CellValue | CellValue[] = true
+): CellValue | CellValue[] {
+  const str = String(text ?? '');
+  const separator = String(delimiter ?? '');
+  if (separator === '') return '#VALUE!';
+
+  const parts = toBoolean(splitByEach)
+    ? str.split(new RegExp(`[${escapeRegExp(separator)}]`))
+    : str.split(separator);
+  const values = toBoolean(removeEmpty)
+    ? parts.filter((part) => part !== '')
+    : parts;
+
+  if (values.length === 0) return '#CALC!';
+  return createRangeValue(values, 1, values.length);
+}
 
-  const bonusMap: Record<string, number> = {
-    common: 1.0,
-    uncommon: 1.1,
-    rare: 1.25,
-    epic: 1.5,
-    legendary: 2.0,
-    mythic: 3.0,
-  };
+/**
+ * SUBSTITUTE(text, oldText, newText, [instance])
+ * oldText를 newText로 바꿈 (instance를 주면 그 번째 항목만)
+ */
+function SUBSTITUTE(
+  text: CellValue | CellValue[],
+  oldText: CellValue | CellValue[],
+  newText: CellValue | CellValue[],
+  instance: CellValue | CellValue[] = null
+): CellValue {
+  const str = String(text ?? '');
+  const search = String(oldText ?? '');
+  const replacement = String(newText ?? '');
+  if (search === '') return str;
 
-  return bonusMap[rarityStr] ?? 1.0;
-}
+  if (instance === null) return str.split(search).join(replacement);
 
-// ============ Helper Functions ============
+  const n = toNumber(instance);
+  if (n === null || n < 1) return '#VALUE!';
+
+  let index = -1;
+  for (let i = 0; i < Math.trunc(n); i++) {
+    index = str.indexOf(search, index + 1);
+    if (index === -1) return str;
+  }
+  return str.slice(0, index) + replacement + str.slice(index + search.length);
+}
 
 /**
- * Flatten nested arrays
+ * FIND(findText, withinText, [startNum=1])
+ * 대소문자를 구분해 텍스트의 위치(1부터)를 찾음, 없으면 #VALUE!
  */
-function flatten(arr: (CellValue | CellValue[])[]): CellValue[] {
-  const result: CellValue[] = [];
-
-  for (const item of arr) {
-    if (Array.isArray(item)) {
-      result.push(...flatten(item));
-    } else {
-      result.push(item);
-    }
+function FIND(
+  findText: CellValue | CellValue[],
+  withinText: CellValue | CellValue[],
+  startNum: CellValue | CellValue[] = 1
+): CellValue {
+  const within = String(withinText ?? '');
+  const start = toNumber(startNum);
+  if (start === null || start < 1 || start > within.length + 1) {
+    return '#VALUE!';
   }
 
-  return result;
+  const index = within.indexOf(String(findText ?? ''), Math.trunc(start) - 1);
+  return index === -1 ? '#VALUE!' : index + 1;
 }
 
 /**
- * Flatten and filter numbers
+ * SEARCH(findText, withinText, [startNum=1])
+ * 대소문자를 무시하고 와일드카드(*, ?)를 허용하는 FIND
  */
-function flattenAndFilter(arr: (CellValue | CellValue[])[]): number[] {
-  const flattened = flatten(arr);
-  const numbers: number[] = [];
-
-  for (const item of flattened) {
-    const num = toNumber(item);
-    if (num !== null) {
-      numbers.push(num);
-    }
+function SEARCH(
+  findText: CellValue | CellValue[],
+  withinText: CellValue | CellValue[],
+  startNum: CellValue | CellValue[] = 1
+): CellValue {
+  const within = String(withinText ?? '');
+  const start = toNumber(startNum);
+  if (start === null || start < 1 || start > within.length + 1) {
+    return '#VALUE!';
   }
 
-  return numbers;
+  const regex = new RegExp(wildcardToRegex(String(findText ?? '')), 'i');
+  const match = regex.exec(within.slice(Math.trunc(start) - 1));
+  return match ? match.index + Math.trunc(start) : '#VALUE!';
 }
 
 /**
- * Convert to number
+ * REGEXMATCH(text, pattern): 정규식과 일치하는지 확인
+ * 범위를 넘기면 각 값의 결과를 범위로 반환한다 (FILTER 조건 등)
+ * 패턴 앞의 (?i)는 대소문자 무시
+ *
+ * Examples:
+ * - REGEXMATCH([id], "^item_[a-z]+_\d{3}$") → ID 규칙 검사
+ * - FILTER(A2:A100, REGEXMATCH(A2:A100, "^npc_"))
  */
-function toNumber(value: CellValue | CellValue[] | undefined): number | null {
-  // Handle undefined
-  if (value === undefined) return null;
+function REGEXMATCH(
+  text: CellValue | CellValue[],
+  pattern: CellValue | CellValue[]
+): CellValue | CellValue[] {
+  const regex = toRegExp(pattern);
+  if (!regex) return '#VALUE!';
 
-  // If array is passed, reject it (ranges should only be in function contexts)
-  if (Array.isArray(value)) {
-    // For single-element arrays, take the first element
-    if (value.length === 1) return toNumber(value[0]);
-    return null;
-  }
+  const test = (value: CellValue) => regex.test(String(value ?? ''));
+  if (!Array.isArray(text)) return test(text);
 
-  if (typeof value === 'number') return value;
-  if (typeof value === 'boolean') return value ? 1 : 0;
-  if (typeof value === 'string') {
-    const num = parseFloat(value);
-    return isNaN(num) ? null : num;
-  }
-  return null;
+  const { rows, columns } = getShape(text);
+  return createRangeValue(text.map(test), rows, columns);
 }
 
 /**
- * Convert to boolean
+ * REGEXEXTRACT(text, pattern)
+ * 일치한 부분을 추출 (캡처 그룹이 있으면 그룹 값, 여러 개면 한 행으로 펼침)
+ * 일치하지 않으면 #N/A
  */
-function toBoolean(value: CellValue | CellValue[]): boolean {
-  // If array is passed, check if it's non-empty
-  if (Array.isArray(value)) {
-    // For single-element arrays, convert the first element
-    if (value.length === 1) return toBoolean(value[0]);
-    return value.length > 0;
-  }
+function REGEXEXTRACT(
+  text: CellValue | CellValue[],
+  pattern: CellValue | CellValue[]
+): CellValue | CellValue[] {
+  const regex = toRegExp(pattern);
+  if (!regex) return '#VALUE!';
+
+  const match = regex.exec(String(text ?? ''));
+  if (!match) return '#N/A';
+
+  const groups = match.slice(1).map((group) => group ?? '');
+  if (groups.length === 0) return match[0];
+  if (groups.length === 1) return groups[0];
+  return createRangeValue(groups, 1, groups.length);
+}
 
-  if (typeof value === 'boolean') return value;
-  if (typeof value === 'number') return value !== 0;
-  if (typeof value === 'string') {
-    const lower = value.toLowerCase();
-    if (lower === 'true') return true;
-    if (lower === 'false') return false;
-    return value.length > 0;
-  }
-  return value !== null && value !== undefined;
+/**
+ * REGEXREPLACE(text, pattern, replacement)
+ * 일치하는 모든 부분을 바꿈 (replacement에서 $1 등으로 그룹 참조)
+ */
+function REGEXREPLACE(
+  text: CellValue | CellValue[],
+  pattern: CellValue | CellValue[],
+  replacement: CellValue | CellValue[]
+): CellValue {
+  const regex = toRegExp(pattern, 'g');
+  if (!regex) return '#VALUE!';
+  return String(text ?? '').replace(regex, String(replacement ?? ''));
 }
 
-// ========== 추가 게임 전용 함수 ==========
+// ============ Lookup Functions ============
 
 /**
- * STAT_SCALE(level, baseValue, growthRate, formula)
- * 레벨에 따른 스탯 스케일링 계산
- *
- * @param level - 레벨
- * @param baseValue - 기본 값
- * @param growthRate - 성장률 (%, 기본값 10)
- * @param formula - 공식 타입 ('linear', 'exponential', 'logarithmic', 기본값 'linear')
+ * VLOOKUP(lookupValue, table, columnIndex, [approximate=TRUE])
+ * 표의 첫 열에서 값을 찾아 같은 행의 columnIndex번째 열 값을 반환
  *
  * Examples:
- * - STAT_SCALE(10, 100, 10) → 190 (linear: 100 + (10-1) * 10)
- * - STAT_SCALE(10, 100, 10, "exponential") → 235.79 (exponential growth)
+ * - VLOOKUP("sword", Items!A2:C10, 3, FALSE) → sword의 공격력
+ * - VLOOKUP(45, A2:B10, 2) → 45 이하 중 가장 큰 구간의 값
  */
-function STAT_SCALE(
-  level: CellValue | CellValue[],
-  baseValue: CellValue | CellValue[],
-  growthRate?: CellValue | CellValue[],
-  formula?: CellValue | CellValue[]
+function VLOOKUP(
+  lookupValue: CellValue | CellValue[],
+  table: CellValue | CellValue[],
+  columnIndex: CellValue | CellValue[],
+  approximate?: CellValue | CellValue[]
 ): CellValue {
-  const lvl = toNumber(level);
-  const base = toNumber(baseValue);
-  const growth = toNumber(growthRate) ?? 10; // Default 10%
-  const formulaType = toString(formula) ?? 'linear';
+  const { rows, columns } = getShape(table);
+  const col = toNumber(columnIndex);
 
-  if (lvl === null || base === null) return '#VALUE!';
-  if (lvl < 1) return '#VALUE!';
+  if (col === null || col < 1) return '#VALUE!';
+  if (col > columns) return '#REF!';
 
-  switch (formulaType.toLowerCase()) {
-    case 'linear':
-      // base + (level - 1) * growth
-      return base + (lvl - 1) * growth;
+  const keys = Array.from({ length: rows }, (_, r) => getAt(table, r, 0));
+  const matchType = approximate === undefined || toBoolean(approximate) ? 1 : 0;
+  const index = findMatchIndex(toScalar(lookupValue), keys, matchType);
 
-    case 'exponential':
+  return index === -1 ? '#N/A' : getAt(table, index, col - 1);
+}
+
+/**
+ * HLOOKUP(lookupValue, table, rowIndex, [approximate=TRUE])
+ * 표의 첫 행에서 값을 찾아 같은 열의 rowIndex번째 행 값을 반환
+ */
+function HLOOKUP(
+  lookupValue: CellValue | CellValue[],
+  table: CellValue | CellValue[],
+  rowIndex: CellValue | CellValue[],
+  approximate?: CellValue | CellValue[]
+): CellValue {
+  const { rows, columns } = getShape(table);
+  const row = toNumber(rowIndex);
+
+  if (row === null || row < 1) return '#VALUE!';
+  if (row > rows) return '#REF!';
+
+  const keys = Array.from({ length: columns }, (_, c) => getAt(table, 0, c));
+  const matchType = approximate === undefined || toBoolean(approximate) ? 1 : 0;
+  const index = findMatchIndex(toScalar(lookupValue), keys, matchType);
+
+  return index === -1 ? '#N/A' : getAt(table, row - 1, index);
+}
+
+/**
+ * XLOOKUP(lookupValue, lookupArray, returnArray, [ifNotFound], [matchMode=0], [searchMode=1])
+ * lookupArray에서 값을 찾아 returnArray의 같은 위치 값을 반환
+ *
+ * @param matchMode - 0: 정확히 일치, -1: 일치 또는 다음으로 작은 값, 1: 일치 또는 다음으로 큰 값, 2: 와일드카드
+ * @param searchMode - 1: 처음부터, -1: 끝에서부터
+ *
+ * Examples:
+ * - XLOOKUP(1001, Items!A:A, Items!D:D, "없음") → ID 1001의 값
+ */
+function XLOOKUP(
+  lookupValue: CellValue | CellValue[],
+  lookupArray: CellValue | CellValue[],
+  returnArray: CellValue | CellValue[],
+  ifNotFound?: CellValue | CellValue[],
+  matchMode?: CellValue | CellValue[],
+  searchMode?: CellValue | CellValue[]
+): CellValue {
+  const keys = toVector(lookupArray);
+  const values = toVector(returnArray);
+  const mode = toNumber(matchMode) ?? 0;
+  const reverse = (toNumber(searchMode) ?? 1) < 0;
+
+  if (![0, -1, 1, 2].includes(mode)) return '#VALUE!';
+  if (keys.length !== values.length) return '#VALUE!';
+
+  const target = toScalar(lookupValue);
+  const order = keys.map((_, i) => (reverse ? keys.length - 1 - i : i));
+
+  let bestIndex = -1;
+  for (const i of order) {
+    const key = keys[i];
+
+    if (mode === 2) {
+      if (wildcardMatches(target, key)) {
+        bestIndex = i;
+        break;
+      }
+      continue;
+    }
+
+    const comparison = compareLookupValues(key, target);
+    if (comparison === 0) {
+      bestIndex = i;
+      break;
+    }
+    if (comparison === null || mode === 0) continue;
+    if (typeof key !== typeof target) continue;
+
+    // Closest smaller (-1) or larger (1) value seen so far
+    const isCandidate = mode === -1 ? comparison < 0 : comparison > 0;
+    const toBest =
+      bestIndex === -1 ? null : compareLookupValues(key, keys[bestIndex]);
+    const isCloser = toBest === null || (mode === -1 ? toBest > 0 : toBest < 0);
+    if (isCandidate && isCloser) {
+      bestIndex = i;
+    }
+  }
+
+  if (bestIndex === -1) {
+    return ifNotFound === undefined ? '#N/A' : toScalar(ifNotFound);
+  }
+  return values[bestIndex];
+}
+
+/**
+ * INDEX(array, rowNumber, [columnNumber])
+ * 범위에서 행/열 위치(1부터 시작)의 값을 반환
+ * 한 행짜리 범위는 두 번째 인자를 열 번호로 취급한다
+ * 행 번호가 0이면 열 전체, 열 번호가 0이면 행 전체를 배열로 반환 (펼침)
+ */
+function INDEX(
+  array: CellValue | CellValue[],
+  rowNumber: CellValue | CellValue[],
+  columnNumber?: CellValue | CellValue[]
+): CellValue | CellValue[] {
+  const { rows, columns } = getShape(array);
+  let row = toNumber(rowNumber);
+  let col = toNumber(columnNumber) ?? 1;
+
+  if (row === null) return '#VALUE!';
+  if (rows === 1 && columnNumber === undefined) {
+    [row, col] = [1, row];
+  }
+
+  if (row < 0 || col < 0 || row > rows || col > columns) return '#REF!';
+  if (row > 0 && col > 0) return getAt(array, row - 1, col - 1);
+
+  const rowIndexes =
+    row === 0 ? Array.from({ length: rows }, (_, r) => r) : [row - 1];
+  const colIndexes =
+    col === 0 ? Array.from({ length: columns }, (_, c) => c) : [col - 1];
+  const values = rowIndexes.flatMap((r) =>
+    colIndexes.map((c) => getAt(array, r, c))
+  );
+  return createRangeValue(values, rowIndexes.length, colIndexes.length);
+}
+
+/**
+ * MATCH(lookupValue, lookupArray, [matchType=1])
+ * lookupArray에서 값의 위치(1부터 시작)를 반환
+ *
+ * @param matchType - 1: 이하 중 최댓값(오름차순), 0: 정확히 일치, -1: 이상 중 최솟값(내림차순)
+ */
+function MATCH(
+  lookupValue: CellValue | CellValue[],
+  lookupArray: CellValue | CellValue[],
+  matchType?: CellValue | CellValue[]
+): CellValue {
+  const type = toNumber(matchType) ?? 1;
+  const index = findMatchIndex(
+    toScalar(lookupValue),
+    toVector(lookupArray),
+    Math.sign(type)
+  );
+
+  return index === -1 ? '#N/A' : index + 1;
+}
+
+// ============ Dynamic Array Functions ============
+
+/**
+ * FILTER: 조건이 참인 행(또는 열)만 반환 (결과는 인접 셀로 펼쳐진다)
+ * 예: FILTER(A2:C50, (D2:D50="X") * (E2:E50=TRUE), "없음")
+ */
+function FILTER(
+  array: CellValue | CellValue[],
+  include: CellValue | CellValue[],
+  ifEmpty?: CellValue | CellValue[]
+): CellValue | CellValue[] {
+  const shape = getShape(array);
+  const includeShape = getShape(include);
+
+  let byColumn: boolean;
+  if (includeShape.columns === 1 && includeShape.rows === shape.rows) {
+    byColumn = false;
+  } else if (
+    includeShape.rows === 1 &&
+    includeShape.columns === shape.columns
+  ) {
+    byColumn = true;
+  } else {
+    return '#VALUE!';
+  }
+
+  const flags = toVector(include);
+  const error = flags.find(isFormulaError);
+  if (error !== undefined) return error;
+
+  const kept = toLines(array, byColumn).filter((_, i) => toBoolean(flags[i]));
+  if (kept.length === 0) {
+    return ifEmpty === undefined ? '#CALC!' : ifEmpty;
+  }
+  return fromLines(kept, byColumn);
+}
+
+/**
+ * SORT: 행(또는 열)을 정렬
+ * sortOrder: 1 = 오름차순, -1 = 내림차순 / 빈 값은 항상 마지막
+ */
+function SORT(
+  array: CellValue | CellValue[],
+  sortIndex: CellValue | CellValue[] = 1,
+  sortOrder: CellValue | CellValue[] = 1,
+  byCol: CellValue | CellValue[] = false
+): CellValue | CellValue[] {
+  const byColumn = toBoolean(byCol);
+  const lines = toLines(array, byColumn);
+  const index = toNumber(sortIndex);
+  const order = toNumber(sortOrder);
+
+  if (index === null || index < 1 || index > (lines[0]?.length ?? 0)) {
+    return '#VALUE!';
+  }
+  if (order !== 1 && order !== -1) return '#VALUE!';
+
+  const sorted = [...lines].sort((a, b) => {
+    const left = a[index - 1];
+    const right = b[index - 1];
+    const leftBlank = left === null || left === undefined || left === '';
+    const rightBlank = right === null || right === undefined || right === '';
+    if (leftBlank || rightBlank) return Number(leftBlank) - Number(rightBlank);
+    return (compareLookupValues(left, right) ?? 0) * order;
+  });
+  return fromLines(sorted, byColumn);
+}
+
+/**
+ * UNIQUE: 중복을 제거한 행(또는 열) 목록 (대소문자 무시)
+ * exactlyOnce가 TRUE면 한 번만 나온 항목만 반환
+ */
+function UNIQUE(
+  array: CellValue | CellValue[],
+  byCol: CellValue | CellValue[] = false,
+  exactlyOnce: CellValue | CellValue[] = false
+): CellValue | CellValue[] {
+  const byColumn = toBoolean(byCol);
+  const lines = toLines(array, byColumn);
+  const keyOf = (line: CellValue[]) =>
+    line
+      .map((v) =>
+        typeof v === 'string' ? `s:${v.toLowerCase()}` : `${typeof v}:${v}`
+      )
+      .join('\u0000');
+
+  const counts = new Map<string, { line: CellValue[]; count: number }>();
+  lines.forEach((line) => {
+    const key = keyOf(line);
+    const entry = counts.get(key);
+    if (entry) {
+      entry.count++;
+    } else {
+      counts.set(key, { line, count: 1 });
+    }
+  });
+
+  const unique = Array.from(counts.values())
+    .filter(({ count }) => !toBoolean(exactlyOnce) || count === 1)
+    .map(({ line }) => line);
+  return unique.length === 0 ? '#CALC!' : fromLines(unique, byColumn);
+}
+
+/**
+ * SEQUENCE: 연속된 숫자 배열 (행 우선)
+ * 예: SEQUENCE(10) → 1~10, SEQUENCE(2, 3, 0, 5) → 0, 5, 10 / 15, 20, 25
+ */
+function SEQUENCE(
+  rows: CellValue | CellValue[],
+  columns: CellValue | CellValue[] = 1,
+  start: CellValue | CellValue[] = 1,
+  step: CellValue | CellValue[] = 1
+): CellValue | CellValue[] {
+  const rowCount = toNumber(rows);
+  const columnCount = toNumber(columns);
+  const first = toNumber(start);
+  const increment = toNumber(step);
+
+  if (
+    rowCount === null ||
+    columnCount === null ||
+    first === null ||
+    increment === null
+  ) {
+    return '#VALUE!';
+  }
+  if (rowCount < 1 || columnCount < 1) return '#CALC!';
+
+  const r = Math.floor(rowCount);
+  const c = Math.floor(columnCount);
+  const values = Array.from({ length: r * c }, (_, i) => first + i * increment);
+  return createRangeValue(values, r, c);
+}
+
+// ============ Date Functions ============
+
+/**
+ * TODAY: 오늘 날짜 (휘발성)
+ */
+function TODAY(): CellValue {
+  return startOfDay(new Date());
+}
+
+/**
+ * NOW: 현재 날짜와 시간 (휘발성)
+ */
+function NOW(): CellValue {
+  return new Date();
+}
+
+/**
+ * DATE(year, month, day)
+ * 범위를 벗어난 월/일은 다음 달/해로 넘어간다 (DATE(2025, 13, 1) → 2026-01-01)
+ */
+function DATE(
+  year: CellValue | CellValue[],
+  month: CellValue | CellValue[],
+  day: CellValue | CellValue[]
+): CellValue {
+  const y = toNumber(year);
+  const m = toNumber(month);
+  const d = toNumber(day);
+  if (y === null || m === null || d === null) return '#VALUE!';
+
+  // Two-digit style years are relative to 1900 (DATE(25, 1, 1) → 1925)
+  const fullYear = Math.trunc(y) < 1900 ? Math.trunc(y) + 1900 : Math.trunc(y);
+  if (fullYear < 1900 || fullYear > 9999) return '#NUM!';
+
+  return new Date(fullYear, Math.trunc(m) - 1, Math.trunc(d));
+}
+
+/**
+ * DATEVALUE(text): 날짜 문자열을 날짜로 변환 ("2025-03-01")
+ */
+function DATEVALUE(text: CellValue | CellValue[]): CellValue {
+  const date = toDate(text);
+  return date ? startOfDay(date) : '#VALUE!';
+}
+
+/**
+ * YEAR / MONTH / DAY / HOUR / MINUTE / SECOND: 날짜의 각 부분
+ */
+function YEAR(date: CellValue | CellValue[]): CellValue {
+  return datePart(date, (d) => d.getFullYear());
+}
+
+function MONTH(date: CellValue | CellValue[]): CellValue {
+  return datePart(date, (d) => d.getMonth() + 1);
+}
+
+function DAY(date: CellValue | CellValue[]): CellValue {
+  return datePart(date, (d) => d.getDate());
+}
+
+function HOUR(date: CellValue | CellValue[]): CellValue {
+  return datePart(date, (d) => d.getHours());
+}
+
+function MINUTE(date: CellValue | CellValue[]): CellValue {
+  return datePart(date, (d) => d.getMinutes());
+}
+
+function SECOND(date: CellValue | CellValue[]): CellValue {
+  return datePart(date, (d) => d.getSeconds());
+}
+
+/**
+ * DAYS(endDate, startDate): 두 날짜 사이의 일 수
+ */
+function DAYS(
+  endDate: CellValue | CellValue[],
+  startDate: CellValue | CellValue[]
+): CellValue {
+  const end = toDate(endDate);
+  const start = toDate(startDate);
+  if (!end || !start) return '#VALUE!';
+  return differenceInCalendarDays(end, start);
+}
+
+/**
+ * DATEDIF(startDate, endDate, unit)
+ * 두 날짜 사이의 기간 (startDate가 endDate보다 늦으면 #NUM!)
+ *
+ * Units:
+ * - "Y": 전체 연 수, "M": 전체 월 수, "D": 일 수
+ * - "MD": 월/연을 무시한 일 수, "YM": 연을 무시한 월 수, "YD": 연을 무시한 일 수
+ *
+ * Examples:
+ * - DATEDIF("2025-01-15", "2025-03-10", "M") → 1
+ * - DATEDIF([seasonStart], [seasonEnd], "D") → 시즌 기간(일)
+ */
+function DATEDIF(
+  startDate: CellValue | CellValue[],
+  endDate: CellValue | CellValue[],
+  unit: CellValue | CellValue[]
+): CellValue {
+  const start = toDate(startDate);
+  const end = toDate(endDate);
+  if (!start || !end) return '#VALUE!';
+
+  const from = startOfDay(start);
+  const to = startOfDay(end);
+  if (from > to) return '#NUM!';
+
+  // Whole months between the dates (a month is complete once the day is reached)
+  const months =
+    (to.getFullYear() - from.getFullYear()) * 12 +
+    (to.getMonth() - from.getMonth()) -
+    (to.getDate() < from.getDate() ? 1 : 0);
+
+  switch (String(unit ?? '').toUpperCase()) {
+    case 'Y':
+      return Math.floor(months / 12);
+    case 'M':
+      return months;
+    case 'D':
+      return differenceInCalendarDays(to, from);
+    case 'MD': {
+      if (to.getDate() >= from.getDate()) return to.getDate() - from.getDate();
+      const previousMonth = new Date(to.getFullYear(), to.getMonth() - 1, 1);
+      return getDaysInMonth(previousMonth) - from.getDate() + to.getDate();
+    }
+    case 'YM':
+      return months % 12;
+    case 'YD': {
+      const sameYear = new Date(
+        to.getFullYear(),
+        from.getMonth(),
+        from.getDate()
+      );
+      const anniversary =
+        sameYear > to
+          ? new Date(to.getFullYear() - 1, from.getMonth(), from.getDate())
+          : sameYear;
+      return differenceInCalendarDays(to, anniversary);
+    }
+    default:
+      return '#NUM!';
+  }
+}
+
+/**
+ * EDATE(startDate, months): 몇 달 전/후의 같은 날 (말일은 해당 월의 말일로 맞춤)
+ * EDATE("2025-01-31", 1) → 2025-02-28
+ */
+function EDATE(
+  startDate: CellValue | CellValue[],
+  months: CellValue | CellValue[]
+): CellValue {
+  const start = toDate(startDate);
+  const offset = toNumber(months);
+  if (!start || offset === null) return '#VALUE!';
+  return startOfDay(addMonths(start, Math.trunc(offset)));
+}
+
+/**
+ * EOMONTH(startDate, months): 몇 달 전/후 월의 말일
+ */
+function EOMONTH(
+  startDate: CellValue | CellValue[],
+  months: CellValue | CellValue[]
+): CellValue {
+  const start = toDate(startDate);
+  const offset = toNumber(months);
+  if (!start || offset === null) return '#VALUE!';
+  return startOfDay(endOfMonth(addMonths(start, Math.trunc(offset))));
+}
+
+/**
+ * WEEKDAY(date, [returnType=1]): 요일 번호
+ * - 1: 일요일=1 ~ 토요일=7
+ * - 2: 월요일=1 ~ 일요일=7
+ * - 3: 월요일=0 ~ 일요일=6
+ */
+function WEEKDAY(
+  date: CellValue | CellValue[],
+  returnType: CellValue | CellValue[] = 1
+): CellValue {
+  const d = toDate(date);
+  const type = toNumber(returnType);
+  if (!d || type === null) return '#VALUE!';
+
+  const day = d.getDay(); // 0 = Sunday
+  switch (Math.trunc(type)) {
+    case 1:
+      return day + 1;
+    case 2:
+      return day === 0 ? 7 : day;
+    case 3:
+      return day === 0 ? 6 : day - 1;
+    default:
+      return '#NUM!';
+  }
+}
+
+/**
+ * NETWORKDAYS(startDate, endDate, [holidays])
+ * 두 날짜 사이(양 끝 포함)의 평일 수, 주말과 휴일은 제외
+ * startDate가 endDate보다 늦으면 음수
+ */
+function NETWORKDAYS(
+  startDate: CellValue | CellValue[],
+  endDate: CellValue | CellValue[],
+  holidays: CellValue | CellValue[] = null
+): CellValue {
+  const start = toDate(startDate);
+  const end = toDate(endDate);
+  if (!start || !end) return '#VALUE!';
+
+  const excluded = toHolidaySet(holidays);
+  if (!excluded) return '#VALUE!';
+
+  const from = startOfDay(start);
+  const total = differenceInCalendarDays(startOfDay(end), from);
+  const direction = total < 0 ? -1 : 1;
+
+  let count = 0;
+  for (let i = 0; i <= Math.abs(total); i++) {
+    const day = addDays(from, i * direction);
+    if (isWorkday(day, excluded)) count++;
+  }
+  return count * direction;
+}
+
+/**
+ * WORKDAY(startDate, days, [holidays])
+ * 주말과 휴일을 건너뛰고 평일 기준 days일 전/후의 날짜
+ */
+function WORKDAY(
+  startDate: CellValue | CellValue[],
+  days: CellValue | CellValue[],
+  holidays: CellValue | CellValue[] = null
+): CellValue {
+  const start = toDate(startDate);
+  const offset = toNumber(days);
+  if (!start || offset === null) return '#VALUE!';
+
+  const excluded = toHolidaySet(holidays);
+  if (!excluded) return '#VALUE!';
+
+  const direction = offset < 0 ? -1 : 1;
+  let remaining = Math.abs(Math.trunc(offset));
+  let day = startOfDay(start);
+  while (remaining > 0) {
+    day = addDays(day, direction);
+    if (isWorkday(day, excluded)) remaining--;
+  }
+  return day;
+}
+
+// ============ Random Functions ============
+// 워크북 시드와 셀 위치로 정해지는 난수라 재계산해도 값이 바뀌지 않는다 (다시 굴리기로 변경)
+
+/**
+ * RAND: 0 이상 1 미만의 난수
+ */
+function RAND(): CellValue {
+  return nextRandom();
+}
+
+/**
+ * RANDBETWEEN(bottom, top): bottom 이상 top 이하의 정수 난수
+ */
+function RANDBETWEEN(
+  bottom: CellValue | CellValue[],
+  top: CellValue | CellValue[]
+): CellValue {
+  const low = toNumber(bottom);
+  const high = toNumber(top);
+  if (low === null || high === null) return '#VALUE!';
+
+  const min = Math.ceil(low);
+  const max = Math.floor(high);
+  if (min > max) return '#NUM!';
+  return min + Math.floor(nextRandom() * (max - min + 1));
+}
+
+/**
+ * RAND_SEED(seed, [key1], ...): 시드(와 키)로만 정해지는 0 이상 1 미만의 난수
+ * 워크북 시드와 무관하게 항상 같은 값 (시뮬레이션 재현용)
+ *
+ * Examples:
+ * - RAND_SEED(42) → 항상 같은 값
+ * - RAND_SEED("drop", [id]) < [dropRate] / 100 → 아이템별로 고정된 드랍 판정
+ */
+function RAND_SEED(...args: (CellValue | CellValue[])[]): CellValue {
+  const parts = flatten(args);
+  if (parts.length === 0) return '#VALUE!';
+  return createSeededRandom(hashSeed(...parts.map((v) => String(v ?? ''))))();
+}
+
+/**
+ * WEIGHTED_PICK(items, weights): 가중치에 비례한 확률로 항목 하나를 뽑음
+ * 가챠 풀 템플릿의 weight 열과 함께 사용 (빈 가중치는 0)
+ *
+ * Examples:
+ * - WEIGHTED_PICK(B2:B10, G2:G10) → 가중치대로 뽑힌 아이템 ID
+ * - WEIGHTED_PICK(Rarities, RarityWeights) → 이름 정의 범위로 등급 뽑기
+ */
+function WEIGHTED_PICK(
+  items: CellValue | CellValue[],
+  weights: CellValue | CellValue[]
+): CellValue {
+  const values = flatten([items]);
+  const rawWeights = flatten([weights]);
+  if (values.length === 0 || values.length !== rawWeights.length) {
+    return '#VALUE!';
+  }
+
+  const numericWeights: number[] = [];
+  for (const weight of rawWeights) {
+    if (weight === null || weight === '') {
+      numericWeights.push(0);
+      continue;
+    }
+    const n = toNumber(weight);
+    if (n === null) return '#VALUE!';
+    if (n < 0) return '#NUM!';
+    numericWeights.push(n);
+  }
+
+  const total = numericWeights.reduce((sum, w) => sum + w, 0);
+  if (total <= 0) return '#NUM!';
+
+  let roll = nextRandom() * total;
+  for (let i = 0; i < values.length; i++) {
+    roll -= numericWeights[i];
+    if (roll < 0 && numericWeights[i] > 0) return values[i];
+  }
+
+  // Floating point leftovers fall on the last weighted item
+  const last = numericWeights.map((w) => w > 0).lastIndexOf(true);
+  return values[last];
+}
+
+// ============ Game Data Functions ============
+
+/**
+ * DAMAGE_CALC: 데미지 계산
+ * DAMAGE_CALC(attack, defense) = attack * (100 / (100 + defense))
+ */
+function DAMAGE_CALC(
+  attack: CellValue | CellValue[],
+  defense: CellValue | CellValue[]
+): CellValue {
+  const atk = toNumber(attack);
+  const def = toNumber(defense);
+
+  if (atk === null || def === null) return null;
+
+  return Math.floor(atk * (100 / (100 + def)));
+}
+
+/**
+ * STAT_TOTAL: 스탯 합계 (여러 스탯 값을 합산)
+ */
+function STAT_TOTAL(...stats: (CellValue | CellValue[])[]): CellValue {
+  return SUM(...stats);
+}
+
+/**
+ * RARITY_BONUS: 레어도에 따른 보너스 계산
+ */
+function RARITY_BONUS(rarity: CellValue | CellValue[]): CellValue {
+  const rarityStr = String(rarity ?? '').toLowerCase();
+
+  const bonusMap: Record<string, number> = {
+    common: 1.0,
+    uncommon: 1.1,
+    rare: 1.25,
+    epic: 1.5,
+    legendary: 2.0,
+    mythic: 3.0,
+  };
+
+  return bonusMap[rarityStr] ?? 1.0;
+}
+
+// ============ Helper Functions ============
+
+/**
+ * Get the 2D shape of a value (plain arrays are treated as a single column)
+ */
+function getShape(value: CellValue | CellValue[]): {
+  rows: number;
+  columns: number;
+} {
+  if (!Array.isArray(value)) return { rows: 1, columns: 1 };
+
+  const range = value as Partial<RangeValue>;
+  if (range.rows !== undefined && range.columns !== undefined) {
+    return { rows: range.rows, columns: range.columns };
+  }
+  return { rows: value.length, columns: 1 };
+}
+
+/**
+ * 2차원 값을 행 목록(또는 열 목록)으로 분리
+ */
+function toLines(
+  value: CellValue | CellValue[],
+  byColumn: boolean
+): CellValue[][] {
+  const { rows, columns } = getShape(value);
+  const outer = byColumn ? columns : rows;
+  const inner = byColumn ? rows : columns;
+
+  return Array.from({ length: outer }, (_, i) =>
+    Array.from({ length: inner }, (_, j) =>
+      byColumn ? getAt(value, j, i) : getAt(value, i, j)
+    )
+  );
+}
+
+/**
+ * 행 목록(또는 열 목록)을 범위 값으로 합치기
+ */
+function fromLines(lines: CellValue[][], byColumn: boolean): RangeValue {
+  const outer = lines.length;
+  const inner = lines[0]?.length ?? 0;
+  const rows = byColumn ? inner : outer;
+  const columns = byColumn ? outer : inner;
+
+  const values: CellValue[] = [];
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < columns; c++) {
+      values.push(byColumn ? lines[c][r] : lines[r][c]);
+    }
+  }
+  return createRangeValue(values, rows, columns);
+}
+
+/**
+ * Get the value at a 0-based row/column position
+ */
+function getAt(
+  value: CellValue | CellValue[],
+  row: number,
+  column: number
+): CellValue {
+  if (!Array.isArray(value)) return row === 0 && column === 0 ? value : null;
+  return value[row * getShape(value).columns + column] ?? null;
+}
+
+/**
+ * Get a single-row or single-column range as a flat list
+ */
+function toVector(value: CellValue | CellValue[]): CellValue[] {
+  return Array.isArray(value) ? [...value] : [value];
+}
+
+/**
+ * Use the first value of a range where a single value is expected
+ */
+function toScalar(value: CellValue | CellValue[]): CellValue {
+  return Array.isArray(value) ? (value[0] ?? null) : value;
+}
+
+/**
+ * Compare lookup values (numbers < text < booleans, text is case-insensitive)
+ * Returns null for empty values
+ */
+function compareLookupValues(a: CellValue, b: CellValue): number | null {
+  if (a === null || a === undefined || b === null || b === undefined) {
+    return null;
+  }
+
+  const rank = (v: CellValue) =>
+    typeof v === 'number' ? 0 : typeof v === 'boolean' ? 2 : 1;
+  if (rank(a) !== rank(b)) return rank(a) - rank(b);
+
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  if (typeof a === 'boolean' && typeof b === 'boolean') {
+    return Number(a) - Number(b);
+  }
+  return String(a).toLowerCase().localeCompare(String(b).toLowerCase());
+}
+
+/**
+ * Match text with Excel wildcards (* any characters, ? one character, ~ escape)
+ */
+function wildcardMatches(pattern: CellValue, value: CellValue): boolean {
+  if (typeof pattern !== 'string') {
+    return compareLookupValues(pattern, value) === 0;
+  }
+
+  return new RegExp(`^${wildcardToRegex(pattern)}$`, 'i').test(
+    String(value ?? '')
+  );
+}
+
+/**
+ * Convert an Excel wildcard pattern to a regular expression source
+ */
+function wildcardToRegex(pattern: string): string {
+  let regex = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '~' && i + 1 < pattern.length) {
+      regex += escapeRegExp(pattern[++i]);
+    } else if (char === '*') {
+      regex += '.*';
+    } else if (char === '?') {
+      regex += '.';
+    } else {
+      regex += escapeRegExp(char);
+    }
+  }
+  return regex;
+}
+
+/**
+ * Escape regular expression special characters
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\-]/g, '\\$&');
+}
+
+/**
+ * Compile a formula regex pattern (잘못된 패턴이면 null)
+ * 패턴 앞의 (?i)는 대소문자 무시 플래그로 바뀐다
+ */
+function toRegExp(pattern: CellValue | CellValue[], flags = ''): RegExp | null {
+  let source = String(pattern ?? '');
+  if (source.startsWith('(?i)')) {
+    source = source.slice(4);
+    flags += 'i';
+  }
+
+  try {
+    return new RegExp(source, flags);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Find the 0-based position of a value (MATCH semantics)
+ * matchType 1: largest value <= target (ascending), 0: exact, -1: smallest value >= target (descending)
+ */
+function findMatchIndex(
+  target: CellValue,
+  values: CellValue[],
+  matchType: number
+): number {
+  if (matchType === 0) {
+    return values.findIndex((v) => wildcardMatches(target, v));
+  }
+
+  let found = -1;
+  for (let i = 0; i < values.length; i++) {
+    const comparison = compareLookupValues(values[i], target);
+    if (comparison === null) continue;
+    if (comparison === 0) return i;
+    // Approximate matching only considers values of the same type
+    if (typeof values[i] !== typeof target) continue;
+
+    // Sorted data: stop once values pass the target
+    if (matchType > 0 ? comparison > 0 : comparison < 0) break;
+    found = i;
+  }
+  return found;
+}
+
+type CriteriaMatcher = (value: CellValue) => boolean;
+
+/**
+ * 조건 범위/조건 쌍을 모두 만족하는 위치의 값 목록
+ * 쌍이 맞지 않거나 범위 크기가 다르면 null (#VALUE!)
+ */
+function filterByCriteria(
+  range: CellValue | CellValue[],
+  criteria: (CellValue | CellValue[])[]
+): CellValue[] | null {
+  if (criteria.length === 0 || criteria.length % 2 !== 0) return null;
+
+  const values = toVector(range);
+  const conditions: { range: CellValue[]; matches: CriteriaMatcher }[] = [];
+  for (let i = 0; i < criteria.length; i += 2) {
+    const criteriaRange = toVector(criteria[i]);
+    if (criteriaRange.length !== values.length) return null;
+    conditions.push({
+      range: criteriaRange,
+      matches: createCriteriaMatcher(criteria[i + 1]),
+    });
+  }
+
+  return values.filter((_, index) =>
+    conditions.every(({ range, matches }) => matches(range[index]))
+  );
+}
+
+/**
+ * 조건 해석: 10, TRUE, "Goblin", "Gob*", ">=10", "<>common", "" (빈 셀)
+ * 비교 연산자 뒤가 숫자이면 숫자 셀만, 텍스트이면 와일드카드(*, ?)로 비교
+ */
+function createCriteriaMatcher(
+  criteria: CellValue | CellValue[]
+): CriteriaMatcher {
+  const criterion = toScalar(criteria);
+  const isBlank = (value: CellValue) =>
+    value === null || value === undefined || value === '';
+
+  if (typeof criterion === 'number') {
+    return (value) => toCriteriaNumber(value) === criterion;
+  }
+  if (typeof criterion === 'boolean') {
+    return (value) => value === criterion;
+  }
+
+  const [, operator = '=', operand] = String(criterion ?? '').match(
+    /^(<=|>=|<>|<|>|=)?([\s\S]*)$/
+  ) as RegExpMatchArray;
+
+  // "" / "=" → blank cells, "<>" → non-blank cells
+  if (operand === '') {
+    if (operator === '=') return isBlank;
+    if (operator === '<>') return (value) => !isBlank(value);
+    return () => false;
+  }
+
+  const number = toCriteriaNumber(operand);
+  if (number !== null) {
+    return (value) => {
+      const n = toCriteriaNumber(value);
+      if (n === null) return operator === '<>';
+      return compareWithOperator(operator, n - number);
+    };
+  }
+
+  if (operator === '=') return (value) => wildcardMatches(operand, value);
+  if (operator === '<>') return (value) => !wildcardMatches(operand, value);
+
+  return (value) =>
+    typeof value === 'string' &&
+    compareWithOperator(
+      operator,
+      value.toLowerCase().localeCompare(operand.toLowerCase())
+    );
+}
+
+/**
+ * 비교 결과(음수/0/양수)가 연산자를 만족하는지 확인
+ */
+function compareWithOperator(operator: string, comparison: number): boolean {
+  switch (operator) {
+    case '<>':
+      return comparison !== 0;
+    case '<':
+      return comparison < 0;
+    case '<=':
+      return comparison <= 0;
+    case '>':
+      return comparison > 0;
+    case '>=':
+      return comparison >= 0;
+    default:
+      return comparison === 0;
+  }
+}
+
+/**
+ * 조건 비교용 숫자 변환 (숫자와 숫자 형태의 텍스트만, 불리언/빈 값은 null)
+ */
+function toCriteriaNumber(value: CellValue): number | null {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const num = Number(value);
+    return isNaN(num) ? null : num;
+  }
+  return null;
+}
+
+/**
+ * Flatten nested arrays
+ */
+function flatten(arr: (CellValue | CellValue[])[]): CellValue[] {
+  const result: CellValue[] = [];
+
+  for (const item of arr) {
+    if (Array.isArray(item)) {
+      result.push(...flatten(item));
+    } else {
+      result.push(item);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Flatten and filter numbers
+ */
+function flattenAndFilter(arr: (CellValue | CellValue[])[]): number[] {
+  const flattened = flatten(arr);
+  const numbers: number[] = [];
+
+  for (const item of flattened) {
+    const num = toNumber(item);
+    if (num !== null) {
+      numbers.push(num);
+    }
+  }
+
+  return numbers;
+}
+
+/**
+ * Convert to date (날짜, 일련번호, 날짜 문자열)
+ */
+function toDate(value: CellValue | CellValue[] | undefined): Date | null {
+  if (Array.isArray(value)) {
+    return value.length === 1 ? toDate(value[0]) : null;
+  }
+
+  if (value instanceof Date) return isValid(value) ? value : null;
+  if (typeof value === 'number') return fromDateSerial(value);
+  if (typeof value === 'string' && value.trim() !== '') {
+    const text = value.trim();
+    if (!isNaN(Number(text))) return fromDateSerial(Number(text));
+
+    const iso = parseISO(text);
+    if (isValid(iso)) return iso;
+    const parsed = new Date(text);
+    return isValid(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+/**
+ * Apply a getter to a date argument (잘못된 날짜는 #VALUE!)
+ */
+function datePart(
+  value: CellValue | CellValue[],
+  getter: (date: Date) => number
+): CellValue {
+  const date = toDate(value);
+  return date ? getter(date) : '#VALUE!';
+}
+
+/**
+ * Convert holiday arguments to a set of day keys (빈 값은 무시, 잘못된 날짜면 null)
+ */
+function toHolidaySet(holidays: CellValue | CellValue[]): Set<number> | null {
+  const keys = new Set<number>();
+  for (const value of flatten([holidays])) {
+    if (value === null || value === '') continue;
+    const date = toDate(value);
+    if (!date) return null;
+    keys.add(startOfDay(date).getTime());
+  }
+  return keys;
+}
+
+/**
+ * Check whether a day is a weekday that is not a holiday
+ */
+function isWorkday(day: Date, holidays: Set<number>): boolean {
+  return !isWeekend(day) && !holidays.has(day.getTime());
+}
+
+/**
+ * Binomial probability mass (로그 공간에서 계산해 큰 n에서도 안전)
+ */
+function binomialProbability(k: number, n: number, p: number): number {
+  if (p === 0) return k === 0 ? 1 : 0;
+  if (p === 1) return k === n ? 1 : 0;
+
+  let logChoose = 0;
+  const smaller = Math.min(k, n - k);
+  for (let i = 1; i <= smaller; i++) {
+    logChoose += Math.log((n - smaller + i) / i);
+  }
+  return Math.exp(logChoose + k * Math.log(p) + (n - k) * Math.log(1 - p));
+}
+
+/**
+ * 천장이 없을 때 뽑기 횟수 상한 (계산량 제한)
+ */
+const MAX_GACHA_PULLS = 100000;
+
+/**
+ * Pity model (확률은 0-1 비율, hardPity/softPityStart가 0이면 없음)
+ */
+interface PityModel {
+  rate: number;
+  hardPity: number;
+  softPityStart: number;
+  softPityStep: number;
+}
+
+/**
+ * Check whether an optional argument was left empty
+ */
+function isOmitted(value: CellValue | CellValue[] | undefined): boolean {
+  return value === null || value === undefined || value === '';
+}
+
+/**
+ * Build a pity model from % arguments
+ * softPityStep을 생략하면 hardPity에서 100%가 되도록 증가량을 정한다
+ */
+function toPityModel(
+  rate: CellValue | CellValue[],
+  hardPity: CellValue | CellValue[],
+  softPityStart: CellValue | CellValue[],
+  softPityStep: CellValue | CellValue[]
+): PityModel | '#VALUE!' | '#NUM!' {
+  const base = toNumber(rate);
+  const hard = isOmitted(hardPity) ? 0 : toNumber(hardPity);
+  const soft = isOmitted(softPityStart) ? 0 : toNumber(softPityStart);
+  const step = isOmitted(softPityStep) ? null : toNumber(softPityStep);
+  if (base === null || hard === null || soft === null) return '#VALUE!';
+  if (step === null && !isOmitted(softPityStep)) return '#VALUE!';
+  if (base < 0 || base > 100 || hard < 0 || soft < 0) return '#NUM!';
+  if (step !== null && step < 0) return '#NUM!';
+
+  const hardPull = Math.trunc(hard);
+  const softPull = Math.trunc(soft);
+  if (hardPull > 0 && softPull > hardPull) return '#NUM!';
+
+  let stepRate = 0;
+  if (softPull > 0) {
+    if (step !== null) {
+      stepRate = step / 100;
+    } else if (hardPull > 0) {
+      stepRate = (100 - base) / 100 / (hardPull - softPull + 1);
+    } else {
+      return '#VALUE!';
+    }
+  }
+
+  return {
+    rate: base / 100,
+    hardPity: hardPull,
+    softPityStart: softPull,
+    softPityStep: stepRate,
+  };
+}
+
+/**
+ * Rate of the nth pull since the last hit (0-1)
+ */
+function pityRateAt(model: PityModel, pull: number): number {
+  if (model.hardPity > 0 && pull >= model.hardPity) return 1;
+  if (model.softPityStart === 0 || pull < model.softPityStart) {
+    return model.rate;
+  }
+  const boosted =
+    model.rate + (pull - model.softPityStart + 1) * model.softPityStep;
+  return Math.min(boosted, 1);
+}
+
+/**
+ * Probability that the first hit happens on each pull (index 0 = 1번째 뽑기)
+ * 당첨이 확정된 뒤에는 배열이 끝난다
+ */
+function firstHitDistribution(
+  model: PityModel,
+  pulls: number
+): number[] | '#NUM!' {
+  if (model.hardPity === 0 && pulls > MAX_GACHA_PULLS) return '#NUM!';
+
+  const distribution: number[] = [];
+  let survival = 1;
+  for (let pull = 1; pull <= pulls && survival > 0; pull++) {
+    const p = pityRateAt(model, pull);
+    distribution.push(survival * p);
+    survival *= 1 - p;
+  }
+  return distribution;
+}
+
+/**
+ * Expected number of pulls until the first hit
+ * 천장도 확률 증가도 없으면 기하분포 평균(1 / rate)
+ */
+function expectedPulls(model: PityModel): number | '#NUM!' {
+  const flat =
+    model.hardPity === 0 &&
+    (model.softPityStart === 0 || model.softPityStep === 0);
+  if (flat) return model.rate > 0 ? 1 / model.rate : '#NUM!';
+
+  const distribution = firstHitDistribution(model, MAX_GACHA_PULLS);
+  if (typeof distribution === 'string') return distribution;
+  const total = distribution.reduce((sum, p) => sum + p, 0);
+  if (total < 1 - 1e-9) return '#NUM!';
+  return distribution.reduce((sum, p, i) => sum + p * (i + 1), 0);
+}
+
+/**
+ * Convert a rate-up chance in % to 0-1 (빈 값은 50%)
+ */
+function toRateUpChance(
+  value: CellValue | CellValue[]
+): number | '#VALUE!' | '#NUM!' {
+  if (isOmitted(value)) return 0.5;
+  const chance = toNumber(value);
+  if (chance === null) return '#VALUE!';
+  if (chance < 0 || chance > 100) return '#NUM!';
+  return chance / 100;
+}
+
+/**
+ * Convert a 0-1 probability to %
+ * 누적 합의 부동소수점 오차로 0-1을 벗어난 확률은 범위 안으로 자른다
+ */
+function toPercent(probability: number): number {
+  return Math.min(Math.max(probability, 0), 1) * 100;
+}
+
+/**
+ * Read DPS arguments (치명타 확률은 %, 생략한 인수는 기본값)
+ */
+function toAttackModel(
+  attack: CellValue | CellValue[],
+  defense: CellValue | CellValue[],
+  attackSpeed: CellValue | CellValue[],
+  critChance: CellValue | CellValue[],
+  critMultiplier: CellValue | CellValue[]
+):
+  | {
+      attack: number;
+      defense: number;
+      attackSpeed: number;
+      critChance: number;
+      critMultiplier: number;
+    }
+  | '#VALUE!'
+  | '#NUM!' {
+  const optional = (value: CellValue | CellValue[], fallback: number) =>
+    isOmitted(value) ? fallback : toNumber(value);
+
+  const model = {
+    attack: toNumber(attack),
+    defense: optional(defense, 0),
+    attackSpeed: optional(attackSpeed, 1),
+    critChance: optional(critChance, 0),
+    critMultiplier: optional(critMultiplier, 1.5),
+  };
+  if (Object.values(model).some((v) => v === null)) return '#VALUE!';
+
+  const values = model as Record<keyof typeof model, number>;
+  if (
+    values.attack < 0 ||
+    values.defense <= -100 ||
+    values.attackSpeed < 0 ||
+    values.critChance < 0 ||
+    values.critChance > 100 ||
+    values.critMultiplier < 0
+  ) {
+    return '#NUM!';
+  }
+  return { ...values, critChance: values.critChance / 100 };
+}
+
+/**
+ * Remove quoted literals and escaped characters from a format string
+ */
+function stripFormatLiterals(pattern: string): string {
+  return pattern.replace(/"[^"]*"|\\./g, '');
+}
+
+/**
+ * Check whether a TEXT format is a date/time format (yyyy-mm-dd, hh:mm 등)
+ */
+function isDateFormat(pattern: string): boolean {
+  const codes = stripFormatLiterals(pattern);
+  if (/^general$/i.test(codes.trim())) return false;
+  return /[ydhs]/i.test(codes) || (/m/i.test(codes) && !/[0#?]/.test(codes));
+}
+
+/**
+ * Format a date with Excel date codes (yyyy, mm, dd, hh, mm, ss, AM/PM)
+ * m/mm은 시(h) 뒤나 초(s) 앞에 있으면 분으로 해석된다
+ */
+function formatDatePattern(date: Date, pattern: string): string {
+  const tokens =
+    pattern.match(
+      /"[^"]*"|\\.|AM\/PM|A\/P|y{3,4}|y{1,2}|m{1,5}|d{1,4}|h{1,2}|s{1,2}|[\s\S]/gi
+    ) ?? [];
+  const isCode = (token: string) => /^[ymdhs]/i.test(token);
+  const twelveHour = tokens.some((t) => /^(AM\/PM|A\/P)$/i.test(t));
+  const pad = (n: number, length = 2) => String(n).padStart(length, '0');
+
+  return tokens
+    .map((token, i) => {
+      const lower = token.toLowerCase();
+      if (token.startsWith('"')) return token.slice(1, -1);
+      if (token.startsWith('\\')) return token.slice(1);
+      if (lower === 'am/pm') return date.getHours() < 12 ? 'AM' : 'PM';
+      if (lower === 'a/p') return date.getHours() < 12 ? 'A' : 'P';
+
+      switch (lower[0]) {
+        case 'y':
+          return lower.length <= 2
+            ? pad(date.getFullYear() % 100)
+            : pad(date.getFullYear(), 4);
+        case 'd':
+          if (lower.length === 4) return formatDate(date, 'EEEE');
+          if (lower.length === 3) return formatDate(date, 'EEE');
+          return lower.length === 2
+            ? pad(date.getDate())
+            : String(date.getDate());
+        case 'h': {
+          const hours = twelveHour
+            ? date.getHours() % 12 || 12
+            : date.getHours();
+          return lower.length === 2 ? pad(hours) : String(hours);
+        }
+        case 's':
+          return lower.length === 2
+            ? pad(date.getSeconds())
+            : String(date.getSeconds());
+        case 'm': {
+          const previous = tokens.slice(0, i).reverse().find(isCode);
+          const next = tokens.slice(i + 1).find(isCode);
+          const minutes =
+            lower.length <= 2 &&
+            (/^h/i.test(previous ?? '') || /^s/i.test(next ?? ''));
+          if (minutes) {
+            return lower.length === 2
+              ? pad(date.getMinutes())
+              : String(date.getMinutes());
+          }
+          if (lower.length >= 4) return formatDate(date, 'MMMM');
+          if (lower.length === 3) return formatDate(date, 'MMM');
+          return lower.length === 2
+            ? pad(date.getMonth() + 1)
+            : String(date.getMonth() + 1);
+        }
+        default:
+          return token;
+      }
+    })
+    .join('');
+}
+
+/**
+ * Format a number with Excel number codes (0, #, ",", ".", %, 양수;음수;0 구역)
+ */
+function formatNumberPattern(value: number, pattern: string): string {
+  const sections = pattern.match(/("[^"]*"|\\.|[^;])+/g) ?? [''];
+  let section = sections[0];
+  let num = value;
+  let sign = '';
+  if (value < 0 && sections.length > 1) {
+    section = sections[1];
+    num = -value;
+  } else if (value === 0 && sections.length > 2) {
+    section = sections[2];
+  } else if (value < 0) {
+    sign = '-';
+    num = -value;
+  }
+
+  if (/^\s*general\s*$/i.test(section) || section === '') {
+    return sign + String(num);
+  }
+
+  const parts =
+    section.match(/"[^"]*"|\\.|[0#?][0#?,.]*|\.[0#?][0#?,.]*|[\s\S]/g) ?? [];
+  const numberIndex = parts.findIndex(
+    (part) => /^[0#?.]/.test(part) && /[0#?]/.test(part)
+  );
+  const literal = (items: string[]) =>
+    items
+      .map((part) =>
+        part.startsWith('"')
+          ? part.slice(1, -1)
+          : part.startsWith('\\')
+            ? part.slice(1)
+            : part
+      )
+      .join('');
+
+  const percents = stripFormatLiterals(section).split('%').length - 1;
+  num *= Math.pow(100, percents);
+
+  if (numberIndex === -1) return sign + literal(parts);
+
+  const numberCode = parts[numberIndex];
+  const [integerCode, decimalCode = ''] = numberCode.split('.');
+  const minDecimals = (decimalCode.match(/0/g) ?? []).length;
+  const maxDecimals = (decimalCode.match(/[0#?]/g) ?? []).length;
+  const minIntegers = (integerCode.match(/0/g) ?? []).length;
+
+  const fixed = num.toFixed(maxDecimals);
+  if (Number(fixed) === 0) sign = '';
+
+  let [integer, decimals = ''] = fixed.split('.');
+  while (decimals.length > minDecimals && decimals.endsWith('0')) {
+    decimals = decimals.slice(0, -1);
+  }
+  if (integer === '0' && minIntegers === 0) integer = '';
+  integer = integer.padStart(minIntegers, '0');
+  if (integerCode.includes(',')) {
+    integer = integer.replace(/\B(?=(\d{3})+(?!\d))/g, ',');
+  }
+
+  const body = numberCode.includes('.') ? `${integer}.${decimals}` : integer;
+  return (
+    sign +
+    literal(parts.slice(0, numberIndex)) +
+    body +
+    literal(parts.slice(numberIndex + 1))
+  );
+}
+
+/**
+ * Convert to number
+ */
+function toNumber(value: CellValue | CellValue[] | undefined): number | null {
+  // Handle undefined
+  if (value === undefined) return null;
+
+  // If array is passed, reject it (ranges should only be in function contexts)
+  if (Array.isArray(value)) {
+    // For single-element arrays, take the first element
+    if (value.length === 1) return toNumber(value[0]);
+    return null;
+  }
+
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (value instanceof Date) return toDateSerial(value);
+  if (typeof value === 'string') {
+    const num = parseFloat(value);
+    return isNaN(num) ? null : num;
+  }
+  return null;
+}
+
+/**
+ * Convert to boolean
+ */
+function toBoolean(value: CellValue | CellValue[]): boolean {
+  // If array is passed, check if it's non-empty
+  if (Array.isArray(value)) {
+    // For single-element arrays, convert the first element
+    if (value.length === 1) return toBoolean(value[0]);
+    return value.length > 0;
+  }
+
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'number') return value !== 0;
+  if (typeof value === 'string') {
+    const lower = value.toLowerCase();
+    if (lower === 'true') return true;
+    if (lower === 'false') return false;
+    return value.length > 0;
+  }
+  return value !== null && value !== undefined;
+}
+
+// ========== 추가 게임 전용 함수 ==========
+
+/**
+ * STAT_SCALE(level, baseValue, growthRate, formula)
+ * 레벨에 따른 스탯 스케일링 계산
+ *
+ * @param level - 레벨
+ * @param baseValue - 기본 값
+ * @param growthRate - 성장률 (%, 기본값 10)
+ * @param formula - 공식 타입 ('linear', 'exponential', 'logarithmic', 기본값 'linear')
+ *
+ * Examples:
+ * - STAT_SCALE(10, 100, 10) → 190 (linear: 100 + (10-1) * 10)
+ * - STAT_SCALE(10, 100, 10, "exponential") → 235.79 (exponential growth)
+ */
+function STAT_SCALE(
+  level: CellValue | CellValue[],
+  baseValue: CellValue | CellValue[],
+  growthRate?: CellValue | CellValue[],
+  formula?: CellValue | CellValue[]
+): CellValue {
+  const lvl = toNumber(level);
+  const base = toNumber(baseValue);
+  const growth = toNumber(growthRate) ?? 10; // Default 10%
+  const formulaType = toString(formula) ?? 'linear';
+
+  if (lvl === null || base === null) return '#VALUE!';
+  if (lvl < 1) return '#VALUE!';
+
+  switch (formulaType.toLowerCase()) {
+    case 'linear':
+      // base + (level - 1) * growth
+      return base + (lvl - 1) * growth;
+
+    case 'exponential':
       // base * (1 + growth/100) ^ (level - 1)
       return base * Math.pow(1 + growth / 100, lvl - 1);
 
@@ -697,6 +2628,302 @@ function GACHA_RATE(
   return base;
 }
 
+// ============ Gacha Probability Functions ============
+// 확률은 GACHA_RATE와 같이 % 단위 (rate 0.6 = 0.6%)
+// 천장 모델: hardPity번째 뽑기는 확정, softPityStart번째 뽑기부터 매 뽑기 softPityStep%씩 확률 증가
+// softPityStep을 생략하면 hardPity에서 100%가 되도록 일정하게 증가한다
+
+/**
+ * GACHA_PITY_RATE(rate, pull, [hardPity], [softPityStart], [softPityStep])
+ * 마지막 당첨 이후 pull번째 뽑기의 당첨 확률 (%)
+ *
+ * Examples:
+ * - GACHA_PITY_RATE(0.6, 10, 90, 74) → 0.6
+ * - GACHA_PITY_RATE(0.6, 80, 90, 74, 6) → 42.6
+ * - GACHA_PITY_RATE(0.6, 90, 90) → 100
+ */
+function GACHA_PITY_RATE(
+  rate: CellValue | CellValue[],
+  pull: CellValue | CellValue[],
+  hardPity: CellValue | CellValue[] = null,
+  softPityStart: CellValue | CellValue[] = null,
+  softPityStep: CellValue | CellValue[] = null
+): CellValue {
+  const model = toPityModel(rate, hardPity, softPityStart, softPityStep);
+  const n = toNumber(pull);
+  if (typeof model === 'string') return model;
+  if (n === null) return '#VALUE!';
+  if (n < 1) return '#NUM!';
+  return toPercent(pityRateAt(model, Math.trunc(n)));
+}
+
+/**
+ * GACHA_PITY_CURVE(rate, hardPity, [softPityStart], [softPityStep])
+ * 1번째부터 hardPity번째 뽑기까지의 당첨 확률(%)을 한 열로 펼침 (확률 공시표, 차트용)
+ */
+function GACHA_PITY_CURVE(
+  rate: CellValue | CellValue[],
+  hardPity: CellValue | CellValue[],
+  softPityStart: CellValue | CellValue[] = null,
+  softPityStep: CellValue | CellValue[] = null
+): CellValue | CellValue[] {
+  const model = toPityModel(rate, hardPity, softPityStart, softPityStep);
+  if (typeof model === 'string') return model;
+  if (model.hardPity === 0) return '#VALUE!';
+
+  const values = Array.from({ length: model.hardPity }, (_, i) =>
+    toPercent(pityRateAt(model, i + 1))
+  );
+  return createRangeValue(values, values.length, 1);
+}
+
+/**
+ * GACHA_PROB(rate, pulls, [hardPity], [softPityStart], [softPityStep])
+ * 천장이 초기화된 상태에서 pulls번 안에 한 번 이상 당첨될 누적 확률 (%)
+ *
+ * Examples:
+ * - GACHA_PROB(0.6, 90, 90) → 100
+ * - GACHA_PROB(1, 100) → 63.4 (천장 없음)
+ */
+function GACHA_PROB(
+  rate: CellValue | CellValue[],
+  pulls: CellValue | CellValue[],
+  hardPity: CellValue | CellValue[] = null,
+  softPityStart: CellValue | CellValue[] = null,
+  softPityStep: CellValue | CellValue[] = null
+): CellValue {
+  const model = toPityModel(rate, hardPity, softPityStart, softPityStep);
+  const n = toNumber(pulls);
+  if (typeof model === 'string') return model;
+  if (n === null) return '#VALUE!';
+  if (n < 0) return '#NUM!';
+
+  const distribution = firstHitDistribution(model, Math.trunc(n));
+  if (typeof distribution === 'string') return distribution;
+  return toPercent(distribution.reduce((sum, p) => sum + p, 0));
+}
+
+/**
+ * GACHA_EXPECTED_PULLS(rate, [hardPity], [softPityStart], [softPityStep])
+ * 천장이 초기화된 상태에서 첫 당첨까지 필요한 평균 뽑기 횟수
+ *
+ * Examples:
+ * - GACHA_EXPECTED_PULLS(1) → 100
+ * - GACHA_EXPECTED_PULLS(0.6, 90, 74) → 천장/소프트 천장을 반영한 기대 횟수
+ */
+function GACHA_EXPECTED_PULLS(
+  rate: CellValue | CellValue[],
+  hardPity: CellValue | CellValue[] = null,
+  softPityStart: CellValue | CellValue[] = null,
+  softPityStep: CellValue | CellValue[] = null
+): CellValue {
+  const model = toPityModel(rate, hardPity, softPityStart, softPityStep);
+  if (typeof model === 'string') return model;
+  return expectedPulls(model);
+}
+
+/**
+ * GACHA_FEATURED_PROB(rate, pulls, [rateUpChance=50], [hardPity], [softPityStart], [softPityStep], [guaranteed=FALSE])
+ * pulls번 안에 픽업(rate-up) 아이템을 얻을 누적 확률 (%)
+ * 당첨 시 rateUpChance% 확률로 픽업, 실패하면 다음 당첨은 픽업 확정 (50/50 확정권)
+ * guaranteed가 TRUE면 이미 확정권을 가진 상태에서 시작
+ */
+function GACHA_FEATURED_PROB(
+  rate: CellValue | CellValue[],
+  pulls: CellValue | CellValue[],
+  rateUpChance: CellValue | CellValue[] = 50,
+  hardPity: CellValue | CellValue[] = null,
+  softPityStart: CellValue | CellValue[] = null,
+  softPityStep: CellValue | CellValue[] = null,
+  guaranteed: CellValue | CellValue[] = false
+): CellValue {
+  const model = toPityModel(rate, hardPity, softPityStart, softPityStep);
+  const n = toNumber(pulls);
+  const chance = toRateUpChance(rateUpChance);
+  if (typeof model === 'string') return model;
+  if (typeof chance === 'string') return chance;
+  if (n === null) return '#VALUE!';
+  if (n < 0) return '#NUM!';
+
+  const total = Math.trunc(n);
+  const distribution = firstHitDistribution(model, total);
+  if (typeof distribution === 'string') return distribution;
+
+  // cdf[k]: k번 안에 당첨될 확률 (분포가 끝난 뒤로는 마지막 값 유지)
+  const cdf: number[] = [0];
+  distribution.forEach((p, i) => cdf.push(cdf[i] + p));
+  const hitWithin = (pulls: number) => cdf[Math.min(pulls, cdf.length - 1)];
+
+  const winFirst = hitWithin(total);
+  if (toBoolean(guaranteed)) return toPercent(winFirst);
+
+  // Lost 50/50: the next hit (pity reset) is the featured item
+  let winSecond = 0;
+  distribution.forEach((p, i) => {
+    winSecond += p * hitWithin(total - (i + 1));
+  });
+  return toPercent(chance * winFirst + (1 - chance) * winSecond);
+}
+
+/**
+ * GACHA_FEATURED_EXPECTED(rate, [rateUpChance=50], [hardPity], [softPityStart], [softPityStep], [guaranteed=FALSE])
+ * 픽업 아이템을 얻을 때까지 필요한 평균 뽑기 횟수 (50/50 확정권 반영)
+ */
+function GACHA_FEATURED_EXPECTED(
+  rate: CellValue | CellValue[],
+  rateUpChance: CellValue | CellValue[] = 50,
+  hardPity: CellValue | CellValue[] = null,
+  softPityStart: CellValue | CellValue[] = null,
+  softPityStep: CellValue | CellValue[] = null,
+  guaranteed: CellValue | CellValue[] = false
+): CellValue {
+  const model = toPityModel(rate, hardPity, softPityStart, softPityStep);
+  const chance = toRateUpChance(rateUpChance);
+  if (typeof model === 'string') return model;
+  if (typeof chance === 'string') return chance;
+
+  const expected = expectedPulls(model);
+  if (typeof expected === 'string') return expected;
+  return toBoolean(guaranteed) ? expected : expected * (2 - chance);
+}
+
+/**
+ * GACHA_ITEM_RATE(rate, weight, weights, [isRateUp], [rateUpFlags], [rateUpChance=50])
+ * 등급 확률(rate %)을 같은 등급 아이템의 weight 비율로 나눈 아이템별 확률 (%)
+ * rateUpFlags(isRateUp 열)를 주면 픽업 아이템이 rateUpChance%를 나눠 갖고
+ * 나머지 아이템이 남은 확률을 weight 비율로 나눠 갖는다
+ *
+ * Examples:
+ * - GACHA_ITEM_RATE(0.6, [weight], FILTER(G2:G20, E2:E20=[rarity])) → 공시용 아이템 확률
+ * - GACHA_ITEM_RATE(0.6, G2, G2:G4, H2, H2:H4) → 픽업 50/50 반영
+ */
+function GACHA_ITEM_RATE(
+  rate: CellValue | CellValue[],
+  weight: CellValue | CellValue[],
+  weights: CellValue | CellValue[],
+  isRateUp: CellValue | CellValue[] = null,
+  rateUpFlags: CellValue | CellValue[] = null,
+  rateUpChance: CellValue | CellValue[] = 50
+): CellValue {
+  const r = toNumber(rate);
+  const w = toNumber(weight) ?? 0;
+  const chance = toRateUpChance(rateUpChance);
+  if (r === null) return '#VALUE!';
+  if (typeof chance === 'string') return chance;
+  if (r < 0 || w < 0) return '#NUM!';
+
+  const allWeights = flatten([weights]).map((v) => toNumber(v) ?? 0);
+  if (allWeights.some((v) => v < 0)) return '#NUM!';
+
+  const flags =
+    rateUpFlags === null ? [] : flatten([rateUpFlags]).map(toBoolean);
+  if (flags.length > 0 && flags.length !== allWeights.length) {
+    return '#VALUE!';
+  }
+
+  const sumWhere = (featured: boolean) =>
+    allWeights.reduce(
+      (sum, v, i) =>
+        flags.length === 0 || flags[i] === featured ? sum + v : sum,
+      0
+    );
+
+  // Without featured items the whole rate is shared by weight
+  const featuredTotal = flags.length > 0 ? sumWhere(true) : 0;
+  if (featuredTotal === 0) {
+    const total = sumWhere(false);
+    return total > 0 ? (r * w) / total : '#DIV/0!';
+  }
+
+  const featured = toBoolean(isRateUp);
+  const poolShare = featured ? chance : 1 - chance;
+  const poolTotal = featured ? featuredTotal : sumWhere(false);
+  return poolTotal > 0 ? (r * poolShare * w) / poolTotal : 0;
+}
+
+// ============ Combat Simulation Functions ============
+// 방어력 감소는 DAMAGE_CALC와 같은 식 (100 / (100 + defense)), 치명타 확률은 %
+// 결과는 기대값이므로 DAMAGE_CALC와 달리 내림하지 않는다
+
+/**
+ * DPS(attack, [defense], [attackSpeed], [critChance], [critMultiplier])
+ * 초당 기대 데미지 = 방어력 반영 데미지 × 초당 공격 횟수 × 치명타 기대 배율
+ *
+ * Examples:
+ * - DPS(100) → 100
+ * - DPS(100, 100, 2) → 100
+ * - DPS(100, 0, 1, 50, 2) → 150
+ */
+function DPS(
+  attack: CellValue | CellValue[],
+  defense: CellValue | CellValue[] = null,
+  attackSpeed: CellValue | CellValue[] = null,
+  critChance: CellValue | CellValue[] = null,
+  critMultiplier: CellValue | CellValue[] = null
+): CellValue {
+  const model = toAttackModel(
+    attack,
+    defense,
+    attackSpeed,
+    critChance,
+    critMultiplier
+  );
+  if (typeof model === 'string') return model;
+
+  const hit = model.attack * (100 / (100 + model.defense));
+  const critFactor = 1 + model.critChance * (model.critMultiplier - 1);
+  return hit * model.attackSpeed * critFactor;
+}
+
+/**
+ * TTK(hp, attack, [defense], [attackSpeed], [critChance], [critMultiplier])
+ * 대상을 처치하는 데 걸리는 기대 시간 (초) = hp / DPS
+ *
+ * Examples:
+ * - TTK(1200, 100) → 12
+ * - TTK([Enemy HP], [Attack], [Enemy Defense], 1.2, 25, 2) → 캐릭터 vs 적
+ */
+function TTK(
+  hp: CellValue | CellValue[],
+  attack: CellValue | CellValue[],
+  defense: CellValue | CellValue[] = null,
+  attackSpeed: CellValue | CellValue[] = null,
+  critChance: CellValue | CellValue[] = null,
+  critMultiplier: CellValue | CellValue[] = null
+): CellValue {
+  const health = toNumber(hp);
+  if (health === null) return '#VALUE!';
+  if (health < 0) return '#NUM!';
+
+  const dps = DPS(attack, defense, attackSpeed, critChance, critMultiplier);
+  if (typeof dps !== 'number') return dps;
+  return dps > 0 ? health / dps : '#DIV/0!';
+}
+
+/**
+ * EHP(hp, [defense], [damageReduction])
+ * 방어력과 피해 감소(%)를 반영해 실제로 버틸 수 있는 공격력 기준 체력
+ *
+ * Examples:
+ * - EHP(1000, 100) → 2000
+ * - EHP(1000, 0, 20) → 1250
+ */
+function EHP(
+  hp: CellValue | CellValue[],
+  defense: CellValue | CellValue[] = null,
+  damageReduction: CellValue | CellValue[] = null
+): CellValue {
+  const health = toNumber(hp);
+  const def = isOmitted(defense) ? 0 : toNumber(defense);
+  const reduction = isOmitted(damageReduction) ? 0 : toNumber(damageReduction);
+  if (health === null || def === null || reduction === null) return '#VALUE!';
+  if (health < 0 || def <= -100 || reduction < 0 || reduction >= 100) {
+    return '#NUM!';
+  }
+
+  return (health * ((100 + def) / 100)) / (1 - reduction / 100);
+}
+
 /**
  * Helper: Convert to string
  */
@@ -0,0 +1,223 @@
+/**
+ * Formula Parser Tests
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  FormulaParser,
+  parseReferenceParts,
+  formatReferenceParts,
+  shiftFormulaReferences,
+  formatFormulaAST,
+} from './formulaParser';
+
+describe('FormulaParser', () => {
+  let parser: FormulaParser;
+
+  beforeEach(() => {
+    parser = new FormulaParser();
+  });
+
+  describe('Absolute References', () => {
+    it('should tokenize absolute and mixed cell references', () => {
+      const tokens = parser.tokenize('$A$1+A$1+$a1');
+
+      expect(
+        tokens.filter((t) => t.type === 'cell').map((t) => t.value)
+      ).toEqual(['$A$1', 'A$1', '$A1']);
+    });
+
+    it('should tokenize absolute ranges', () => {
+      const tokens = parser.tokenize('SUM($b$1:b3)');
+
+      expect(tokens.find((t) => t.type === 'range')?.value).toBe('$B$1:B3');
+    });
+
+    it('should tokenize absolute cross-sheet references', () => {
+      const tokens = parser.tokenize("'Item Data'!$B$2");
+
+      expect(tokens[0]).toMatchObject({
+        type: 'cell',
+        value: '$B$2',
+        sheet: 'Item Data',
+      });
+    });
+
+    it('should record token positions', () => {
+      const tokens = parser.tokenize('B2 * $C$3');
+
+      expect(tokens.map((t) => [t.start, t.end])).toEqual([
+        [0, 2],
+        [3, 4],
+        [5, 9],
+      ]);
+    });
+
+    it('should ignore anchors when extracting references', () => {
+      const ast = parser.parse('=$A$1+SUM(A$2:$A3)');
+
+      expect(parser.extractReferences(ast).sort()).toEqual(['A1', 'A2', 'A3']);
+    });
+  });
+
+  describe('parseReferenceParts', () => {
+    it('should parse anchors and indices', () => {
+      expect(parseReferenceParts('$C$5')).toEqual({
+        rowIndex: 4,
+        columnIndex: 2,
+        absoluteRow: true,
+        absoluteColumn: true,
+      });
+      expect(parseReferenceParts('AA$10')).toMatchObject({
+        columnIndex: 26,
+        absoluteRow: true,
+        absoluteColumn: false,
+      });
+      expect(parseReferenceParts('not a ref')).toBeNull();
+    });
+
+    it('should round-trip through formatReferenceParts', () => {
+      ['A1', '$A1', 'A$1', '$AB$12'].forEach((ref) => {
+        expect(formatReferenceParts(parseReferenceParts(ref)!)).toBe(ref);
+      });
+    });
+  });
+
+  describe('Column Name References', () => {
+    it('should parse same-row column references', () => {
+      expect(parser.parse('=[attack] * 1.2').children?.[0]).toEqual({
+        type: 'column',
+        value: 'attack',
+      });
+    });
+
+    it('should parse table-style column references', () => {
+      const tokens = parser.tokenize("SUM(Items[buy price], 'Item Data'[hp])");
+
+      expect(tokens.filter((t) => t.type === 'column')).toMatchObject([
+        { value: 'buy price', sheet: 'Items' },
+        { value: 'hp', sheet: 'Item Data' },
+      ]);
+    });
+
+    it('should not shift column references', () => {
+      expect(shiftFormulaReferences('=[attack] + B2', 1, 0)).toBe(
+        '=[attack] + B3'
+      );
+    });
+
+    it('should reject unterminated column references', () => {
+      expect(() => parser.tokenize('[attack')).toThrow("Expected ']'");
+    });
+  });
+
+  describe('Names', () => {
+    it('should parse identifiers without parentheses as names', () => {
+      expect(parser.parse('=CRIT_MULTIPLIER * 2').children?.[0]).toEqual({
+        type: 'name',
+        value: 'CRIT_MULTIPLIER',
+      });
+    });
+
+    it('should still parse function calls', () => {
+      const tokens = parser.tokenize('SUM(DropWeights)');
+
+      expect(tokens.map((t) => t.type)).toEqual([
+        'function',
+        'lparen',
+        'name',
+        'rparen',
+      ]);
+    });
+
+    it('should tokenize dotted function names', () => {
+      const tokens = parser.tokenize('BINOM.DIST(1, 10, 0.5, FALSE)');
+
+      expect(tokens[0]).toMatchObject({
+        type: 'function',
+        value: 'BINOM.DIST',
+      });
+    });
+  });
+
+  describe('Error Literals', () => {
+    it('should parse #REF! as a literal value', () => {
+      expect(parser.parse('=#REF!')).toEqual({
+        type: 'literal',
+        value: '#REF!',
+      });
+    });
+
+    it('should parse sheet-qualified #REF!', () => {
+      const tokens = parser.tokenize("'Item Data'!#REF!+1");
+
+      expect(tokens[0]).toMatchObject({ type: 'error', value: '#REF!' });
+    });
+  });
+
+  describe('String Literals', () => {
+    it('should unescape doubled quotes', () => {
+      const tokens = parser.tokenize('"say ""hi"""&A1');
+
+      expect(tokens[0]).toMatchObject({ type: 'string', value: 'say "hi"' });
+      expect(tokens[1]).toMatchObject({ type: 'operator', value: '&' });
+    });
+  });
+
+  describe('formatFormulaAST', () => {
+    it('should format formulas with only the parentheses they need', () => {
+      const format = (formula: string) =>
+        formatFormulaAST(parser.parse(formula));
+
+      expect(format('=(A1-B1)*1.5+SUM($A$1:A2)')).toBe(
+        '(A1 - B1) * 1.5 + SUM($A$1:A2)'
+      );
+      expect(format('=A1-(B1-C1)')).toBe('A1 - (B1 - C1)');
+      expect(format('=-(A1+1)^2')).toBe('-(A1 + 1) ^ 2');
+      expect(format('="Lv. ""1""" & [level]')).toBe('"Lv. ""1""" & [level]');
+      expect(format("=IF('Item Data'!B2>0, TRUE, #N/A)")).toBe(
+        "IF('Item Data'!B2 > 0, TRUE, #N/A)"
+      );
+      expect(format('=SUM(Items[buy price])')).toBe('SUM(Items[buy price])');
+    });
+  });
+
+  describe('shiftFormulaReferences', () => {
+    it('should shift relative references', () => {
+      expect(shiftFormulaReferences('=B2*1.1', 1, 0)).toBe('=B3*1.1');
+      expect(shiftFormulaReferences('=B2*1.1', 0, 2)).toBe('=D2*1.1');
+    });
+
+    it('should keep anchored rows and columns fixed', () => {
+      expect(shiftFormulaReferences('=$B$2+B$2+$B2', 1, 1)).toBe(
+        '=$B$2+C$2+$B3'
+      );
+    });
+
+    it('should shift range endpoints independently', () => {
+      expect(shiftFormulaReferences('=SUM($A$1:A1)', 2, 0)).toBe(
+        '=SUM($A$1:A3)'
+      );
+    });
+
+    it('should keep sheet prefixes and surrounding text', () => {
+      expect(
+        shiftFormulaReferences(
+          '=IF(\'Item Data\'!B2 > 0, "B2", Base!$C1)',
+          1,
+          0
+        )
+      ).toBe('=IF(\'Item Data\'!B3 > 0, "B2", Base!$C2)');
+    });
+
+    it('should produce #REF! when shifted off the sheet', () => {
+      expect(shiftFormulaReferences('=A1+B2', -1, 0)).toBe('=#REF!+B1');
+      expect(shiftFormulaReferences('=SUM(A1:B2)', 0, -1)).toBe('=SUM(#REF!)');
+    });
+
+    it('should leave non-formulas and invalid formulas unchanged', () => {
+      expect(shiftFormulaReferences('B2', 1, 1)).toBe('B2');
+      expect(shiftFormulaReferences('=B2 # 3', 1, 1)).toBe('=B2 # 3');
+    });
+  });
+});
@@ -3,19 +3,24 @@
  * 수식을 파싱하여 AST(Abstract Syntax Tree)로 변환
  */
 
+import { columnIndexToLetter, letterToColumnIndex } from '@utils/gridUtils';
+
 export type ASTNodeType =
   | 'function'
   | 'operator'
   | 'cell'
   | 'range'
   | 'literal'
-  | 'unary';
+  | 'unary'
+  | 'column' // Column name reference: [attack] (same row), Items[buyPrice] (whole column)
+  | 'name'; // Workbook-level named range or constant (CRIT_MULTIPLIER)
 
 export interface FormulaAST {
   type: ASTNodeType;
   value: string | number | boolean;
   children?: FormulaAST[];
   operator?: string;
+  sheet?: string; // Sheet name for cross-sheet references (Sheet1!A1)
 }
 
 export interface Token {
@@ -29,10 +34,254 @@ export interface Token {
     | 'lparen'
     | 'rparen'
     | 'comma'
-    | 'boolean';
+    | 'boolean'
+    | 'error'
+    | 'column'
+    | 'name';
   value: string;
+  sheet?: string; // Sheet name for cross-sheet cell/range tokens
+  start?: number; // Position of the token in the tokenized formula
+  end?: number;
+}
+
+/**
+ * 수식에 직접 쓰일 수 있는 오류 값 (참조가 삭제되면 #REF!가 남는다)
+ */
+const ERROR_LITERAL_PATTERN =
+  /^#(?:REF!|N\/A|NAME\?|VALUE!|DIV\/0!|NUM!|NULL!|CIRC!|SPILL!|CALC!)/i;
+
+/**
+ * 셀 참조 구성 요소 ($A$1 → 열/행 인덱스와 고정 여부)
+ */
+export interface CellReferenceParts {
+  rowIndex: number;
+  columnIndex: number;
+  absoluteRow: boolean;
+  absoluteColumn: boolean;
 }
 
+/**
+ * 시트 이름을 수식에서 사용할 수 있는 형태로 변환
+ * 공백이나 특수문자가 있으면 작은따옴표로 감싼다 ('Item Data')
+ */
+export const quoteSheetName = (name: string): string => {
+  if (/^[\p{L}_][\p{L}\p{N}_]*$/u.test(name) && !/^[A-Z]+\d+$/i.test(name)) {
+    return name;
+  }
+  return `'${name.replace(/'/g, "''")}'`;
+};
+
+/**
+ * 시트 이름이 포함된 참조 문자열 생성 (Sheet1!A1, 'Item Data'!B2:B50)
+ */
+export const formatSheetReference = (
+  sheetName: string | undefined,
+  reference: string
+): string => {
+  return sheetName ? `${quoteSheetName(sheetName)}!${reference}` : reference;
+};
+
+/**
+ * 셀 참조 파싱 (A1, $A1, A$1, $A$1)
+ */
+export const parseReferenceParts = (
+  reference: string
+): CellReferenceParts | null => {
+  const match = reference.match(/^(\$?)([A-Za-z]+)(\$?)(\d+)$/);
+  if (!match) return null;
+
+  const [, columnAnchor, letters, rowAnchor, rowNumber] = match;
+  return {
+    rowIndex: parseInt(rowNumber) - 1,
+    columnIndex: letterToColumnIndex(letters.toUpperCase()),
+    absoluteRow: rowAnchor === '$',
+    absoluteColumn: columnAnchor === '$',
+  };
+};
+
+/**
+ * 셀 참조 구성 요소를 문자열로 변환
+ */
+export const formatReferenceParts = (parts: CellReferenceParts): string => {
+  return (
+    (parts.absoluteColumn ? '$' : '') +
+    columnIndexToLetter(parts.columnIndex) +
+    (parts.absoluteRow ? '$' : '') +
+    (parts.rowIndex + 1)
+  );
+};
+
+/**
+ * 수식 내 셀/범위 참조를 재작성
+ * rewrite가 null을 반환하면 해당 참조는 #REF!로 바뀐다
+ * renameSheet가 새 이름을 돌려주면 시트 접두사(열 참조 Items[price] 포함)도 바꾼다
+ */
+export const rewriteFormulaReferences = (
+  formula: string,
+  rewrite: (reference: string, token: Token) => string | null,
+  renameSheet?: (sheetName: string) => string | undefined
+): string => {
+  const trimmed = formula.trimStart();
+  if (!trimmed.startsWith('=')) return formula;
+
+  const offset = formula.length - trimmed.length + 1;
+  const body = formula.substring(offset);
+
+  let tokens: Token[];
+  try {
+    tokens = new FormulaParser().tokenize(body);
+  } catch {
+    // Leave formulas we cannot tokenize untouched
+    return formula;
+  }
+
+  let result = '';
+  let cursor = 0;
+
+  for (const token of tokens) {
+    const isColumn = token.type === 'column' && token.sheet !== undefined;
+    if (token.type !== 'cell' && token.type !== 'range' && !isColumn) continue;
+    if (token.start === undefined || token.end === undefined) continue;
+
+    const text = body.substring(token.start, token.end);
+    const referenceStart = isColumn
+      ? text.indexOf('[')
+      : text.lastIndexOf('!') + 1;
+    const reference = text.substring(referenceStart);
+    const rewritten = isColumn ? reference : rewrite(reference, token);
+    const sheetName =
+      token.sheet !== undefined ? renameSheet?.(token.sheet) : undefined;
+    const prefix =
+      sheetName === undefined
+        ? text.substring(0, referenceStart)
+        : quoteSheetName(sheetName) + (isColumn ? '' : '!');
+
+    result += body.substring(cursor, token.start);
+    result += prefix + (rewritten ?? '#REF!');
+    cursor = token.end;
+  }
+
+  return formula.substring(0, offset) + result + body.substring(cursor);
+};
+
+/**
+ * 복사/붙여넣기/채우기 시 상대 참조를 이동 거리만큼 조정
+ * $로 고정된 행/열은 그대로 유지되며, 시트 밖으로 벗어나면 #REF!가 된다
+ *
+ * Examples:
+ * - shiftFormulaReferences('=B2*1.1', 1, 0) → '=B3*1.1'
+ * - shiftFormulaReferences('=$B$2+B$2+$B2', 1, 1) → '=$B$2+C$2+$B3'
+ */
+export const shiftFormulaReferences = (
+  formula: string,
+  rowOffset: number,
+  columnOffset: number
+): string => {
+  if (rowOffset === 0 && columnOffset === 0) return formula;
+
+  const shift = (reference: string): string | null => {
+    const parts = parseReferenceParts(reference);
+    if (!parts) return reference;
+
+    const shifted: CellReferenceParts = {
+      ...parts,
+      rowIndex: parts.absoluteRow ? parts.rowIndex : parts.rowIndex + rowOffset,
+      columnIndex: parts.absoluteColumn
+        ? parts.columnIndex
+        : parts.columnIndex + columnOffset,
+    };
+
+    if (shifted.rowIndex < 0 || shifted.columnIndex < 0) return null;
+    return formatReferenceParts(shifted);
+  };
+
+  return rewriteFormulaReferences(formula, (reference) => {
+    const endpoints = reference.split(':').map(shift);
+    if (endpoints.some((endpoint) => endpoint === null)) return null;
+    return endpoints.join(':');
+  });
+};
+
+/**
+ * 연산자 우선순위 (수식 문자열로 되돌릴 때 괄호가 필요한지 판단)
+ */
+const OPERATOR_PRECEDENCE: Record<string, number> = {
+  '=': 1,
+  '<>': 1,
+  '<': 1,
+  '>': 1,
+  '<=': 1,
+  '>=': 1,
+  '&': 2,
+  '+': 3,
+  '-': 3,
+  '*': 4,
+  '/': 4,
+  '^': 5,
+};
+
+/**
+ * AST를 수식 문자열로 변환 (앞의 '=' 제외)
+ * 수식 계산 단계 표시에 사용되며, 필요한 곳에만 괄호를 붙인다
+ *
+ * Examples:
+ * - parse('=SUM(A1:A3) * (1 + B1)') → 'SUM(A1:A3) * (1 + B1)'
+ * - parse('="Lv." & [level]') → '"Lv." & [level]'
+ */
+export const formatFormulaAST = (node: FormulaAST): string => {
+  const children = node.children ?? [];
+
+  switch (node.type) {
+    case 'literal':
+      if (typeof node.value === 'boolean') return node.value ? 'TRUE' : 'FALSE';
+      if (typeof node.value === 'number') return String(node.value);
+      return ERROR_LITERAL_PATTERN.test(node.value)
+        ? node.value
+        : `"${node.value.replace(/"/g, '""')}"`;
+
+    case 'cell':
+    case 'range':
+      return formatSheetReference(node.sheet, String(node.value));
+
+    case 'column':
+      return `${node.sheet !== undefined ? quoteSheetName(node.sheet) : ''}[${node.value}]`;
+
+    case 'name':
+      return String(node.value);
+
+    case 'function':
+      return `${node.value}(${children.map(formatFormulaAST).join(', ')})`;
+
+    case 'unary': {
+      const operand = children[0];
+      const text = formatFormulaAST(operand);
+      return operand.type === 'operator'
+        ? `${node.value}(${text})`
+        : `${node.value}${text}`;
+    }
+
+    case 'operator': {
+      const op = String(node.operator ?? node.value);
+      const precedence = OPERATOR_PRECEDENCE[op] ?? 0;
+      const wrap = (child: FormulaAST, isRight: boolean) => {
+        const text = formatFormulaAST(child);
+        if (child.type !== 'operator') return text;
+
+        const childPrecedence =
+          OPERATOR_PRECEDENCE[String(child.operator ?? child.value)] ?? 0;
+        const needsParens =
+          childPrecedence < precedence ||
+          (isRight && childPrecedence === precedence);
+        return needsParens ? `(${text})` : text;
+      };
+      return `${wrap(children[0], false)} ${op} ${wrap(children[1], true)}`;
+    }
+
+    default:
+      return String(node.value);
+  }
+};
+
 export class FormulaParser {
   private tokens: Token[] = [];
   private position: number = 0;
@@ -55,11 +304,16 @@ export class FormulaParser {
   /**
    * 토큰화
    */
-  private tokenize(formula: string): Token[] {
+  tokenize(formula: string): Token[] {
     const tokens: Token[] = [];
     let i = 0;
+    let tokenStart = 0;
 
     while (i < formula.length) {
+      // Record the span of the token read in the previous iteration
+      this.closeTokenSpan(tokens, tokenStart, i);
+      tokenStart = i;
+
       const char = formula[i];
 
       // Skip whitespace
@@ -82,11 +336,30 @@ export class FormulaParser {
         continue;
       }
 
+      // Error literals (#REF!)
+      if (char === '#') {
+        const match = formula.substring(i).match(ERROR_LITERAL_PATTERN);
+        if (match) {
+          tokens.push({ type: 'error', value: match[0].toUpperCase() });
+          i += match[0].length;
+          continue;
+        }
+      }
+
       // Strings (in quotes)
       if (char === '"') {
         let str = '';
         i++; // Skip opening quote
-        while (i < formula.length && formula[i] !== '"') {
+        while (i < formula.length) {
+          if (formula[i] === '"') {
+            // Escaped quote ("")
+            if (formula[i + 1] === '"') {
+              str += '"';
+              i += 2;
+              continue;
+            }
+            break;
+          }
           str += formula[i];
           i++;
         }
@@ -95,6 +368,60 @@ export class FormulaParser {
         continue;
       }
 
+      // Same-row column reference ([attack])
+      if (char === '[') {
+        const { token, length } = this.readColumnReference(
+          formula.substring(i)
+        );
+        tokens.push(token);
+        i += length;
+        continue;
+      }
+
+      // Quoted sheet name ('Item Data'!B2, 'Item Data'[price])
+      if (char === "'") {
+        let sheetName = '';
+        i++; // Skip opening quote
+        while (i < formula.length) {
+          if (formula[i] === "'") {
+            // Escaped quote ('')
+            if (formula[i + 1] === "'") {
+              sheetName += "'";
+              i += 2;
+              continue;
+            }
+            break;
+          }
+          sheetName += formula[i];
+          i++;
+        }
+        i++; // Skip closing quote
+
+        // Table-style column reference ('Item Data'[price])
+        if (formula[i] === '[') {
+          const { token, length } = this.readColumnReference(
+            formula.substring(i),
+            sheetName
+          );
+          tokens.push(token);
+          i += length;
+          continue;
+        }
+
+        if (formula[i] !== '!') {
+          throw new Error(`Expected '!' after sheet name '${sheetName}'`);
+        }
+        i++; // Skip '!'
+
+        const { token, length } = this.readSheetReference(
+          formula.substring(i),
+          sheetName
+        );
+        tokens.push(token);
+        i += length;
+        continue;
+      }
+
       // Operators
       if (['+', '-', '*', '/', '^', '>', '<', '=', '&'].includes(char)) {
         let op = char;
@@ -139,14 +466,42 @@ export class FormulaParser {
         continue;
       }
 
-      // Cell references, ranges, functions, and booleans
-      if (/[A-Za-z]/.test(char)) {
+      // Cell references ($A$1), ranges, functions, and booleans
+      if (/[\p{L}_$]/u.test(char)) {
         let identifier = '';
-        while (i < formula.length && /[A-Za-z0-9_]/.test(formula[i])) {
+        while (
+          i < formula.length &&
+          (/[\p{L}\p{N}_$]/u.test(formula[i]) ||
+            // Dotted function names (BINOM.DIST)
+            (formula[i] === '.' && /[\p{L}\p{N}_]/u.test(formula[i + 1] ?? '')))
+        ) {
           identifier += formula[i];
           i++;
         }
 
+        // Table-style column reference (Items[buyPrice])
+        if (i < formula.length && formula[i] === '[') {
+          const { token, length } = this.readColumnReference(
+            formula.substring(i),
+            identifier
+          );
+          tokens.push(token);
+          i += length;
+          continue;
+        }
+
+        // Unquoted sheet name (Sheet1!A1)
+        if (i < formula.length && formula[i] === '!') {
+          i++; // Skip '!'
+          const { token, length } = this.readSheetReference(
+            formula.substring(i),
+            identifier
+          );
+          tokens.push(token);
+          i += length;
+          continue;
+        }
+
         const upperIdent = identifier.toUpperCase();
 
         // Check for boolean values
@@ -166,11 +521,14 @@ export class FormulaParser {
           const rangeStart = identifier;
           i++; // Skip ':'
           let rangeEnd = '';
-          while (i < formula.length && /[A-Za-z0-9]/.test(formula[i])) {
+          while (i < formula.length && /[A-Za-z0-9$]/.test(formula[i])) {
             rangeEnd += formula[i];
             i++;
           }
-          tokens.push({ type: 'range', value: `${rangeStart}:${rangeEnd}` });
+          tokens.push({
+            type: 'range',
+            value: `${rangeStart}:${rangeEnd}`.toUpperCase(),
+          });
           continue;
         }
 
@@ -178,7 +536,8 @@ export class FormulaParser {
         if (this.isCellReference(identifier)) {
           tokens.push({ type: 'cell', value: identifier.toUpperCase() });
         } else {
-          tokens.push({ type: 'function', value: upperIdent });
+          // Named range or constant (resolved by the evaluator)
+          tokens.push({ type: 'name', value: identifier });
         }
         continue;
       }
@@ -187,9 +546,81 @@ export class FormulaParser {
       throw new Error(`Unexpected character: ${char}`);
     }
 
+    this.closeTokenSpan(tokens, tokenStart, i);
     return tokens;
   }
 
+  /**
+   * Set the start/end position of the most recently read token
+   */
+  private closeTokenSpan(tokens: Token[], start: number, end: number): void {
+    const last = tokens[tokens.length - 1];
+    if (last && last.end === undefined) {
+      last.start = start;
+      last.end = end;
+    }
+  }
+
+  /**
+   * Read a bracketed column reference ([attack])
+   */
+  private readColumnReference(
+    rest: string,
+    sheetName?: string
+  ): { token: Token; length: number } {
+    const close = rest.indexOf(']');
+    if (close === -1) {
+      throw new Error("Expected ']' after column name");
+    }
+
+    const columnName = rest.substring(1, close).trim();
+    if (!columnName) {
+      throw new Error('Empty column reference');
+    }
+
+    return {
+      token: {
+        type: 'column',
+        value: columnName,
+        ...(sheetName !== undefined && { sheet: sheetName }),
+      },
+      length: close + 1,
+    };
+  }
+
+  /**
+   * Read the cell or range reference that follows a sheet prefix
+   */
+  private readSheetReference(
+    rest: string,
+    sheetName: string
+  ): { token: Token; length: number } {
+    // A reference whose target was deleted (Sheet1!#REF!)
+    const error = rest.match(ERROR_LITERAL_PATTERN);
+    if (error) {
+      return {
+        token: { type: 'error', value: error[0].toUpperCase() },
+        length: error[0].length,
+      };
+    }
+
+    const match = rest.match(/^(\$?[A-Za-z]+\$?\d+)(?::(\$?[A-Za-z]+\$?\d+))?/);
+    if (!match) {
+      throw new Error(`Expected cell reference after sheet ${sheetName}`);
+    }
+
+    const [text, start, end] = match;
+    const token: Token = end
+      ? {
+          type: 'range',
+          value: `${start.toUpperCase()}:${end.toUpperCase()}`,
+          sheet: sheetName,
+        }
+      : { type: 'cell', value: start.toUpperCase(), sheet: sheetName };
+
+    return { token, length: text.length };
+  }
+
   /**
    * Parse expression (handles operators)
    */
@@ -392,12 +823,41 @@ export class FormulaParser {
       };
     }
 
+    // Error literal
+    if (token.type === 'error') {
+      this.position++;
+      return {
+        type: 'literal',
+        value: token.value,
+      };
+    }
+
     // Cell reference
     if (token.type === 'cell') {
       this.position++;
       return {
         type: 'cell',
         value: token.value,
+        ...(token.sheet !== undefined && { sheet: token.sheet }),
+      };
+    }
+
+    // Named range or constant
+    if (token.type === 'name') {
+      this.position++;
+      return {
+        type: 'name',
+        value: token.value,
+      };
+    }
+
+    // Column reference ([attack], Items[buyPrice])
+    if (token.type === 'column') {
+      this.position++;
+      return {
+        type: 'column',
+        value: token.value,
+        ...(token.sheet !== undefined && { sheet: token.sheet }),
       };
     }
 
@@ -407,6 +867,7 @@ export class FormulaParser {
       return {
         type: 'range',
         value: token.value,
+        ...(token.sheet !== undefined && { sheet: token.sheet }),
       };
     }
 
@@ -479,16 +940,20 @@ export class FormulaParser {
 
   /**
    * Extract all cell references from AST
+   * 다른 시트 참조는 시트 이름을 포함한 형태로 반환 (Sheet1!A1)
    */
   extractReferences(ast: FormulaAST): string[] {
     const refs: Set<string> = new Set();
 
     const traverse = (node: FormulaAST) => {
       if (node.type === 'cell') {
-        refs.add(node.value as string);
+        const cellRef = (node.value as string).replace(/\$/g, '');
+        refs.add(formatSheetReference(node.sheet, cellRef));
       } else if (node.type === 'range') {
         const rangeCells = this.expandRange(node.value as string);
-        rangeCells.forEach((cell) => refs.add(cell));
+        rangeCells.forEach((cell) =>
+          refs.add(formatSheetReference(node.sheet, cell))
+        );
       }
 
       if (node.children) {
@@ -503,8 +968,9 @@ export class FormulaParser {
   /**
    * Expand range (A1:B2) to individual cells
    */
-  private expandRange(range: string): string[] {
-    const [start, end] = range.split(':');
+  expandRange(range: string): string[] {
+    // Anchors ($) do not affect which cells a range covers
+    const [start, end] = range.replace(/\$/g, '').split(':');
     const startCol = start.match(/[A-Z]+/)?.[0] || '';
     const startRow = parseInt(start.match(/\d+/)?.[0] || '0');
     const endCol = end.match(/[A-Z]+/)?.[0] || '';
@@ -524,10 +990,10 @@ export class FormulaParser {
   }
 
   /**
-   * Check if string is a cell reference (e.g., A1, B2, AA10)
+   * Check if string is a cell reference (e.g., A1, B2, AA10, $A$1)
    */
   private isCellReference(str: string): boolean {
-    return /^[A-Z]+\d+$/i.test(str);
+    return /^\$?[A-Z]+\$?\d+$/i.test(str);
   }
 
   /**
@@ -0,0 +1,64 @@
+/**
+ * Function Signatures Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  FUNCTION_SIGNATURES,
+  formatSignature,
+  getActiveParameterIndex,
+  getFunctionSignature,
+} from './functionSignatures';
+import { BINDING_FUNCTIONS, FORMULA_FUNCTIONS } from './formulaFunctions';
+import type { NamedRange } from '@types';
+
+describe('functionSignatures', () => {
+  it('documents every built-in function', () => {
+    const missing = [
+      ...Object.keys(FORMULA_FUNCTIONS),
+      ...BINDING_FUNCTIONS,
+    ].filter((name) => !FUNCTION_SIGNATURES[name]);
+
+    expect(missing).toEqual([]);
+  });
+
+  it('formats signatures with optional and repeated parameters', () => {
+    expect(formatSignature(FUNCTION_SIGNATURES.STAT_SCALE)).toBe(
+      'STAT_SCALE(level, baseValue, [growthRate], [formula])'
+    );
+    expect(formatSignature(FUNCTION_SIGNATURES.SUM)).toBe(
+      'SUM(number1, [number2], ...)'
+    );
+    expect(formatSignature(FUNCTION_SIGNATURES.SUMIFS)).toBe(
+      'SUMIFS(sumRange, criteriaRange1, criteria1, [criteriaRange2, criteria2], ...)'
+    );
+  });
+
+  it('maps argument positions to parameters', () => {
+    const sumifs = FUNCTION_SIGNATURES.SUMIFS;
+    expect(
+      [0, 1, 2, 3, 4].map((i) => getActiveParameterIndex(sumifs, i))
+    ).toEqual([0, 1, 2, 1, 2]);
+    expect(getActiveParameterIndex(FUNCTION_SIGNATURES.ABS, 1)).toBe(-1);
+  });
+
+  it('describes workbook LAMBDA names from their definition', () => {
+    const names: NamedRange[] = [
+      {
+        id: 'n1',
+        name: 'Effective_HP',
+        definition: 'LAMBDA(hp, def, hp * (1 + def / 100))',
+        comment: '방어력을 반영한 유효 체력',
+      },
+      { id: 'n2', name: 'CRIT', definition: '1.5' },
+    ];
+
+    expect(getFunctionSignature('effective_hp', names)).toEqual({
+      name: 'EFFECTIVE_HP',
+      description: '방어력을 반영한 유효 체력',
+      params: [{ name: 'hp' }, { name: 'def' }],
+    });
+    expect(getFunctionSignature('CRIT', names)).toBeNull();
+    expect(getFunctionSignature('round')?.name).toBe('ROUND');
+  });
+});
@@ -0,0 +1,491 @@
+/**
+ * Function Signatures
+ * 수식 편집기의 인수 도움말에 표시할 함수 시그니처 (매개변수 이름과 설명)
+ */
+
+import type { NamedRange } from '@types';
+import { FormulaParser } from './formulaParser';
+import { findName, isLambdaDefinition } from './namedRanges';
+
+/**
+ * 함수 매개변수
+ */
+export interface FunctionParameter {
+  name: string;
+  description?: string;
+  optional?: boolean;
+  repeat?: boolean; // 반복 가능한 인수 (number1, number2, ...)
+}
+
+/**
+ * 함수 시그니처
+ */
+export interface FunctionSignature {
+  name: string;
+  description: string;
+  params: FunctionParameter[];
+}
+
+/**
+ * 매개변수 표기: '[name]' = 선택, 'name...' = 반복, [표기, 설명] = 설명 포함
+ */
+type ParameterSpec = string | [string, string];
+
+const parseParameter = (spec: ParameterSpec): FunctionParameter => {
+  const [text, description] = typeof spec === 'string' ? [spec] : spec;
+  let name = text;
+  const optional = name.startsWith('[') && name.endsWith(']');
+  if (optional) name = name.slice(1, -1);
+  const repeat = name.endsWith('...');
+  if (repeat) name = name.slice(0, -3);
+
+  return {
+    name,
+    ...(description && { description }),
+    ...(optional && { optional }),
+    ...(repeat && { repeat }),
+  };
+};
+
+const SIGNATURE_SPECS: Record<string, [string, ...ParameterSpec[]]> = {
+  // Math
+  SUM: ['숫자의 합계', 'number...'],
+  AVERAGE: ['숫자의 평균', 'number...'],
+  MIN: ['가장 작은 값', 'number...'],
+  MAX: ['가장 큰 값', 'number...'],
+  COUNT: ['숫자가 들어 있는 셀 개수', 'value...'],
+  COUNTA: ['비어 있지 않은 셀 개수', 'value...'],
+  ROUND: [
+    '지정한 자릿수로 반올림',
+    'value',
+    ['[decimals]', '소수 자릿수 (기본값 0)'],
+  ],
+  CEILING: ['올림', 'value'],
+  FLOOR: ['내림', 'value'],
+  ABS: ['절댓값', 'value'],
+  SQRT: ['제곱근', 'value'],
+  POWER: ['거듭제곱', 'base', 'exponent'],
+  MEDIAN: ['중앙값', 'number...'],
+  MODE: ['최빈값', 'number...'],
+  STDEV: ['표본 표준편차', 'number...'],
+  STDEVP: ['모집단 표준편차', 'number...'],
+  VAR: ['표본 분산', 'number...'],
+  VARP: ['모집단 분산', 'number...'],
+  'BINOM.DIST': [
+    '이항 분포 확률',
+    ['successes', '성공 횟수'],
+    ['trials', '시행 횟수'],
+    ['probability', '시행당 성공 확률 (0-1)'],
+    ['cumulative', 'TRUE면 누적 확률, FALSE면 정확히 successes번 성공할 확률'],
+  ],
+
+  // Conditional aggregates
+  SUMIF: ['조건에 맞는 값의 합계', 'range', 'criteria', '[sumRange]'],
+  SUMIFS: [
+    '여러 조건에 맞는 값의 합계',
+    'sumRange',
+    'criteriaRange...',
+    'criteria...',
+  ],
+  COUNTIF: ['조건에 맞는 셀 개수', 'range', 'criteria'],
+  COUNTIFS: ['여러 조건에 맞는 셀 개수', 'criteriaRange...', 'criteria...'],
+  AVERAGEIF: ['조건에 맞는 값의 평균', 'range', 'criteria', '[averageRange]'],
+  AVERAGEIFS: [
+    '여러 조건에 맞는 값의 평균',
+    'averageRange',
+    'criteriaRange...',
+    'criteria...',
+  ],
+  MAXIFS: [
+    '여러 조건에 맞는 값 중 최댓값',
+    'maxRange',
+    'criteriaRange...',
+    'criteria...',
+  ],
+  MINIFS: [
+    '여러 조건에 맞는 값 중 최솟값',
+    'minRange',
+    'criteriaRange...',
+    'criteria...',
+  ],
+
+  // Logical
+  IF: ['조건에 따라 다른 값 반환', 'condition', 'trueValue', '[falseValue]'],
+  AND: ['모든 조건이 참이면 TRUE', 'logical...'],
+  OR: ['조건 중 하나라도 참이면 TRUE', 'logical...'],
+  NOT: ['논리값 반전', 'value'],
+  IFERROR: ['오류이면 대체 값 반환', 'value', 'valueIfError'],
+  ISERROR: ['오류 값인지 확인', 'value'],
+  ISERR: ['#N/A를 제외한 오류 값인지 확인', 'value'],
+  ISNA: ['#N/A 오류인지 확인', 'value'],
+  LET: ['계산 결과에 이름을 붙여 재사용', 'name...', 'value...', 'calculation'],
+  LAMBDA: ['사용자 정의 함수', 'parameter...', 'calculation'],
+
+  // Text
+  CONCATENATE: ['텍스트 연결', 'text...'],
+  LEFT: ['왼쪽에서 글자 추출', 'text', '[numChars]'],
+  RIGHT: ['오른쪽에서 글자 추출', 'text', '[numChars]'],
+  MID: ['중간에서 글자 추출', 'text', 'startNum', 'numChars'],
+  UPPER: ['대문자로 변환', 'text'],
+  LOWER: ['소문자로 변환', 'text'],
+  LEN: ['글자 수', 'text'],
+  TRIM: ['앞뒤 공백과 중복 공백 제거', 'text'],
+  TEXT: [
+    '서식을 적용한 텍스트로 변환',
+    'value',
+    ['formatText', '서식 코드 (0.00, #,##0, yyyy-mm-dd)'],
+  ],
+  TEXTJOIN: ['구분자로 텍스트 연결', 'delimiter', 'ignoreEmpty', 'text...'],
+  SPLIT: [
+    '구분자로 텍스트를 나눠 가로로 반환',
+    'text',
+    'delimiter',
+    '[splitByEach]',
+    '[removeEmpty]',
+  ],
+  SUBSTITUTE: [
+    '텍스트 바꾸기',
+    'text',
+    'oldText',
+    'newText',
+    ['[instance]', '바꿀 번째 (생략하면 모두)'],
+  ],
+  FIND: [
+    '텍스트 위치 찾기 (대소문자 구분)',
+    'findText',
+    'withinText',
+    '[startNum]',
+  ],
+  SEARCH: [
+    '텍스트 위치 찾기 (대소문자 무시, 와일드카드)',
+    'findText',
+    'withinText',
+    '[startNum]',
+  ],
+  REGEXMATCH: ['정규식과 일치하는지 확인', 'text', 'pattern'],
+  REGEXEXTRACT: ['정규식과 일치하는 부분 추출', 'text', 'pattern'],
+  REGEXREPLACE: [
+    '정규식과 일치하는 부분 바꾸기',
+    'text',
+    'pattern',
+    'replacement',
+  ],
+
+  // Lookup
+  VLOOKUP: [
+    '표의 첫 열에서 값을 찾아 같은 행의 값 반환',
+    'lookupValue',
+    'table',
+    ['columnIndex', '반환할 열 번호 (1부터)'],
+    ['[approximate]', 'TRUE면 근사 일치 (기본값 TRUE)'],
+  ],
+  HLOOKUP: [
+    '표의 첫 행에서 값을 찾아 같은 열의 값 반환',
+    'lookupValue',
+    'table',
+    ['rowIndex', '반환할 행 번호 (1부터)'],
+    '[approximate]',
+  ],
+  XLOOKUP: [
+    '범위에서 값을 찾아 대응하는 값 반환',
+    'lookupValue',
+    'lookupArray',
+    'returnArray',
+    '[ifNotFound]',
+    ['[matchMode]', '0 정확히, -1 작은 값, 1 큰 값, 2 와일드카드'],
+    ['[searchMode]', '1 처음부터, -1 끝에서부터'],
+  ],
+  INDEX: [
+    '위치의 값 반환',
+    'array',
+    ['rowNumber', '0이면 열 전체'],
+    ['[columnNumber]', '0이면 행 전체'],
+  ],
+  MATCH: [
+    '범위에서 값의 위치 반환',
+    'lookupValue',
+    'lookupArray',
+    ['[matchType]', '1 이하 최댓값, 0 정확히, -1 이상 최솟값'],
+  ],
+  FILTER: ['조건에 맞는 행만 반환', 'array', 'include', '[ifEmpty]'],
+  SORT: [
+    '정렬',
+    'array',
+    '[sortIndex]',
+    ['[sortOrder]', '1 오름차순, -1 내림차순'],
+    '[byCol]',
+  ],
+  UNIQUE: ['중복 제거', 'array', '[byCol]', '[exactlyOnce]'],
+  SEQUENCE: ['연속된 숫자 배열', 'rows', '[columns]', '[start]', '[step]'],
+
+  // Date and time
+  TODAY: ['오늘 날짜'],
+  NOW: ['현재 날짜와 시간'],
+  DATE: ['날짜 생성', 'year', 'month', 'day'],
+  DATEVALUE: ['텍스트를 날짜로 변환', 'text'],
+  YEAR: ['연도', 'date'],
+  MONTH: ['월', 'date'],
+  DAY: ['일', 'date'],
+  HOUR: ['시', 'date'],
+  MINUTE: ['분', 'date'],
+  SECOND: ['초', 'date'],
+  DAYS: ['두 날짜 사이의 일수', 'endDate', 'startDate'],
+  DATEDIF: [
+    '두 날짜 사이의 기간',
+    'startDate',
+    'endDate',
+    ['unit', '"Y", "M", "D", "MD", "YM", "YD"'],
+  ],
+  EDATE: ['몇 개월 전후의 날짜', 'startDate', 'months'],
+  EOMONTH: ['몇 개월 전후 달의 마지막 날', 'startDate', 'months'],
+  WEEKDAY: [
+    '요일 번호',
+    'date',
+    ['[returnType]', '1 일요일=1, 2 월요일=1, 3 월요일=0'],
+  ],
+  NETWORKDAYS: ['두 날짜 사이의 평일 수', 'startDate', 'endDate', '[holidays]'],
+  WORKDAY: ['평일 기준 며칠 후의 날짜', 'startDate', 'days', '[holidays]'],
+
+  // Random
+  RAND: ['0 이상 1 미만의 난수 (워크북 시드 사용)'],
+  RANDBETWEEN: ['두 정수 사이의 난수', 'bottom', 'top'],
+  RAND_SEED: [
+    '시드로 고정된 0 이상 1 미만의 난수',
+    ['seed...', '같은 시드는 항상 같은 값'],
+  ],
+  WEIGHTED_PICK: [
+    '가중치에 따라 항목 하나를 무작위로 선택',
+    'items',
+    'weights',
+  ],
+
+  // Game data
+  DAMAGE_CALC: [
+    '방어력을 반영한 데미지: attack * 100 / (100 + defense)',
+    ['attack', '공격력'],
+    ['defense', '방어력'],
+  ],
+  STAT_TOTAL: ['스탯 합계', 'stat...'],
+  RARITY_BONUS: ['레어도에 따른 보너스 배율', ['rarity', '레어도 (1-6)']],
+  STAT_SCALE: [
+    '레벨에 따른 스탯 스케일링',
+    ['level', '레벨'],
+    ['baseValue', '기본 값'],
+    ['[growthRate]', '성장률 (%, 기본값 10)'],
+    ['[formula]', '"linear", "exponential", "logarithmic" (기본값 "linear")'],
+  ],
+  DROP_RATE: [
+    '행운 스탯과 레벨 차이를 반영한 드랍 확률 (%)',
+    ['baseRate', '기본 드랍률 (%)'],
+    ['[luckStat]', '행운 스탯 (0-100)'],
+    ['[enemyLevel]', '적 레벨'],
+    ['[playerLevel]', '플레이어 레벨'],
+  ],
+  EXP_CURVE: [
+    '레벨업에 필요한 경험치',
+    ['level', '레벨'],
+    ['[baseExp]', '기본 경험치 (기본값 100)'],
+    ['[multiplier]', '배율 (기본값 1.5)'],
+    ['[exponent]', '지수 (기본값 1.5)'],
+  ],
+  GACHA_RATE: [
+    '천장을 반영한 가챠 확률 (%)',
+    ['rarity', '희귀도 (1-6)'],
+    ['[pityCounter]', '현재 뽑기 횟수'],
+    ['[baseRate]', '기본 확률 (%)'],
+    ['[pityThreshold]', '천장 임계값 (기본값 90)'],
+  ],
+  GACHA_PITY_RATE: [
+    'n번째 뽑기의 확률 (%, 소프트/하드 천장 반영)',
+    ['rate', '기본 확률 (%)'],
+    ['pull', '뽑기 번호 (1부터)'],
+    ['[hardPity]', '하드 천장'],
+    ['[softPityStart]', '소프트 천장 시작 뽑기'],
+    ['[softPityStep]', '소프트 천장 이후 뽑기당 증가 확률 (%)'],
+  ],
+  GACHA_PITY_CURVE: [
+    '1번째부터 하드 천장까지 뽑기별 확률 (%, 세로로 반환)',
+    ['rate', '기본 확률 (%)'],
+    ['hardPity', '하드 천장'],
+    '[softPityStart]',
+    '[softPityStep]',
+  ],
+  GACHA_PROB: [
+    'n번 안에 한 번 이상 나올 확률 (%)',
+    ['rate', '기본 확률 (%)'],
+    ['pulls', '뽑기 횟수'],
+    '[hardPity]',
+    '[softPityStart]',
+    '[softPityStep]',
+  ],
+  GACHA_EXPECTED_PULLS: [
+    '처음 나올 때까지의 기대 뽑기 횟수',
+    ['rate', '기본 확률 (%)'],
+    '[hardPity]',
+    '[softPityStart]',
+    '[softPityStep]',
+  ],
+  GACHA_FEATURED_PROB: [
+    'n번 안에 픽업 항목이 나올 확률 (%)',
+    ['rate', '기본 확률 (%)'],
+    ['pulls', '뽑기 횟수'],
+    ['[rateUpChance]', '픽업 당첨 확률 (%, 기본값 50)'],
+    '[hardPity]',
+    '[softPityStart]',
+    '[softPityStep]',
+    ['[guaranteed]', 'TRUE면 다음 최고 등급이 픽업 확정'],
+  ],
+  GACHA_FEATURED_EXPECTED: [
+    '픽업 항목이 나올 때까지의 기대 뽑기 횟수',
+    ['rate', '기본 확률 (%)'],
+    ['[rateUpChance]', '픽업 당첨 확률 (%, 기본값 50)'],
+    '[hardPity]',
+    '[softPityStart]',
+    '[softPityStep]',
+    '[guaranteed]',
+  ],
+  GACHA_ITEM_RATE: [
+    '등급 안에서 가중치로 나눈 항목별 확률 (%)',
+    ['rate', '등급 확률 (%)'],
+    ['weight', '항목 가중치'],
+    ['weights', '등급 전체 가중치 범위'],
+    ['[isRateUp]', 'TRUE면 픽업 항목'],
+    ['[rateUpFlags]', '등급 전체의 픽업 여부 범위'],
+    ['[rateUpChance]', '픽업 당첨 확률 (%, 기본값 50)'],
+  ],
+
+  // Combat simulation
+  DPS: [
+    '방어력, 공격 속도, 치명타를 반영한 초당 기대 데미지',
+    ['attack', '공격력'],
+    ['[defense]', '대상 방어력 (기본값 0)'],
+    ['[attackSpeed]', '초당 공격 횟수 (기본값 1)'],
+    ['[critChance]', '치명타 확률 (%, 기본값 0)'],
+    ['[critMultiplier]', '치명타 배율 (기본값 1.5)'],
+  ],
+  TTK: [
+    '대상을 처치하는 데 걸리는 기대 시간 (초)',
+    ['hp', '대상 체력'],
+    ['attack', '공격력'],
+    ['[defense]', '대상 방어력 (기본값 0)'],
+    ['[attackSpeed]', '초당 공격 횟수 (기본값 1)'],
+    ['[critChance]', '치명타 확률 (%, 기본값 0)'],
+    ['[critMultiplier]', '치명타 배율 (기본값 1.5)'],
+  ],
+  EHP: [
+    '방어력과 피해 감소를 반영한 유효 체력',
+    ['hp', '체력'],
+    ['[defense]', '방어력 (기본값 0)'],
+    ['[damageReduction]', '피해 감소 (%, 기본값 0)'],
+  ],
+};
+
+/**
+ * 내장 함수 시그니처 (이름 → 시그니처)
+ */
+export const FUNCTION_SIGNATURES: Record<string, FunctionSignature> =
+  Object.fromEntries(
+    Object.entries(SIGNATURE_SPECS).map(([name, [description, ...specs]]) => [
+      name,
+      { name, description, params: specs.map(parseParameter) },
+    ])
+  );
+
+const parser = new FormulaParser();
+
+/**
+ * Get the signature of a built-in function or a workbook LAMBDA name
+ * LAMBDA 이름은 정의의 매개변수와 설명(comment)을 사용한다
+ */
+export const getFunctionSignature = (
+  name: string,
+  names: NamedRange[] = []
+): FunctionSignature | null => {
+  const upper = name.toUpperCase();
+  const builtIn = FUNCTION_SIGNATURES[upper];
+  if (builtIn) return builtIn;
+
+  const named = findName(names, name);
+  if (!named || !isLambdaDefinition(named.definition)) return null;
+
+  const args = parser.parse(named.definition).children ?? [];
+  return {
+    name: upper,
+    description: named.comment || named.definition,
+    params: args.slice(0, -1).map((arg) => ({ name: String(arg.value) })),
+  };
+};
+
+/**
+ * Index of the parameter that the given argument position fills
+ * 반복 매개변수는 묶음 단위로 되풀이된다 (SUMIFS의 criteriaRange, criteria)
+ * @returns 해당하는 매개변수가 없으면 -1
+ */
+export const getActiveParameterIndex = (
+  signature: FunctionSignature,
+  argumentIndex: number
+): number => {
+  const { params } = signature;
+  const firstRepeat = params.findIndex((p) => p.repeat);
+  if (firstRepeat === -1 || argumentIndex < firstRepeat) {
+    return argumentIndex < params.length ? argumentIndex : -1;
+  }
+
+  // LET/LAMBDA의 마지막 인수(calculation)는 입력 중에 구분할 수 없으므로 반복으로 본다
+  let repeatCount = 0;
+  while (params[firstRepeat + repeatCount]?.repeat) repeatCount++;
+  return firstRepeat + ((argumentIndex - firstRepeat) % repeatCount);
+};
+
+/**
+ * 시그니처 표시용 인수 목록 항목
+ */
+export interface SignatureLabel {
+  text: string;
+  paramIndex: number; // 대응하는 매개변수 (반복 표기와 '...'는 -1)
+}
+
+/**
+ * Argument labels for display
+ * SUMIFS → sumRange, criteriaRange1, criteria1, [criteriaRange2, criteria2], ...
+ */
+export const getSignatureLabels = (
+  signature: FunctionSignature
+): SignatureLabel[] => {
+  const { params } = signature;
+  const labels: SignatureLabel[] = [];
+
+  params.forEach((param, index) => {
+    if (!param.repeat) {
+      const text = param.optional ? `[${param.name}]` : param.name;
+      labels.push({ text, paramIndex: index });
+      return;
+    }
+    if (params[index - 1]?.repeat) return;
+
+    // The whole repeated group is shown once, then as an optional repetition
+    const group: number[] = [];
+    for (let i = index; params[i]?.repeat; i++) group.push(i);
+
+    group.forEach((i) =>
+      labels.push({ text: `${params[i].name}1`, paramIndex: i })
+    );
+    labels.push(
+      {
+        text: `[${group.map((i) => `${params[i].name}2`).join(', ')}]`,
+        paramIndex: -1,
+      },
+      { text: '...', paramIndex: -1 }
+    );
+  });
+
+  return labels;
+};
+
+/**
+ * Format a signature for display: SUM(number1, [number2], ...)
+ */
+export const formatSignature = (signature: FunctionSignature): string =>
+  `${signature.name}(${getSignatureLabels(signature)
+    .map((label) => label.text)
+    .join(', ')})`;
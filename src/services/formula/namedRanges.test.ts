@@ -0,0 +1,143 @@
+/**
+ * Named Ranges Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  isValidName,
+  findName,
+  validateNamedRange,
+  formulaUsesName,
+  renameNameInFormula,
+  findNameUsages,
+  isLambdaDefinition,
+  getFunctionNames,
+} from './namedRanges';
+import { createMockSheet } from '@test/utils/mockData';
+import type { NamedRange } from '@types';
+
+const names: NamedRange[] = [
+  { id: 'n1', name: 'CRIT_MULTIPLIER', definition: '1.5' },
+  { id: 'n2', name: 'CRIT_DAMAGE', definition: 'BASE_DMG * CRIT_MULTIPLIER' },
+];
+
+describe('namedRanges', () => {
+  describe('isValidName', () => {
+    it('should accept identifiers', () => {
+      expect(isValidName('CRIT_MULTIPLIER')).toBe(true);
+      expect(isValidName('_drop')).toBe(true);
+      expect(isValidName('드랍률')).toBe(true);
+    });
+
+    it('should reject cell addresses, booleans and invalid characters', () => {
+      expect(isValidName('A1')).toBe(false);
+      expect(isValidName('true')).toBe(false);
+      expect(isValidName('1ST')).toBe(false);
+      expect(isValidName('drop rate')).toBe(false);
+    });
+  });
+
+  it('should find names case-insensitively', () => {
+    expect(findName(names, 'crit_multiplier')?.id).toBe('n1');
+    expect(findName(names, 'missing')).toBeUndefined();
+  });
+
+  describe('validateNamedRange', () => {
+    it('should accept valid definitions', () => {
+      expect(validateNamedRange(names, 'DropWeights', "'Drop'!F2:F200")).toBe(
+        null
+      );
+    });
+
+    it('should reject duplicates unless excluded', () => {
+      expect(validateNamedRange(names, 'crit_damage', '2')).toContain(
+        '이미 존재'
+      );
+      expect(validateNamedRange(names, 'CRIT_DAMAGE', '2', 'n2')).toBe(null);
+    });
+
+    it('should reject built-in function names', () => {
+      expect(validateNamedRange(names, 'sum', '1')).toContain('내장 함수');
+      expect(validateNamedRange(names, 'LET', '1')).toContain('내장 함수');
+    });
+
+    it('should reject empty or unparsable definitions', () => {
+      expect(validateNamedRange(names, 'X_RATE', '  ')).not.toBe(null);
+      expect(validateNamedRange(names, 'X_RATE', 'SUM(A1')).toContain(
+        '잘못된 정의'
+      );
+    });
+  });
+
+  it('should detect name usages in formulas', () => {
+    expect(formulaUsesName('=B2 * crit_multiplier', 'CRIT_MULTIPLIER')).toBe(
+      true
+    );
+    expect(formulaUsesName('="CRIT_MULTIPLIER"', 'CRIT_MULTIPLIER')).toBe(
+      false
+    );
+  });
+
+  it('should rename names without touching strings or functions', () => {
+    expect(
+      renameNameInFormula('=SUM(RATE) + rate * "RATE"', 'RATE', 'DROP_RATE')
+    ).toBe('=SUM(DROP_RATE) + DROP_RATE * "RATE"');
+  });
+
+  describe('LAMBDA names', () => {
+    const lambda = 'LAMBDA(hp, def, hp * (1 + def / 100))';
+
+    it('should detect LAMBDA definitions', () => {
+      expect(isLambdaDefinition(lambda)).toBe(true);
+      expect(isLambdaDefinition('=lambda(x, x)')).toBe(true);
+      expect(isLambdaDefinition('1.5')).toBe(false);
+      expect(isLambdaDefinition('LAMBDA(')).toBe(false);
+    });
+
+    it('should list LAMBDA names as functions', () => {
+      const functionNames = getFunctionNames([
+        ...names,
+        { id: 'n3', name: 'Effective_HP', definition: lambda },
+      ]);
+      expect(functionNames).toContain('SUM');
+      expect(functionNames).toContain('LET');
+      expect(functionNames).toContain('EFFECTIVE_HP');
+      expect(functionNames).not.toContain('CRIT_MULTIPLIER');
+    });
+
+    it('should find and rename LAMBDA calls', () => {
+      expect(formulaUsesName('=effective_hp(B2, C2)', 'EFFECTIVE_HP')).toBe(
+        true
+      );
+      expect(
+        renameNameInFormula('=EFFECTIVE_HP(B2, C2) * 2', 'EFFECTIVE_HP', 'EHP')
+      ).toBe('=EHP(B2, C2) * 2');
+    });
+  });
+
+  it('should list cell and name usages', () => {
+    const sheet = createMockSheet({
+      name: 'Combat',
+      columns: ['dmg'],
+      rows: [{ dmg: 10 }, { dmg: 20 }],
+    });
+    sheet.rows[1].cells['col-dmg'].formula = '=A1 * CRIT_MULTIPLIER';
+
+    expect(findNameUsages([sheet], names, 'CRIT_MULTIPLIER')).toEqual([
+      {
+        type: 'cell',
+        sheetId: sheet.id,
+        sheetName: 'Combat',
+        rowIndex: 1,
+        columnIndex: 0,
+        formula: '=A1 * CRIT_MULTIPLIER',
+      },
+      {
+        type: 'name',
+        nameId: 'n2',
+        name: 'CRIT_DAMAGE',
+        formula: 'BASE_DMG * CRIT_MULTIPLIER',
+      },
+    ]);
+  });
+});
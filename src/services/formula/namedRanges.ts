@@ -0,0 +1,223 @@
+/**
+ * Named Ranges
+ * 워크북 수준 이름 정의(이름 있는 범위/상수/LAMBDA 함수) 검증, 이름 변경, 사용처 검색
+ */
+
+import type { NamedRange, Sheet } from '@types';
+import { FormulaParser, type Token } from './formulaParser';
+import { BINDING_FUNCTIONS, FORMULA_FUNCTIONS } from './formulaFunctions';
+
+/**
+ * 이름이 사용된 위치 (셀 수식 또는 다른 이름의 정의)
+ */
+export type NameUsage =
+  | {
+      type: 'cell';
+      sheetId: string;
+      sheetName: string;
+      rowIndex: number;
+      columnIndex: number;
+      formula: string;
+    }
+  | {
+      type: 'name';
+      nameId: string;
+      name: string;
+      formula: string;
+    };
+
+const parser = new FormulaParser();
+
+/**
+ * 이름 규칙: 문자/밑줄로 시작, 셀 참조(A1)나 TRUE/FALSE와 겹치지 않아야 함
+ */
+export const isValidName = (name: string): boolean => {
+  if (!/^[\p{L}_][\p{L}\p{N}_]*$/u.test(name)) return false;
+  if (/^[A-Z]+\d+$/i.test(name)) return false;
+  return !['TRUE', 'FALSE'].includes(name.toUpperCase());
+};
+
+/**
+ * 내장 함수 이름인지 확인 (이름으로 사용할 수 없음)
+ */
+const isBuiltInFunctionName = (name: string): boolean => {
+  const upper = name.toUpperCase();
+  return upper in FORMULA_FUNCTIONS || BINDING_FUNCTIONS.has(upper);
+};
+
+/**
+ * 정의가 LAMBDA(...)인지 확인 (=EFFECTIVE_HP(hp, def)처럼 함수로 호출 가능)
+ */
+export const isLambdaDefinition = (definition: string): boolean => {
+  try {
+    const ast = parser.parse(definition);
+    return (
+      ast.type === 'function' && String(ast.value).toUpperCase() === 'LAMBDA'
+    );
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * 수식에서 호출할 수 있는 함수 이름 (내장 함수 + LAMBDA로 정의된 이름)
+ */
+export const getFunctionNames = (names: NamedRange[]): string[] => [
+  ...Object.keys(FORMULA_FUNCTIONS),
+  ...BINDING_FUNCTIONS,
+  ...names
+    .filter((named) => isLambdaDefinition(named.definition))
+    .map((named) => named.name.toUpperCase()),
+];
+
+/**
+ * 이름 검색 (대소문자 무시)
+ */
+export const findName = (
+  names: NamedRange[],
+  name: string
+): NamedRange | undefined => {
+  const lower = name.toLowerCase();
+  return names.find((n) => n.name.toLowerCase() === lower);
+};
+
+/**
+ * 이름과 정의 검증
+ * 문제가 없으면 null, 있으면 오류 메시지를 반환
+ */
+export const validateNamedRange = (
+  names: NamedRange[],
+  name: string,
+  definition: string,
+  excludeId?: string
+): string | null => {
+  if (!isValidName(name)) {
+    return '이름은 문자나 밑줄로 시작해야 하며 셀 주소(A1)와 같을 수 없습니다';
+  }
+
+  if (isBuiltInFunctionName(name)) {
+    return `'${name}'은(는) 내장 함수 이름이므로 사용할 수 없습니다`;
+  }
+
+  const existing = findName(names, name);
+  if (existing && existing.id !== excludeId) {
+    return `'${name}' 이름이 이미 존재합니다`;
+  }
+
+  if (!definition.trim()) {
+    return '정의를 입력하세요';
+  }
+
+  try {
+    parser.parse(definition);
+  } catch (error) {
+    return `잘못된 정의: ${error instanceof Error ? error.message : 'Unknown error'}`;
+  }
+
+  return null;
+};
+
+/**
+ * 수식의 토큰 목록 (파싱할 수 없으면 빈 배열)
+ */
+const tokenizeFormula = (
+  formula: string
+): { body: string; tokens: Token[] } => {
+  const body = formula.trim().startsWith('=')
+    ? formula.trim().substring(1)
+    : formula.trim();
+
+  try {
+    return { body, tokens: parser.tokenize(body) };
+  } catch {
+    return { body, tokens: [] };
+  }
+};
+
+/**
+ * 토큰이 해당 이름(또는 LAMBDA 이름 호출)인지 확인
+ */
+const isNameToken = (token: Token, lower: string): boolean =>
+  (token.type === 'name' || token.type === 'function') &&
+  token.value.toLowerCase() === lower;
+
+/**
+ * 수식이 해당 이름을 참조하는지 확인
+ */
+export const formulaUsesName = (formula: string, name: string): boolean => {
+  const lower = name.toLowerCase();
+  return tokenizeFormula(formula).tokens.some((token) =>
+    isNameToken(token, lower)
+  );
+};
+
+/**
+ * 수식 안의 이름 참조를 새 이름으로 변경
+ */
+export const renameNameInFormula = (
+  formula: string,
+  oldName: string,
+  newName: string
+): string => {
+  const { body, tokens } = tokenizeFormula(formula);
+  const lower = oldName.toLowerCase();
+  const targets = tokens.filter(
+    (token) =>
+      isNameToken(token, lower) &&
+      token.start !== undefined &&
+      token.end !== undefined
+  );
+  if (targets.length === 0) return formula;
+
+  let result = '';
+  let cursor = 0;
+  for (const token of targets) {
+    result += body.substring(cursor, token.start) + newName;
+    cursor = token.end ?? cursor;
+  }
+  result += body.substring(cursor);
+
+  return formula.trim().startsWith('=') ? `=${result}` : result;
+};
+
+/**
+ * 이름을 참조하는 모든 셀 수식과 이름 정의 검색
+ */
+export const findNameUsages = (
+  sheets: Sheet[],
+  names: NamedRange[],
+  name: string
+): NameUsage[] => {
+  const usages: NameUsage[] = [];
+
+  sheets.forEach((sheet) => {
+    sheet.rows.forEach((row, rowIndex) => {
+      sheet.columns.forEach((column, columnIndex) => {
+        const formula = row.cells[column.id]?.formula;
+        if (formula && formulaUsesName(formula, name)) {
+          usages.push({
+            type: 'cell',
+            sheetId: sheet.id,
+            sheetName: sheet.name,
+            rowIndex,
+            columnIndex,
+            formula,
+          });
+        }
+      });
+    });
+  });
+
+  names.forEach((named) => {
+    if (formulaUsesName(named.definition, name)) {
+      usages.push({
+        type: 'name',
+        nameId: named.id,
+        name: named.name,
+        formula: named.definition,
+      });
+    }
+  });
+
+  return usages;
+};
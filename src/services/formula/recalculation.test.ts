@@ -0,0 +1,245 @@
+/**
+ * Recalculation Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { Sheet } from '@types';
+import { createMockSheet } from '@test/utils/mockData';
+import { generateSheetCellId } from '@utils/cellUtils';
+import { formulaEvaluator } from './formulaEvaluator';
+import {
+  applyCellUpdate,
+  prepareWorkbook,
+  recalculateCells,
+  recalculateWorkbook,
+  type CellUpdate,
+} from './recalculation';
+import {
+  handleRecalculationRequest,
+  RecalculationClient,
+  RecalculationWorkerError,
+  type RecalculationMessage,
+} from './recalculationClient';
+
+describe('Recalculation', () => {
+  let sheet: Sheet;
+
+  const getCell = (row: number, column: string) =>
+    sheet.rows[row].cells[`col-${column}`];
+
+  const setFormula = (row: number, column: string, formula: string) => {
+    const cell = getCell(row, column);
+    cell.formula = formula;
+    cell.type = 'formula';
+  };
+
+  beforeEach(() => {
+    formulaEvaluator.setNames([]);
+    sheet = createMockSheet({
+      columns: ['A', 'B', 'C', 'D'],
+      rows: [{ A: 1 }, { A: 2 }],
+    });
+    setFormula(0, 'B', '=A1*10');
+    setFormula(0, 'C', '=B1+A2');
+    setFormula(0, 'D', '=B1+C1');
+  });
+
+  it('should recalculate the whole workbook in dependency order', () => {
+    recalculateWorkbook([sheet]);
+
+    expect(getCell(0, 'B').value).toBe(10);
+    expect(getCell(0, 'C').value).toBe(12);
+    expect(getCell(0, 'D').value).toBe(22);
+  });
+
+  it('should only recalculate dependents of changed cells', () => {
+    prepareWorkbook([sheet]);
+    recalculateCells(
+      [sheet],
+      ['B', 'C', 'D'].map((c) =>
+        generateSheetCellId(sheet.id, `row-0:col-${c}`)
+      ),
+      { includeSources: true }
+    );
+
+    getCell(1, 'A').value = 5;
+    const changed = recalculateCells(
+      [sheet],
+      [generateSheetCellId(sheet.id, 'row-1:col-A')]
+    );
+
+    expect(changed.sort()).toEqual(
+      ['C', 'D'].map((c) => generateSheetCellId(sheet.id, `row-0:col-${c}`))
+    );
+    expect(getCell(0, 'C').value).toBe(15);
+    expect(getCell(0, 'D').value).toBe(25);
+  });
+
+  it('should send worker results that apply to the original sheets', () => {
+    const messages: RecalculationMessage[] = [];
+    handleRecalculationRequest(
+      {
+        requestId: 1,
+        sheets: [structuredClone(sheet)],
+        names: [],
+        sources: null,
+      },
+      (message) => messages.push(message)
+    );
+
+    expect(messages[messages.length - 1]).toEqual({
+      type: 'done',
+      requestId: 1,
+    });
+    const updates = messages.flatMap((message) =>
+      message.type === 'updates' ? message.updates : []
+    ) as CellUpdate[];
+    updates.forEach((update) => applyCellUpdate([sheet], update));
+
+    expect(getCell(0, 'D').value).toBe(22);
+  });
+
+  it('should skip worker results for cells whose formula changed', () => {
+    const worker = structuredClone(sheet);
+    const messages: RecalculationMessage[] = [];
+    handleRecalculationRequest(
+      { requestId: 2, sheets: [worker], names: [], sources: null },
+      (message) => messages.push(message)
+    );
+
+    setFormula(0, 'B', '=A1*100');
+    const update = messages
+      .flatMap((message) => (message.type === 'updates' ? message.updates : []))
+      .find((u) => u.cellId === 'row-0:col-B')!;
+
+    expect(applyCellUpdate([sheet], update)).toBe(false);
+    expect(getCell(0, 'B').value).toBeNull();
+  });
+
+  it('should not let worker results overwrite values typed meanwhile', () => {
+    setFormula(0, 'B', '=SEQUENCE(2, 1, A1)');
+    const untouched = structuredClone(sheet);
+    const messages: RecalculationMessage[] = [];
+    handleRecalculationRequest(
+      {
+        requestId: 3,
+        sheets: [structuredClone(sheet)],
+        names: [],
+        sources: null,
+      },
+      (message) => messages.push(message)
+    );
+    const updates = messages.flatMap((message) =>
+      message.type === 'updates' ? message.updates : []
+    );
+
+    // The user typed into the spill range while the worker was running
+    getCell(1, 'B').value = 'typed';
+    getCell(1, 'B').type = 'text';
+    updates.forEach((update) => applyCellUpdate([sheet], update));
+
+    expect(getCell(0, 'B').value).toBe(1);
+    expect(getCell(1, 'B')).toMatchObject({ value: 'typed', type: 'text' });
+    expect(getCell(1, 'B').spilledFrom).toBeUndefined();
+
+    // A blank cell is still claimed by the spill
+    updates.forEach((update) => applyCellUpdate([untouched], update));
+    expect(untouched.rows[1].cells['col-B']).toMatchObject({
+      value: 2,
+      spilledFrom: 'row-0:col-B',
+    });
+  });
+
+  it('should hand the request back when the worker crashes', async () => {
+    class CrashingWorker extends EventTarget {
+      static created = 0;
+      constructor() {
+        super();
+        CrashingWorker.created++;
+      }
+      postMessage() {
+        queueMicrotask(() =>
+          this.dispatchEvent(
+            new ErrorEvent('error', { message: 'boom', cancelable: true })
+          )
+        );
+      }
+      terminate() {}
+    }
+    vi.stubGlobal('Worker', CrashingWorker);
+
+    try {
+      const client = new RecalculationClient();
+      const request = { sheets: [sheet], names: [], randomSeed: 1 };
+      const failure = await client
+        .recalculate({ ...request, sources: ['s:a'] }, () => {})
+        .catch((error: unknown) => error);
+
+      expect(failure).toBeInstanceOf(RecalculationWorkerError);
+      expect(failure).toMatchObject({
+        message: 'boom',
+        sources: ['s:a'],
+        includeSources: false,
+      });
+      expect(client.isBusy()).toBe(false);
+
+      // The crashed worker is replaced on the next request
+      await expect(
+        client.recalculate({ ...request, sources: null }, () => {})
+      ).rejects.toMatchObject({ sources: null });
+      expect(CrashingWorker.created).toBe(2);
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+
+  describe('iterative calculation', () => {
+    afterEach(() => formulaEvaluator.setIterativeCalculation(null));
+
+    // Price depends on demand, which depends on price
+    const setBalanceModel = () => {
+      setFormula(1, 'B', '=100 - C2 * 0.5');
+      setFormula(1, 'C', '=20 + B2 * 0.2');
+      setFormula(1, 'D', '=B2 * C2');
+    };
+
+    it('should report circular references as #CIRC! when disabled', () => {
+      setBalanceModel();
+      recalculateWorkbook([sheet]);
+
+      expect(getCell(1, 'B').value).toBe('#CIRC!');
+      expect(getCell(1, 'C').value).toBe('#CIRC!');
+    });
+
+    it('should converge circular references and refresh their dependents', () => {
+      formulaEvaluator.setIterativeCalculation({
+        enabled: true,
+        maxIterations: 100,
+        tolerance: 0.000001,
+      });
+      setBalanceModel();
+      recalculateWorkbook([sheet]);
+
+      const price = getCell(1, 'B').value as number;
+      const demand = getCell(1, 'C').value as number;
+      expect(price).toBeCloseTo(90 / 1.1, 5);
+      expect(demand).toBeCloseTo(20 + (90 / 1.1) * 0.2, 5);
+      expect(getCell(1, 'D').value).toBeCloseTo(price * demand, 5);
+    });
+
+    it('should report non-convergence as a cell error', () => {
+      formulaEvaluator.setIterativeCalculation({
+        enabled: true,
+        maxIterations: 10,
+        tolerance: 0.001,
+      });
+      setFormula(1, 'B', '=B2 + 1');
+      setFormula(1, 'D', '=B2 * 2');
+
+      expect(() => recalculateWorkbook([sheet])).not.toThrow();
+      expect(getCell(1, 'B').value).toBe('#NUM!');
+      expect(getCell(1, 'B').error).toMatch(/did not converge in 10/);
+      expect(getCell(1, 'D').value).toBe('#NUM!');
+    });
+  });
+});
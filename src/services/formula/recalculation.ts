@@ -0,0 +1,564 @@
+/**
+ * Recalculation
+ * 수식 셀 재계산: 결과/오류 반영, 배열 결과 펼치기(spill),
+ * 의존성 그래프의 변경 셀 표시(dirty)와 위상 정렬 순서의 증분 재계산
+ * 메인 스레드(스토어)와 재계산 워커가 함께 사용한다
+ */
+
+import type {
+  Cell,
+  CellValue,
+  IterativeCalculation,
+  Sheet,
+  SpillRange,
+} from '@types';
+import {
+  generateCellId,
+  generateSheetCellId,
+  parseCellId,
+  parseSheetCellId,
+} from '@utils/cellUtils';
+import { formulaEvaluator } from './formulaEvaluator';
+import { formulaCache } from './formulaCache';
+import type { RangeValue } from './formulaFunctions';
+import {
+  FormulaError,
+  FORMULA_ERROR_DESCRIPTIONS,
+  isFormulaError,
+  toFormulaError,
+} from './formulaErrors';
+
+/**
+ * 반복 계산 기본값 (꺼짐, 최대 100회, 변화량 0.001 이하면 수렴)
+ */
+export const DEFAULT_ITERATIVE_CALCULATION: IterativeCalculation = {
+  enabled: false,
+  maxIterations: 100,
+  tolerance: 0.001,
+};
+
+/**
+ * 수식 결과를 셀 값과 타입에 반영
+ * 오류 값(#N/A 등)은 설명을 cell.error에 남긴다
+ */
+export const applyFormulaResult = (cell: Cell, result: CellValue) => {
+  cell.value = result;
+  cell.error = isFormulaError(result)
+    ? FORMULA_ERROR_DESCRIPTIONS[result]
+    : undefined;
+
+  // Update cell type based on result
+  if (typeof result === 'number') {
+    cell.type = 'number';
+  } else if (typeof result === 'boolean') {
+    cell.type = 'boolean';
+  } else if (result instanceof Date) {
+    cell.type = 'date';
+  } else {
+    cell.type = 'text';
+  }
+};
+
+/**
+ * 수식 평가 실패 시 오류 코드(#DIV/0! 등)와 메시지를 셀에 기록
+ */
+export const applyFormulaError = (cell: Cell, error: unknown) => {
+  const formulaError = toFormulaError(error);
+  cell.value = formulaError.code;
+  cell.error = formulaError.message;
+  cell.type = 'text';
+};
+
+/**
+ * 배열 수식(앵커 셀)이 펼친 셀 비우기
+ * 비워진 셀 ID 목록을 반환한다
+ */
+export const clearSpill = (anchor: Cell, sheet: Sheet): string[] => {
+  if (!anchor.spill) return [];
+
+  const anchorId = generateCellId(anchor.rowId, anchor.columnId);
+  const cleared: string[] = [];
+  sheet.rows.forEach((row) => {
+    Object.values(row.cells).forEach((cell) => {
+      if (cell.spilledFrom !== anchorId) return;
+      cell.spilledFrom = undefined;
+      cell.value = null;
+      cell.error = undefined;
+      cleared.push(generateCellId(cell.rowId, cell.columnId));
+    });
+  });
+
+  anchor.spill = undefined;
+  formulaEvaluator.setSpill(generateSheetCellId(sheet.id, anchorId), []);
+  return cleared;
+};
+
+/**
+ * 배열 결과를 앵커 셀의 오른쪽/아래 셀로 펼침 (spill)
+ * 영역이 시트를 벗어나거나 비어있지 않으면 #SPILL!
+ * 값이 바뀐 셀 ID 목록을 반환한다
+ */
+export const applySpill = (
+  anchor: Cell,
+  sheet: Sheet,
+  result: RangeValue
+): string[] => {
+  const anchorId = generateCellId(anchor.rowId, anchor.columnId);
+  const anchorSheetCellId = generateSheetCellId(sheet.id, anchorId);
+  const changed = clearSpill(anchor, sheet);
+
+  const { rows, columns } = result;
+  if (rows * columns === 0) {
+    applyFormulaError(anchor, new FormulaError('#CALC!'));
+    return changed;
+  }
+
+  const top = sheet.rows.findIndex((r) => r.id === anchor.rowId);
+  const left = sheet.columns.findIndex((c) => c.id === anchor.columnId);
+  if (top + rows > sheet.rows.length || left + columns > sheet.columns.length) {
+    anchor.spill = { rows, columns };
+    applyFormulaError(
+      anchor,
+      new FormulaError('#SPILL!', 'Spill range extends beyond the sheet')
+    );
+    return changed;
+  }
+
+  // Collect target cells; anything non-empty blocks the spill
+  const precedents = formulaEvaluator.getPrecedents(anchorSheetCellId);
+  const targets: Array<{ cell: Cell; value: CellValue }> = [];
+  for (let r = 0; r < rows; r++) {
+    const row = sheet.rows[top + r];
+    for (let c = 0; c < columns; c++) {
+      if (r === 0 && c === 0) continue;
+
+      const column = sheet.columns[left + c];
+      const cellId = generateCellId(row.id, column.id);
+      if (precedents.has(generateSheetCellId(sheet.id, cellId))) {
+        applyFormulaError(
+          anchor,
+          new FormulaError(
+            '#CIRC!',
+            'Spill range overlaps the cells the formula references'
+          )
+        );
+        return changed;
+      }
+
+      const cell = row.cells[column.id];
+      const isEmpty =
+        !cell ||
+        (!cell.formula &&
+          !cell.spilledFrom &&
+          (cell.value === null ||
+            cell.value === undefined ||
+            cell.value === ''));
+      if (!isEmpty) {
+        anchor.spill = { rows, columns };
+        applyFormulaError(
+          anchor,
+          new FormulaError('#SPILL!', 'Spill range is not blank')
+        );
+        return changed;
+      }
+
+      targets.push({
+        cell:
+          cell ??
+          (row.cells[column.id] = {
+            id: cellId,
+            rowId: row.id,
+            columnId: column.id,
+            value: null,
+            type: column.type,
+          }),
+        value: result[r * columns + c] ?? null,
+      });
+    }
+  }
+
+  targets.forEach(({ cell, value }) => {
+    applyFormulaResult(cell, value);
+    cell.spilledFrom = anchorId;
+    changed.push(generateCellId(cell.rowId, cell.columnId));
+  });
+  applyFormulaResult(anchor, result[0] ?? null);
+  anchor.spill = { rows, columns };
+  formulaEvaluator.setSpill(
+    anchorSheetCellId,
+    targets.map(({ cell }) =>
+      generateSheetCellId(sheet.id, generateCellId(cell.rowId, cell.columnId))
+    )
+  );
+
+  return Array.from(new Set(changed));
+};
+
+/**
+ * 셀의 수식을 해당 시트 기준으로 다시 계산
+ * 배열 결과는 인접 셀로 펼치며, 펼침으로 값이 바뀐 셀 ID 목록을 반환한다
+ */
+export const evaluateCellFormula = (
+  cell: Cell,
+  sheet: Sheet,
+  sheets: Sheet[]
+): string[] => {
+  if (!cell.formula) return [];
+
+  const cellId = generateCellId(cell.rowId, cell.columnId);
+  const sheetCellId = generateSheetCellId(sheet.id, cellId);
+  let changed: string[];
+  try {
+    const result = formulaEvaluator.evaluateArray(
+      cellId,
+      cell.formula,
+      sheet,
+      sheets
+    );
+
+    if (Array.isArray(result)) {
+      changed = applySpill(cell, sheet, result as RangeValue);
+    } else {
+      changed = clearSpill(cell, sheet);
+      applyFormulaResult(cell, result);
+    }
+
+    formulaCache.set(sheetCellId, cell.value);
+  } catch (error) {
+    changed = clearSpill(cell, sheet);
+    applyFormulaError(cell, error);
+    formulaCache.invalidate(sheetCellId);
+  }
+  return changed;
+};
+
+/**
+ * 셀이 바뀐 뒤 그 셀을 펼침 영역에 포함하는 배열 수식을 다시 계산
+ * (막히면 #SPILL!, 비워지면 다시 펼침) 값이 바뀐 셀 ID 목록을 반환한다
+ */
+export const recheckSpillAnchors = (
+  sheet: Sheet,
+  rowId: string,
+  columnId: string,
+  sheets: Sheet[]
+): string[] => {
+  const rowIndex = sheet.rows.findIndex((r) => r.id === rowId);
+  const columnIndex = sheet.columns.findIndex((c) => c.id === columnId);
+  const changed: string[] = [];
+
+  sheet.rows.forEach((row, top) => {
+    Object.values(row.cells).forEach((anchor) => {
+      if (!anchor.spill || (row.id === rowId && anchor.columnId === columnId)) {
+        return;
+      }
+
+      const left = sheet.columns.findIndex((c) => c.id === anchor.columnId);
+      const covers =
+        rowIndex >= top &&
+        rowIndex < top + anchor.spill.rows &&
+        columnIndex >= left &&
+        columnIndex < left + anchor.spill.columns;
+      if (covers) {
+        changed.push(
+          generateCellId(anchor.rowId, anchor.columnId),
+          ...evaluateCellFormula(anchor, sheet, sheets)
+        );
+      }
+    });
+  });
+
+  return changed;
+};
+
+/**
+ * 재계산된 셀의 결과 (워커 → 스토어로 전달)
+ */
+export interface CellUpdate {
+  sheetId: string;
+  cellId: string; // rowId:columnId
+  formula?: string; // 계산에 사용한 수식 (그 사이 수식이 바뀌었으면 무시)
+  value: CellValue;
+  error?: string;
+  type: Cell['type'];
+  spill?: SpillRange;
+  spilledFrom?: string;
+  precedents: string[]; // 참조한 셀 (sheetCellId)
+  spilledCells: string[]; // 배열 결과를 펼친 셀 (sheetCellId)
+  volatile: boolean; // TODAY, NOW 등 휘발성 함수 사용 여부
+}
+
+/**
+ * Find a cell by its sheet-qualified id
+ */
+const findCell = (
+  sheets: Sheet[],
+  sheetCellId: string
+): { sheet: Sheet; cell: Cell } | undefined => {
+  const { sheetId, cellId } = parseSheetCellId(sheetCellId);
+  const sheet = sheets.find((s) => s.id === sheetId);
+  if (!sheet) return undefined;
+
+  const { rowId, columnId } = parseCellId(cellId);
+  const cell = sheet.rows.find((r) => r.id === rowId)?.cells[columnId];
+  return cell ? { sheet, cell } : undefined;
+};
+
+/**
+ * Change between two iterations of a cell (숫자가 아니면 같을 때만 0)
+ */
+const iterationChange = (previous: CellValue, next: CellValue): number => {
+  if (typeof previous === 'number' && typeof next === 'number') {
+    return Math.abs(next - previous);
+  }
+  if (previous instanceof Date && next instanceof Date) {
+    return previous.getTime() === next.getTime() ? 0 : Infinity;
+  }
+  return previous === next ? 0 : Infinity;
+};
+
+/**
+ * Re-evaluate cells on circular references until their values settle (반복 계산)
+ * 최대 반복 횟수 안에 변화가 허용 오차 이하로 줄지 않으면 #NUM! 오류를 남긴다
+ * @returns 배열 결과로 값이 바뀐 셀 목록 (sheetCellId)
+ */
+const iterateCircularCells = (
+  sheets: Sheet[],
+  cyclic: string[],
+  settings: IterativeCalculation
+): string[] => {
+  const targets = cyclic.flatMap((sheetCellId) => {
+    const target = findCell(sheets, sheetCellId);
+    return target?.cell.formula ? [{ ...target, sheetCellId }] : [];
+  });
+  const changed = new Set<string>();
+
+  for (let iteration = 0; iteration < settings.maxIterations; iteration++) {
+    let maxChange = 0;
+    targets.forEach(({ sheet, cell }) => {
+      const previous = cell.value;
+      evaluateCellFormula(cell, sheet, sheets).forEach((cellId) =>
+        changed.add(generateSheetCellId(sheet.id, cellId))
+      );
+      maxChange = Math.max(maxChange, iterationChange(previous, cell.value));
+    });
+    if (maxChange <= settings.tolerance) return Array.from(changed);
+  }
+
+  targets.forEach(({ sheet, cell, sheetCellId }) => {
+    clearSpill(cell, sheet).forEach((cellId) =>
+      changed.add(generateSheetCellId(sheet.id, cellId))
+    );
+    applyFormulaError(
+      cell,
+      new FormulaError(
+        '#NUM!',
+        `Iterative calculation did not converge in ${settings.maxIterations} iterations`
+      )
+    );
+    formulaCache.set(sheetCellId, cell.value);
+  });
+  return Array.from(changed);
+};
+
+/**
+ * Recalculate every formula cell that depends on the source cells
+ * 의존 셀을 변경(dirty)으로 표시하고 캐시를 비운 뒤 위상 정렬 순서로 한 번씩 평가한다
+ * 배열 결과로 값이 바뀐 셀은 다음 라운드의 소스가 된다
+ * @param options.includeSources - 소스 셀의 수식도 다시 계산 (이름 정의 변경 등)
+ * @returns 값이 바뀌었을 수 있는 셀 목록 (sheetCellId)
+ */
+export const recalculateCells = (
+  sheets: Sheet[],
+  sources: string[],
+  options: { includeSources?: boolean } = {}
+): string[] => {
+  const graph = formulaEvaluator.getGraph();
+  const recalculated = new Set<string>();
+  const processedSources = new Set<string>(sources);
+  let round = sources;
+  let includeSources = options.includeSources ?? false;
+
+  // Formulas of the sources may have changed, so their references come first
+  if (includeSources) {
+    sources.forEach((sheetCellId) => {
+      const target = findCell(sheets, sheetCellId);
+      if (!target?.cell.formula) return;
+      formulaEvaluator.registerReferences(
+        parseSheetCellId(sheetCellId).cellId,
+        target.cell.formula,
+        target.sheet,
+        sheets
+      );
+    });
+  }
+
+  while (round.length > 0) {
+    const dirty = graph.collectDirty(round);
+    if (includeSources) {
+      round.forEach((id) => dirty.add(id));
+      includeSources = false;
+    }
+
+    // Stale results must not be read while dependents are re-evaluated
+    dirty.forEach((id) => formulaCache.invalidate(id));
+
+    const next: string[] = [];
+    const addSpilled = (spilledId: string) => {
+      recalculated.add(spilledId);
+      if (!processedSources.has(spilledId)) {
+        processedSources.add(spilledId);
+        next.push(spilledId);
+      }
+    };
+    const evaluate = (sheetCellId: string) => {
+      const target = findCell(sheets, sheetCellId);
+      if (!target?.cell.formula) return;
+
+      recalculated.add(sheetCellId);
+      evaluateCellFormula(target.cell, target.sheet, sheets).forEach((cellId) =>
+        addSpilled(generateSheetCellId(target.sheet.id, cellId))
+      );
+    };
+
+    graph.topologicalOrder(dirty).forEach(evaluate);
+
+    // Iterative calculation: settle the cycles, then refresh the cells after them
+    const settings = formulaEvaluator.getIterativeCalculation();
+    const cyclic = settings ? graph.findCyclicCells(dirty) : [];
+    if (settings && cyclic.length > 0) {
+      iterateCircularCells(sheets, cyclic, settings).forEach(addSpilled);
+
+      const cyclicIds = new Set(cyclic);
+      const downstream = Array.from(graph.collectDirty(cyclic)).filter(
+        (id) => dirty.has(id) && !cyclicIds.has(id)
+      );
+      graph.topologicalOrder(downstream).forEach(evaluate);
+    }
+
+    round = next;
+  }
+
+  return Array.from(recalculated);
+};
+
+/**
+ * Rebuild the dependency graph and cache from the workbook's formulas
+ * 저장된 수식 결과를 캐시에 채워 변경되지 않은 셀은 다시 계산하지 않는다
+ * @returns 모든 수식 셀 목록 (sheetCellId)
+ */
+export const prepareWorkbook = (sheets: Sheet[]): string[] => {
+  formulaEvaluator.clearDependencies();
+
+  const formulaCells: string[] = [];
+  sheets.forEach((sheet) => {
+    sheet.rows.forEach((row) => {
+      Object.values(row.cells).forEach((cell) => {
+        if (!cell.formula) return;
+
+        const cellId = generateCellId(cell.rowId, cell.columnId);
+        const sheetCellId = generateSheetCellId(sheet.id, cellId);
+        formulaEvaluator.registerReferences(
+          cellId,
+          cell.formula,
+          sheet,
+          sheets
+        );
+        if (cell.value !== '#CIRC!') {
+          formulaCache.set(sheetCellId, cell.value);
+        }
+        formulaCells.push(sheetCellId);
+      });
+    });
+  });
+
+  return formulaCells;
+};
+
+/**
+ * Recalculate every formula in the workbook (불러오기 직후 등)
+ */
+export const recalculateWorkbook = (sheets: Sheet[]): string[] =>
+  recalculateCells(sheets, prepareWorkbook(sheets), { includeSources: true });
+
+/**
+ * Collect the results of recalculated cells
+ */
+export const collectCellUpdates = (
+  sheets: Sheet[],
+  sheetCellIds: string[]
+): CellUpdate[] =>
+  sheetCellIds.flatMap((sheetCellId) => {
+    const target = findCell(sheets, sheetCellId);
+    if (!target) return [];
+
+    const { sheet, cell } = target;
+    return [
+      {
+        sheetId: sheet.id,
+        cellId: generateCellId(cell.rowId, cell.columnId),
+        formula: cell.formula,
+        value: cell.value,
+        error: cell.error,
+        type: cell.type,
+        spill: cell.spill,
+        spilledFrom: cell.spilledFrom,
+        precedents: Array.from(formulaEvaluator.getPrecedents(sheetCellId)),
+        spilledCells: Array.from(
+          formulaEvaluator.getGraph().getSpill(sheetCellId)
+        ),
+        volatile: formulaEvaluator.getGraph().isVolatile(sheetCellId),
+      },
+    ];
+  });
+
+/**
+ * Apply a recalculated result (computed elsewhere, e.g. in the worker)
+ * 의존성 그래프와 캐시도 함께 갱신한다
+ * @returns 적용했으면 true (셀이 없거나 계산 중에 셀이 바뀌었으면 false)
+ */
+export const applyCellUpdate = (
+  sheets: Sheet[],
+  update: CellUpdate
+): boolean => {
+  const sheetCellId = generateSheetCellId(update.sheetId, update.cellId);
+  const target = findCell(sheets, sheetCellId);
+  if (!target || target.cell.formula !== update.formula) return false;
+
+  const { cell } = target;
+  if (!cell.formula) {
+    // A value cell only takes the result of a spill that still owns it (or
+    // may claim it while blank); a value typed or cleared meanwhile stays
+    const isBlank =
+      cell.value === null || cell.value === undefined || cell.value === '';
+    const owner =
+      cell.spilledFrom ?? (isBlank ? update.spilledFrom : undefined);
+    if (
+      !owner ||
+      (update.spilledFrom !== undefined && update.spilledFrom !== owner)
+    ) {
+      return false;
+    }
+  }
+
+  cell.value = update.value;
+  cell.error = update.error;
+  cell.type = update.type;
+  cell.spill = update.spill;
+  cell.spilledFrom = update.spilledFrom;
+
+  if (cell.formula) {
+    const graph = formulaEvaluator.getGraph();
+    graph.setPrecedents(sheetCellId, update.precedents);
+    graph.setSpill(sheetCellId, update.spilledCells);
+    graph.setVolatile(sheetCellId, update.volatile);
+
+    // Circular references are re-detected instead of read from the cache
+    if (cell.value === '#CIRC!') {
+      formulaCache.invalidate(sheetCellId);
+    } else {
+      formulaCache.set(sheetCellId, cell.value);
+    }
+  }
+
+  return true;
+};
@@ -0,0 +1,18 @@
+/**
+ * Recalculation Worker
+ * 메인 스레드를 막지 않도록 수식 재계산을 별도 스레드에서 실행
+ */
+
+import {
+  handleRecalculationRequest,
+  type RecalculationRequest,
+} from './recalculationClient';
+
+self.addEventListener(
+  'message',
+  (event: MessageEvent<RecalculationRequest>) => {
+    handleRecalculationRequest(event.data, (message) =>
+      self.postMessage(message)
+    );
+  }
+);
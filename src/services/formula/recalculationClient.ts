@@ -0,0 +1,260 @@
+/**
+ * Recalculation Client
+ * 대량 재계산을 Web Worker에서 실행하고 결과를 나눠서 받아오는 클라이언트
+ * 워커를 사용할 수 없는 환경(테스트 등)에서는 호출하는 쪽이 메인 스레드에서 계산한다
+ */
+
+import type { IterativeCalculation, NamedRange, Sheet } from '@types';
+import { formulaEvaluator } from './formulaEvaluator';
+import {
+  collectCellUpdates,
+  prepareWorkbook,
+  recalculateCells,
+  recalculateWorkbook,
+  type CellUpdate,
+} from './recalculation';
+
+/**
+ * 변경 셀이 이보다 많으면 워커에서 재계산
+ */
+export const WORKER_RECALC_THRESHOLD = 500;
+
+/**
+ * 워커가 한 번에 보내는 결과 수
+ */
+export const RECALC_UPDATE_CHUNK_SIZE = 500;
+
+/**
+ * 워커로 보내는 재계산 요청
+ * sources가 null이면 워크북 전체를 다시 계산한다
+ */
+export interface RecalculationRequest {
+  requestId: number;
+  sheets: Sheet[];
+  names: NamedRange[];
+  randomSeed: number;
+  iterativeCalculation?: IterativeCalculation;
+  sources: string[] | null;
+  includeSources?: boolean;
+}
+
+/**
+ * 워커가 보내는 메시지
+ */
+export type RecalculationMessage =
+  | { type: 'updates'; requestId: number; updates: CellUpdate[] }
+  | { type: 'done'; requestId: number }
+  | { type: 'error'; requestId: number; message: string };
+
+/**
+ * Handle a recalculation request (runs inside the worker)
+ * 워커의 시트는 복사본이므로 의존성 그래프를 다시 만든 뒤 결과만 돌려보낸다
+ */
+export const handleRecalculationRequest = (
+  request: RecalculationRequest,
+  post: (message: RecalculationMessage) => void
+): void => {
+  const { requestId, sheets, names, randomSeed, sources } = request;
+
+  try {
+    formulaEvaluator.setNames(names);
+    formulaEvaluator.setRandomSeed(randomSeed);
+    formulaEvaluator.setIterativeCalculation(
+      request.iterativeCalculation ?? null
+    );
+
+    let changed: string[];
+    if (sources === null) {
+      changed = recalculateWorkbook(sheets);
+    } else {
+      prepareWorkbook(sheets);
+      changed = recalculateCells(sheets, sources, {
+        includeSources: request.includeSources,
+      });
+    }
+
+    const updates = collectCellUpdates(sheets, changed);
+    for (let i = 0; i < updates.length; i += RECALC_UPDATE_CHUNK_SIZE) {
+      post({
+        type: 'updates',
+        requestId,
+        updates: updates.slice(i, i + RECALC_UPDATE_CHUNK_SIZE),
+      });
+    }
+    post({ type: 'done', requestId });
+  } catch (error) {
+    post({
+      type: 'error',
+      requestId,
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+};
+
+/**
+ * Recalculation the worker could not finish (크래시 등)
+ * 호출하는 쪽이 sources로 메인 스레드에서 다시 계산한다 (null이면 워크북 전체)
+ */
+export class RecalculationWorkerError extends Error {
+  readonly sources: string[] | null;
+  readonly includeSources: boolean;
+
+  constructor(
+    message: string,
+    sources: string[] | null,
+    includeSources: boolean
+  ) {
+    super(message);
+    this.name = 'RecalculationWorkerError';
+    this.sources = sources;
+    this.includeSources = includeSources;
+  }
+}
+
+interface PendingRequest {
+  requestId: number;
+  sources: string[] | null;
+  includeSources: boolean;
+  onUpdates: (updates: CellUpdate[]) => void;
+  resolve: (completed: boolean) => void;
+  reject: (error: Error) => void;
+}
+
+export class RecalculationClient {
+  private worker: Worker | null = null;
+  private requestId = 0;
+  private pending: PendingRequest | null = null;
+
+  /**
+   * Check whether Web Workers are supported
+   */
+  isAvailable(): boolean {
+    return typeof Worker !== 'undefined';
+  }
+
+  /**
+   * Check whether a recalculation is running in the worker
+   */
+  isBusy(): boolean {
+    return this.pending !== null;
+  }
+
+  /**
+   * Recalculate in the worker, streaming results to onUpdates
+   * 진행 중인 요청은 취소되고 그 소스는 새 요청에 합쳐진다
+   * @returns 완료되면 true, 새 요청으로 대체되면 false
+   */
+  recalculate(
+    request: Omit<RecalculationRequest, 'requestId'>,
+    onUpdates: (updates: CellUpdate[]) => void
+  ): Promise<boolean> {
+    let { sources } = request;
+    let includeSources = request.includeSources ?? false;
+
+    if (this.pending) {
+      // The superseded request's cells still need to be recalculated
+      const previous = this.pending;
+      sources =
+        sources === null || previous.sources === null
+          ? null
+          : Array.from(new Set([...previous.sources, ...sources]));
+      includeSources ||= previous.includeSources;
+
+      this.cancel();
+      previous.resolve(false);
+    }
+
+    const requestId = ++this.requestId;
+    return new Promise<boolean>((resolve, reject) => {
+      this.pending = {
+        requestId,
+        sources,
+        includeSources,
+        onUpdates,
+        resolve,
+        reject,
+      };
+      this.getWorker().postMessage({
+        requestId,
+        sheets: request.sheets,
+        names: request.names,
+        randomSeed: request.randomSeed,
+        iterativeCalculation: request.iterativeCalculation,
+        sources,
+        includeSources,
+      } satisfies RecalculationRequest);
+    });
+  }
+
+  /**
+   * Stop the running recalculation
+   */
+  private cancel(): void {
+    this.worker?.terminate();
+    this.worker = null;
+    this.pending = null;
+  }
+
+  private getWorker(): Worker {
+    if (!this.worker) {
+      this.worker = new Worker(
+        new URL('./recalculation.worker.ts', import.meta.url),
+        { type: 'module' }
+      );
+      this.worker.addEventListener(
+        'message',
+        (event: MessageEvent<RecalculationMessage>) =>
+          this.handleMessage(event.data)
+      );
+      // A crashed worker (or an unreadable message) would otherwise leave the request hanging
+      this.worker.addEventListener('error', (event) => {
+        event.preventDefault();
+        this.handleWorkerFailure(event.message || 'Worker error');
+      });
+      this.worker.addEventListener('messageerror', () =>
+        this.handleWorkerFailure('Unreadable worker message')
+      );
+    }
+    return this.worker;
+  }
+
+  /**
+   * Drop the failed worker and hand the running request back to the caller
+   * 다음 요청은 새 워커에서 실행된다
+   */
+  private handleWorkerFailure(reason: string): void {
+    const pending = this.pending;
+    this.cancel();
+    pending?.reject(
+      new RecalculationWorkerError(
+        reason,
+        pending.sources,
+        pending.includeSources
+      )
+    );
+  }
+
+  private handleMessage(message: RecalculationMessage): void {
+    const pending = this.pending;
+    if (!pending || message.requestId !== pending.requestId) return;
+
+    switch (message.type) {
+      case 'updates':
+        pending.onUpdates(message.updates);
+        break;
+      case 'done':
+        this.pending = null;
+        pending.resolve(true);
+        break;
+      case 'error':
+        this.pending = null;
+        pending.reject(new Error(message.message));
+        break;
+    }
+  }
+}
+
+/**
+ * Singleton instance
+ */
+export const recalculationClient = new RecalculationClient();
@@ -0,0 +1,143 @@
+/**
+ * Reference Adjuster Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  adjustFormulaReferences,
+  createInsertionMap,
+  createDeletionMap,
+  createReorderMap,
+  formulaReferencesSheet,
+  renameColumnInFormula,
+  renameSheetInFormula,
+} from './referenceAdjuster';
+
+const sameSheet = () => true;
+
+describe('referenceAdjuster', () => {
+  describe('Row insertion', () => {
+    it('should shift references at or below the inserted row', () => {
+      const map = createInsertionMap('row', 1); // before row 2
+      expect(adjustFormulaReferences('=A1+A2+$A$5', map, sameSheet)).toBe(
+        '=A1+A3+$A$6'
+      );
+    });
+
+    it('should grow ranges that span the inserted row', () => {
+      const map = createInsertionMap('row', 5);
+      expect(adjustFormulaReferences('=SUM(C2:C20)', map, sameSheet)).toBe(
+        '=SUM(C2:C21)'
+      );
+    });
+
+    it('should move ranges below the inserted row', () => {
+      const map = createInsertionMap('row', 1);
+      expect(adjustFormulaReferences('=SUM(C2:C20)', map, sameSheet)).toBe(
+        '=SUM(C3:C21)'
+      );
+    });
+  });
+
+  describe('Row deletion', () => {
+    it('should produce #REF! for deleted cells', () => {
+      const map = createDeletionMap('row', 2); // row 3
+      expect(adjustFormulaReferences('=B3+B4', map, sameSheet)).toBe(
+        '=#REF!+B3'
+      );
+    });
+
+    it('should shrink ranges that span the deleted row', () => {
+      const map = createDeletionMap('row', 4);
+      expect(adjustFormulaReferences('=SUM(C2:C20)', map, sameSheet)).toBe(
+        '=SUM(C2:C19)'
+      );
+      expect(
+        adjustFormulaReferences(
+          '=SUM(C2:C20)',
+          createDeletionMap('row', 1),
+          sameSheet
+        )
+      ).toBe('=SUM(C2:C19)');
+    });
+
+    it('should produce #REF! when the whole range is deleted', () => {
+      const map = createDeletionMap('row', 1, 3);
+      expect(adjustFormulaReferences('=SUM(C2:C4)', map, sameSheet)).toBe(
+        '=SUM(#REF!)'
+      );
+    });
+  });
+
+  describe('Column changes', () => {
+    it('should shift columns and keep anchors', () => {
+      const map = createInsertionMap('column', 1); // before column B
+      expect(adjustFormulaReferences('=$A1+$B$1+C1', map, sameSheet)).toBe(
+        '=$A1+$C$1+D1'
+      );
+    });
+
+    it('should shrink column ranges on deletion', () => {
+      const map = createDeletionMap('column', 2); // column C
+      expect(adjustFormulaReferences('=SUM(A1:D1)+C1', map, sameSheet)).toBe(
+        '=SUM(A1:C1)+#REF!'
+      );
+    });
+  });
+
+  describe('Reordering', () => {
+    it('should follow moved cells and keep ranges in place', () => {
+      const map = createReorderMap('row', [2, 0, 1]);
+      expect(adjustFormulaReferences('=A1+SUM(A1:A3)', map, sameSheet)).toBe(
+        '=A3+SUM(A1:A3)'
+      );
+    });
+  });
+
+  it('should leave unaffected references alone', () => {
+    const map = createInsertionMap('row', 0);
+    expect(
+      adjustFormulaReferences(
+        "=A1+'Item Data'!A1",
+        map,
+        (token) => token.sheet === 'Item Data'
+      )
+    ).toBe("=A1+'Item Data'!A2");
+  });
+
+  describe('Sheet rename', () => {
+    it('should rewrite cell, range and column references to the sheet', () => {
+      expect(
+        renameSheetInFormula(
+          '=Items!B2+SUM(items!B2:B9)+AVERAGE(Items[price])+Other!A1+A1',
+          'Items',
+          'Item Data'
+        )
+      ).toBe(
+        "='Item Data'!B2+SUM('Item Data'!B2:B9)+AVERAGE('Item Data'[price])+Other!A1+A1"
+      );
+    });
+
+    it('should rewrite name definitions written without =', () => {
+      expect(
+        renameSheetInFormula("'Drop Table'!B1:B3", 'Drop Table', 'Drops')
+      ).toBe('Drops!B1:B3');
+      expect(formulaReferencesSheet("'Drop Table'!B1", 'drop table')).toBe(
+        true
+      );
+      expect(formulaReferencesSheet('=B1*2', 'Drop Table')).toBe(false);
+    });
+  });
+
+  it('should rewrite only the column references picked by isTarget', () => {
+    expect(
+      renameColumnInFormula(
+        "=[attack]*2+SUM(Items[Attack])+'Enemy Data'[attack]",
+        (token) =>
+          token.value.toLowerCase() === 'attack' &&
+          token.sheet !== 'Enemy Data',
+        'atk'
+      )
+    ).toBe("=[atk]*2+SUM(Items[atk])+'Enemy Data'[attack]");
+  });
+});
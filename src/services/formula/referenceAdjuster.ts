@@ -0,0 +1,219 @@
+/**
+ * Reference Adjuster
+ * 행/열 삽입, 삭제, 정렬 시 수식의 셀/범위 참조를 재작성
+ */
+
+import {
+  FormulaParser,
+  parseReferenceParts,
+  formatReferenceParts,
+  rewriteFormulaReferences,
+  type CellReferenceParts,
+  type Token,
+} from './formulaParser';
+
+export type ReferenceAxis = 'row' | 'column';
+
+/**
+ * 구조 변경 전 인덱스 → 변경 후 인덱스 매핑
+ * null은 참조 대상이 삭제되었음을 뜻한다 (#REF!)
+ */
+export interface ReferenceIndexMap {
+  axis: ReferenceAxis;
+  mapIndex: (index: number) => number | null;
+  mapRange: (start: number, end: number) => [number, number] | null;
+}
+
+/**
+ * index 위치에 count개가 삽입된 경우
+ * 삽입 위치 이후의 참조는 밀려나고, 범위 안에 삽입되면 범위가 늘어난다
+ */
+export const createInsertionMap = (
+  axis: ReferenceAxis,
+  index: number,
+  count = 1
+): ReferenceIndexMap => {
+  const mapIndex = (i: number) => (i >= index ? i + count : i);
+  return {
+    axis,
+    mapIndex,
+    mapRange: (start, end) => [mapIndex(start), mapIndex(end)],
+  };
+};
+
+/**
+ * index부터 count개가 삭제된 경우
+ * 삭제된 셀 참조는 #REF!가 되고, 범위는 남은 부분으로 줄어든다
+ */
+export const createDeletionMap = (
+  axis: ReferenceAxis,
+  index: number,
+  count = 1
+): ReferenceIndexMap => {
+  const last = index + count - 1;
+  return {
+    axis,
+    mapIndex: (i) => {
+      if (i < index) return i;
+      if (i > last) return i - count;
+      return null;
+    },
+    mapRange: (start, end) => {
+      const newStart = start < index ? start : Math.max(start - count, index);
+      const newEnd = end > last ? end - count : Math.min(end, index - 1);
+      return newEnd < newStart ? null : [newStart, newEnd];
+    },
+  };
+};
+
+/**
+ * 정렬 등으로 순서가 바뀐 경우 (newIndexOf[이전 인덱스] = 새 인덱스)
+ * 단일 셀 참조는 이동한 셀을 따라가고, 범위는 같은 영역을 유지한다
+ */
+export const createReorderMap = (
+  axis: ReferenceAxis,
+  newIndexOf: number[]
+): ReferenceIndexMap => ({
+  axis,
+  mapIndex: (i) => newIndexOf[i] ?? i,
+  mapRange: (start, end) => [start, end],
+});
+
+const getIndex = (parts: CellReferenceParts, axis: ReferenceAxis) =>
+  axis === 'row' ? parts.rowIndex : parts.columnIndex;
+
+const withIndex = (
+  parts: CellReferenceParts,
+  axis: ReferenceAxis,
+  index: number
+): CellReferenceParts =>
+  axis === 'row'
+    ? { ...parts, rowIndex: index }
+    : { ...parts, columnIndex: index };
+
+/**
+ * 수식 참조를 구조 변경에 맞게 조정
+ * isAffected가 false인 참조(다른 시트 등)는 그대로 둔다
+ *
+ * Examples:
+ * - 2행 앞에 행 삽입: '=SUM(C2:C20)' → '=SUM(C3:C21)'
+ * - 3행 삭제: '=B3+B4' → '=#REF!+B3'
+ */
+export const adjustFormulaReferences = (
+  formula: string,
+  map: ReferenceIndexMap,
+  isAffected: (token: Token) => boolean
+): string => {
+  return rewriteFormulaReferences(formula, (reference, token) => {
+    if (!isAffected(token)) return reference;
+
+    const endpoints = reference.split(':').map(parseReferenceParts);
+    if (endpoints.some((parts) => parts === null)) return reference;
+    const [first, second] = endpoints as CellReferenceParts[];
+
+    if (!second) {
+      const index = map.mapIndex(getIndex(first, map.axis));
+      return index === null
+        ? null
+        : formatReferenceParts(withIndex(first, map.axis, index));
+    }
+
+    // Endpoints may be written in either order (B5:B1)
+    const firstIsStart =
+      getIndex(first, map.axis) <= getIndex(second, map.axis);
+    const [start, end] = firstIsStart ? [first, second] : [second, first];
+
+    const mapped = map.mapRange(
+      getIndex(start, map.axis),
+      getIndex(end, map.axis)
+    );
+    if (!mapped) return null;
+
+    return [
+      formatReferenceParts(withIndex(start, map.axis, mapped[0])),
+      formatReferenceParts(withIndex(end, map.axis, mapped[1])),
+    ].join(':');
+  });
+};
+
+/**
+ * 시트 이름이 바뀌면 그 시트를 가리키는 참조의 접두사를 새 이름으로 바꾼다
+ * '='로 시작하지 않는 이름 정의('Item Data'!B2:B50)도 처리한다
+ *
+ * Examples:
+ * - 'Items' → 'Item Data': '=Items!B2*2' → "='Item Data'!B2*2"
+ * - 'Items' → 'Gear': '=SUM(Items[price])' → '=SUM(Gear[price])'
+ */
+export const renameSheetInFormula = (
+  formula: string,
+  oldName: string,
+  newName: string
+): string => {
+  const isFormula = formula.trimStart().startsWith('=');
+  const lower = oldName.toLowerCase();
+  const rewritten = rewriteFormulaReferences(
+    isFormula ? formula : `=${formula}`,
+    (reference) => reference,
+    (sheetName) => (sheetName.toLowerCase() === lower ? newName : undefined)
+  );
+  return isFormula ? rewritten : rewritten.substring(1);
+};
+
+/**
+ * 수식(또는 이름 정의)이 해당 시트를 이름으로 참조하는지 확인
+ */
+export const formulaReferencesSheet = (
+  formula: string,
+  sheetName: string
+): boolean => {
+  let found = false;
+  rewriteFormulaReferences(
+    formula.trimStart().startsWith('=') ? formula : `=${formula}`,
+    (reference) => reference,
+    (name) => {
+      found ||= name.toLowerCase() === sheetName.toLowerCase();
+      return undefined;
+    }
+  );
+  return found;
+};
+
+/**
+ * 열 이름이 바뀌면 그 열을 가리키는 열 참조([attack], Items[attack])를 새 이름으로 바꾼다
+ * isTarget은 열 참조 토큰이 이름이 바뀐 열을 가리키는지 판단한다 (시트 접두사는 유지)
+ *
+ * Examples:
+ * - 'attack' → 'atk': '=[attack]*2+SUM(Items[attack])' → '=[atk]*2+SUM(Items[atk])'
+ */
+export const renameColumnInFormula = (
+  formula: string,
+  isTarget: (token: Token) => boolean,
+  newName: string
+): string => {
+  const trimmed = formula.trimStart();
+  const offset = trimmed.startsWith('=')
+    ? formula.length - trimmed.length + 1
+    : 0;
+  const body = formula.substring(offset);
+
+  let tokens: Token[];
+  try {
+    tokens = new FormulaParser().tokenize(body);
+  } catch {
+    return formula;
+  }
+
+  let result = '';
+  let cursor = 0;
+  tokens.forEach((token) => {
+    if (token.type !== 'column' || !isTarget(token)) return;
+    if (token.start === undefined || token.end === undefined) return;
+
+    const text = body.substring(token.start, token.end);
+    result += body.substring(cursor, token.start);
+    result += `${text.substring(0, text.indexOf('['))}[${newName}]`;
+    cursor = token.end;
+  });
+
+  return formula.substring(0, offset) + result + body.substring(cursor);
+};
@@ -0,0 +1,48 @@
+/**
+ * Seeded Random Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createSeededRandom,
+  hashSeed,
+  nextRandom,
+  withRandomSource,
+} from './seededRandom';
+
+describe('seededRandom', () => {
+  it('should repeat the same sequence for the same seed', () => {
+    const a = createSeededRandom(42);
+    const b = createSeededRandom(42);
+    const sequence = [a(), a(), a()];
+
+    expect([b(), b(), b()]).toEqual(sequence);
+    sequence.forEach((value) => {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    });
+    expect(createSeededRandom(43)()).not.toBe(sequence[0]);
+  });
+
+  it('should hash seed parts deterministically', () => {
+    expect(hashSeed(1, 'sheet:row-1:col-A')).toBe(
+      hashSeed(1, 'sheet:row-1:col-A')
+    );
+    expect(hashSeed(1, 'sheet:row-1:col-A')).not.toBe(
+      hashSeed(2, 'sheet:row-1:col-A')
+    );
+    expect(hashSeed('ab', 'c')).not.toBe(hashSeed('a', 'bc'));
+  });
+
+  it('should restore the previous source after nested evaluation', () => {
+    const values = withRandomSource(
+      () => 0.1,
+      () => {
+        const inner = withRandomSource(() => 0.9, nextRandom);
+        return [inner, nextRandom()];
+      }
+    );
+
+    expect(values).toEqual([0.9, 0.1]);
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * Seeded Random
+ * 재현 가능한 난수 (RAND, RANDBETWEEN, WEIGHTED_PICK)
+ * 같은 워크북 시드와 셀이면 재계산해도 같은 값이 나오고, 시드를 바꾸면(다시 굴리기) 모두 바뀐다
+ */
+
+export type RandomSource = () => number;
+
+/**
+ * Hash seed parts into a 32-bit integer (FNV-1a)
+ */
+export const hashSeed = (...parts: (string | number)[]): number => {
+  let hash = 0x811c9dc5;
+  const text = parts.join('\u0000');
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Create a deterministic random source (mulberry32) returning values in [0, 1)
+ */
+export const createSeededRandom = (seed: number): RandomSource => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Create a new workbook seed (다시 굴리기)
+ */
+export const createRandomSeed = (): number =>
+  Math.floor(Math.random() * 4294967296);
+
+let currentSource: RandomSource = Math.random;
+
+/**
+ * Next random number from the source of the formula being evaluated
+ */
+export const nextRandom = (): number => currentSource();
+
+/**
+ * Run a callback with the given random source (평가기가 셀마다 설정)
+ * 다른 셀을 평가하러 들어가도 끝나면 이전 소스로 돌아간다
+ */
+export const withRandomSource = <T>(source: RandomSource, fn: () => T): T => {
+  const previous = currentSource;
+  currentSource = source;
+  try {
+    return fn();
+  } finally {
+    currentSource = previous;
+  }
+};
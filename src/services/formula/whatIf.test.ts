@@ -0,0 +1,162 @@
+/**
+ * What-If Analysis Tests
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { CellValue, Sheet } from '@types';
+import { createMockSheet } from '@test/utils/mockData';
+import {
+  computeDataTable,
+  resolveWhatIfCell,
+  solveGoalSeek,
+  validateDataTable,
+  validateGoalSeek,
+  type WhatIfCell,
+} from './whatIf';
+
+describe('What-If Analysis', () => {
+  let sheet: Sheet;
+
+  const at = (row: number, column: string): WhatIfCell => ({
+    sheetId: sheet.id,
+    rowId: `row-${row}`,
+    columnId: `col-${column}`,
+  });
+
+  const setCell = (row: number, column: string, value: CellValue) => {
+    const cell = sheet.rows[row].cells[`col-${column}`];
+    if (typeof value === 'string' && value.startsWith('=')) {
+      cell.formula = value;
+      cell.type = 'formula';
+    } else {
+      cell.value = value;
+    }
+  };
+
+  beforeEach(() => {
+    sheet = createMockSheet({
+      columns: ['A', 'B', 'C'],
+      rows: [{ A: 50, B: 2 }, { A: 12000 }, {}, {}, {}],
+    });
+  });
+
+  it('should resolve typed cell references', () => {
+    const other = createMockSheet({ name: 'Boss Data', rows: [{}, {}] });
+    other.id = 'boss-sheet';
+
+    expect(resolveWhatIfCell([sheet, other], sheet.id, '$B$2')).toEqual(
+      at(1, 'B')
+    );
+    expect(
+      resolveWhatIfCell([sheet, other], sheet.id, "'Boss Data'!c2")
+    ).toEqual({ sheetId: 'boss-sheet', rowId: 'row-1', columnId: 'col-C' });
+    expect(resolveWhatIfCell([sheet, other], sheet.id, 'Z99')).toBeNull();
+    expect(resolveWhatIfCell([sheet, other], sheet.id, 'Nope!A1')).toBeNull();
+  });
+
+  describe('goal seek', () => {
+    it('should solve the base attack for a target TTK', () => {
+      // TTK = boss HP / (attack × attacks per second)
+      setCell(0, 'C', '=A2/(A1*B1)');
+
+      const result = solveGoalSeek([sheet], at(0, 'C'), 12, at(0, 'A'));
+
+      expect(result.found).toBe(true);
+      expect(result.value).toBeCloseTo(500, 1);
+      expect(result.result).toBeCloseTo(12, 2);
+      // The sheet itself is not changed
+      expect(sheet.rows[0].cells['col-A'].value).toBe(50);
+    });
+
+    it('should solve non-linear formulas', () => {
+      setCell(0, 'C', '=A1^2');
+
+      const result = solveGoalSeek([sheet], at(0, 'C'), 49, at(0, 'A'));
+
+      expect(result.found).toBe(true);
+      expect(Math.abs(result.value)).toBeCloseTo(7, 2);
+    });
+
+    it('should report when no input reaches the target', () => {
+      setCell(0, 'C', '=A1^2');
+
+      const result = solveGoalSeek([sheet], at(0, 'C'), -1, at(0, 'A'), {
+        maxIterations: 30,
+      });
+
+      expect(result.found).toBe(false);
+      expect(result.iterations).toBeLessThanOrEqual(30);
+    });
+
+    it('should validate the target and input cells', () => {
+      setCell(0, 'C', '=A1*2');
+
+      expect(validateGoalSeek([sheet], at(0, 'C'), at(0, 'A'))).toBeNull();
+      expect(validateGoalSeek([sheet], at(0, 'A'), at(0, 'B'))).toBe(
+        'Target cell must contain a formula'
+      );
+      expect(validateGoalSeek([sheet], at(0, 'C'), at(0, 'C'))).toBe(
+        'Input cell must contain a value, not a formula'
+      );
+    });
+  });
+
+  describe('data tables', () => {
+    it('should compute a one-variable table down a column', () => {
+      // Formulas across the top row, input values down the first column
+      setCell(1, 'A', null);
+      setCell(1, 'B', '=A1*B1');
+      setCell(1, 'C', '=A1+1');
+      setCell(2, 'A', 1);
+      setCell(3, 'A', 2);
+      setCell(4, 'A', 3);
+
+      const range = { startRow: 1, endRow: 4, startColumn: 0, endColumn: 2 };
+      const inputs = { columnInput: at(0, 'A') };
+
+      expect(validateDataTable([sheet], sheet.id, range, inputs)).toBeNull();
+      expect(computeDataTable([sheet], sheet.id, range, inputs)).toEqual([
+        [2, 2],
+        [4, 3],
+        [6, 4],
+      ]);
+    });
+
+    it('should compute a two-variable table', () => {
+      setCell(1, 'A', '=A1*B1');
+      setCell(1, 'B', 3);
+      setCell(1, 'C', 4);
+      setCell(2, 'A', 1);
+      setCell(3, 'A', 2);
+
+      const range = { startRow: 1, endRow: 3, startColumn: 0, endColumn: 2 };
+
+      expect(
+        computeDataTable([sheet], sheet.id, range, {
+          rowInput: at(0, 'B'),
+          columnInput: at(0, 'A'),
+        })
+      ).toEqual([
+        [3, 4],
+        [6, 8],
+      ]);
+    });
+
+    it('should reject invalid layouts and input cells', () => {
+      const range = { startRow: 1, endRow: 3, startColumn: 0, endColumn: 2 };
+
+      expect(validateDataTable([sheet], sheet.id, range, {})).toBe(
+        'Specify a row input cell, a column input cell or both'
+      );
+      expect(
+        validateDataTable([sheet], sheet.id, range, { columnInput: at(2, 'B') })
+      ).toBe('Input cell must be outside the data table');
+      expect(
+        validateDataTable([sheet], sheet.id, range, {
+          rowInput: at(0, 'B'),
+          columnInput: at(0, 'A'),
+        })
+      ).toBe('Two-variable data table needs a formula in the top-left cell');
+    });
+  });
+});
@@ -0,0 +1,361 @@
+/**
+ * What-If Analysis
+ * 목표값 찾기(입력 셀 하나를 풀어 수식 결과를 목표값에 맞춤)와
+ * 1·2변수 데이터 표 - 워크북 사본을 별도 평가기로 계산해 실제 시트는 바꾸지 않는다
+ */
+
+import type {
+  Cell,
+  CellValue,
+  NamedRange,
+  SelectionRange,
+  Sheet,
+} from '@types';
+import { generateCellId } from '@utils/cellUtils';
+import { DependencyGraph } from './dependencyGraph';
+import { FormulaCache } from './formulaCache';
+import { FormulaEvaluator } from './formulaEvaluator';
+import { toFormulaError } from './formulaErrors';
+import { parseReferenceParts } from './formulaParser';
+
+/**
+ * 가상 분석의 대상/입력 셀
+ */
+export interface WhatIfCell {
+  sheetId: string;
+  rowId: string;
+  columnId: string;
+}
+
+/**
+ * 워크북 수준 평가 설정 (이름 정의, 난수 시드)
+ */
+export interface WhatIfOptions {
+  names?: NamedRange[];
+  randomSeed?: number;
+}
+
+/**
+ * 목표값 찾기 결과
+ */
+export interface GoalSeekResult {
+  found: boolean; // 결과가 허용 오차 안에 들어왔는지
+  value: number; // 찾은 (또는 가장 가까웠던) 입력 값
+  result: CellValue; // 그 입력 값에서의 수식 결과
+  iterations: number;
+}
+
+/**
+ * 데이터 표의 입력 셀
+ * rowInput: 첫 행의 값을 대입할 셀, columnInput: 첫 열의 값을 대입할 셀
+ */
+export interface DataTableInputs {
+  rowInput?: WhatIfCell;
+  columnInput?: WhatIfCell;
+}
+
+/**
+ * 입력 셀에 대입할 값
+ */
+interface WhatIfInput {
+  cell: WhatIfCell;
+  value: CellValue;
+}
+
+const findCell = (sheets: Sheet[], target: WhatIfCell): Cell | undefined =>
+  sheets
+    .find((s) => s.id === target.sheetId)
+    ?.rows.find((r) => r.id === target.rowId)?.cells[target.columnId];
+
+/**
+ * Resolve a typed cell reference (B2, $B$2, Stats!B2, 'Boss Data'!B2)
+ * 시트 이름이 없으면 기본 시트 기준
+ * @returns 시트나 셀이 없으면 null
+ */
+export const resolveWhatIfCell = (
+  sheets: Sheet[],
+  defaultSheetId: string,
+  reference: string
+): WhatIfCell | null => {
+  const text = reference.trim();
+  const separator = text.lastIndexOf('!');
+  let sheet = sheets.find((s) => s.id === defaultSheetId);
+
+  if (separator !== -1) {
+    const quoted = text.substring(0, separator).match(/^'(.*)'$/);
+    const sheetName = quoted
+      ? quoted[1].replace(/''/g, "'")
+      : text.substring(0, separator);
+    sheet = sheets.find(
+      (s) => s.name.toLowerCase() === sheetName.toLowerCase()
+    );
+  }
+
+  const parts = parseReferenceParts(text.substring(separator + 1));
+  const row = parts && sheet?.rows[parts.rowIndex];
+  const column = parts && sheet?.columns[parts.columnIndex];
+  if (!sheet || !row || !column) return null;
+
+  return { sheetId: sheet.id, rowId: row.id, columnId: column.id };
+};
+
+/**
+ * Create a model that evaluates a cell with some input cells replaced
+ * 대입할 때마다 캐시 없이 참조한 수식 셀을 다시 계산한다
+ * (배열 수식이 펼친 셀은 원래 값을 그대로 읽는다)
+ */
+const createWhatIfModel = (sheets: Sheet[], options: WhatIfOptions) => {
+  const workbook = structuredClone(sheets);
+  const graph = new DependencyGraph();
+  const evaluator = new FormulaEvaluator(graph, new FormulaCache(graph));
+  evaluator.setNames(options.names ?? []);
+  evaluator.setRandomSeed(options.randomSeed ?? 0);
+
+  return (target: WhatIfCell, inputs: WhatIfInput[]): CellValue => {
+    inputs.forEach(({ cell, value }) => {
+      const input = findCell(workbook, cell);
+      if (input) input.value = value;
+    });
+
+    const sheet = workbook.find((s) => s.id === target.sheetId);
+    const cell = sheet && findCell(workbook, target);
+    if (!sheet || !cell) return null;
+    if (!cell.formula) return cell.value;
+
+    try {
+      return evaluator.evaluate(
+        generateCellId(cell.rowId, cell.columnId),
+        cell.formula,
+        sheet,
+        workbook
+      );
+    } catch (error) {
+      return toFormulaError(error).code;
+    }
+  };
+};
+
+/**
+ * Check that a cell can be used as a what-if input
+ * @returns 오류 메시지 (사용할 수 있으면 null)
+ */
+const validateInputCell = (
+  sheets: Sheet[],
+  input: WhatIfCell
+): string | null => {
+  const cell = findCell(sheets, input);
+  if (!cell) return 'Input cell does not exist';
+  if (cell.formula) return 'Input cell must contain a value, not a formula';
+  return null;
+};
+
+/**
+ * Validate a goal seek request
+ * @returns 오류 메시지 (올바르면 null)
+ */
+export const validateGoalSeek = (
+  sheets: Sheet[],
+  target: WhatIfCell,
+  input: WhatIfCell
+): string | null => {
+  const cell = findCell(sheets, target);
+  if (!cell) return 'Target cell does not exist';
+  if (!cell.formula) return 'Target cell must contain a formula';
+  return validateInputCell(sheets, input);
+};
+
+/**
+ * Solve the input cell so the target formula equals the target value
+ * 할선법으로 접근하다 부호가 바뀌는 구간을 찾으면 이분법으로 좁힌다
+ */
+export const solveGoalSeek = (
+  sheets: Sheet[],
+  target: WhatIfCell,
+  targetValue: number,
+  input: WhatIfCell,
+  options: WhatIfOptions & { maxIterations?: number; tolerance?: number } = {}
+): GoalSeekResult => {
+  const maxIterations = options.maxIterations ?? 100;
+  const tolerance = options.tolerance ?? 0.001;
+  const evaluate = createWhatIfModel(sheets, options);
+
+  const current = findCell(sheets, input)?.value;
+  const start = typeof current === 'number' ? current : 0;
+  let best: GoalSeekResult = {
+    found: false,
+    value: start,
+    result: null,
+    iterations: 0,
+  };
+  let bestDifference = Infinity;
+  let iterations = 0;
+
+  // Difference from the target (수식 결과가 숫자가 아니면 NaN)
+  const trial = (value: number): number => {
+    iterations++;
+    const result = evaluate(target, [{ cell: input, value }]);
+    const difference =
+      typeof result === 'number' ? result - targetValue : Number.NaN;
+    if (Math.abs(difference) < Math.abs(bestDifference)) {
+      bestDifference = difference;
+      best = { found: false, value, result, iterations };
+    }
+    return difference;
+  };
+  const done = () =>
+    Math.abs(bestDifference) <= tolerance || iterations >= maxIterations;
+
+  let x0 = start;
+  let f0 = trial(x0);
+  let x1 = start + Math.max(Math.abs(start) * 0.01, 0.01);
+
+  while (!done()) {
+    const f1 = trial(x1);
+    if (done()) break;
+
+    // The root is bracketed: bisect
+    if (Number.isFinite(f0) && Number.isFinite(f1) && f0 * f1 < 0) {
+      let [low, fLow, high] = [x0, f0, x1];
+      while (!done()) {
+        const middle = (low + high) / 2;
+        const fMiddle = trial(middle);
+        if (!Number.isFinite(fMiddle)) break;
+        if (fMiddle * fLow > 0) {
+          [low, fLow] = [middle, fMiddle];
+        } else {
+          high = middle;
+        }
+      }
+      break;
+    }
+
+    // Secant step (기울기를 구할 수 없으면 보폭을 넓혀 탐색)
+    const slope = (f1 - f0) / (x1 - x0);
+    const next =
+      Number.isFinite(slope) && slope !== 0
+        ? x1 - f1 / slope
+        : x1 + (x1 - x0) * 2;
+    if (!Number.isFinite(next) || next === x1) break;
+
+    [x0, f0, x1] = [x1, f1, next];
+  }
+
+  return {
+    ...best,
+    found: Math.abs(bestDifference) <= tolerance,
+    iterations,
+  };
+};
+
+/**
+ * Validate a data table request
+ * 범위는 2행 2열 이상이고 입력 셀은 표 밖의 값 셀이어야 한다
+ * @returns 오류 메시지 (올바르면 null)
+ */
+export const validateDataTable = (
+  sheets: Sheet[],
+  sheetId: string,
+  range: SelectionRange,
+  inputs: DataTableInputs
+): string | null => {
+  const sheet = sheets.find((s) => s.id === sheetId);
+  if (!sheet) return 'Sheet does not exist';
+  if (
+    range.endRow - range.startRow < 1 ||
+    range.endColumn - range.startColumn < 1
+  ) {
+    return 'Data table range must have at least 2 rows and 2 columns';
+  }
+  if (!inputs.rowInput && !inputs.columnInput) {
+    return 'Specify a row input cell, a column input cell or both';
+  }
+
+  for (const input of [inputs.rowInput, inputs.columnInput]) {
+    if (!input) continue;
+    const error = validateInputCell(sheets, input);
+    if (error) return error;
+
+    const rowIndex = sheet.rows.findIndex((r) => r.id === input.rowId);
+    const columnIndex = sheet.columns.findIndex((c) => c.id === input.columnId);
+    if (
+      input.sheetId === sheetId &&
+      rowIndex >= range.startRow &&
+      rowIndex <= range.endRow &&
+      columnIndex >= range.startColumn &&
+      columnIndex <= range.endColumn
+    ) {
+      return 'Input cell must be outside the data table';
+    }
+  }
+
+  if (inputs.rowInput && inputs.columnInput) {
+    const corner =
+      sheet.rows[range.startRow]?.cells[sheet.columns[range.startColumn]?.id];
+    if (!corner?.formula) {
+      return 'Two-variable data table needs a formula in the top-left cell';
+    }
+  }
+  return null;
+};
+
+/**
+ * Compute the results of a what-if data table (Excel 데이터 표 배치)
+ * - 두 입력 모두: 왼쪽 위 수식을 첫 행 값(rowInput) × 첫 열 값(columnInput)으로 계산
+ * - columnInput만: 첫 행의 각 수식을 첫 열의 값마다 계산
+ * - rowInput만: 첫 열의 각 수식을 첫 행의 값마다 계산
+ * @returns 첫 행과 첫 열을 제외한 결과 (rows × columns)
+ */
+export const computeDataTable = (
+  sheets: Sheet[],
+  sheetId: string,
+  range: SelectionRange,
+  inputs: DataTableInputs,
+  options: WhatIfOptions = {}
+): CellValue[][] => {
+  const sheet = sheets.find((s) => s.id === sheetId);
+  if (!sheet) return [];
+
+  const evaluate = createWhatIfModel(sheets, options);
+  const { rowInput, columnInput } = inputs;
+  const cellAt = (rowIndex: number, columnIndex: number): WhatIfCell => ({
+    sheetId,
+    rowId: sheet.rows[rowIndex]?.id,
+    columnId: sheet.columns[columnIndex]?.id,
+  });
+  const valueAt = (rowIndex: number, columnIndex: number): CellValue =>
+    findCell(sheets, cellAt(rowIndex, columnIndex))?.value ?? null;
+
+  const results: CellValue[][] = [];
+  for (let row = range.startRow + 1; row <= range.endRow; row++) {
+    const resultRow: CellValue[] = [];
+    for (
+      let column = range.startColumn + 1;
+      column <= range.endColumn;
+      column++
+    ) {
+      const substitutions: WhatIfInput[] = [];
+      if (rowInput) {
+        substitutions.push({
+          cell: rowInput,
+          value: valueAt(range.startRow, column),
+        });
+      }
+      if (columnInput) {
+        substitutions.push({
+          cell: columnInput,
+          value: valueAt(row, range.startColumn),
+        });
+      }
+
+      const formulaCell =
+        rowInput && columnInput
+          ? cellAt(range.startRow, range.startColumn)
+          : columnInput
+            ? cellAt(range.startRow, column)
+            : cellAt(row, range.startColumn);
+      resultRow.push(evaluate(formulaCell, substitutions));
+    }
+    results.push(resultRow);
+  }
+  return results;
+};
@@ -0,0 +1,71 @@
+/**
+ * Validation Engine - Reference Type Tests
+ * 다른 시트를 가리키는 reference 타입 검증 테스트
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createMockSheet } from '@test/utils/mockData';
+import { validateValueType, validateSheet } from './validationEngine';
+
+describe('Reference Type Validation', () => {
+  const createSheets = () => {
+    const items = createMockSheet({
+      name: 'Item Data',
+      columns: ['ID', 'Name'],
+      rows: [
+        { ID: 'item_steel_sword', Name: 'Steel Sword' },
+        { ID: 'item_potion', Name: 'Health Potion' },
+      ],
+    });
+    const drops = createMockSheet({
+      name: 'Drop Table',
+      columns: ['Drop ID', 'Item ID'],
+      rows: [
+        { 'Drop ID': 'drop-1', 'Item ID': 'item_steel_sword' },
+        { 'Drop ID': 'drop-2', 'Item ID': 'item_iron_sword' },
+        { 'Drop ID': 'drop-3' },
+      ],
+    });
+    drops.columns[1] = {
+      ...drops.columns[1],
+      type: 'reference',
+      reference: { sheetId: items.id, keyColumnId: 'col-ID' },
+    };
+    return { items, drops };
+  };
+
+  it('should accept keys in the options and empty values', () => {
+    expect(validateValueType('a', 'reference', ['a', 'b']).valid).toBe(true);
+    expect(validateValueType(7, 'reference', ['7']).valid).toBe(true);
+    expect(validateValueType('', 'reference', []).valid).toBe(true);
+    // Without resolved keys the value cannot be checked
+    expect(validateValueType('x', 'reference').valid).toBe(true);
+
+    const result = validateValueType('x', 'reference', ['a']);
+    expect(result.valid).toBe(false);
+    expect(result.message).toContain('끊어진 참조');
+  });
+
+  it('should flag dangling references across sheets', () => {
+    const { items, drops } = createSheets();
+    const result = validateSheet(drops, [items, drops]);
+
+    expect(result.valid).toBe(false);
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0].cellId).toBe('row-1:col-Item ID');
+    expect(result.errors[0].message).toContain('item_iron_sword');
+
+    // Single-sheet validation cannot resolve the reference
+    expect(validateSheet(drops).valid).toBe(true);
+  });
+
+  it('should flag every reference when the target sheet is deleted', () => {
+    const { drops } = createSheets();
+    const result = validateSheet(drops, [drops]);
+
+    expect(result.errors.map((e) => e.cellId)).toEqual([
+      'row-0:col-Item ID',
+      'row-1:col-Item ID',
+    ]);
+  });
+});
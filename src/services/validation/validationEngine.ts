@@ -4,6 +4,7 @@
  */
 
 import type { Cell, Row, Sheet, CellType, Column } from '@types';
+import { getReferenceKeys, toReferenceKey } from '@utils/referenceUtils';
 
 // Validation result types
 export interface ValidationError {
@@ -105,6 +106,16 @@ export const validateValueType = (
       }
       return { valid: true };
 
+    case 'reference':
+      // 참조: options는 참조 대상 시트의 현재 키 목록 (없으면 검사하지 않음)
+      if (options && !options.includes(toReferenceKey(value))) {
+        return {
+          valid: false,
+          message: `"${value}"를 참조 대상에서 찾을 수 없습니다 (끊어진 참조)`,
+        };
+      }
+      return { valid: true };
+
     default:
       return { valid: true };
   }
@@ -201,13 +212,25 @@ export const validateRow = (
 };
 
 // Sheet-level validation
-export const validateSheet = (sheet: Sheet): ValidationResult => {
+// sheets를 넘기면 참조 열의 값이 대상 시트에 있는지도 검사한다
+export const validateSheet = (
+  sheet: Sheet,
+  sheets?: Sheet[]
+): ValidationResult => {
   const errors: ValidationError[] = [];
   const warnings: ValidationError[] = [];
 
+  // Resolve reference columns to their live keys once per sheet
+  const columns = sheets
+    ? sheet.columns.map((column) => {
+        const keys = getReferenceKeys(sheets, column);
+        return keys ? { ...column, options: keys } : column;
+      })
+    : sheet.columns;
+
   // Validate all rows
   sheet.rows.forEach((row) => {
-    const rowResult = validateRow(row, sheet.columns);
+    const rowResult = validateRow(row, columns);
     errors.push(...rowResult.errors);
     warnings.push(...rowResult.warnings);
   });
@@ -0,0 +1,142 @@
+/**
+ * Patch History Middleware
+ * immer 패치 기반 실행 취소/다시 실행 기록
+ * 스토어 액션 한 번(그 안에서 호출한 다른 액션 포함)이 실행 취소 한 단계가 된다
+ */
+
+import { enablePatches, produceWithPatches, type Patch } from 'immer';
+import type { StateCreator } from 'zustand';
+import type { HistoryEntry } from '@types';
+
+enablePatches();
+
+/**
+ * 기록하는 최상위 상태 (문서 데이터만; 선택 영역, 저장 상태 등 UI 상태는 제외)
+ */
+const RECORDED_KEYS = new Set<PropertyKey>([
+  'sheets',
+  'names',
+  'randomSeed',
+  'iterativeCalculation',
+]);
+
+/**
+ * 보관하는 실행 취소 단계 수
+ */
+export const MAX_HISTORY_ENTRIES = 100;
+
+export interface PatchHistoryState {
+  history: HistoryEntry[];
+  historyIndex: number;
+}
+
+export interface PatchHistoryOptions {
+  // Actions that never open a transaction (재계산, 불러오기, undo/redo 등)
+  untracked?: string[];
+}
+
+export type ImmerStateCreator<T> = StateCreator<
+  T,
+  [['zustand/immer', never]],
+  []
+>;
+
+interface Transaction {
+  label: string;
+  patches: Patch[];
+  inversePatches: Patch[];
+}
+
+const isRecorded = (patch: Patch) => RECORDED_KEYS.has(patch.path[0]);
+
+// sheets[i].updatedAt만 바뀐 단계(그리드 새로고침용)는 기록하지 않는다
+const isTimestampOnly = (patch: Patch) =>
+  patch.path.length === 3 && patch.path[2] === 'updatedAt';
+
+/**
+ * Record every store action as one undoable step (immer 미들웨어 안쪽에 둔다)
+ * - 액션이 실행되는 동안의 set들은 하나의 트랜잭션 패치로 모인다
+ * - 트랜잭션 밖의 set(워커 재계산 결과, 자동 저장 상태 등)은 기록하지 않는다
+ * - _로 시작하는 내부 액션과 untracked 액션은 스스로 트랜잭션을 열지 않는다
+ * - transaction(fn, label) 액션은 label을 단계 이름으로 쓴다 (await 이후 작업 묶기)
+ */
+export const patchHistory =
+  <T extends PatchHistoryState>(
+    config: ImmerStateCreator<T>,
+    options: PatchHistoryOptions = {}
+  ): ImmerStateCreator<T> =>
+  (set, get, store) => {
+    const untracked = new Set(options.untracked);
+    let transaction: Transaction | null = null;
+    const baseSet = set as (partial: unknown, replace?: boolean) => void;
+
+    const recordingSet = ((partial: unknown, replace?: boolean) => {
+      if (!transaction || typeof partial !== 'function') {
+        return baseSet(partial, replace);
+      }
+
+      const [nextState, patches, inversePatches] = produceWithPatches(
+        get(),
+        partial as (draft: T) => void
+      );
+      transaction.patches = transaction.patches.concat(
+        patches.filter(isRecorded)
+      );
+      // Later changes are undone first
+      transaction.inversePatches = inversePatches
+        .filter(isRecorded)
+        .concat(transaction.inversePatches);
+      baseSet(nextState, true);
+    }) as typeof set;
+
+    const commit = ({ label, patches, inversePatches }: Transaction) =>
+      set((state) => {
+        // A new step discards the redo steps
+        state.history.splice(state.historyIndex + 1);
+        state.history.push({
+          id: `history-${Date.now()}`,
+          timestamp: new Date(),
+          label,
+          patches,
+          inversePatches,
+        });
+        if (state.history.length > MAX_HISTORY_ENTRIES) {
+          state.history.shift();
+        }
+        state.historyIndex = state.history.length - 1;
+      });
+
+    const runTransaction = <R>(label: string, fn: () => R): R => {
+      // Nested actions are part of the outer step
+      if (transaction) return fn();
+
+      const current: Transaction = { label, patches: [], inversePatches: [] };
+      transaction = current;
+      try {
+        return fn();
+      } finally {
+        transaction = null;
+        if (!current.patches.every(isTimestampOnly)) commit(current);
+      }
+    };
+
+    const state = config(recordingSet, get, store);
+
+    Object.entries(state).forEach(([key, value]) => {
+      if (
+        typeof value !== 'function' ||
+        key.startsWith('_') ||
+        untracked.has(key)
+      ) {
+        return;
+      }
+
+      (state as Record<string, unknown>)[key] = (...args: unknown[]) =>
+        runTransaction(
+          key === 'transaction' && typeof args[1] === 'string' ? args[1] : key,
+          () => value(...args)
+        );
+    });
+
+    return state;
+  };
@@ -3,9 +3,11 @@
  * Testing key store functionality: undo/redo, filters, cell updates
  */
 
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { useSpreadsheetStore } from './spreadsheetStore';
-import type { Sheet, FilterConfig } from '@types';
+import type { Sheet, FilterConfig, Snapshot } from '@types';
+import { createMockSheet } from '@test/utils/mockData';
+import { mergeWorkbooks } from '@utils/mergeUtils';
 
 describe('SpreadsheetStore', () => {
   let testSheetId: string;
@@ -209,6 +211,217 @@ describe('SpreadsheetStore', () => {
           .columns.length
       ).toBe(initialColCount);
     });
+
+    describe('Patch History', () => {
+      const getSheet = () =>
+        useSpreadsheetStore
+          .getState()
+          .sheets.find((s) => s.id === testSheetId)!;
+      const getValues = (columnId: string) =>
+        getSheet().rows.map((row) => row.cells[columnId].value);
+
+      it('should restore a deleted row at its original index', () => {
+        const { removeRow, undo, redo } = useSpreadsheetStore.getState();
+
+        removeRow(testSheetId, 'row-0');
+        expect(getSheet().rows.map((r) => r.id)).toEqual(['row-1']);
+
+        undo();
+        expect(getSheet().rows.map((r) => r.id)).toEqual(['row-0', 'row-1']);
+        expect(getSheet().rows[0].cells['col-A'].value).toBe('A1');
+
+        redo();
+        expect(getSheet().rows.map((r) => r.id)).toEqual(['row-1']);
+      });
+
+      it('should undo and redo a sort', () => {
+        const { sortSheet, undo, redo } = useSpreadsheetStore.getState();
+
+        sortSheet(testSheetId, { columnId: 'col-B', direction: 'desc' });
+        expect(getValues('col-B')).toEqual([20, 10]);
+
+        undo();
+        expect(getValues('col-B')).toEqual([10, 20]);
+
+        redo();
+        expect(getValues('col-B')).toEqual([20, 10]);
+      });
+
+      it('should undo a filter', () => {
+        const { filterSheet, undo } = useSpreadsheetStore.getState();
+
+        filterSheet(testSheetId, [
+          { columnId: 'col-A', operator: 'equals', value: 'A1' },
+        ]);
+        expect(getSheet().rows[1].hidden).toBe(true);
+
+        undo();
+        expect(getSheet().rows[1].hidden).toBe(false);
+      });
+
+      it('should undo cell styles, merges and column widths', () => {
+        const { applyCellStyle, mergeCells, resizeColumn, undo, redo } =
+          useSpreadsheetStore.getState();
+        const range = { startRow: 0, endRow: 1, startColumn: 0, endColumn: 0 };
+
+        applyCellStyle(testSheetId, range, { fontWeight: 'bold' });
+        mergeCells(testSheetId, range);
+        resizeColumn(testSheetId, 'col-A', 240);
+
+        undo();
+        expect(getSheet().columns[0].width).toBeUndefined();
+        expect(getSheet().mergedCells).toHaveLength(1);
+
+        undo();
+        expect(getSheet().mergedCells ?? []).toHaveLength(0);
+        expect(getSheet().rows[1].cells['col-A'].style?.fontWeight).toBe(
+          'bold'
+        );
+
+        undo();
+        expect(getSheet().rows[1].cells['col-A'].style).toBeUndefined();
+
+        redo();
+        redo();
+        redo();
+        expect(getSheet().columns[0].width).toBe(240);
+        expect(getSheet().mergedCells).toHaveLength(1);
+      });
+
+      it('should undo conditional format changes', () => {
+        const { addConditionalFormat, updateConditionalFormat, undo } =
+          useSpreadsheetStore.getState();
+
+        addConditionalFormat(testSheetId, {
+          id: 'cf-1',
+          range: { startRow: 0, endRow: 1, startColumn: 1, endColumn: 1 },
+          condition: { type: 'value', operator: 'greaterThan', value: 15 },
+          style: { backgroundColor: '#ff0000' },
+          priority: 0,
+        });
+        updateConditionalFormat(testSheetId, 'cf-1', {
+          style: { backgroundColor: '#00ff00' },
+        });
+
+        undo();
+        expect(getSheet().conditionalFormats?.[0].style.backgroundColor).toBe(
+          '#ff0000'
+        );
+
+        undo();
+        expect(getSheet().conditionalFormats ?? []).toHaveLength(0);
+      });
+
+      it('should undo replace all as one step', () => {
+        const { replaceAll, undo, redo } = useSpreadsheetStore.getState();
+        useSpreadsheetStore.setState({ activeSheetId: testSheetId });
+        const historyLength = useSpreadsheetStore.getState().history.length;
+
+        expect(replaceAll('C', 'Z')).toBe(2);
+        expect(getValues('col-C')).toEqual(['Z1', 'Z2']);
+        expect(useSpreadsheetStore.getState().history).toHaveLength(
+          historyLength + 1
+        );
+
+        undo();
+        expect(getValues('col-C')).toEqual(['C1', 'C2']);
+
+        redo();
+        expect(getValues('col-C')).toEqual(['Z1', 'Z2']);
+      });
+
+      it('should undo a paste as one step', async () => {
+        vi.stubGlobal('navigator', {
+          clipboard: {
+            readText: vi.fn().mockResolvedValue('X1\tx\nX2\ty'),
+            writeText: vi.fn().mockResolvedValue(undefined),
+          },
+        });
+        const { setSelection, pasteFromClipboard, undo } =
+          useSpreadsheetStore.getState();
+        useSpreadsheetStore.setState({ activeSheetId: testSheetId });
+        setSelection({ startRow: 0, endRow: 0, startColumn: 0, endColumn: 0 });
+
+        try {
+          expect(await pasteFromClipboard()).toBe(true);
+          expect(getValues('col-A')).toEqual(['X1', 'X2']);
+          expect(useSpreadsheetStore.getState().history.at(-1)?.label).toBe(
+            'pasteFromClipboard'
+          );
+
+          undo();
+          expect(getValues('col-A')).toEqual(['A1', 'A2']);
+          expect(getValues('col-B')).toEqual([10, 20]);
+        } finally {
+          vi.unstubAllGlobals();
+        }
+      });
+
+      it('should group nested actions in a transaction into one step', () => {
+        const { transaction, updateCell, addRow, undo } =
+          useSpreadsheetStore.getState();
+        const historyLength = useSpreadsheetStore.getState().history.length;
+
+        transaction(() => {
+          updateCell(testSheetId, 'row-0', 'col-A', 'Grouped');
+          addRow(testSheetId);
+        }, 'batch edit');
+
+        const { history } = useSpreadsheetStore.getState();
+        expect(history).toHaveLength(historyLength + 1);
+        expect(history.at(-1)?.label).toBe('batch edit');
+
+        undo();
+        expect(getSheet().rows).toHaveLength(2);
+        expect(getSheet().rows[0].cells['col-A'].value).toBe('A1');
+      });
+
+      it('should not record selection changes or a redo branch', () => {
+        const { updateCell, setSelection, undo } =
+          useSpreadsheetStore.getState();
+
+        updateCell(testSheetId, 'row-0', 'col-A', 'First');
+        const historyLength = useSpreadsheetStore.getState().history.length;
+        setSelection({ startRow: 1, endRow: 1, startColumn: 0, endColumn: 0 });
+        expect(useSpreadsheetStore.getState().history).toHaveLength(
+          historyLength
+        );
+
+        undo();
+        updateCell(testSheetId, 'row-0', 'col-A', 'Second');
+        const state = useSpreadsheetStore.getState();
+        expect(state.history).toHaveLength(historyLength);
+        expect(state.historyIndex).toBe(historyLength - 1);
+
+        state.redo();
+        expect(getSheet().rows[0].cells['col-A'].value).toBe('Second');
+      });
+
+      it('should bring back a removed sheet and its formulas', () => {
+        const { addSheet, removeSheet, undo } = useSpreadsheetStore.getState();
+
+        addSheet('Extra');
+        const extra = useSpreadsheetStore
+          .getState()
+          .sheets.find((s) => s.name === 'Extra')!;
+        removeSheet(extra.id);
+        expect(
+          useSpreadsheetStore.getState().sheets.some((s) => s.id === extra.id)
+        ).toBe(false);
+
+        undo();
+        expect(
+          useSpreadsheetStore.getState().sheets.some((s) => s.id === extra.id)
+        ).toBe(true);
+
+        undo();
+        const state = useSpreadsheetStore.getState();
+        expect(state.sheets.some((s) => s.id === extra.id)).toBe(false);
+        expect(state.sheets.some((s) => s.id === state.activeSheetId)).toBe(
+          true
+        );
+      });
+    });
   });
 
   describe('Filter Operations', () => {
@@ -369,6 +582,44 @@ describe('SpreadsheetStore', () => {
       expect(cell.value).toBe('A1 suffix');
     });
 
+    it('should recalculate dependents on other sheets', () => {
+      const statsSheet: Sheet = {
+        ...useSpreadsheetStore
+          .getState()
+          .sheets.find((s) => s.id === testSheetId)!,
+        id: `${testSheetId}-stats`,
+        name: 'Stat Progression',
+      };
+      useSpreadsheetStore.getState().addSheets([statsSheet]);
+
+      const { updateCell } = useSpreadsheetStore.getState();
+      updateCell(testSheetId, 'row-0', 'col-C', "='Stat Progression'!B1*2");
+
+      const getValue = () =>
+        useSpreadsheetStore.getState().sheets.find((s) => s.id === testSheetId)!
+          .rows[0].cells['col-C'].value;
+      expect(getValue()).toBe(20);
+
+      updateCell(statsSheet.id, 'row-0', 'col-B', 50);
+      expect(getValue()).toBe(100);
+    });
+
+    it('should shift relative references when filling down', () => {
+      const { updateCell, setActiveSheet, setSelection, fillSelection } =
+        useSpreadsheetStore.getState();
+      setActiveSheet(testSheetId);
+      updateCell(testSheetId, 'row-0', 'col-C', '=B1*2+$B$1');
+      setSelection({ startRow: 0, endRow: 1, startColumn: 2, endColumn: 2 });
+
+      fillSelection('down');
+
+      const filled = useSpreadsheetStore
+        .getState()
+        .sheets.find((s) => s.id === testSheetId)!.rows[1].cells['col-C'];
+      expect(filled.formula).toBe('=B2*2+$B$1');
+      expect(filled.value).toBe(50);
+    });
+
     it('should mark spreadsheet as having unsaved changes', () => {
       const { updateCell } = useSpreadsheetStore.getState();
 
@@ -409,6 +660,1105 @@ describe('SpreadsheetStore', () => {
     });
   });
 
+  describe('Formula Reference Adjustment', () => {
+    const getCell = (rowId: string, columnId: string) =>
+      useSpreadsheetStore
+        .getState()
+        .sheets.find((s) => s.id === testSheetId)!
+        .rows.find((r) => r.id === rowId)!.cells[columnId];
+
+    it('should grow ranges when a row is inserted above', () => {
+      const { updateCell, addRow } = useSpreadsheetStore.getState();
+      updateCell(testSheetId, 'row-1', 'col-C', '=SUM(B1:B2)');
+
+      addRow(testSheetId, 0);
+
+      const cell = getCell('row-1', 'col-C');
+      expect(cell.formula).toBe('=SUM(B2:B3)');
+      expect(cell.value).toBe(30);
+    });
+
+    it('should shift references when a column is inserted', () => {
+      const { updateCell, addColumn } = useSpreadsheetStore.getState();
+      updateCell(testSheetId, 'row-0', 'col-C', '=B1*2');
+
+      addColumn(testSheetId, 1);
+
+      const cell = getCell('row-0', 'col-C');
+      expect(cell.formula).toBe('=C1*2');
+      expect(cell.value).toBe(20);
+    });
+
+    it('should produce #REF! when the referenced row is removed', () => {
+      const { updateCell, removeRow } = useSpreadsheetStore.getState();
+      updateCell(testSheetId, 'row-1', 'col-C', '=B1');
+
+      removeRow(testSheetId, 'row-0');
+
+      const cell = getCell('row-1', 'col-C');
+      expect(cell.formula).toBe('=#REF!');
+      expect(cell.value).toBe('#REF!');
+    });
+
+    it('should produce #REF! when the referenced column is removed', () => {
+      const { updateCell, removeColumn } = useSpreadsheetStore.getState();
+      updateCell(testSheetId, 'row-0', 'col-C', '=B1+B2');
+
+      removeColumn(testSheetId, 'col-B');
+
+      expect(getCell('row-0', 'col-C').formula).toBe('=#REF!+#REF!');
+    });
+
+    it('should keep references pointing at the same cells after sorting', () => {
+      const { updateCell, sortSheet } = useSpreadsheetStore.getState();
+      updateCell(testSheetId, 'row-0', 'col-C', '=B1*2');
+
+      sortSheet(testSheetId, { columnId: 'col-B', direction: 'desc' });
+
+      const cell = getCell('row-0', 'col-C');
+      expect(cell.formula).toBe('=B2*2');
+      expect(cell.value).toBe(20);
+    });
+
+    it('should adjust references from other sheets', () => {
+      const otherSheet: Sheet = {
+        ...useSpreadsheetStore
+          .getState()
+          .sheets.find((s) => s.id === testSheetId)!,
+        id: `${testSheetId}-other`,
+        name: 'Summary',
+      };
+      useSpreadsheetStore.getState().addSheets([otherSheet]);
+
+      const { updateCell, addRow } = useSpreadsheetStore.getState();
+      updateCell(otherSheet.id, 'row-0', 'col-C', "='Test Sheet'!B2+B2");
+
+      addRow(testSheetId, 0);
+
+      const cell = useSpreadsheetStore
+        .getState()
+        .sheets.find((s) => s.id === otherSheet.id)!.rows[0].cells['col-C'];
+      expect(cell.formula).toBe("='Test Sheet'!B3+B2");
+    });
+
+    describe('Sheet rename and removal', () => {
+      let otherSheetId: string;
+      const getSummaryCell = () =>
+        useSpreadsheetStore
+          .getState()
+          .sheets.find((s) => s.id === otherSheetId)!.rows[0].cells['col-C'];
+
+      beforeEach(() => {
+        otherSheetId = `${testSheetId}-summary`;
+        useSpreadsheetStore.setState({ names: [] });
+        useSpreadsheetStore.getState().addSheets([
+          {
+            ...useSpreadsheetStore
+              .getState()
+              .sheets.find((s) => s.id === testSheetId)!,
+            id: otherSheetId,
+            name: 'Summary',
+          },
+        ]);
+      });
+
+      it('should rewrite sheet-qualified references on rename', () => {
+        const { addName, updateCell, renameSheet } =
+          useSpreadsheetStore.getState();
+        addName('BASE_ATTACK', "'Test Sheet'!B2");
+        updateCell(
+          otherSheetId,
+          'row-0',
+          'col-C',
+          "='Test Sheet'!B1+BASE_ATTACK+SUM('Test Sheet'[Column B])"
+        );
+        expect(getSummaryCell().value).toBe(60);
+
+        renameSheet(testSheetId, 'Items');
+
+        expect(getSummaryCell().formula).toBe(
+          '=Items!B1+BASE_ATTACK+SUM(Items[Column B])'
+        );
+        expect(useSpreadsheetStore.getState().names[0].definition).toBe(
+          'Items!B2'
+        );
+
+        // Later edits still reach the renamed references
+        updateCell(testSheetId, 'row-0', 'col-B', 15);
+        expect(getSummaryCell().value).toBe(70);
+      });
+
+      it('should show #REF! right away when a referenced sheet is removed', () => {
+        const { addName, updateCell, removeSheet } =
+          useSpreadsheetStore.getState();
+        addName('BASE_ATTACK', "'Test Sheet'!B2");
+        updateCell(otherSheetId, 'row-0', 'col-C', "='Test Sheet'!B1*2");
+        updateCell(otherSheetId, 'row-1', 'col-C', '=BASE_ATTACK+1');
+        expect(getSummaryCell().value).toBe(20);
+
+        removeSheet(testSheetId);
+
+        const summary = useSpreadsheetStore
+          .getState()
+          .sheets.find((s) => s.id === otherSheetId)!;
+        expect(summary.rows[0].cells['col-C'].value).toBe('#REF!');
+        expect(summary.rows[1].cells['col-C'].value).toBe('#REF!');
+      });
+    });
+  });
+
+  describe('Named Ranges', () => {
+    const getCell = (rowId: string, columnId: string) =>
+      useSpreadsheetStore
+        .getState()
+        .sheets.find((s) => s.id === testSheetId)!
+        .rows.find((r) => r.id === rowId)!.cells[columnId];
+
+    beforeEach(() => {
+      useSpreadsheetStore.setState({ names: [] });
+    });
+
+    it('should add names and evaluate formulas that use them', () => {
+      const { addName, updateCell } = useSpreadsheetStore.getState();
+      expect(addName('BONUS', '5')).toBe(true);
+      expect(addName('bonus', '6')).toBe(false);
+
+      updateCell(testSheetId, 'row-0', 'col-C', '=B1 + BONUS');
+
+      expect(getCell('row-0', 'col-C').value).toBe(15);
+    });
+
+    it('should recalculate usages when a definition changes', () => {
+      const { addName, updateName, updateCell } =
+        useSpreadsheetStore.getState();
+      addName('BONUS', '5');
+      updateCell(testSheetId, 'row-0', 'col-C', '=B1 + BONUS');
+
+      const id = useSpreadsheetStore.getState().names[0].id;
+      updateName(id, { definition: "'Test Sheet'!B2" });
+
+      expect(getCell('row-0', 'col-C').value).toBe(30);
+    });
+
+    it('should rewrite formulas when a name is renamed', () => {
+      const { addName, renameName, updateCell } =
+        useSpreadsheetStore.getState();
+      addName('BONUS', '5');
+      addName('DOUBLE_BONUS', 'BONUS * 2');
+      updateCell(testSheetId, 'row-0', 'col-C', '=B1 + BONUS');
+
+      const id = useSpreadsheetStore.getState().names[0].id;
+      expect(renameName(id, 'FLAT_BONUS')).toBe(true);
+
+      const state = useSpreadsheetStore.getState();
+      expect(getCell('row-0', 'col-C').formula).toBe('=B1 + FLAT_BONUS');
+      expect(state.names[1].definition).toBe('FLAT_BONUS * 2');
+      expect(state.findNameUsages('FLAT_BONUS')).toHaveLength(2);
+    });
+
+    it('should turn usages into errors when a name is deleted', () => {
+      const { addName, deleteName, updateCell } =
+        useSpreadsheetStore.getState();
+      addName('BONUS', '5');
+      updateCell(testSheetId, 'row-0', 'col-C', '=B1 + BONUS');
+
+      deleteName(useSpreadsheetStore.getState().names[0].id);
+
+      expect(getCell('row-0', 'col-C').value).toBe('#NAME?');
+    });
+
+    it('should evaluate saved LAMBDA functions and follow their edits', () => {
+      const { addName, updateName, updateCell } =
+        useSpreadsheetStore.getState();
+      expect(addName('EFFECTIVE_HP', 'LAMBDA(hp, def, hp * (1 + def))')).toBe(
+        true
+      );
+      updateCell(testSheetId, 'row-0', 'col-C', '=EFFECTIVE_HP(B1, 1)');
+
+      expect(getCell('row-0', 'col-C').value).toBe(20);
+
+      const id = useSpreadsheetStore.getState().names[0].id;
+      updateName(id, { definition: 'LAMBDA(hp, def, hp * (1 + def * 2))' });
+
+      expect(getCell('row-0', 'col-C').value).toBe(30);
+    });
+  });
+
+  describe('Formula Error Values', () => {
+    const getCell = (rowId: string, columnId: string) =>
+      useSpreadsheetStore
+        .getState()
+        .sheets.find((s) => s.id === testSheetId)!
+        .rows.find((r) => r.id === rowId)!.cells[columnId];
+
+    it('should store the error code and message', () => {
+      const { updateCell } = useSpreadsheetStore.getState();
+      updateCell(testSheetId, 'row-0', 'col-C', '=B1/0');
+
+      const cell = getCell('row-0', 'col-C');
+      expect(cell.value).toBe('#DIV/0!');
+      expect(cell.error).toBe('Division by zero');
+    });
+
+    it('should propagate errors to dependents and clear them when fixed', () => {
+      const { updateCell } = useSpreadsheetStore.getState();
+      updateCell(testSheetId, 'row-0', 'col-B', '=1/0');
+      updateCell(testSheetId, 'row-1', 'col-C', '=B1 + B2');
+
+      expect(getCell('row-1', 'col-C').value).toBe('#DIV/0!');
+
+      updateCell(testSheetId, 'row-0', 'col-B', 5);
+
+      const cell = getCell('row-1', 'col-C');
+      expect(cell.value).toBe(25);
+      expect(cell.error).toBeUndefined();
+    });
+  });
+
+  describe('Dynamic Array Spill', () => {
+    const getCell = (rowId: string, columnId: string) =>
+      useSpreadsheetStore
+        .getState()
+        .sheets.find((s) => s.id === testSheetId)!
+        .rows.find((r) => r.id === rowId)!.cells[columnId];
+
+    it('should spill array results into neighbouring cells', () => {
+      const { updateCell } = useSpreadsheetStore.getState();
+      updateCell(testSheetId, 'row-1', 'col-C', '');
+      updateCell(testSheetId, 'row-0', 'col-C', '=SEQUENCE(2, 1, 5)');
+
+      expect(getCell('row-0', 'col-C').value).toBe(5);
+      expect(getCell('row-0', 'col-C').spill).toEqual({ rows: 2, columns: 1 });
+      expect(getCell('row-1', 'col-C').value).toBe(6);
+      expect(getCell('row-1', 'col-C').spilledFrom).toBe('row-0:col-C');
+    });
+
+    it('should report #SPILL! when blocked and re-spill once cleared', () => {
+      const { updateCell } = useSpreadsheetStore.getState();
+      updateCell(testSheetId, 'row-0', 'col-C', '=SEQUENCE(2)');
+      expect(getCell('row-0', 'col-C').value).toBe('#SPILL!');
+      expect(getCell('row-1', 'col-C').value).toBe('C2');
+
+      updateCell(testSheetId, 'row-1', 'col-C', '');
+      expect(getCell('row-0', 'col-C').value).toBe(1);
+      expect(getCell('row-1', 'col-C').value).toBe(2);
+
+      updateCell(testSheetId, 'row-1', 'col-C', 'x');
+      expect(getCell('row-0', 'col-C').value).toBe('#SPILL!');
+      expect(getCell('row-1', 'col-C').value).toBe('x');
+      expect(getCell('row-1', 'col-C').spilledFrom).toBeUndefined();
+    });
+
+    it('should clear spilled cells when the formula is replaced', () => {
+      const { updateCell } = useSpreadsheetStore.getState();
+      updateCell(testSheetId, 'row-1', 'col-C', '');
+      updateCell(testSheetId, 'row-0', 'col-C', '=SEQUENCE(2)');
+      updateCell(testSheetId, 'row-0', 'col-C', 'done');
+
+      expect(getCell('row-0', 'col-C').spill).toBeUndefined();
+      expect(getCell('row-1', 'col-C').value).toBeNull();
+      expect(getCell('row-1', 'col-C').spilledFrom).toBeUndefined();
+    });
+
+    it('should recalculate dependents of spilled cells', () => {
+      const { updateCell } = useSpreadsheetStore.getState();
+      updateCell(testSheetId, 'row-1', 'col-C', '');
+      updateCell(testSheetId, 'row-1', 'col-A', '=C2*10');
+      updateCell(testSheetId, 'row-0', 'col-C', '=SEQUENCE(2, 1, B1)');
+
+      expect(getCell('row-1', 'col-A').value).toBe(110);
+
+      updateCell(testSheetId, 'row-0', 'col-B', 20);
+      expect(getCell('row-1', 'col-C').value).toBe(21);
+      expect(getCell('row-1', 'col-A').value).toBe(210);
+    });
+  });
+
+  describe('Recalculation', () => {
+    const getCell = (rowId: string, columnId: string) =>
+      useSpreadsheetStore
+        .getState()
+        .sheets.find((s) => s.id === testSheetId)!
+        .rows.find((r) => r.id === rowId)!.cells[columnId];
+
+    it('should recalculate stale formula results in the workbook', async () => {
+      useSpreadsheetStore.setState((state) => {
+        const cell = state.sheets[0].rows[0].cells['col-C'];
+        cell.formula = '=B1*2';
+        cell.type = 'formula';
+        cell.value = 0;
+      });
+
+      await useSpreadsheetStore.getState().recalculateWorkbook();
+
+      expect(getCell('row-0', 'col-C').value).toBe(20);
+      expect(useSpreadsheetStore.getState().recalculating).toBe(false);
+    });
+
+    it('should recalculate on the main thread when the worker crashes', async () => {
+      vi.stubGlobal(
+        'Worker',
+        class extends EventTarget {
+          postMessage() {
+            queueMicrotask(() =>
+              this.dispatchEvent(new ErrorEvent('error', { cancelable: true }))
+            );
+          }
+          terminate() {}
+        }
+      );
+      const consoleError = vi
+        .spyOn(console, 'error')
+        .mockImplementation(() => {});
+      useSpreadsheetStore.setState((state) => {
+        const cell = state.sheets[0].rows[0].cells['col-C'];
+        cell.formula = '=B1*2';
+        cell.type = 'formula';
+        cell.value = 0;
+      });
+
+      try {
+        await useSpreadsheetStore.getState().recalculateWorkbook();
+      } finally {
+        consoleError.mockRestore();
+        vi.unstubAllGlobals();
+      }
+
+      expect(getCell('row-0', 'col-C').value).toBe(20);
+      expect(useSpreadsheetStore.getState().recalculating).toBe(false);
+    });
+
+    it('should recalculate a dependency chain in order', () => {
+      const { updateCell } = useSpreadsheetStore.getState();
+      updateCell(testSheetId, 'row-0', 'col-C', '=B1+A2');
+      updateCell(testSheetId, 'row-1', 'col-A', '=B1*2');
+
+      updateCell(testSheetId, 'row-0', 'col-B', 5);
+      expect(getCell('row-1', 'col-A').value).toBe(10);
+      expect(getCell('row-0', 'col-C').value).toBe(15);
+    });
+
+    it('should recalculate dependents of pasted, replaced and cleared cells', async () => {
+      const summary = createMockSheet({
+        name: 'Summary',
+        columns: ['A'],
+        rows: [{ A: null }],
+      });
+      const {
+        addSheets,
+        updateCell,
+        updateCells,
+        clearCell,
+        setSelection,
+        pasteFromClipboard,
+        replaceAll,
+      } = useSpreadsheetStore.getState();
+      addSheets([summary]);
+      updateCell(testSheetId, 'row-0', 'col-C', '=B1*2');
+      updateCell(testSheetId, 'row-1', 'col-C', '=LEN(A1)');
+      updateCell(summary.id, 'row-0', 'col-A', "='Test Sheet'!B1+1");
+      const summaryValue = () =>
+        useSpreadsheetStore.getState().sheets.find((s) => s.id === summary.id)!
+          .rows[0].cells['col-A'].value;
+
+      vi.stubGlobal('navigator', {
+        clipboard: {
+          readText: vi.fn().mockResolvedValue('7'),
+          writeText: vi.fn().mockResolvedValue(undefined),
+        },
+      });
+      useSpreadsheetStore.setState({ activeSheetId: testSheetId });
+      setSelection({ startRow: 0, endRow: 0, startColumn: 1, endColumn: 1 });
+      try {
+        expect(await pasteFromClipboard()).toBe(true);
+      } finally {
+        vi.unstubAllGlobals();
+      }
+      expect(getCell('row-0', 'col-C').value).toBe(14);
+      expect(summaryValue()).toBe(8);
+
+      expect(replaceAll('A1', 'Long')).toBe(1);
+      expect(getCell('row-1', 'col-C').value).toBe(4);
+
+      updateCells(testSheetId, [
+        { rowId: 'row-0', columnId: 'col-B', value: 3 },
+      ]);
+      expect(getCell('row-0', 'col-C').value).toBe(6);
+
+      clearCell(testSheetId, 'row-0', 'col-B');
+      expect(getCell('row-0', 'col-C').value).toBe(0);
+      expect(summaryValue()).toBe(1);
+    });
+
+    it('should refresh TODAY() and its dependents on volatile recalculation', () => {
+      vi.useFakeTimers();
+      try {
+        vi.setSystemTime(new Date(2025, 0, 1, 12));
+        const { updateCell } = useSpreadsheetStore.getState();
+        updateCell(testSheetId, 'row-0', 'col-C', '=TODAY()');
+        updateCell(testSheetId, 'row-1', 'col-C', '=DAY(C1)');
+        expect(getCell('row-1', 'col-C').value).toBe(1);
+
+        vi.setSystemTime(new Date(2025, 0, 2, 12));
+        useSpreadsheetStore.getState().recalculateVolatile();
+
+        expect(getCell('row-0', 'col-C').value).toEqual(new Date(2025, 0, 2));
+        expect(getCell('row-1', 'col-C').value).toBe(2);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+
+  describe('Random Functions', () => {
+    const getValue = () =>
+      useSpreadsheetStore.getState().sheets.find((s) => s.id === testSheetId)!
+        .rows[0].cells['col-C'].value;
+
+    it('should keep random results until rerolled', async () => {
+      const { updateCell, setRandomSeed, rerollRandom } =
+        useSpreadsheetStore.getState();
+      await setRandomSeed(1);
+      updateCell(testSheetId, 'row-0', 'col-C', '=RAND()');
+      const first = getValue();
+
+      updateCell(testSheetId, 'row-0', 'col-B', 99);
+      expect(getValue()).toBe(first);
+
+      await rerollRandom();
+      expect(useSpreadsheetStore.getState().randomSeed).not.toBe(1);
+      expect(getValue()).not.toBe(first);
+
+      await setRandomSeed(1);
+      expect(getValue()).toBe(first);
+    });
+  });
+
+  describe('Iterative Calculation', () => {
+    const getValue = (rowIndex: number, columnId: string) =>
+      useSpreadsheetStore.getState().sheets.find((s) => s.id === testSheetId)!
+        .rows[rowIndex].cells[columnId].value;
+
+    it('should converge circular references once enabled', async () => {
+      const { updateCell, setIterativeCalculation } =
+        useSpreadsheetStore.getState();
+      updateCell(testSheetId, 'row-0', 'col-C', '=B1 + 1');
+      updateCell(testSheetId, 'row-0', 'col-B', '=C1 * 0.5');
+      expect(getValue(0, 'col-B')).toBe('#CIRC!');
+
+      await setIterativeCalculation({ enabled: true, maxIterations: 0 });
+      expect(useSpreadsheetStore.getState().iterativeCalculation).toEqual({
+        enabled: true,
+        maxIterations: 1,
+        tolerance: 0.001,
+      });
+      expect(getValue(0, 'col-B')).toBe('#NUM!');
+
+      await setIterativeCalculation({ maxIterations: 100 });
+      expect(getValue(0, 'col-B')).toBeCloseTo(1, 2);
+      expect(getValue(0, 'col-C')).toBeCloseTo(2, 2);
+
+      await setIterativeCalculation({ enabled: false });
+      expect(getValue(0, 'col-B')).toBe('#CIRC!');
+    });
+  });
+
+  describe('What-If Analysis', () => {
+    const getValue = (rowIndex: number, columnId: string) =>
+      useSpreadsheetStore.getState().sheets.find((s) => s.id === testSheetId)!
+        .rows[rowIndex].cells[columnId].value;
+    const at = (rowId: string, columnId: string) => ({
+      sheetId: testSheetId,
+      rowId,
+      columnId,
+    });
+
+    it('should write the goal seek solution as an undoable edit', () => {
+      const { updateCell, goalSeek, undo } = useSpreadsheetStore.getState();
+      updateCell(testSheetId, 'row-0', 'col-C', '=B1 * 3');
+
+      const result = goalSeek(at('row-0', 'col-C'), 45, at('row-0', 'col-B'));
+
+      expect(result?.found).toBe(true);
+      expect(getValue(0, 'col-B')).toBeCloseTo(15, 2);
+      expect(getValue(0, 'col-C')).toBeCloseTo(45, 2);
+
+      undo();
+      expect(getValue(0, 'col-B')).toBe(10);
+      expect(goalSeek(at('row-0', 'col-B'), 1, at('row-0', 'col-A'))).toBe(
+        null
+      );
+    });
+
+    it('should fill a data table and undo it in one step', () => {
+      const { updateCell, fillDataTable, undo, redo } =
+        useSpreadsheetStore.getState();
+      updateCell(testSheetId, 'row-0', 'col-A', 5);
+      updateCell(testSheetId, 'row-0', 'col-C', '=A1 * 2');
+
+      // B2 holds the input value, C1 the formula, C2 receives the result
+      const range = { startRow: 0, endRow: 1, startColumn: 1, endColumn: 2 };
+      expect(
+        fillDataTable(testSheetId, range, { columnInput: at('row-0', 'col-A') })
+      ).toBe(true);
+      expect(getValue(1, 'col-C')).toBe(40);
+      expect(getValue(0, 'col-C')).toBe(10);
+
+      undo();
+      expect(getValue(1, 'col-C')).toBe('C2');
+      redo();
+      expect(getValue(1, 'col-C')).toBe(40);
+    });
+  });
+
+  describe('Combat Simulation', () => {
+    it('should generate a live TTK matrix sheet', () => {
+      const characters = createMockSheet({
+        name: 'Heroes',
+        columns: ['Name', 'Attack'],
+        rows: [{ Name: 'Knight', Attack: 100 }],
+      });
+      characters.id = 'heroes';
+      const enemies = createMockSheet({
+        name: 'Monsters',
+        columns: ['Name', 'HP'],
+        rows: [{ Name: 'Slime', HP: 500 }],
+      });
+      enemies.id = 'monsters';
+
+      const { addSheets, createTtkMatrix, updateCell } =
+        useSpreadsheetStore.getState();
+      addSheets([characters, enemies]);
+
+      const matrixId = createTtkMatrix('heroes', 'monsters');
+      const matrix = () =>
+        useSpreadsheetStore.getState().sheets.find((s) => s.id === matrixId)!;
+      expect(matrix().name).toBe('TTK Heroes vs Monsters');
+      expect(useSpreadsheetStore.getState().activeSheetId).toBe(matrixId);
+      expect(matrix().rows[0].cells['enemy-0'].value).toBe(5);
+
+      updateCell('heroes', 'row-0', 'col-Attack', 250);
+      expect(matrix().rows[0].cells['enemy-0'].value).toBe(2);
+
+      expect(createTtkMatrix('heroes', 'heroes')).toBeNull();
+    });
+  });
+
+  describe('Referential Integrity', () => {
+    const setup = () => {
+      const items = createMockSheet({
+        name: 'Item Data',
+        columns: ['ID', 'Name'],
+        rows: [
+          { ID: 'item_steel_sword', Name: 'Steel Sword' },
+          { ID: 'item_potion', Name: 'Health Potion' },
+        ],
+      });
+      items.id = 'items';
+      const drops = createMockSheet({
+        name: 'Drop Table',
+        columns: ['Item'],
+        rows: [
+          { Item: 'item_steel_sword' },
+          { Item: 'item_potion' },
+          { Item: 'item_steel_sword' },
+        ],
+      });
+      drops.id = 'drops';
+      drops.columns[0] = {
+        ...drops.columns[0],
+        type: 'reference',
+        reference: { sheetId: 'items', keyColumnId: 'col-ID' },
+      };
+      useSpreadsheetStore.setState({ pendingReferenceChange: null });
+      useSpreadsheetStore.getState().addSheets([items, drops]);
+    };
+    const value = (sheetId: string, rowId: string, columnId: string) =>
+      useSpreadsheetStore.getState().getCell(sheetId, rowId, columnId)?.value;
+    const dropItems = () =>
+      useSpreadsheetStore
+        .getState()
+        .sheets.find((s) => s.id === 'drops')!
+        .rows.map((row) => row.cells['col-Item'].value);
+
+    it('should cascade a renamed ID as one undoable step', () => {
+      setup();
+      const { updateCell, resolveReferenceChange, undo, redo } =
+        useSpreadsheetStore.getState();
+
+      updateCell('items', 'row-0', 'col-ID', 'item_iron_sword');
+      const change = useSpreadsheetStore.getState().pendingReferenceChange!;
+      expect(change.action).toBe('rename');
+      expect(change.references.map((ref) => ref.rowId)).toEqual([
+        'row-0',
+        'row-2',
+      ]);
+      // Nothing is committed until the user decides
+      expect(value('items', 'row-0', 'col-ID')).toBe('item_steel_sword');
+
+      expect(resolveReferenceChange('cascade')).toBe(true);
+      expect(value('items', 'row-0', 'col-ID')).toBe('item_iron_sword');
+      expect(dropItems()).toEqual([
+        'item_iron_sword',
+        'item_potion',
+        'item_iron_sword',
+      ]);
+
+      undo();
+      expect(value('items', 'row-0', 'col-ID')).toBe('item_steel_sword');
+      expect(dropItems()).toEqual([
+        'item_steel_sword',
+        'item_potion',
+        'item_steel_sword',
+      ]);
+
+      redo();
+      expect(value('items', 'row-0', 'col-ID')).toBe('item_iron_sword');
+      expect(dropItems()[2]).toBe('item_iron_sword');
+    });
+
+    it('should null out references to a deleted row or block the delete', () => {
+      setup();
+      const { removeRow, resolveReferenceChange, undo } =
+        useSpreadsheetStore.getState();
+      const itemCount = () =>
+        useSpreadsheetStore.getState().sheets.find((s) => s.id === 'items')!
+          .rows.length;
+
+      removeRow('items', 'row-1');
+      expect(
+        useSpreadsheetStore.getState().pendingReferenceChange?.action
+      ).toBe('delete');
+      // Cascading has no new ID for a deleted row
+      expect(resolveReferenceChange('cascade')).toBe(false);
+      expect(resolveReferenceChange('block')).toBe(false);
+      expect(useSpreadsheetStore.getState().pendingReferenceChange).toBeNull();
+      expect(itemCount()).toBe(2);
+
+      removeRow('items', 'row-1');
+      expect(resolveReferenceChange('nullify')).toBe(true);
+      expect(itemCount()).toBe(1);
+      expect(dropItems()).toEqual([
+        'item_steel_sword',
+        null,
+        'item_steel_sword',
+      ]);
+
+      undo();
+      expect(itemCount()).toBe(2);
+      expect(dropItems()[1]).toBe('item_potion');
+    });
+
+    it('should hold back a paste of referenced IDs as one undoable step', async () => {
+      setup();
+      vi.stubGlobal('navigator', {
+        clipboard: {
+          readText: vi
+            .fn()
+            .mockResolvedValue(
+              'item_iron_sword\tIron Sword\nitem_elixir\tElixir'
+            ),
+          writeText: vi.fn().mockResolvedValue(undefined),
+        },
+      });
+      const { setSelection, pasteFromClipboard, resolveReferenceChange, undo } =
+        useSpreadsheetStore.getState();
+      useSpreadsheetStore.setState({ activeSheetId: 'items' });
+      setSelection({ startRow: 0, endRow: 0, startColumn: 0, endColumn: 0 });
+      const historyLength = useSpreadsheetStore.getState().history.length;
+
+      try {
+        expect(await pasteFromClipboard()).toBe(true);
+        // Nothing of the paste is written until the user decides
+        expect(value('items', 'row-0', 'col-Name')).toBe('Steel Sword');
+        expect(value('items', 'row-0', 'col-ID')).toBe('item_steel_sword');
+        expect(useSpreadsheetStore.getState().history).toHaveLength(
+          historyLength
+        );
+        const change = useSpreadsheetStore.getState().pendingReferenceChange!;
+        expect(change.action).toBe('rename');
+        expect(change.targets.map((t) => t.value)).toEqual([
+          'item_iron_sword',
+          'item_elixir',
+        ]);
+        expect(change.references).toHaveLength(3);
+        expect(change.cells).toHaveLength(4);
+
+        // Each reference follows the new value of its own ID
+        expect(resolveReferenceChange('cascade')).toBe(true);
+        expect(value('items', 'row-0', 'col-Name')).toBe('Iron Sword');
+        expect(value('items', 'row-1', 'col-ID')).toBe('item_elixir');
+        expect(
+          useSpreadsheetStore.getState().getCell('items', 'row-1', 'col-Name')
+            ?.type
+        ).toBe('text');
+        expect(dropItems()).toEqual([
+          'item_iron_sword',
+          'item_elixir',
+          'item_iron_sword',
+        ]);
+
+        // One undo takes back both the paste and the references
+        undo();
+        expect(value('items', 'row-0', 'col-Name')).toBe('Steel Sword');
+        expect(value('items', 'row-1', 'col-ID')).toBe('item_potion');
+        expect(dropItems()).toEqual([
+          'item_steel_sword',
+          'item_potion',
+          'item_steel_sword',
+        ]);
+        expect(useSpreadsheetStore.getState().history).toHaveLength(
+          historyLength + 1
+        );
+
+        // Blocking keeps the referenced IDs but pastes everything else
+        await pasteFromClipboard();
+        expect(resolveReferenceChange('block')).toBe(false);
+        expect(value('items', 'row-0', 'col-Name')).toBe('Iron Sword');
+        expect(value('items', 'row-1', 'col-Name')).toBe('Elixir');
+        expect(value('items', 'row-0', 'col-ID')).toBe('item_steel_sword');
+        expect(dropItems()[1]).toBe('item_potion');
+      } finally {
+        vi.unstubAllGlobals();
+      }
+    });
+
+    it('should ask once before deleting several referenced rows', () => {
+      setup();
+      const { removeRows, resolveReferenceChange, undo } =
+        useSpreadsheetStore.getState();
+      const itemCount = () =>
+        useSpreadsheetStore.getState().sheets.find((s) => s.id === 'items')!
+          .rows.length;
+
+      removeRows('items', ['row-0', 'row-1']);
+      const change = useSpreadsheetStore.getState().pendingReferenceChange!;
+      expect(change.action).toBe('delete');
+      expect(change.targets.map((t) => t.rowId)).toEqual(['row-0', 'row-1']);
+      expect(change.references).toHaveLength(3);
+      expect(itemCount()).toBe(2);
+
+      expect(resolveReferenceChange('nullify')).toBe(true);
+      expect(itemCount()).toBe(0);
+      expect(dropItems()).toEqual([null, null, null]);
+
+      undo();
+      expect(itemCount()).toBe(2);
+      expect(dropItems()).toEqual([
+        'item_steel_sword',
+        'item_potion',
+        'item_steel_sword',
+      ]);
+    });
+
+    it('should block only the referenced rows of a multi-row delete', () => {
+      setup();
+      const { updateCell, removeRows, resolveReferenceChange } =
+        useSpreadsheetStore.getState();
+      updateCell('drops', 'row-1', 'col-Item', null);
+
+      removeRows('items', ['row-0', 'row-1']);
+      expect(resolveReferenceChange('block')).toBe(false);
+      expect(useSpreadsheetStore.getState().pendingReferenceChange).toBeNull();
+
+      const rows = useSpreadsheetStore
+        .getState()
+        .sheets.find((s) => s.id === 'items')!.rows;
+      expect(rows.map((row) => row.id)).toEqual(['row-0']);
+      expect(dropItems()).toEqual([
+        'item_steel_sword',
+        null,
+        'item_steel_sword',
+      ]);
+    });
+  });
+
+  describe('Version History', () => {
+    const takeSnapshot = (): Snapshot => {
+      const state = useSpreadsheetStore.getState();
+      return {
+        id: 'snapshot-test',
+        spreadsheetId: state.spreadsheetId,
+        name: 'pre-patch 1.4 balance',
+        createdAt: new Date(),
+        data: {
+          id: state.spreadsheetId,
+          name: state.spreadsheetName,
+          sheets: state.sheets,
+          activeSheetId: state.activeSheetId,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        },
+      };
+    };
+    const getSheet = () =>
+      useSpreadsheetStore.getState().sheets.find((s) => s.id === testSheetId)!;
+
+    it('should restore a whole version as one undoable step', () => {
+      const { updateCell, addSheet, restoreSnapshot, undo } =
+        useSpreadsheetStore.getState();
+      const snapshot = takeSnapshot();
+
+      updateCell(testSheetId, 'row-0', 'col-A', 'Changed');
+      addSheet('After Snapshot');
+      restoreSnapshot(snapshot);
+
+      let state = useSpreadsheetStore.getState();
+      expect(getSheet().rows[0].cells['col-A'].value).toBe('A1');
+      expect(state.sheets.some((s) => s.name === 'After Snapshot')).toBe(false);
+      expect(state.sheets.some((s) => s.id === state.activeSheetId)).toBe(true);
+
+      undo();
+      state = useSpreadsheetStore.getState();
+      expect(getSheet().rows[0].cells['col-A'].value).toBe('Changed');
+      expect(state.sheets.some((s) => s.name === 'After Snapshot')).toBe(true);
+    });
+
+    it('should restore selected rows, putting deleted rows back in place', () => {
+      const { updateCell, removeRow, addRow, restoreSnapshotRows } =
+        useSpreadsheetStore.getState();
+      updateCell(testSheetId, 'row-1', 'col-B', '=B1*2');
+      const snapshot = takeSnapshot();
+
+      updateCell(testSheetId, 'row-0', 'col-A', 'Changed');
+      updateCell(testSheetId, 'row-0', 'col-C', 'Kept');
+      removeRow(testSheetId, 'row-1');
+      addRow(testSheetId);
+
+      expect(
+        restoreSnapshotRows(snapshot, testSheetId, ['row-1', 'row-0'])
+      ).toBe(2);
+
+      const sheet = getSheet();
+      expect(sheet.rows.map((r) => r.id).slice(0, 2)).toEqual([
+        'row-0',
+        'row-1',
+      ]);
+      expect(sheet.rows).toHaveLength(3);
+      expect(sheet.rows[0].cells['col-A'].value).toBe('A1');
+      expect(sheet.rows[0].cells['col-C'].value).toBe('C1');
+      expect(sheet.rows[1].cells['col-B'].formula).toBe('=B1*2');
+      expect(sheet.rows[1].cells['col-B'].value).toBe(20);
+
+      // Restored formulas follow the current inputs again
+      updateCell(testSheetId, 'row-0', 'col-B', 7);
+      expect(getSheet().rows[1].cells['col-B'].value).toBe(14);
+    });
+
+    it('should not restore rows of a sheet missing from either version', () => {
+      const { restoreSnapshotRows } = useSpreadsheetStore.getState();
+      const snapshot = takeSnapshot();
+      snapshot.data = { ...snapshot.data, sheets: [] };
+
+      expect(restoreSnapshotRows(snapshot, testSheetId, ['row-0'])).toBe(0);
+    });
+  });
+
+  describe('Branch Merge', () => {
+    it('should apply a merge with chosen conflicts as one undoable step', () => {
+      // The next merge base is stored in IndexedDB
+      const { _advanceMergeBase } = useSpreadsheetStore.getState();
+      const advanceMergeBase = vi.fn();
+      useSpreadsheetStore.setState({ _advanceMergeBase: advanceMergeBase });
+      const { updateCell, applyMerge, undo } = useSpreadsheetStore.getState();
+      const base = structuredClone(useSpreadsheetStore.getState().sheets);
+
+      const theirs = structuredClone(base);
+      theirs[0].rows[0].cells['col-B'].value = 99;
+      theirs[0].rows[1].cells['col-C'].value = 'Theirs';
+      updateCell(testSheetId, 'row-0', 'col-C', 'Ours');
+      updateCell(testSheetId, 'row-1', 'col-C', 'Ours too');
+
+      const result = mergeWorkbooks(
+        { sheets: base },
+        useSpreadsheetStore.getState(),
+        { sheets: theirs }
+      );
+      expect(result.conflicts).toHaveLength(1);
+
+      const merge = {
+        sourceId: 'branch',
+        sourceName: 'Balance pass',
+        theirs: {
+          id: 'branch',
+          name: 'Balance pass',
+          sheets: theirs,
+          activeSheetId: testSheetId,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        },
+        result,
+      };
+      applyMerge(merge, { [result.conflicts[0].id]: 'theirs' });
+
+      const getRow = (index: number) =>
+        useSpreadsheetStore.getState().sheets.find((s) => s.id === testSheetId)!
+          .rows[index];
+      expect(getRow(0).cells['col-B'].value).toBe(99);
+      expect(getRow(0).cells['col-C'].value).toBe('Ours');
+      expect(getRow(1).cells['col-C'].value).toBe('Theirs');
+      expect(useSpreadsheetStore.getState().history.at(-1)?.label).toBe(
+        'applyMerge'
+      );
+      expect(advanceMergeBase).toHaveBeenCalledWith(merge);
+
+      undo();
+      expect(getRow(0).cells['col-B'].value).toBe(10);
+      expect(getRow(1).cells['col-C'].value).toBe('Ours too');
+      useSpreadsheetStore.setState({ _advanceMergeBase });
+    });
+
+    it('should merge names and calculation settings from the other side', () => {
+      const { _advanceMergeBase } = useSpreadsheetStore.getState();
+      useSpreadsheetStore.setState({ _advanceMergeBase: vi.fn() });
+      const { applyMerge, updateCell, getCell, undo } =
+        useSpreadsheetStore.getState();
+      const state = useSpreadsheetStore.getState();
+      const base = {
+        sheets: structuredClone(state.sheets),
+        names: state.names,
+        randomSeed: state.randomSeed,
+        iterativeCalculation: state.iterativeCalculation,
+      };
+      const theirs = {
+        ...base,
+        id: 'branch',
+        name: 'Balance pass',
+        activeSheetId: testSheetId,
+        names: [
+          { id: 'name-crit', name: 'CRIT_MULTIPLIER', definition: '1.5' },
+        ],
+        randomSeed: 42,
+        iterativeCalculation: { ...base.iterativeCalculation, enabled: true },
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      };
+
+      const result = mergeWorkbooks(base, state, theirs);
+      applyMerge(
+        { sourceId: 'branch', sourceName: 'Balance pass', theirs, result },
+        {}
+      );
+
+      const merged = useSpreadsheetStore.getState();
+      expect(merged.names.map((n) => n.name)).toEqual(['CRIT_MULTIPLIER']);
+      expect(merged.randomSeed).toBe(42);
+      expect(merged.iterativeCalculation.enabled).toBe(true);
+      // The formula engine sees the merged names
+      updateCell(testSheetId, 'row-0', 'col-A', '=CRIT_MULTIPLIER*2');
+      expect(getCell(testSheetId, 'row-0', 'col-A')?.value).toBe(3);
+
+      undo();
+      undo();
+      expect(useSpreadsheetStore.getState().names).toEqual(base.names);
+      expect(useSpreadsheetStore.getState().randomSeed).toBe(base.randomSeed);
+      useSpreadsheetStore.setState({ _advanceMergeBase });
+    });
+  });
+
+  describe('Formula Auditing', () => {
+    const select = (startRow: number, startColumn: number) =>
+      useSpreadsheetStore.getState().setSelection({
+        startRow,
+        endRow: startRow,
+        startColumn,
+        endColumn: startColumn,
+      });
+
+    it('should widen the trace each time the same cell is traced', () => {
+      const { updateCell, traceFormulaCell } = useSpreadsheetStore.getState();
+      updateCell(testSheetId, 'row-0', 'col-C', '=B1*2');
+      updateCell(testSheetId, 'row-1', 'col-C', '=C1+B2');
+
+      select(0, 1); // B1
+      expect(traceFormulaCell('dependents')).toBe(1);
+      expect(traceFormulaCell('dependents')).toBe(2);
+
+      const trace = useSpreadsheetStore.getState().formulaTrace!;
+      expect(trace.levels).toBe(2);
+      expect(trace.cells).toEqual({
+        [`${testSheetId}!row-0:col-C`]: 1,
+        [`${testSheetId}!row-1:col-C`]: 2,
+      });
+
+      // Another cell or direction starts over
+      select(1, 2); // C2
+      expect(traceFormulaCell('precedents')).toBe(2);
+      expect(useSpreadsheetStore.getState().formulaTrace?.levels).toBe(1);
+
+      useSpreadsheetStore.getState().clearFormulaTrace();
+      expect(useSpreadsheetStore.getState().formulaTrace).toBeNull();
+    });
+
+    it('should list direct precedents and evaluation steps of a cell', () => {
+      const { updateCell, getTracedCells, evaluateFormulaSteps } =
+        useSpreadsheetStore.getState();
+      updateCell(testSheetId, 'row-1', 'col-C', '=B1+B2');
+
+      expect(
+        getTracedCells(testSheetId, 'row-1', 'col-C', 'precedents').map(
+          (c) => c.address
+        )
+      ).toEqual(["'Test Sheet'!B1", "'Test Sheet'!B2"]);
+      expect(
+        evaluateFormulaSteps(testSheetId, 'row-1', 'col-C').map((s) => [
+          s.expression,
+          s.value,
+        ])
+      ).toEqual([
+        ['B1', 10],
+        ['B2', 20],
+        ['B1 + B2', 30],
+      ]);
+      expect(evaluateFormulaSteps(testSheetId, 'row-0', 'col-A')).toEqual([]);
+    });
+  });
+
+  describe('Formula Reference Picking', () => {
+    it('should qualify references picked on other sheets', () => {
+      const state = useSpreadsheetStore.getState();
+      expect(
+        state.pickFormulaReference(testSheetId, {
+          startRow: 0,
+          endRow: 0,
+          startColumn: 1,
+          endColumn: 1,
+        })
+      ).toBe(false);
+
+      state.startFormulaEditing(testSheetId, 'row-0', 'col-C');
+      state.pickFormulaReference(testSheetId, {
+        startRow: 0,
+        endRow: 1,
+        startColumn: 1,
+        endColumn: 1,
+      });
+      expect(useSpreadsheetStore.getState().formulaEditing).toMatchObject({
+        pickedReference: 'B1:B2',
+        pickCount: 1,
+      });
+
+      state.addSheet('Item Data');
+      const itemSheet = useSpreadsheetStore
+        .getState()
+        .sheets.find((s) => s.name === 'Item Data')!;
+      state.pickFormulaReference(itemSheet.id, {
+        startRow: 2,
+        endRow: 2,
+        startColumn: 0,
+        endColumn: 0,
+      });
+      expect(useSpreadsheetStore.getState().formulaEditing).toMatchObject({
+        rowId: 'row-0',
+        pickedReference: "'Item Data'!A3",
+        pickCount: 2,
+      });
+
+      state.stopFormulaEditing();
+      expect(useSpreadsheetStore.getState().formulaEditing).toBeNull();
+    });
+  });
+
   describe('Column Operations', () => {
     it('should update column name', () => {
       const { updateColumn } = useSpreadsheetStore.getState();
@@ -444,6 +1794,31 @@ describe('SpreadsheetStore', () => {
       expect(afterColumn?.index).toBe(beforeIndex);
     });
 
+    it('should rewrite column references when a referenced column is renamed', () => {
+      const { updateCell, updateColumn, addName } =
+        useSpreadsheetStore.getState();
+      useSpreadsheetStore.setState({ names: [] });
+      addName('TOTAL_B', "SUM('Test Sheet'[column b])");
+      updateCell(testSheetId, 'row-0', 'col-C', '=[Column B]*2+TOTAL_B');
+      updateCell(testSheetId, 'row-1', 'col-C', "=MAX('Test Sheet'[Column B])");
+
+      updateColumn(testSheetId, 'col-B', { name: 'Attack' });
+
+      const getCell = (index: number) =>
+        useSpreadsheetStore.getState().sheets.find((s) => s.id === testSheetId)!
+          .rows[index].cells['col-C'];
+      expect(getCell(0).formula).toBe('=[Attack]*2+TOTAL_B');
+      expect(getCell(1).formula).toBe("=MAX('Test Sheet'[Attack])");
+      expect(useSpreadsheetStore.getState().names[0].definition).toBe(
+        "SUM('Test Sheet'[Attack])"
+      );
+
+      // The renamed references keep resolving
+      updateCell(testSheetId, 'row-0', 'col-B', 15);
+      expect(getCell(0).value).toBe(65);
+      expect(getCell(1).value).toBe(20);
+    });
+
     it('should add to history when column name changes', () => {
       const beforeHistoryLength = useSpreadsheetStore.getState().history.length;
 
@@ -455,8 +1830,8 @@ describe('SpreadsheetStore', () => {
 
       const latestEntry =
         useSpreadsheetStore.getState().history[afterHistoryLength - 1];
-      expect(latestEntry.type).toBe('column');
-      expect(latestEntry.action).toBe('update');
+      expect(latestEntry.label).toBe('updateColumn');
+      expect(latestEntry.patches.length).toBeGreaterThan(0);
     });
 
     it('should undo column name change', () => {
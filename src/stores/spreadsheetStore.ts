@@ -5,6 +5,8 @@
 
 import { create } from 'zustand';
 import { immer } from 'zustand/middleware/immer';
+import { applyPatches } from 'immer';
+import { patchHistory, type ImmerStateCreator } from './patchHistory';
 import { debounce } from 'lodash';
 import { openDB, type IDBPDatabase, type DBSchema } from 'idb';
 import type {
@@ -23,11 +25,77 @@ import type {
   Spreadsheet,
   SpreadsheetMetadata,
   MergedCell,
+  NamedRange,
+  IterativeCalculation,
+  Snapshot,
+  SnapshotMetadata,
+  SpreadsheetBranch,
 } from '@types';
 import { generateColumns, generateRows } from '@utils/gridUtils';
-import { generateCellId, compareCellValues } from '@utils/cellUtils';
-import { formulaEvaluator } from '@services/formula/formulaEvaluator';
+import {
+  generateCellId,
+  generateSheetCellId,
+  compareCellValues,
+} from '@utils/cellUtils';
+import {
+  formulaEvaluator,
+  type FormulaStep,
+} from '@services/formula/formulaEvaluator';
 import { formulaCache } from '@services/formula/formulaCache';
+import type { Token } from '@services/formula/formulaParser';
+import {
+  applyCellUpdate,
+  applyFormulaResult,
+  clearSpill,
+  DEFAULT_ITERATIVE_CALCULATION,
+  evaluateCellFormula,
+  prepareWorkbook,
+  recalculateCells,
+  recalculateWorkbook,
+  recheckSpillAnchors,
+} from '@services/formula/recalculation';
+import { createRandomSeed } from '@services/formula/seededRandom';
+import {
+  describeTracedCells,
+  traceCells,
+  type AuditCell,
+  type FormulaTrace,
+  type TraceDirection,
+} from '@services/formula/formulaAudit';
+import {
+  formatRangeReference,
+  type FormulaEditing,
+} from '@services/formula/formulaEditor';
+import {
+  recalculationClient,
+  RecalculationWorkerError,
+  WORKER_RECALC_THRESHOLD,
+} from '@services/formula/recalculationClient';
+import {
+  computeDataTable,
+  solveGoalSeek,
+  validateDataTable,
+  validateGoalSeek,
+  type DataTableInputs,
+  type GoalSeekResult,
+  type WhatIfCell,
+} from '@services/formula/whatIf';
+import {
+  findNameUsages,
+  renameNameInFormula,
+  validateNamedRange,
+  type NameUsage,
+} from '@services/formula/namedRanges';
+import {
+  adjustFormulaReferences,
+  createInsertionMap,
+  createDeletionMap,
+  createReorderMap,
+  formulaReferencesSheet,
+  renameColumnInFormula,
+  renameSheetInFormula,
+  type ReferenceIndexMap,
+} from '@services/formula/referenceAdjuster';
 import {
   createClipboardText,
   parseClipboardText,
@@ -36,12 +104,33 @@ import {
   createCellCopy,
   type ClipboardData,
 } from '@utils/clipboardUtils';
+import {
+  createTtkMatrixSheet,
+  validateTtkMatrixSources,
+  type TtkMatrixOptions,
+} from '@utils/combatMatrix';
+import {
+  findBatchInboundReferences,
+  toReferenceKey,
+  validateReferenceResolution,
+  type ReferenceChange,
+  type ReferenceResolution,
+  type ReferenceTarget,
+} from '@utils/referenceUtils';
 import {
   searchInSheet,
   searchInSheets,
   replaceInCell,
   type SearchOptions,
 } from '@utils/searchUtils';
+import { validateSnapshotName } from '@utils/versionUtils';
+import {
+  mergeWorkbooks,
+  resolveMerge,
+  validateBranchName,
+  type ConflictChoice,
+  type MergeResult,
+} from '@utils/mergeUtils';
 
 // IndexedDB Schema
 interface SpreadsheetDB extends DBSchema {
@@ -65,13 +154,18 @@ interface SpreadsheetDB extends DBSchema {
     };
     indexes: { 'by-timestamp': Date };
   };
+  snapshots: {
+    key: string;
+    value: Snapshot;
+    indexes: { 'by-spreadsheet': string };
+  };
 }
 
 // IndexedDB Service
 class IndexedDBService {
   private db: IDBPDatabase<SpreadsheetDB> | null = null;
   private readonly DB_NAME = 'GameDataSpreadsheetDB';
-  private readonly DB_VERSION = 1;
+  private readonly DB_VERSION = 2;
 
   async init(): Promise<void> {
     try {
@@ -92,6 +186,14 @@ class IndexedDBService {
             });
             autosaveStore.createIndex('by-timestamp', 'timestamp');
           }
+
+          // Named snapshots store (version history)
+          if (!db.objectStoreNames.contains('snapshots')) {
+            const snapshotStore = db.createObjectStore('snapshots', {
+              keyPath: 'id',
+            });
+            snapshotStore.createIndex('by-spreadsheet', 'spreadsheetId');
+          }
         },
       });
     } catch (error) {
@@ -128,17 +230,29 @@ class IndexedDBService {
     return all.map((item) => ({
       id: item.id,
       name: item.name,
+      ...(item.data.branch && { branch: item.data.branch }),
       createdAt: item.createdAt,
       updatedAt: item.updatedAt,
     }));
   }
 
+  async listBranches(parentId: string): Promise<SpreadsheetMetadata[]> {
+    const all = await this.list();
+    return all.filter((item) => item.branch?.parentId === parentId);
+  }
+
   async delete(id: string): Promise<void> {
     if (!this.db) await this.init();
     if (!this.db) throw new Error('Database not initialized');
 
     await this.db.delete('spreadsheets', id);
     await this.db.delete('autosaves', id);
+
+    const db = this.db;
+    const snapshots = await this.listSnapshots(id);
+    await Promise.all(
+      snapshots.map((snapshot) => db.delete('snapshots', snapshot.id))
+    );
   }
 
   async autoSave(id: string, data: Spreadsheet): Promise<void> {
@@ -160,6 +274,42 @@ class IndexedDBService {
     return result?.data || null;
   }
 
+  async saveSnapshot(snapshot: Snapshot): Promise<void> {
+    if (!this.db) await this.init();
+    if (!this.db) throw new Error('Database not initialized');
+
+    await this.db.put('snapshots', snapshot);
+  }
+
+  async listSnapshots(spreadsheetId: string): Promise<SnapshotMetadata[]> {
+    if (!this.db) await this.init();
+    if (!this.db) return [];
+
+    const all = await this.db.getAllFromIndex(
+      'snapshots',
+      'by-spreadsheet',
+      spreadsheetId
+    );
+    // Newest first, without the workbook data
+    return all
+      .map(({ data: _data, ...metadata }) => metadata)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getSnapshot(id: string): Promise<Snapshot | null> {
+    if (!this.db) await this.init();
+    if (!this.db) return null;
+
+    return (await this.db.get('snapshots', id)) ?? null;
+  }
+
+  async deleteSnapshot(id: string): Promise<void> {
+    if (!this.db) await this.init();
+    if (!this.db) throw new Error('Database not initialized');
+
+    await this.db.delete('snapshots', id);
+  }
+
   async clearOldBackups(
     maxAge: number = 7 * 24 * 60 * 60 * 1000
   ): Promise<void> {
@@ -191,6 +341,24 @@ interface SpreadsheetState {
   history: HistoryEntry[];
   historyIndex: number;
 
+  // Named ranges / constants (workbook level)
+  names: NamedRange[];
+
+  // Workbook seed for random functions (RAND, RANDBETWEEN, WEIGHTED_PICK)
+  randomSeed: number;
+
+  // Iterative calculation of intentional circular references
+  iterativeCalculation: IterativeCalculation;
+
+  // Precedents/dependents highlighted in the grid
+  formulaTrace: FormulaTrace | null;
+
+  // Formula being edited in the formula bar (grid clicks pick references)
+  formulaEditing: FormulaEditing | null;
+
+  // Rename/delete of a referenced ID waiting for cascade/nullify/block
+  pendingReferenceChange: ReferenceChange | null;
+
   // Persistence state
   spreadsheetId: string;
   spreadsheetName: string;
@@ -199,6 +367,15 @@ interface SpreadsheetState {
   hasUnsavedChanges: boolean;
   updatedAt: Date;
 
+  // Named snapshots of this spreadsheet (newest first)
+  snapshots: SnapshotMetadata[];
+
+  // Set when this spreadsheet is a branch of another one
+  branch: SpreadsheetBranch | null;
+
+  // Formula recalculation running in the worker
+  recalculating: boolean;
+
   // Sheet management
   addSheet: (name: string) => void;
   addSheets: (sheets: Sheet[]) => void;
@@ -210,6 +387,7 @@ interface SpreadsheetState {
   // Row management
   addRow: (sheetId: string, afterIndex?: number) => void;
   removeRow: (sheetId: string, rowId: string) => void;
+  removeRows: (sheetId: string, rowIds: string[]) => void;
   updateRow: (sheetId: string, rowId: string, updates: Partial<Row>) => void;
 
   // Column management
@@ -279,10 +457,76 @@ interface SpreadsheetState {
     columnIndex: number
   ) => MergedCell | undefined;
 
+  // Named ranges
+  addName: (name: string, definition: string, comment?: string) => boolean;
+  updateName: (
+    id: string,
+    updates: Partial<Pick<NamedRange, 'definition' | 'comment'>>
+  ) => boolean;
+  renameName: (id: string, newName: string) => boolean;
+  deleteName: (id: string) => void;
+  findNameUsages: (name: string) => NameUsage[];
+
+  // Random functions
+  setRandomSeed: (seed: number) => Promise<void>;
+  rerollRandom: () => Promise<void>;
+
+  // Iterative calculation
+  setIterativeCalculation: (
+    settings: Partial<IterativeCalculation>
+  ) => Promise<void>;
+
+  // Formula auditing
+  traceFormulaCell: (direction: TraceDirection) => number;
+  clearFormulaTrace: () => void;
+  getTracedCells: (
+    sheetId: string,
+    rowId: string,
+    columnId: string,
+    direction: TraceDirection
+  ) => AuditCell[];
+  evaluateFormulaSteps: (
+    sheetId: string,
+    rowId: string,
+    columnId: string
+  ) => FormulaStep[];
+
+  // Formula bar reference picking
+  startFormulaEditing: (
+    sheetId: string,
+    rowId: string,
+    columnId: string
+  ) => void;
+  stopFormulaEditing: () => void;
+  pickFormulaReference: (sheetId: string, range: SelectionRange) => boolean;
+
+  // What-if analysis
+  goalSeek: (
+    target: WhatIfCell,
+    targetValue: number,
+    input: WhatIfCell
+  ) => GoalSeekResult | null;
+  fillDataTable: (
+    sheetId: string,
+    range: SelectionRange,
+    inputs: DataTableInputs
+  ) => boolean;
+
+  // Combat simulation
+  createTtkMatrix: (
+    characterSheetId: string,
+    enemySheetId: string,
+    options?: TtkMatrixOptions
+  ) => string | null;
+
+  // Referential integrity
+  resolveReferenceChange: (resolution: ReferenceResolution) => boolean;
+
   // Clipboard operations
   copySelection: () => Promise<boolean>;
   cutSelection: () => Promise<boolean>;
   pasteFromClipboard: () => Promise<boolean>;
+  fillSelection: (direction: 'down' | 'right') => void;
 
   // Search and Replace
   searchInCurrentSheet: (
@@ -305,7 +549,8 @@ interface SpreadsheetState {
   ) => number;
 
   // History
-  addHistory: (entry: Omit<HistoryEntry, 'id' | 'timestamp'>) => void;
+  // fn 안의 모든 변경을 실행 취소 한 단계로 묶는다 (await 이후의 변경 등)
+  transaction: <R>(fn: () => R, label?: string) => R;
   undo: () => void;
   redo: () => void;
 
@@ -326,10 +571,289 @@ interface SpreadsheetState {
   loadSpreadsheet: (id: string) => Promise<void>;
   loadBackup: () => Promise<void>;
   setSpreadsheetName: (name: string) => void;
+
+  // Version history
+  createSnapshot: (
+    name: string,
+    description?: string
+  ) => Promise<SnapshotMetadata | null>;
+  loadSnapshots: () => Promise<void>;
+  getSnapshot: (id: string) => Promise<Snapshot | null>;
+  deleteSnapshot: (id: string) => Promise<void>;
+  // 워크북 전체를 스냅샷으로 되돌린다 (실행 취소 가능)
+  restoreSnapshot: (snapshot: Snapshot) => void;
+  // 스냅샷의 선택한 행만 되돌린다 (삭제된 행은 원래 위치에 다시 넣는다)
+  restoreSnapshotRows: (
+    snapshot: Snapshot,
+    sheetId: string,
+    rowIds: string[]
+  ) => number;
+
+  // Branches
+  // 현재 작업본을 사본(브랜치)으로 저장한다, 분기 시점은 스냅샷으로 남는다
+  createBranch: (name: string) => Promise<SpreadsheetMetadata | null>;
+  listBranches: () => Promise<SpreadsheetMetadata[]>;
+  // 현재 작업본을 저장하고 다른 스프레드시트(브랜치/원본)로 전환한다
+  switchSpreadsheet: (id: string) => Promise<void>;
+  // 원본 또는 이 작업본의 브랜치를 분기 시점 기준으로 3-way 병합해 본다
+  prepareMerge: (spreadsheetId: string) => Promise<BranchMerge | null>;
+  // 충돌 선택을 적용해 병합 결과를 작업본에 넣는다 (실행 취소 가능)
+  applyMerge: (
+    merge: BranchMerge,
+    choices: Record<string, ConflictChoice>
+  ) => void;
+  _advanceMergeBase: (merge: BranchMerge) => Promise<void>;
+
   _triggerAutoSave: () => void;
+  _writeCells: (sheetId: string, cells: Cell[]) => void;
+  recalculateWorkbook: () => Promise<void>;
+  recalculateVolatile: () => void;
   _recalculateDependents: (sheetId: string, cellId: string) => void;
+  _recalculateCells: (
+    sources: string[],
+    options?: { includeSources?: boolean }
+  ) => void;
+  _recalculateNameUsages: (name: string) => void;
+}
+
+/**
+ * 행/열 구조 변경 후 모든 시트의 수식 참조를 조정
+ * 변경된 시트를 참조해 다시 계산해야 하는 수식 셀 목록(sheetCellId)을 반환한다
+ */
+const adjustWorkbookFormulas = (
+  sheets: Sheet[],
+  names: NamedRange[],
+  changedSheet: Sheet,
+  map: ReferenceIndexMap
+): string[] => {
+  const findSheetByName = (name: string) =>
+    sheets.find((s) => s.name === name) ??
+    sheets.find((s) => s.name.toLowerCase() === name.toLowerCase());
+
+  // Named ranges only move with sheet-qualified references
+  names.forEach((named) => {
+    named.definition = adjustFormulaReferences(
+      named.definition,
+      map,
+      (token) =>
+        token.sheet !== undefined &&
+        findSheetByName(token.sheet)?.id === changedSheet.id
+    );
+  });
+  formulaEvaluator.setNames(names.map((named) => ({ ...named })));
+
+  const affectedCells: string[] = [];
+
+  sheets.forEach((sheet) => {
+    const isAffected = (token: Token) =>
+      token.sheet === undefined
+        ? sheet.id === changedSheet.id
+        : findSheetByName(token.sheet)?.id === changedSheet.id;
+
+    sheet.rows.forEach((row) => {
+      Object.values(row.cells).forEach((cell) => {
+        if (!cell.formula) return;
+
+        let referencesChangedSheet = false;
+        cell.formula = adjustFormulaReferences(cell.formula, map, (token) => {
+          const affected = isAffected(token);
+          referencesChangedSheet ||= affected;
+          return affected;
+        });
+
+        if (referencesChangedSheet) {
+          affectedCells.push(
+            generateSheetCellId(
+              sheet.id,
+              generateCellId(cell.rowId, cell.columnId)
+            )
+          );
+        }
+      });
+    });
+  });
+
+  return affectedCells;
+};
+
+/**
+ * Formula cells and names that refer to a sheet by name
+ * 시트 이름이 바뀌거나 시트가 삭제되면 다시 계산해야 하는 대상
+ */
+const findSheetReferences = (
+  sheets: Sheet[],
+  names: NamedRange[],
+  sheetName: string
+): { cells: string[]; names: string[] } => ({
+  cells: sheets.flatMap((sheet) =>
+    sheet.rows.flatMap((row) =>
+      Object.values(row.cells)
+        .filter(
+          (cell) =>
+            cell.formula && formulaReferencesSheet(cell.formula, sheetName)
+        )
+        .map((cell) =>
+          generateSheetCellId(
+            sheet.id,
+            generateCellId(cell.rowId, cell.columnId)
+          )
+        )
+    )
+  ),
+  names: names
+    .filter((named) => formulaReferencesSheet(named.definition, sheetName))
+    .map((named) => named.name),
+});
+
+/**
+ * Key writes that would break inbound references, held for the user's choice
+ * 셀 전체를 쓰는 일괄 작업은 cells를 함께 보관해 선택 후 한 번에 적용한다
+ * @returns 보류할 변경 (깨지는 참조가 없으면 null)
+ */
+const findReferenceRename = (
+  sheets: Sheet[],
+  sheetId: string,
+  writes: ReferenceTarget[],
+  cells?: Cell[]
+): ReferenceChange | null => {
+  const { targets, references } = findBatchInboundReferences(
+    sheets,
+    sheetId,
+    writes
+  );
+  return references.length > 0
+    ? { action: 'rename', sheetId, targets, references, cells }
+    : null;
+};
+
+/**
+ * 셀 전체 쓰기를 키 값 쓰기로 (수식은 그대로 새 값이 된다)
+ */
+const toKeyWrite = (cell: Cell): ReferenceTarget => ({
+  rowId: cell.rowId,
+  columnId: cell.columnId,
+  value: cell.formula ?? cell.value,
+});
+
+/**
+ * 붙여넣은 값의 셀 타입
+ */
+const getValueType = (value: CellValue): CellType => {
+  if (typeof value === 'number') return 'number';
+  if (typeof value === 'boolean') return 'boolean';
+  if (value instanceof Date) return 'date';
+  return 'text';
+};
+
+/**
+ * 값만 남기고 수식을 지운 셀 (잘라내기, 바꾸기)
+ */
+const withValue = (cell: Cell, value: CellValue): Cell => ({
+  ...cell,
+  value,
+  formula: undefined,
+  error: undefined,
+});
+
+/**
+ * 삭제된 셀의 수식 의존성과 캐시 정리
+ */
+const clearRemovedCells = (sheetId: string, cells: Cell[]) => {
+  cells.forEach((cell) => {
+    const sheetCellId = generateSheetCellId(
+      sheetId,
+      generateCellId(cell.rowId, cell.columnId)
+    );
+    formulaEvaluator.clearCellDependencies(sheetCellId);
+    formulaCache.invalidate(sheetCellId);
+  });
+};
+
+/**
+ * Sources to recalculate after cells were written directly (붙여넣기, 바꾸기 등)
+ * 값만 남은 셀은 이전 수식의 의존성과 캐시를 지운다
+ */
+const prepareWrittenCells = (
+  sheetId: string,
+  cells: Pick<Cell, 'rowId' | 'columnId' | 'formula'>[]
+): string[] =>
+  cells.map((cell) => {
+    const sheetCellId = generateSheetCellId(
+      sheetId,
+      generateCellId(cell.rowId, cell.columnId)
+    );
+    if (!cell.formula) {
+      formulaEvaluator.clearCellDependencies(sheetCellId);
+      formulaCache.invalidate(sheetCellId);
+    }
+    return sheetCellId;
+  });
+
+/**
+ * Finish a recalculation the worker could not complete on this thread
+ * 이 스레드의 의존성 그래프는 워커로 보내기 전에 이미 맞춰져 있다
+ */
+const recalculateAfterWorkerFailure = (
+  state: SpreadsheetState,
+  error: RecalculationWorkerError
+) => {
+  if (error.sources === null) {
+    recalculateWorkbook(state.sheets);
+  } else {
+    recalculateCells(state.sheets, error.sources, {
+      includeSources: error.includeSources,
+    });
+  }
+};
+
+/**
+ * Merge of another spreadsheet into the current one, waiting for conflict choices
+ */
+export interface BranchMerge {
+  sourceId: string;
+  sourceName: string;
+  theirs: Spreadsheet; // 병합해 오는 쪽 (다음 병합의 기준이 된다)
+  result: MergeResult;
 }
 
+/**
+ * Current workbook as a stored spreadsheet
+ */
+const toSpreadsheet = (state: SpreadsheetState): Spreadsheet => ({
+  id: state.spreadsheetId,
+  name: state.spreadsheetName,
+  sheets: state.sheets,
+  activeSheetId: state.activeSheetId,
+  names: state.names,
+  randomSeed: state.randomSeed,
+  iterativeCalculation: state.iterativeCalculation,
+  ...(state.branch && { branch: state.branch }),
+  createdAt: new Date(),
+  updatedAt: new Date(),
+});
+
+/**
+ * 실행 취소로 활성 시트가 사라졌으면 첫 시트로 이동
+ */
+const restoreActiveSheet = (state: SpreadsheetState) => {
+  if (!state.sheets.some((s) => s.id === state.activeSheetId)) {
+    state.activeSheetId = state.sheets[0]?.id ?? '';
+    state.selection = null;
+    state.multiSelection = [];
+  }
+};
+
+/**
+ * Point the formula engine at a workbook restored from history
+ * 이름/시드/반복 계산 설정과 캐시된 결과는 패치로 되돌아오지 않는다
+ */
+const syncRestoredWorkbook = (state: SpreadsheetState) => {
+  formulaCache.clear();
+  formulaEvaluator.setNames(state.names);
+  formulaEvaluator.setRandomSeed(state.randomSeed);
+  formulaEvaluator.setIterativeCalculation(state.iterativeCalculation);
+};
+
 const createDefaultSheet = (id: string, name: string): Sheet => {
   const columns = generateColumns(10, 0, 'text');
   const rows = generateRows(100, columns);
@@ -346,18 +870,36 @@ const createDefaultSheet = (id: string, name: string): Sheet => {
   };
 };
 
+// Actions that never become an undo step (재계산, 저장/불러오기, undo/redo 자신)
+const UNTRACKED_ACTIONS = [
+  'undo',
+  'redo',
+  'recalculateWorkbook',
+  'recalculateVolatile',
+  'initDB',
+  'saveSpreadsheet',
+  'loadSpreadsheet',
+  'loadBackup',
+  'createSnapshot',
+  'loadSnapshots',
+  'getSnapshot',
+  'deleteSnapshot',
+  'createBranch',
+  'listBranches',
+  'switchSpreadsheet',
+  'prepareMerge',
+];
+
+/**
+ * immer 드래프트 위에서 액션별 패치를 기록한다 (undo/redo)
+ */
+const immerWithHistory = (config: ImmerStateCreator<SpreadsheetState>) =>
+  immer(patchHistory(config, { untracked: UNTRACKED_ACTIONS }));
+
 // Debounced auto-save function (2 seconds)
 const debouncedAutoSave = debounce(async (state: SpreadsheetState) => {
   try {
-    const spreadsheet: Spreadsheet = {
-      id: state.spreadsheetId,
-      name: state.spreadsheetName,
-      sheets: state.sheets,
-      activeSheetId: state.activeSheetId,
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    };
-    await dbService.autoSave(state.spreadsheetId, spreadsheet);
+    await dbService.autoSave(state.spreadsheetId, toSpreadsheet(state));
     useSpreadsheetStore.setState({
       lastSaved: new Date(),
       hasUnsavedChanges: false,
@@ -370,7 +912,7 @@ const debouncedAutoSave = debounce(async (state: SpreadsheetState) => {
 }, 2000);
 
 export const useSpreadsheetStore = create<SpreadsheetState>()(
-  immer((set, get) => ({
+  immerWithHistory((set, get) => ({
     sheets: [createDefaultSheet('sheet-1', 'Sheet 1')],
     activeSheetId: 'sheet-1',
     selection: null,
@@ -378,6 +920,19 @@ export const useSpreadsheetStore = create<SpreadsheetState>()(
     history: [],
     historyIndex: -1,
 
+    // Named ranges
+    names: [],
+
+    randomSeed: 0,
+
+    iterativeCalculation: DEFAULT_ITERATIVE_CALCULATION,
+
+    formulaTrace: null,
+
+    formulaEditing: null,
+
+    pendingReferenceChange: null,
+
     // Persistence state
     spreadsheetId: 'default-spreadsheet',
     spreadsheetName: 'Untitled Spreadsheet',
@@ -385,6 +940,9 @@ export const useSpreadsheetStore = create<SpreadsheetState>()(
     lastSaved: null,
     hasUnsavedChanges: false,
     updatedAt: new Date(),
+    snapshots: [],
+    branch: null,
+    recalculating: false,
 
     // Sheet management
     addSheet: (name) =>
@@ -406,26 +964,79 @@ export const useSpreadsheetStore = create<SpreadsheetState>()(
         state.hasUnsavedChanges = true;
       }),
 
-    removeSheet: (id) =>
+    removeSheet: (id) => {
+      const removed = get().sheets.find((s) => s.id === id);
+      if (!removed || get().sheets.length <= 1) return; // Keep at least one sheet
+
       set((state) => {
-        if (state.sheets.length <= 1) return; // Keep at least one sheet
         const index = state.sheets.findIndex((s) => s.id === id);
-        if (index !== -1) {
-          state.sheets.splice(index, 1);
-          if (state.activeSheetId === id) {
-            state.activeSheetId = state.sheets[0].id;
-          }
+        state.sheets.splice(index, 1);
+        if (state.activeSheetId === id) {
+          state.activeSheetId = state.sheets[0].id;
         }
-      }),
+      });
+
+      clearRemovedCells(
+        id,
+        removed.rows.flatMap((row) => Object.values(row.cells))
+      );
+
+      // Formulas that pointed at the sheet now report #REF!
+      const { cells, names } = findSheetReferences(
+        get().sheets,
+        get().names,
+        removed.name
+      );
+      get()._recalculateCells(cells, { includeSources: true });
+      names.forEach((name) => get()._recalculateNameUsages(name));
+    },
+
+    renameSheet: (id, name) => {
+      const sheet = get().sheets.find((s) => s.id === id);
+      if (!sheet) return;
+      const oldName = sheet.name;
 
-    renameSheet: (id, name) =>
       set((state) => {
-        const sheet = state.sheets.find((s) => s.id === id);
-        if (sheet) {
-          sheet.name = name;
-          sheet.updatedAt = new Date();
-        }
-      }),
+        const target = state.sheets.find((s) => s.id === id);
+        if (!target) return;
+        target.name = name;
+        target.updatedAt = new Date();
+        if (oldName === name) return;
+
+        // Sheet-qualified references follow the new name
+        state.sheets.forEach((s) => {
+          s.rows.forEach((row) => {
+            Object.values(row.cells).forEach((cell) => {
+              if (cell.formula) {
+                cell.formula = renameSheetInFormula(
+                  cell.formula,
+                  oldName,
+                  name
+                );
+              }
+            });
+          });
+        });
+        state.names.forEach((named) => {
+          named.definition = renameSheetInFormula(
+            named.definition,
+            oldName,
+            name
+          );
+        });
+      });
+      if (oldName === name) return;
+
+      // Also picks up formulas that were waiting on a sheet with the new name
+      formulaEvaluator.setNames(get().names);
+      const { cells, names } = findSheetReferences(
+        get().sheets,
+        get().names,
+        name
+      );
+      get()._recalculateCells(cells, { includeSources: true });
+      names.forEach((named) => get()._recalculateNameUsages(named));
+    },
 
     setActiveSheet: (id) =>
       set((state) => {
@@ -458,6 +1069,7 @@ export const useSpreadsheetStore = create<SpreadsheetState>()(
     // Row management
     addRow: (sheetId, afterIndex) => {
       let newRowId = '';
+      let affectedCells: string[] = [];
 
       set((state) => {
         const sheet = state.sheets.find((s) => s.id === sheetId);
@@ -490,38 +1102,85 @@ export const useSpreadsheetStore = create<SpreadsheetState>()(
         sheet.rows.forEach((row, idx) => {
           row.index = idx;
         });
+
+        // Shift formula references below the inserted row
+        affectedCells = adjustWorkbookFormulas(
+          state.sheets,
+          state.names,
+          sheet,
+          createInsertionMap('row', index)
+        );
+
         sheet.updatedAt = new Date();
         state.hasUnsavedChanges = true;
       });
 
-      // Add to history with full row object
-      const addedSheet = get().sheets.find((s) => s.id === sheetId);
-      const addedRow = addedSheet?.rows.find((r) => r.id === newRowId);
-      if (addedRow) {
-        get().addHistory({
-          type: 'row',
-          action: 'add',
-          sheetId,
-          after: { ...addedRow }, // Store full row object for redo
+      formulaEvaluator.setNames(get().names);
+      // Re-evaluate once every reference has been rewritten
+      get()._recalculateCells(affectedCells, { includeSources: true });
+    },
+
+    removeRow: (sheetId, rowId) => get().removeRows(sheetId, [rowId]),
+
+    removeRows: (sheetId, rowIds) => {
+      // Deleting referenced IDs waits for the user's choice (all rows at once)
+      const { references } = findBatchInboundReferences(
+        get().sheets,
+        sheetId,
+        rowIds.map((rowId) => ({ rowId }))
+      );
+      if (references.length > 0) {
+        set((state) => {
+          state.pendingReferenceChange = {
+            action: 'delete',
+            sheetId,
+            targets: rowIds.map((rowId) => ({ rowId })),
+            references,
+          };
         });
+        return;
       }
-    },
 
-    removeRow: (sheetId, rowId) =>
+      const removedCells: Cell[] = [];
+      const affectedCells: string[] = [];
+
       set((state) => {
         const sheet = state.sheets.find((s) => s.id === sheetId);
         if (!sheet) return;
 
-        const index = sheet.rows.findIndex((r) => r.id === rowId);
-        if (index !== -1) {
-          sheet.rows.splice(index, 1);
+        rowIds.forEach((rowId) => {
+          const index = sheet.rows.findIndex((r) => r.id === rowId);
+          if (index === -1) return;
+
+          const [removedRow] = sheet.rows.splice(index, 1);
+          Object.values(removedRow.cells).forEach((cell) =>
+            removedCells.push({ ...cell })
+          );
           // Update indices
           sheet.rows.forEach((row, idx) => {
             row.index = idx;
           });
+
+          // References to the removed row become #REF!
+          affectedCells.push(
+            ...adjustWorkbookFormulas(
+              state.sheets,
+              state.names,
+              sheet,
+              createDeletionMap('row', index)
+            )
+          );
+
           sheet.updatedAt = new Date();
-        }
-      }),
+          state.hasUnsavedChanges = true;
+        });
+      });
+
+      clearRemovedCells(sheetId, removedCells);
+      formulaEvaluator.setNames(get().names);
+      // Re-evaluate once every reference has been rewritten
+      get()._recalculateCells(affectedCells, { includeSources: true });
+    },
 
     updateRow: (sheetId, rowId, updates) =>
       set((state) => {
@@ -538,6 +1197,7 @@ export const useSpreadsheetStore = create<SpreadsheetState>()(
     // Column management
     addColumn: (sheetId, afterIndex) => {
       let newColumnId = '';
+      let affectedCells: string[] = [];
 
       set((state) => {
         const sheet = state.sheets.find((s) => s.id === sheetId);
@@ -573,24 +1233,28 @@ export const useSpreadsheetStore = create<SpreadsheetState>()(
         sheet.columns.forEach((col, idx) => {
           col.index = idx;
         });
+
+        // Shift formula references right of the inserted column
+        affectedCells = adjustWorkbookFormulas(
+          state.sheets,
+          state.names,
+          sheet,
+          createInsertionMap('column', index)
+        );
+
         sheet.updatedAt = new Date();
         state.hasUnsavedChanges = true;
       });
 
-      // Add to history with full column object
-      const addedSheet = get().sheets.find((s) => s.id === sheetId);
-      const addedColumn = addedSheet?.columns.find((c) => c.id === newColumnId);
-      if (addedColumn) {
-        get().addHistory({
-          type: 'column',
-          action: 'add',
-          sheetId,
-          after: { ...addedColumn }, // Store full column object for redo
-        });
-      }
+      formulaEvaluator.setNames(get().names);
+      // Re-evaluate once every reference has been rewritten
+      get()._recalculateCells(affectedCells, { includeSources: true });
     },
 
-    removeColumn: (sheetId, columnId) =>
+    removeColumn: (sheetId, columnId) => {
+      const removedCells: Cell[] = [];
+      let affectedCells: string[] = [];
+
       set((state) => {
         const sheet = state.sheets.find((s) => s.id === sheetId);
         if (!sheet) return;
@@ -600,30 +1264,91 @@ export const useSpreadsheetStore = create<SpreadsheetState>()(
           sheet.columns.splice(index, 1);
           // Remove cell from each row
           sheet.rows.forEach((row) => {
+            if (row.cells[columnId]) {
+              removedCells.push({ ...row.cells[columnId] });
+            }
             delete row.cells[columnId];
           });
           // Update indices
           sheet.columns.forEach((col, idx) => {
             col.index = idx;
           });
+
+          // References to the removed column become #REF!
+          affectedCells = adjustWorkbookFormulas(
+            state.sheets,
+            state.names,
+            sheet,
+            createDeletionMap('column', index)
+          );
+
           sheet.updatedAt = new Date();
+          state.hasUnsavedChanges = true;
         }
-      }),
+      });
+
+      clearRemovedCells(sheetId, removedCells);
+      formulaEvaluator.setNames(get().names);
+      // Re-evaluate once every reference has been rewritten
+      get()._recalculateCells(affectedCells, { includeSources: true });
+    },
 
     updateColumn: (sheetId, columnId, updates) => {
-      // Save before state for history
       const sheet = get().sheets.find((s) => s.id === sheetId);
       if (!sheet) return;
 
       const column = sheet.columns.find((c) => c.id === columnId);
       if (!column) return;
 
-      const beforeColumn = { ...column };
+      const oldName = column.name;
+      const newName = updates.name;
+      const renamed = newName !== undefined && newName !== oldName;
+      const renamedCells: string[] = [];
 
       set((state) => {
         const sheet = state.sheets.find((s) => s.id === sheetId);
         if (!sheet) return;
 
+        // Column references by name ([attack], Items[attack]) follow a rename
+        if (renamed) {
+          const lower = oldName.toLowerCase();
+          const pointsAtColumn = (token: Token, formulaSheet?: Sheet) =>
+            token.value.toLowerCase() === lower &&
+            // An id match resolves before the name
+            !sheet.columns.some((c) => c.id === token.value) &&
+            (token.sheet === undefined
+              ? formulaSheet?.id === sheetId
+              : token.sheet.toLowerCase() === sheet.name.toLowerCase());
+
+          state.sheets.forEach((formulaSheet) => {
+            formulaSheet.rows.forEach((row) => {
+              Object.values(row.cells).forEach((cell) => {
+                if (!cell.formula) return;
+                const formula = renameColumnInFormula(
+                  cell.formula,
+                  (token) => pointsAtColumn(token, formulaSheet),
+                  newName
+                );
+                if (formula === cell.formula) return;
+                cell.formula = formula;
+                renamedCells.push(
+                  generateSheetCellId(
+                    formulaSheet.id,
+                    generateCellId(cell.rowId, cell.columnId)
+                  )
+                );
+              });
+            });
+          });
+          state.names.forEach((named) => {
+            named.definition = renameColumnInFormula(
+              named.definition,
+              (token) => pointsAtColumn(token),
+              newName
+            );
+          });
+        }
+
         const column = sheet.columns.find((c) => c.id === columnId);
         if (column) {
           // If type is being updated, also update all cells in this column
@@ -646,21 +1371,10 @@ export const useSpreadsheetStore = create<SpreadsheetState>()(
         }
       });
 
-      // Get the updated column for after state
-      const afterSheet = get().sheets.find((s) => s.id === sheetId);
-      const afterColumn = afterSheet?.columns.find((c) => c.id === columnId);
-
-      // Add to history only for name changes (important changes)
-      if (updates.name !== undefined && afterColumn) {
-        get().addHistory({
-          type: 'column',
-          action: 'update',
-          sheetId,
-          before: beforeColumn,
-          after: { ...afterColumn },
-        });
+      if (renamed) {
+        formulaEvaluator.setNames(get().names);
+        get()._recalculateCells(renamedCells, { includeSources: true });
       }
-
       get()._triggerAutoSave();
     },
 
@@ -678,14 +1392,24 @@ export const useSpreadsheetStore = create<SpreadsheetState>()(
 
     // Cell management
     updateCell: (sheetId, rowId, columnId, value) => {
-      // Save before state for history
       const sheet = get().sheets.find((s) => s.id === sheetId);
       if (!sheet) return;
 
       const row = sheet.rows.find((r) => r.id === rowId);
       if (!row || !row.cells[columnId]) return;
 
-      const beforeCell = { ...row.cells[columnId] };
+      // Renaming a referenced ID waits for the user's choice
+      const change = findReferenceRename(get().sheets, sheetId, [
+        { rowId, columnId, value },
+      ]);
+      if (change) {
+        set((state) => {
+          state.pendingReferenceChange = change;
+        });
+        return;
+      }
+
+      const spillChanged: string[] = [];
 
       set((state) => {
         const sheet = state.sheets.find((s) => s.id === sheetId);
@@ -695,97 +1419,104 @@ export const useSpreadsheetStore = create<SpreadsheetState>()(
         if (row && row.cells[columnId]) {
           const cell = row.cells[columnId];
           const cellId = generateCellId(rowId, columnId);
+          const sheetCellId = generateSheetCellId(sheetId, cellId);
+
+          // Typing into a spilled cell takes it over from its array formula
+          cell.spilledFrom = undefined;
 
           // Check if value is a formula (starts with '=')
           if (typeof value === 'string' && value.startsWith('=')) {
             cell.formula = value;
-            try {
-              // Evaluate formula
-              const result = formulaEvaluator.evaluate(cellId, value, sheet);
-              cell.value = result;
-
-              // Cache the result
-              formulaCache.set(cellId, result);
-
-              // Update cell type based on result
-              if (typeof result === 'number') {
-                cell.type = 'number';
-              } else if (typeof result === 'boolean') {
-                cell.type = 'boolean';
-              } else if (result instanceof Date) {
-                cell.type = 'date';
-              } else {
-                cell.type = 'text';
-              }
-            } catch (error) {
-              // If formula evaluation fails, show error
-              cell.value = `#ERROR: ${error instanceof Error ? error.message : 'Unknown error'}`;
-              cell.type = 'text';
-            }
+            // Evaluate formula (other sheets are resolved through state.sheets)
+            spillChanged.push(
+              ...evaluateCellFormula(cell, sheet, state.sheets)
+            );
           } else {
             // Regular value (not a formula)
+            spillChanged.push(...clearSpill(cell, sheet));
             cell.formula = undefined;
             cell.value = value;
+            cell.error = undefined;
 
-            // Invalidate cache for this cell
-            formulaCache.invalidate(cellId);
+            // Drop stale references and invalidate cache for this cell
+            formulaEvaluator.clearCellDependencies(sheetCellId);
+            formulaCache.invalidate(sheetCellId);
           }
 
+          // Array formulas whose spill range covers this cell
+          spillChanged.push(
+            ...recheckSpillAnchors(sheet, rowId, columnId, state.sheets)
+          );
+
           sheet.updatedAt = new Date();
           state.hasUnsavedChanges = true;
-
-          // Recalculate dependent cells
-          get()._recalculateDependents(sheetId, cellId);
         }
       });
 
-      // Get the updated cell for after state
-      const afterSheet = get().sheets.find((s) => s.id === sheetId);
-      const afterRow = afterSheet?.rows.find((r) => r.id === rowId);
-      const afterCell = afterRow?.cells[columnId];
-
-      // Add to history
-      get().addHistory({
-        type: 'cell',
-        action: 'update',
-        sheetId,
-        before: beforeCell, // Store the entire cell object (has rowId, columnId already)
-        after: afterCell ? { ...afterCell } : undefined, // Store after state for redo
-      });
+      // Recalculate dependent cells (including other sheets)
+      get()._recalculateCells(
+        [generateCellId(rowId, columnId), ...spillChanged].map((cellId) =>
+          generateSheetCellId(sheetId, cellId)
+        )
+      );
 
       get()._triggerAutoSave();
     },
 
     updateCells: (sheetId, updates) => {
-      set((state) => {
-        const sheet = state.sheets.find((s) => s.id === sheetId);
-        if (!sheet) return;
+      const sheet = get().sheets.find((s) => s.id === sheetId);
+      if (!sheet) return;
 
-        updates.forEach(({ rowId, columnId, value }) => {
-          const row = sheet.rows.find((r) => r.id === rowId);
-          if (row && row.cells[columnId]) {
-            row.cells[columnId].value = value;
-          }
-        });
-        sheet.updatedAt = new Date();
-        state.hasUnsavedChanges = true;
+      const cells: Cell[] = [];
+      updates.forEach(({ rowId, columnId, value }) => {
+        const cell = sheet.rows.find((r) => r.id === rowId)?.cells[columnId];
+        if (cell) cells.push({ ...cell, value });
       });
+
+      // Renaming referenced IDs holds the whole batch for the user's choice
+      const change = findReferenceRename(get().sheets, sheetId, updates, cells);
+      if (change) {
+        set((state) => {
+          state.pendingReferenceChange = change;
+        });
+        return;
+      }
+
+      get()._writeCells(sheetId, cells);
       get()._triggerAutoSave();
     },
 
     clearCell: (sheetId, rowId, columnId) => {
+      const change = findReferenceRename(get().sheets, sheetId, [
+        { rowId, columnId, value: null },
+      ]);
+      if (change) {
+        set((state) => {
+          state.pendingReferenceChange = change;
+        });
+        return;
+      }
+
       set((state) => {
         const sheet = state.sheets.find((s) => s.id === sheetId);
         if (!sheet) return;
 
         const row = sheet.rows.find((r) => r.id === rowId);
         if (row && row.cells[columnId]) {
-          row.cells[columnId].value = null;
+          const cell = row.cells[columnId];
+          cell.value = null;
+          cell.formula = undefined;
+          cell.error = undefined;
           sheet.updatedAt = new Date();
           state.hasUnsavedChanges = true;
         }
       });
-      get()._triggerAutoSave();
+
+      get()._recalculateCells(
+        prepareWrittenCells(sheetId, [{ rowId, columnId }]),
+        { includeSources: true }
+      );
+      get()._triggerAutoSave();
     },
 
     // Cell styling
@@ -1135,6 +1866,10 @@ export const useSpreadsheetStore = create<SpreadsheetState>()(
         const clipboardData: ClipboardData = {
           cells,
           isCut: false,
+          origin: {
+            rowIndex: selection.startRow,
+            columnIndex: selection.startColumn,
+          },
         };
 
         // Create clipboard text (both internal and TSV formats)
@@ -1209,6 +1944,10 @@ export const useSpreadsheetStore = create<SpreadsheetState>()(
         const clipboardData: ClipboardData = {
           cells,
           isCut: true,
+          origin: {
+            rowIndex: selection.startRow,
+            columnIndex: selection.startColumn,
+          },
         };
 
         // Create clipboard text
@@ -1218,48 +1957,25 @@ export const useSpreadsheetStore = create<SpreadsheetState>()(
         const success = await writeToClipboard(text);
 
         if (success) {
-          // Clear the source cells
-          set((state) => {
-            const sheet = state.getActiveSheet();
-            if (!sheet || !state.selection) return;
-
-            for (
-              let rowIndex = state.selection.startRow;
-              rowIndex <= state.selection.endRow;
-              rowIndex++
-            ) {
-              const row = sheet.rows[rowIndex];
-              if (!row) continue;
-
-              for (
-                let colIndex = state.selection.startColumn;
-                colIndex <= state.selection.endColumn;
-                colIndex++
-              ) {
-                const column = sheet.columns[colIndex];
-                if (!column) continue;
-
-                const cell = row.cells[column.id];
-                if (cell) {
-                  cell.value = null;
-                  cell.formula = undefined;
-                  cell.error = undefined;
-                }
-              }
-            }
-
-            sheet.updatedAt = new Date();
-            state.hasUnsavedChanges = true;
-          });
-
-          // Add to history
-          get().addHistory({
-            type: 'cell',
-            action: 'update',
-            sheetId: sheet.id,
-            before: { cells: clipboardData.cells },
-            after: { cells: [] },
-          });
+          // Clear the cut cells; referenced IDs hold the whole clear back
+          const cleared = cells.flat().map((cell) => withValue(cell, null));
+          const change = findReferenceRename(
+            get().sheets,
+            sheet.id,
+            cleared.map(toKeyWrite),
+            cleared
+          );
+          if (change) {
+            set((state) => {
+              state.pendingReferenceChange = change;
+            });
+          } else {
+            // One undo step, recorded after the await
+            get().transaction(
+              () => get()._writeCells(sheet.id, cleared),
+              'cutSelection'
+            );
+          }
 
           // Trigger auto-save
           get()._triggerAutoSave();
@@ -1302,137 +2018,98 @@ export const useSpreadsheetStore = create<SpreadsheetState>()(
         const startRowIndex = selection.startRow;
         const startColIndex = selection.startColumn;
 
-        // Store original cells for undo
-        const originalCells: Cell[][] = [];
+        // Relative references move with copied formulas; cut keeps them as-is
+        const origin = clipboardData?.origin;
+        const rowOffset =
+          origin && !clipboardData.isCut ? startRowIndex - origin.rowIndex : 0;
+        const columnOffset =
+          origin && !clipboardData.isCut
+            ? startColIndex - origin.columnIndex
+            : 0;
 
+        // Target cells after the await (the sheet may have changed meanwhile)
+        const target = get().sheets.find((s) => s.id === sheet.id);
+        if (!target) return false;
+
+        const pasted: Cell[] = [];
         if (isInternal && clipboardData) {
           // Internal paste - preserve all cell properties including styles and formulas
-          set((state) => {
-            const sheet = state.getActiveSheet();
-            if (!sheet) return;
-
-            for (let i = 0; i < clipboardData.cells.length; i++) {
-              const targetRowIndex = startRowIndex + i;
-              if (targetRowIndex >= sheet.rows.length) break;
-
-              const row = sheet.rows[targetRowIndex];
-              if (!row) continue;
-
-              const originalRow: Cell[] = [];
-
-              for (let j = 0; j < clipboardData.cells[i].length; j++) {
-                const targetColIndex = startColIndex + j;
-                if (targetColIndex >= sheet.columns.length) break;
-
-                const column = sheet.columns[targetColIndex];
-                if (!column) continue;
-
-                const targetCell = row.cells[column.id];
-                const sourceCell = clipboardData.cells[i][j];
-
-                if (targetCell && sourceCell) {
-                  // Store original for undo
-                  originalRow.push({ ...targetCell });
-
-                  // Create a copy of the source cell with new IDs
-                  const newCell = createCellCopy(sourceCell, row.id, column.id);
-
-                  // Update the target cell
-                  row.cells[column.id] = newCell;
-
-                  // If cell has a formula, re-evaluate it in the new context
-                  if (newCell.formula) {
-                    const cellId = generateCellId(row.id, column.id);
-                    try {
-                      const result = formulaEvaluator.evaluate(
-                        cellId,
-                        newCell.formula,
-                        sheet
-                      );
-                      newCell.value = result;
-                      formulaCache.set(cellId, result);
-                    } catch (error) {
-                      newCell.value = `#ERROR: ${error instanceof Error ? error.message : 'Unknown error'}`;
-                      newCell.type = 'text';
-                    }
-                  }
-                }
-              }
+          for (let i = 0; i < clipboardData.cells.length; i++) {
+            const targetRowIndex = startRowIndex + i;
+            if (targetRowIndex >= target.rows.length) break;
+
+            const row = target.rows[targetRowIndex];
+            if (!row) continue;
 
-              if (originalRow.length > 0) {
-                originalCells.push(originalRow);
+            for (let j = 0; j < clipboardData.cells[i].length; j++) {
+              const targetColIndex = startColIndex + j;
+              if (targetColIndex >= target.columns.length) break;
+
+              const column = target.columns[targetColIndex];
+              if (!column) continue;
+
+              const targetCell = row.cells[column.id];
+              const sourceCell = clipboardData.cells[i][j];
+
+              if (targetCell && sourceCell) {
+                // Create a copy of the source cell with new IDs
+                pasted.push(
+                  createCellCopy(sourceCell, row.id, column.id, {
+                    rows: rowOffset,
+                    columns: columnOffset,
+                  })
+                );
               }
             }
-
-            sheet.updatedAt = new Date();
-            state.hasUnsavedChanges = true;
-          });
+          }
         } else {
           // External paste - only paste values
-          set((state) => {
-            const sheet = state.getActiveSheet();
-            if (!sheet) return;
-
-            for (let i = 0; i < cellValues.length; i++) {
-              const targetRowIndex = startRowIndex + i;
-              if (targetRowIndex >= sheet.rows.length) break;
+          for (let i = 0; i < cellValues.length; i++) {
+            const targetRowIndex = startRowIndex + i;
+            if (targetRowIndex >= target.rows.length) break;
 
-              const row = sheet.rows[targetRowIndex];
-              if (!row) continue;
-
-              const originalRow: Cell[] = [];
+            const row = target.rows[targetRowIndex];
+            if (!row) continue;
 
-              for (let j = 0; j < cellValues[i].length; j++) {
-                const targetColIndex = startColIndex + j;
-                if (targetColIndex >= sheet.columns.length) break;
+            for (let j = 0; j < cellValues[i].length; j++) {
+              const targetColIndex = startColIndex + j;
+              if (targetColIndex >= target.columns.length) break;
 
-                const column = sheet.columns[targetColIndex];
-                if (!column) continue;
+              const column = target.columns[targetColIndex];
+              if (!column) continue;
 
-                const targetCell = row.cells[column.id];
+              const targetCell = row.cells[column.id];
+              if (targetCell) {
                 const value = cellValues[i][j];
-
-                if (targetCell) {
-                  // Store original for undo
-                  originalRow.push({ ...targetCell });
-
-                  // Update value (clear formula)
-                  targetCell.value = value;
-                  targetCell.formula = undefined;
-                  targetCell.error = undefined;
-
-                  // Update type based on value
-                  if (typeof value === 'number') {
-                    targetCell.type = 'number';
-                  } else if (typeof value === 'boolean') {
-                    targetCell.type = 'boolean';
-                  } else if (value instanceof Date) {
-                    targetCell.type = 'date';
-                  } else {
-                    targetCell.type = 'text';
-                  }
-                }
-              }
-
-              if (originalRow.length > 0) {
-                originalCells.push(originalRow);
+                // Update value (clear formula) and type based on value
+                pasted.push({
+                  ...withValue(targetCell, value),
+                  type: getValueType(value),
+                });
               }
             }
+          }
+        }
 
-            sheet.updatedAt = new Date();
-            state.hasUnsavedChanges = true;
+        // Referenced IDs hold the whole paste back for the user's choice
+        const change = findReferenceRename(
+          get().sheets,
+          sheet.id,
+          pasted.map(toKeyWrite),
+          pasted
+        );
+        if (change) {
+          set((state) => {
+            state.pendingReferenceChange = change;
           });
+        } else {
+          // Every pasted cell is one undo step (recorded after the await)
+          get().transaction(
+            () => get()._writeCells(sheet.id, pasted),
+            'pasteFromClipboard'
+          );
         }
 
-        // Add to history
-        get().addHistory({
-          type: 'cell',
-          action: 'update',
-          sheetId: sheet.id,
-          before: { cells: originalCells },
-          after: { cells: clipboardData?.cells || cellValues },
-        });
-
         // Trigger auto-save
         get()._triggerAutoSave();
 
@@ -1450,423 +2127,779 @@ export const useSpreadsheetStore = create<SpreadsheetState>()(
       }
     },
 
-    // Search and Replace
-    searchInCurrentSheet: (searchText, options = {}) => {
-      const state = get();
-      const sheet = state.getActiveSheet();
-
-      if (!sheet) {
-        console.warn('No active sheet');
-        return [];
-      }
-
-      return searchInSheet(sheet, searchText, options);
-    },
-
-    searchInAllSheets: (searchText, options = {}) => {
-      const state = get();
-      return searchInSheets(state.sheets, searchText, options);
-    },
-
-    replaceInSelection: (searchText, replaceText, options = {}) => {
+    fillSelection: (direction) => {
       const state = get();
       const sheet = state.getActiveSheet();
       const selection = state.selection;
 
       if (!sheet || !selection) {
-        console.warn('No selection for replace');
-        return 0;
+        console.warn('No selection to fill');
+        return;
       }
 
-      let replaceCount = 0;
-      const beforeCells: Cell[][] = [];
-      const afterCells: Cell[][] = [];
+      // 첫 행(아래로) 또는 첫 열(오른쪽으로)을 나머지 셀에 복사
+      const isDown = direction === 'down';
+      if (
+        isDown
+          ? selection.endRow <= selection.startRow
+          : selection.endColumn <= selection.startColumn
+      ) {
+        return;
+      }
 
-      set((state) => {
-        const sheet = state.getActiveSheet();
-        if (!sheet || !state.selection) return;
+      const copies: Cell[] = [];
+      for (
+        let rowIndex = selection.startRow;
+        rowIndex <= selection.endRow;
+        rowIndex++
+      ) {
+        const row = sheet.rows[rowIndex];
+        if (!row) continue;
 
         for (
-          let rowIndex = state.selection.startRow;
-          rowIndex <= state.selection.endRow;
-          rowIndex++
+          let colIndex = selection.startColumn;
+          colIndex <= selection.endColumn;
+          colIndex++
         ) {
-          const row = sheet.rows[rowIndex];
-          if (!row) continue;
-
-          const beforeRow: Cell[] = [];
-          const afterRow: Cell[] = [];
-
-          for (
-            let colIndex = state.selection.startColumn;
-            colIndex <= state.selection.endColumn;
-            colIndex++
-          ) {
-            const column = sheet.columns[colIndex];
-            if (!column) continue;
-
-            const cell = row.cells[column.id];
-            if (!cell) continue;
-
-            // Store original
-            beforeRow.push({ ...cell });
-
-            // Replace
-            const newValue = replaceInCell(
-              cell,
-              searchText,
-              replaceText,
-              options
-            );
-
-            if (newValue !== cell.value) {
-              cell.value = newValue;
-              cell.formula = undefined; // Clear formula when replacing value
-              cell.error = undefined;
-              replaceCount++;
-
-              afterRow.push({ ...cell });
-            }
-          }
-
-          if (beforeRow.length > 0) {
-            beforeCells.push(beforeRow);
-            afterCells.push(afterRow);
-          }
+          const column = sheet.columns[colIndex];
+          if (!column) continue;
+
+          const rowOffset = isDown ? rowIndex - selection.startRow : 0;
+          const columnOffset = isDown ? 0 : colIndex - selection.startColumn;
+          if (rowOffset === 0 && columnOffset === 0) continue;
+
+          const sourceRow = sheet.rows[rowIndex - rowOffset];
+          const sourceColumn = sheet.columns[colIndex - columnOffset];
+          const sourceCell = sourceRow?.cells[sourceColumn.id];
+          const targetCell = row.cells[column.id];
+          if (!sourceCell || !targetCell) continue;
+
+          copies.push(
+            createCellCopy(sourceCell, row.id, column.id, {
+              rows: rowOffset,
+              columns: columnOffset,
+            })
+          );
         }
+      }
 
-        if (replaceCount > 0) {
-          sheet.updatedAt = new Date();
-          state.hasUnsavedChanges = true;
-        }
-      });
+      if (copies.length === 0) return;
 
-      if (replaceCount > 0) {
-        // Add to history
-        get().addHistory({
-          type: 'cell',
-          action: 'update',
-          sheetId: sheet.id,
-          before: { cells: beforeCells },
-          after: { cells: afterCells },
+      // Referenced IDs hold the whole fill back for the user's choice
+      const change = findReferenceRename(
+        get().sheets,
+        sheet.id,
+        copies.map(toKeyWrite),
+        copies
+      );
+      if (change) {
+        set((state) => {
+          state.pendingReferenceChange = change;
         });
+        return;
+      }
 
-        // Trigger auto-save
-        get()._triggerAutoSave();
+      get()._writeCells(sheet.id, copies);
+      get()._triggerAutoSave();
+    },
 
-        console.log(`Replaced ${replaceCount} occurrences in selection`);
+    // Named ranges
+    addName: (name, definition, comment) => {
+      const error = validateNamedRange(get().names, name, definition);
+      if (error) {
+        console.warn(`Cannot add name: ${error}`);
+        return false;
       }
 
-      return replaceCount;
+      set((state) => {
+        state.names.push({
+          id: `name-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+          name,
+          definition: definition.trim(),
+          ...(comment && { comment }),
+        });
+        state.hasUnsavedChanges = true;
+      });
+
+      formulaEvaluator.setNames(get().names);
+      get()._recalculateNameUsages(name);
+      get()._triggerAutoSave();
+      return true;
     },
 
-    replaceAll: (searchText, replaceText, options = {}) => {
-      const state = get();
-      const sheet = state.getActiveSheet();
+    updateName: (id, updates) => {
+      const named = get().names.find((n) => n.id === id);
+      if (!named) return false;
 
-      if (!sheet) {
-        console.warn('No active sheet');
-        return 0;
+      const definition = updates.definition ?? named.definition;
+      const error = validateNamedRange(get().names, named.name, definition, id);
+      if (error) {
+        console.warn(`Cannot update name: ${error}`);
+        return false;
       }
 
-      let replaceCount = 0;
-      const beforeCells: Cell[][] = [];
-      const afterCells: Cell[][] = [];
-
       set((state) => {
-        const sheet = state.getActiveSheet();
-        if (!sheet) return;
+        const target = state.names.find((n) => n.id === id);
+        if (!target) return;
 
-        sheet.rows.forEach((row) => {
-          const beforeRow: Cell[] = [];
-          const afterRow: Cell[] = [];
+        target.definition = definition.trim();
+        if (updates.comment !== undefined) {
+          target.comment = updates.comment || undefined;
+        }
+        state.hasUnsavedChanges = true;
+      });
 
-          sheet.columns.forEach((column) => {
-            const cell = row.cells[column.id];
-            if (!cell) return;
+      formulaEvaluator.setNames(get().names);
+      get()._recalculateNameUsages(named.name);
+      get()._triggerAutoSave();
+      return true;
+    },
 
-            // Store original
-            beforeRow.push({ ...cell });
+    renameName: (id, newName) => {
+      const named = get().names.find((n) => n.id === id);
+      if (!named) return false;
 
-            // Replace
-            const newValue = replaceInCell(
-              cell,
-              searchText,
-              replaceText,
-              options
-            );
+      const error = validateNamedRange(
+        get().names,
+        newName,
+        named.definition,
+        id
+      );
+      if (error) {
+        console.warn(`Cannot rename name: ${error}`);
+        return false;
+      }
 
-            if (newValue !== cell.value) {
-              cell.value = newValue;
-              cell.formula = undefined;
-              cell.error = undefined;
-              replaceCount++;
+      const oldName = named.name;
 
-              afterRow.push({ ...cell });
-            }
+      set((state) => {
+        // Rewrite every formula and definition that uses the old name
+        state.sheets.forEach((sheet) => {
+          sheet.rows.forEach((row) => {
+            Object.values(row.cells).forEach((cell) => {
+              if (cell.formula) {
+                cell.formula = renameNameInFormula(
+                  cell.formula,
+                  oldName,
+                  newName
+                );
+              }
+            });
           });
+        });
 
-          if (beforeRow.length > 0) {
-            beforeCells.push(beforeRow);
-            afterCells.push(afterRow);
+        state.names.forEach((n) => {
+          n.definition = renameNameInFormula(n.definition, oldName, newName);
+          if (n.id === id) {
+            n.name = newName;
           }
         });
+        state.hasUnsavedChanges = true;
+      });
 
-        if (replaceCount > 0) {
-          sheet.updatedAt = new Date();
-          state.hasUnsavedChanges = true;
-        }
+      formulaEvaluator.setNames(get().names);
+      get()._triggerAutoSave();
+      return true;
+    },
+
+    deleteName: (id) => {
+      const named = get().names.find((n) => n.id === id);
+      if (!named) return;
+
+      set((state) => {
+        state.names = state.names.filter((n) => n.id !== id);
+        state.hasUnsavedChanges = true;
       });
 
-      if (replaceCount > 0) {
-        // Add to history
-        get().addHistory({
-          type: 'cell',
-          action: 'update',
-          sheetId: sheet.id,
-          before: { cells: beforeCells },
-          after: { cells: afterCells },
-        });
+      // Formulas that still use the name now report an unknown name
+      formulaEvaluator.setNames(get().names);
+      get()._recalculateNameUsages(named.name);
+      get()._triggerAutoSave();
+    },
 
-        // Trigger auto-save
-        get()._triggerAutoSave();
+    findNameUsages: (name) => {
+      const state = get();
+      return findNameUsages(state.sheets, state.names, name);
+    },
 
-        console.log(`Replaced ${replaceCount} occurrences in sheet`);
-      }
+    // Random functions
+    setRandomSeed: async (seed) => {
+      set((state) => {
+        state.randomSeed = seed;
+        state.hasUnsavedChanges = true;
+      });
 
-      return replaceCount;
+      // Every random formula draws from the new seed
+      formulaEvaluator.setRandomSeed(seed);
+      await get().recalculateWorkbook();
+      get()._triggerAutoSave();
     },
 
-    // History
-    addHistory: (entry) =>
+    rerollRandom: () => get().setRandomSeed(createRandomSeed()),
+
+    // Iterative calculation
+    setIterativeCalculation: async (settings) => {
       set((state) => {
-        const historyEntry: HistoryEntry = {
-          ...entry,
-          id: `history-${Date.now()}`,
-          timestamp: new Date(),
+        const next = { ...state.iterativeCalculation, ...settings };
+        state.iterativeCalculation = {
+          enabled: next.enabled,
+          maxIterations: Math.max(1, Math.floor(next.maxIterations)),
+          tolerance: Math.max(0, next.tolerance),
         };
+        state.hasUnsavedChanges = true;
+      });
 
-        // Remove future history if we're not at the end
-        if (state.historyIndex < state.history.length - 1) {
-          state.history.splice(state.historyIndex + 1);
-        }
+      // Circular references are either iterated or reported as #CIRC! again
+      formulaEvaluator.setIterativeCalculation(get().iterativeCalculation);
+      await get().recalculateWorkbook();
+      get()._triggerAutoSave();
+    },
 
-        state.history.push(historyEntry);
-        state.historyIndex = state.history.length - 1;
+    // Formula auditing
+    traceFormulaCell: (direction) => {
+      const state = get();
+      const sheet = state.getActiveSheet();
+      const { selection } = state;
+      const row = selection && sheet?.rows[selection.startRow];
+      const column = selection && sheet?.columns[selection.startColumn];
+      if (!sheet || !row || !column) return 0;
+
+      const sheetCellId = generateSheetCellId(
+        sheet.id,
+        generateCellId(row.id, column.id)
+      );
 
-        // Limit history size
-        if (state.history.length > 100) {
-          state.history.shift();
-          state.historyIndex--;
-        }
-      }),
+      // Tracing the same cell again follows one more level
+      const previous = state.formulaTrace;
+      const levels =
+        previous?.sheetCellId === sheetCellId &&
+        previous.direction === direction
+          ? previous.levels + 1
+          : 1;
+      const cells = traceCells(
+        formulaEvaluator.getGraph(),
+        sheetCellId,
+        direction,
+        levels
+      );
 
-    undo: () =>
       set((state) => {
-        if (state.historyIndex < 0 || state.history.length === 0) {
-          console.log('Nothing to undo');
-          return;
-        }
+        state.formulaTrace = {
+          sheetCellId,
+          direction,
+          levels,
+          cells: Object.fromEntries(cells),
+        };
+      });
+      return cells.size;
+    },
 
-        const entry = state.history[state.historyIndex];
-        const sheet = state.sheets.find((s) => s.id === entry.sheetId);
-        if (!sheet) return;
+    clearFormulaTrace: () =>
+      set((state) => {
+        state.formulaTrace = null;
+      }),
 
-        // Apply reverse action
-        switch (entry.type) {
-          case 'cell':
-            if (entry.action === 'update' && entry.before) {
-              const cellData = entry.before as any;
-              const row = sheet.rows.find((r) => r.id === cellData.rowId);
-              if (row && row.cells[cellData.columnId]) {
-                row.cells[cellData.columnId] = cellData;
-              }
-            }
-            break;
-
-          case 'row':
-            if (entry.action === 'add' && entry.after) {
-              // Remove added row
-              const rowData = entry.after as any;
-              const rowIndex = sheet.rows.findIndex((r) => r.id === rowData.id);
-              if (rowIndex !== -1) {
-                sheet.rows.splice(rowIndex, 1);
-              }
-            } else if (entry.action === 'delete' && entry.before) {
-              // Restore deleted row
-              const rowData = entry.before as any;
-              sheet.rows.push(rowData);
-            }
-            break;
-
-          case 'column':
-            if (entry.action === 'add' && entry.after) {
-              // Remove added column
-              const colData = entry.after as any;
-              const colIndex = sheet.columns.findIndex(
-                (c) => c.id === colData.id
-              );
-              if (colIndex !== -1) {
-                sheet.columns.splice(colIndex, 1);
-                // Remove column from all rows
-                sheet.rows.forEach((row) => {
-                  delete row.cells[colData.id];
-                });
-              }
-            } else if (entry.action === 'delete' && entry.before) {
-              // Restore deleted column
-              const colData = entry.before as any;
-              sheet.columns.push(colData.column);
-              // Restore cells
-              Object.entries(colData.cells || {}).forEach(([rowId, cell]) => {
-                const row = sheet.rows.find((r) => r.id === rowId);
-                if (row) {
-                  row.cells[colData.column.id] = cell as Cell;
-                }
-              });
-            } else if (entry.action === 'update' && entry.before) {
-              // Restore column state (for name changes, etc.)
-              const colData = entry.before as any;
-              const column = sheet.columns.find((c) => c.id === colData.id);
-              if (column) {
-                Object.assign(column, colData);
-              }
-            }
-            break;
-
-          case 'sheet':
-            if (entry.action === 'add' && entry.after) {
-              // Remove added sheet
-              const sheetData = entry.after as any;
-              const sheetIndex = state.sheets.findIndex(
-                (s) => s.id === sheetData.id
-              );
-              if (sheetIndex !== -1) {
-                state.sheets.splice(sheetIndex, 1);
-              }
-            } else if (entry.action === 'delete' && entry.before) {
-              // Restore deleted sheet
-              const sheetData = entry.before as any;
-              state.sheets.push(sheetData);
-            }
-            break;
-        }
+    getTracedCells: (sheetId, rowId, columnId, direction) => {
+      const state = get();
+      const traced = traceCells(
+        formulaEvaluator.getGraph(),
+        generateSheetCellId(sheetId, generateCellId(rowId, columnId)),
+        direction
+      );
+      return describeTracedCells(state.sheets, traced);
+    },
 
-        state.historyIndex--;
-        state.hasUnsavedChanges = true;
-      }),
+    evaluateFormulaSteps: (sheetId, rowId, columnId) => {
+      const state = get();
+      const sheet = state.sheets.find((s) => s.id === sheetId);
+      const cell = sheet?.rows.find((r) => r.id === rowId)?.cells[columnId];
+      if (!sheet || !cell?.formula) return [];
+
+      return formulaEvaluator.evaluateSteps(
+        cell.id,
+        cell.formula,
+        sheet,
+        state.sheets
+      );
+    },
 
-    redo: () =>
+    // Formula bar reference picking
+    startFormulaEditing: (sheetId, rowId, columnId) =>
       set((state) => {
+        const editing = state.formulaEditing;
         if (
-          state.historyIndex >= state.history.length - 1 ||
-          state.history.length === 0
+          editing?.sheetId === sheetId &&
+          editing.rowId === rowId &&
+          editing.columnId === columnId
         ) {
-          console.log('Nothing to redo');
           return;
         }
+        state.formulaEditing = {
+          sheetId,
+          rowId,
+          columnId,
+          pickedReference: null,
+          pickCount: 0,
+        };
+      }),
 
-        const entry = state.history[state.historyIndex + 1];
-        const sheet = state.sheets.find((s) => s.id === entry.sheetId);
-        if (!sheet) return;
-
-        // Apply forward action
-        switch (entry.type) {
-          case 'cell':
-            if (entry.action === 'update' && entry.after) {
-              const cellData = entry.after as any;
-              const row = sheet.rows.find((r) => r.id === cellData.rowId);
-              if (row && row.cells[cellData.columnId]) {
-                row.cells[cellData.columnId] = cellData;
-              }
-            }
-            break;
-
-          case 'row':
-            if (entry.action === 'add' && entry.after) {
-              // Re-add row
-              const rowData = entry.after as any;
-              sheet.rows.push(rowData);
-            } else if (entry.action === 'delete' && entry.after) {
-              // Re-delete row
-              const rowData = entry.after as any;
-              const rowIndex = sheet.rows.findIndex((r) => r.id === rowData.id);
-              if (rowIndex !== -1) {
-                sheet.rows.splice(rowIndex, 1);
-              }
-            }
-            break;
-
-          case 'column':
-            if (entry.action === 'add' && entry.after) {
-              // Re-add column
-              const colData = entry.after as any;
-              sheet.columns.push(colData);
-            } else if (entry.action === 'delete' && entry.after) {
-              // Re-delete column
-              const colData = entry.after as any;
-              const colIndex = sheet.columns.findIndex(
-                (c) => c.id === colData.id
-              );
-              if (colIndex !== -1) {
-                sheet.columns.splice(colIndex, 1);
-                // Remove column from all rows
-                sheet.rows.forEach((row) => {
-                  delete row.cells[colData.id];
-                });
-              }
-            } else if (entry.action === 'update' && entry.after) {
-              // Restore column state (for name changes, etc.)
-              const colData = entry.after as any;
-              const column = sheet.columns.find((c) => c.id === colData.id);
-              if (column) {
-                Object.assign(column, colData);
-              }
-            }
-            break;
-
-          case 'sheet':
-            if (entry.action === 'add' && entry.after) {
-              // Re-add sheet
-              const sheetData = entry.after as any;
-              state.sheets.push(sheetData);
-            } else if (entry.action === 'delete' && entry.after) {
-              // Re-delete sheet
-              const sheetData = entry.after as any;
-              const sheetIndex = state.sheets.findIndex(
-                (s) => s.id === sheetData.id
-              );
-              if (sheetIndex !== -1) {
-                state.sheets.splice(sheetIndex, 1);
-              }
-            }
-            break;
-        }
-
-        state.historyIndex++;
-        state.hasUnsavedChanges = true;
+    stopFormulaEditing: () =>
+      set((state) => {
+        state.formulaEditing = null;
       }),
 
-    // Utility
-    getActiveSheet: () => {
+    pickFormulaReference: (sheetId, range) => {
       const state = get();
-      return state.sheets.find((s) => s.id === state.activeSheetId);
+      const editing = state.formulaEditing;
+      const sheet = state.sheets.find((s) => s.id === sheetId);
+      if (!editing || !sheet) return false;
+
+      // Ranges on other sheets are qualified with the sheet name
+      const reference = formatRangeReference(
+        range,
+        sheetId === editing.sheetId ? undefined : sheet.name
+      );
+      set((state) => {
+        if (!state.formulaEditing) return;
+        state.formulaEditing.pickedReference = reference;
+        state.formulaEditing.pickCount++;
+      });
+      return true;
     },
 
-    getCell: (sheetId, rowId, columnId) => {
+    // What-if analysis
+    goalSeek: (target, targetValue, input) => {
       const state = get();
-      const sheet = state.sheets.find((s) => s.id === sheetId);
-      if (!sheet) return undefined;
+      const error = validateGoalSeek(state.sheets, target, input);
+      if (error) {
+        console.warn(`Cannot run goal seek: ${error}`);
+        return null;
+      }
 
-      const row = sheet.rows.find((r) => r.id === rowId);
-      return row?.cells[columnId];
-    },
+      const result = solveGoalSeek(state.sheets, target, targetValue, input, {
+        names: state.names,
+        randomSeed: state.randomSeed,
+      });
 
-    sortSheet: (sheetId, config) =>
-      set((state) => {
+      // Written like a typed value so it can be undone
+      if (result.found) {
+        get().updateCell(
+          input.sheetId,
+          input.rowId,
+          input.columnId,
+          result.value
+        );
+      }
+      return result;
+    },
+
+    fillDataTable: (sheetId, range, inputs) => {
+      const state = get();
+      const error = validateDataTable(state.sheets, sheetId, range, inputs);
+      if (error) {
+        console.warn(`Cannot create data table: ${error}`);
+        return false;
+      }
+
+      const results = computeDataTable(state.sheets, sheetId, range, inputs, {
+        names: state.names,
+        randomSeed: state.randomSeed,
+      });
+      const changed: string[] = [];
+
+      set((state) => {
         const sheet = state.sheets.find((s) => s.id === sheetId);
         if (!sheet) return;
 
+        results.forEach((resultRow, rowOffset) => {
+          const row = sheet.rows[range.startRow + 1 + rowOffset];
+          resultRow.forEach((value, columnOffset) => {
+            const column = sheet.columns[range.startColumn + 1 + columnOffset];
+            const cell = row && column ? row.cells[column.id] : undefined;
+            if (!cell) return;
+
+            const cellId = generateCellId(row.id, column.id);
+            changed.push(cellId, ...clearSpill(cell, sheet));
+            cell.formula = undefined;
+            cell.spilledFrom = undefined;
+            applyFormulaResult(cell, value);
+            const sheetCellId = generateSheetCellId(sheetId, cellId);
+            formulaEvaluator.clearCellDependencies(sheetCellId);
+            formulaCache.invalidate(sheetCellId);
+          });
+        });
+
+        sheet.updatedAt = new Date();
+        state.hasUnsavedChanges = true;
+      });
+
+      get()._recalculateCells(
+        changed.map((cellId) => generateSheetCellId(sheetId, cellId))
+      );
+
+      get()._triggerAutoSave();
+      return true;
+    },
+
+    // Combat simulation
+    createTtkMatrix: (characterSheetId, enemySheetId, options = {}) => {
+      const state = get();
+      const characterSheet = state.sheets.find(
+        (s) => s.id === characterSheetId
+      );
+      const enemySheet = state.sheets.find((s) => s.id === enemySheetId);
+      if (!characterSheet || !enemySheet) return null;
+
+      const error = validateTtkMatrixSources(characterSheet, enemySheet);
+      if (error) {
+        console.warn(`Cannot create TTK matrix: ${error}`);
+        return null;
+      }
+
+      // Avoid duplicate sheet names
+      const baseName =
+        options.name ?? `TTK ${characterSheet.name} vs ${enemySheet.name}`;
+      let name = baseName;
+      for (let i = 1; state.sheets.some((s) => s.name === name); i++) {
+        name = `${baseName} ${i}`;
+      }
+
+      const sheet = createTtkMatrixSheet(characterSheet, enemySheet, {
+        ...options,
+        id: `sheet-${Date.now()}`,
+        name,
+      });
+      get().addSheets([sheet]);
+
+      // Register and evaluate the TTK formulas
+      get()._recalculateCells(
+        sheet.rows.flatMap((row) =>
+          Object.values(row.cells)
+            .filter((cell) => cell.formula)
+            .map((cell) => generateSheetCellId(sheet.id, cell.id))
+        ),
+        { includeSources: true }
+      );
+      get()._triggerAutoSave();
+      return sheet.id;
+    },
+
+    // Referential integrity
+    resolveReferenceChange: (resolution) => {
+      const change = get().pendingReferenceChange;
+      if (!change) return false;
+
+      const error = validateReferenceResolution(change, resolution);
+      if (error) {
+        console.warn(`Cannot resolve reference change: ${error}`);
+        return false;
+      }
+
+      const origin = get().sheets.find((s) => s.id === change.sheetId);
+      if (!origin) {
+        set((state) => {
+          state.pendingReferenceChange = null;
+        });
+        return false;
+      }
+
+      // block keeps only the referenced targets; the rest of the change applies
+      const blocked =
+        resolution === 'block'
+          ? findBatchInboundReferences(
+              get().sheets,
+              change.sheetId,
+              change.targets
+            ).targets
+          : [];
+      const isBlocked = (rowId: string, columnId?: string) =>
+        blocked.some((t) => t.rowId === rowId && t.columnId === columnId);
+
+      // References and the held change are one undo step
+      get().transaction(() => {
+        // 1. Point the inbound references at the new ID (or clear them)
+        const newKeys = new Map<string, CellValue>();
+        if (resolution === 'cascade') {
+          change.targets.forEach((target) => {
+            if (target.columnId === undefined) return;
+            const oldValue = origin.rows.find((r) => r.id === target.rowId)
+              ?.cells[target.columnId]?.value;
+            if (oldValue !== null && oldValue !== undefined) {
+              newKeys.set(toReferenceKey(oldValue), target.value ?? null);
+            }
+          });
+        }
+        const references = resolution === 'block' ? [] : change.references;
+        set((state) => {
+          state.pendingReferenceChange = null;
+          // Refresh the grid, which still shows the held edit
+          const sheet = state.sheets.find((s) => s.id === change.sheetId);
+          if (sheet) sheet.updatedAt = new Date();
+
+          references.forEach((ref) => {
+            const sheet = state.sheets.find((s) => s.id === ref.sheetId);
+            const cell = sheet?.rows.find((r) => r.id === ref.rowId)?.cells[
+              ref.columnId
+            ];
+            if (!sheet || !cell) return;
+
+            cell.value = newKeys.get(ref.key) ?? null;
+            cell.formula = undefined;
+            cell.error = undefined;
+            sheet.updatedAt = new Date();
+            state.hasUnsavedChanges = true;
+          });
+        });
+        get()._recalculateCells(
+          references.map((ref) =>
+            generateSheetCellId(
+              ref.sheetId,
+              generateCellId(ref.rowId, ref.columnId)
+            )
+          )
+        );
+
+        // 2. Apply the held change, which no longer breaks any reference
+        if (change.action === 'delete') {
+          const rowIds = change.targets
+            .filter((target) => !isBlocked(target.rowId))
+            .map((target) => target.rowId);
+          if (rowIds.length > 0) get().removeRows(change.sheetId, rowIds);
+        } else if (change.cells) {
+          get()._writeCells(
+            change.sheetId,
+            change.cells.filter((cell) => !isBlocked(cell.rowId, cell.columnId))
+          );
+        } else {
+          change.targets.forEach((target) => {
+            if (
+              target.columnId === undefined ||
+              isBlocked(target.rowId, target.columnId)
+            ) {
+              return;
+            }
+            get().updateCell(
+              change.sheetId,
+              target.rowId,
+              target.columnId,
+              target.value ?? null
+            );
+          });
+        }
+      }, 'resolveReferenceChange');
+
+      get()._triggerAutoSave();
+      return resolution !== 'block';
+    },
+
+    // Search and Replace
+    searchInCurrentSheet: (searchText, options = {}) => {
+      const state = get();
+      const sheet = state.getActiveSheet();
+
+      if (!sheet) {
+        console.warn('No active sheet');
+        return [];
+      }
+
+      return searchInSheet(sheet, searchText, options);
+    },
+
+    searchInAllSheets: (searchText, options = {}) => {
+      const state = get();
+      return searchInSheets(state.sheets, searchText, options);
+    },
+
+    replaceInSelection: (searchText, replaceText, options = {}) => {
+      const state = get();
+      const sheet = state.getActiveSheet();
+      const selection = state.selection;
+
+      if (!sheet || !selection) {
+        console.warn('No selection for replace');
+        return 0;
+      }
+
+      const replaced: Cell[] = [];
+      for (
+        let rowIndex = selection.startRow;
+        rowIndex <= selection.endRow;
+        rowIndex++
+      ) {
+        const row = sheet.rows[rowIndex];
+        if (!row) continue;
+
+        for (
+          let colIndex = selection.startColumn;
+          colIndex <= selection.endColumn;
+          colIndex++
+        ) {
+          const column = sheet.columns[colIndex];
+          if (!column) continue;
+
+          const cell = row.cells[column.id];
+          if (!cell) continue;
+
+          // Replace (clears the formula)
+          const newValue = replaceInCell(
+            cell,
+            searchText,
+            replaceText,
+            options
+          );
+
+          if (newValue !== cell.value) {
+            replaced.push(withValue(cell, newValue));
+          }
+        }
+      }
+
+      if (replaced.length === 0) return 0;
+
+      // Referenced IDs hold the whole replacement back for the user's choice
+      const change = findReferenceRename(
+        get().sheets,
+        sheet.id,
+        replaced.map(toKeyWrite),
+        replaced
+      );
+      if (change) {
+        set((state) => {
+          state.pendingReferenceChange = change;
+        });
+        return 0;
+      }
+
+      get()._writeCells(sheet.id, replaced);
+
+      // Trigger auto-save
+      get()._triggerAutoSave();
+
+      console.log(`Replaced ${replaced.length} occurrences in selection`);
+      return replaced.length;
+    },
+
+    replaceAll: (searchText, replaceText, options = {}) => {
+      const state = get();
+      const sheet = state.getActiveSheet();
+
+      if (!sheet) {
+        console.warn('No active sheet');
+        return 0;
+      }
+
+      const replaced: Cell[] = [];
+      sheet.rows.forEach((row) => {
+        sheet.columns.forEach((column) => {
+          const cell = row.cells[column.id];
+          if (!cell) return;
+
+          // Replace (clears the formula)
+          const newValue = replaceInCell(
+            cell,
+            searchText,
+            replaceText,
+            options
+          );
+
+          if (newValue !== cell.value) {
+            replaced.push(withValue(cell, newValue));
+          }
+        });
+      });
+
+      if (replaced.length === 0) return 0;
+
+      // Referenced IDs hold the whole replacement back for the user's choice
+      const change = findReferenceRename(
+        get().sheets,
+        sheet.id,
+        replaced.map(toKeyWrite),
+        replaced
+      );
+      if (change) {
+        set((state) => {
+          state.pendingReferenceChange = change;
+        });
+        return 0;
+      }
+
+      get()._writeCells(sheet.id, replaced);
+
+      // Trigger auto-save
+      get()._triggerAutoSave();
+
+      console.log(`Replaced ${replaced.length} occurrences in sheet`);
+      return replaced.length;
+    },
+
+    // History
+    transaction: (fn) => fn(),
+
+    undo: () => {
+      const { history, historyIndex } = get();
+      const entry = history[historyIndex];
+      if (!entry) {
+        console.log('Nothing to undo');
+        return;
+      }
+
+      set((state) => {
+        applyPatches(state, entry.inversePatches);
+        state.historyIndex--;
+        restoreActiveSheet(state);
+        state.hasUnsavedChanges = true;
+      });
+      syncRestoredWorkbook(get());
+      get().recalculateWorkbook();
+      get()._triggerAutoSave();
+    },
+
+    redo: () => {
+      const { history, historyIndex } = get();
+      const entry = history[historyIndex + 1];
+      if (!entry) {
+        console.log('Nothing to redo');
+        return;
+      }
+
+      set((state) => {
+        applyPatches(state, entry.patches);
+        state.historyIndex++;
+        restoreActiveSheet(state);
+        state.hasUnsavedChanges = true;
+      });
+      syncRestoredWorkbook(get());
+      get().recalculateWorkbook();
+      get()._triggerAutoSave();
+    },
+
+    // Utility
+    getActiveSheet: () => {
+      const state = get();
+      return state.sheets.find((s) => s.id === state.activeSheetId);
+    },
+
+    getCell: (sheetId, rowId, columnId) => {
+      const state = get();
+      const sheet = state.sheets.find((s) => s.id === sheetId);
+      if (!sheet) return undefined;
+
+      const row = sheet.rows.find((r) => r.id === rowId);
+      return row?.cells[columnId];
+    },
+
+    sortSheet: (sheetId, config) => {
+      let affectedCells: string[] = [];
+
+      set((state) => {
+        const sheet = state.sheets.find((s) => s.id === sheetId);
+        if (!sheet) return;
+
+        const previousIndex = new Map(
+          sheet.rows.map((row, idx) => [row.id, idx])
+        );
+
         sheet.rows.sort((a, b) => {
           const aCell = a.cells[config.columnId];
           const bCell = b.cells[config.columnId];
@@ -1878,11 +2911,28 @@ export const useSpreadsheetStore = create<SpreadsheetState>()(
         });
 
         // Update indices
+        const newIndexOf: number[] = [];
         sheet.rows.forEach((row, idx) => {
           row.index = idx;
+          const previous = previousIndex.get(row.id);
+          if (previous !== undefined) newIndexOf[previous] = idx;
         });
+
+        // Single-cell references follow the moved rows
+        affectedCells = adjustWorkbookFormulas(
+          state.sheets,
+          state.names,
+          sheet,
+          createReorderMap('row', newIndexOf)
+        );
+
         sheet.updatedAt = new Date();
-      }),
+      });
+
+      formulaEvaluator.setNames(get().names);
+      // Re-evaluate once every reference has been rewritten
+      get()._recalculateCells(affectedCells, { includeSources: true });
+    },
 
     filterSheet: (sheetId, filters) =>
       set((state) => {
@@ -1985,17 +3035,7 @@ export const useSpreadsheetStore = create<SpreadsheetState>()(
       });
 
       try {
-        const state = get();
-        const spreadsheet: Spreadsheet = {
-          id: state.spreadsheetId,
-          name: state.spreadsheetName,
-          sheets: state.sheets,
-          activeSheetId: state.activeSheetId,
-          createdAt: new Date(),
-          updatedAt: new Date(),
-        };
-
-        await dbService.save(spreadsheet);
+        await dbService.save(toSpreadsheet(get()));
 
         set((state) => {
           state.saving = false;
@@ -2019,9 +3059,24 @@ export const useSpreadsheetStore = create<SpreadsheetState>()(
             state.spreadsheetName = spreadsheet.name;
             state.sheets = spreadsheet.sheets;
             state.activeSheetId = spreadsheet.activeSheetId;
+            state.names = spreadsheet.names ?? [];
+            state.randomSeed = spreadsheet.randomSeed ?? 0;
+            state.iterativeCalculation =
+              spreadsheet.iterativeCalculation ?? DEFAULT_ITERATIVE_CALCULATION;
+            state.branch = spreadsheet.branch ?? null;
+            state.snapshots = [];
+            state.formulaTrace = null;
+            state.formulaEditing = null;
+            state.pendingReferenceChange = null;
+            state.history = [];
+            state.historyIndex = -1;
             state.lastSaved = spreadsheet.updatedAt;
             state.hasUnsavedChanges = false;
           });
+          formulaEvaluator.setNames(get().names);
+          formulaEvaluator.setRandomSeed(get().randomSeed);
+          formulaEvaluator.setIterativeCalculation(get().iterativeCalculation);
+          await get().recalculateWorkbook();
         }
       } catch (error) {
         console.error('Failed to load spreadsheet:', error);
@@ -2036,8 +3091,21 @@ export const useSpreadsheetStore = create<SpreadsheetState>()(
           set((state) => {
             state.sheets = backup.sheets;
             state.activeSheetId = backup.activeSheetId;
+            state.names = backup.names ?? [];
+            state.randomSeed = backup.randomSeed ?? 0;
+            state.iterativeCalculation =
+              backup.iterativeCalculation ?? DEFAULT_ITERATIVE_CALCULATION;
+            state.formulaTrace = null;
+            state.formulaEditing = null;
+            state.pendingReferenceChange = null;
+            state.history = [];
+            state.historyIndex = -1;
             state.hasUnsavedChanges = true;
           });
+          formulaEvaluator.setNames(get().names);
+          formulaEvaluator.setRandomSeed(get().randomSeed);
+          formulaEvaluator.setIterativeCalculation(get().iterativeCalculation);
+          await get().recalculateWorkbook();
         }
       } catch (error) {
         console.error('Failed to load backup:', error);
@@ -2052,79 +3120,523 @@ export const useSpreadsheetStore = create<SpreadsheetState>()(
       get()._triggerAutoSave();
     },
 
+    // Version history
+    createSnapshot: async (name, description) => {
+      const state = get();
+      const error = validateSnapshotName(state.snapshots, name);
+      if (error) {
+        console.warn(`Cannot create snapshot: ${error}`);
+        return null;
+      }
+
+      const snapshot: Snapshot = {
+        id: `snapshot-${Date.now()}`,
+        spreadsheetId: state.spreadsheetId,
+        name: name.trim(),
+        ...(description?.trim() && { description: description.trim() }),
+        createdAt: new Date(),
+        data: toSpreadsheet(state),
+      };
+
+      try {
+        await dbService.saveSnapshot(snapshot);
+        const { data: _data, ...metadata } = snapshot;
+        set((state) => {
+          state.snapshots.unshift(metadata);
+        });
+        return metadata;
+      } catch (error) {
+        console.error('Failed to create snapshot:', error);
+        return null;
+      }
+    },
+
+    loadSnapshots: async () => {
+      try {
+        const snapshots = await dbService.listSnapshots(get().spreadsheetId);
+        set((state) => {
+          state.snapshots = snapshots;
+        });
+      } catch (error) {
+        console.error('Failed to load snapshots:', error);
+      }
+    },
+
+    getSnapshot: async (id) => {
+      try {
+        return await dbService.getSnapshot(id);
+      } catch (error) {
+        console.error('Failed to load snapshot:', error);
+        return null;
+      }
+    },
+
+    deleteSnapshot: async (id) => {
+      try {
+        await dbService.deleteSnapshot(id);
+        set((state) => {
+          state.snapshots = state.snapshots.filter((s) => s.id !== id);
+        });
+      } catch (error) {
+        console.error('Failed to delete snapshot:', error);
+      }
+    },
+
+    restoreSnapshot: (snapshot) => {
+      const { data } = snapshot;
+      set((state) => {
+        state.sheets = data.sheets;
+        state.names = data.names ?? [];
+        state.randomSeed = data.randomSeed ?? 0;
+        state.iterativeCalculation =
+          data.iterativeCalculation ?? DEFAULT_ITERATIVE_CALCULATION;
+        restoreActiveSheet(state);
+        state.formulaTrace = null;
+        state.formulaEditing = null;
+        state.pendingReferenceChange = null;
+        state.hasUnsavedChanges = true;
+      });
+      syncRestoredWorkbook(get());
+      get().recalculateWorkbook();
+      get()._triggerAutoSave();
+    },
+
+    restoreSnapshotRows: (snapshot, sheetId, rowIds) => {
+      const source = snapshot.data.sheets.find((s) => s.id === sheetId);
+      if (!source || !get().sheets.some((s) => s.id === sheetId)) {
+        console.warn(
+          'Cannot restore rows: the sheet is missing from one version'
+        );
+        return 0;
+      }
+
+      // Snapshot order, so deleted rows go back in front of later ones
+      const selected = new Set(rowIds);
+      const restored = source.rows
+        .map((row, index) => ({ row, index }))
+        .filter(({ row }) => selected.has(row.id));
+      if (restored.length === 0) return 0;
+
+      const sourceColumnIds = new Set(source.columns.map((c) => c.id));
+      const changed: string[] = [];
+      let affectedCells: string[] = [];
+
+      set((state) => {
+        const sheet = state.sheets.find((s) => s.id === sheetId);
+        if (!sheet) return;
+
+        restored.forEach(({ row: sourceRow, index }) => {
+          let row = sheet.rows.find((r) => r.id === sourceRow.id);
+          if (!row) {
+            const insertIndex = Math.min(index, sheet.rows.length);
+            const cells: Record<string, Cell> = {};
+            sheet.columns.forEach((col) => {
+              cells[col.id] = {
+                id: generateCellId(sourceRow.id, col.id),
+                rowId: sourceRow.id,
+                columnId: col.id,
+                value: null,
+                type: col.type,
+              };
+            });
+            sheet.rows.splice(insertIndex, 0, {
+              id: sourceRow.id,
+              index: insertIndex,
+              cells,
+              height: sourceRow.height,
+              hidden: false,
+            });
+            sheet.rows.forEach((r, idx) => {
+              r.index = idx;
+            });
+
+            // Shift formula references below the re-inserted row
+            affectedCells = affectedCells.concat(
+              adjustWorkbookFormulas(
+                state.sheets,
+                state.names,
+                sheet,
+                createInsertionMap('row', insertIndex)
+              )
+            );
+            row = sheet.rows[insertIndex];
+          }
+
+          // Columns added after the snapshot keep their current values
+          sheet.columns.forEach((column) => {
+            const sourceCell = sourceRow.cells[column.id];
+            const cell = row.cells[column.id];
+            if (!sourceColumnIds.has(column.id) || !sourceCell || !cell) {
+              return;
+            }
+
+            const cellId = generateCellId(row.id, column.id);
+            changed.push(cellId, ...clearSpill(cell, sheet));
+            // Spilled values come back when their formula is recalculated
+            row.cells[column.id] = {
+              ...sourceCell,
+              value: sourceCell.spilledFrom ? null : sourceCell.value,
+              spill: undefined,
+              spilledFrom: undefined,
+            };
+            const sheetCellId = generateSheetCellId(sheetId, cellId);
+            formulaEvaluator.clearCellDependencies(sheetCellId);
+            formulaCache.invalidate(sheetCellId);
+          });
+        });
+
+        sheet.updatedAt = new Date();
+        state.hasUnsavedChanges = true;
+      });
+
+      formulaEvaluator.setNames(get().names);
+      get()._recalculateCells(
+        affectedCells.concat(
+          changed.map((cellId) => generateSheetCellId(sheetId, cellId))
+        ),
+        { includeSources: true }
+      );
+      get()._triggerAutoSave();
+      return restored.length;
+    },
+
+    // Branches
+    createBranch: async (name) => {
+      try {
+        const branches = await dbService.listBranches(get().spreadsheetId);
+        const error = validateBranchName(branches, name);
+        if (error) {
+          console.warn(`Cannot create branch: ${error}`);
+          return null;
+        }
+
+        // The parent is saved so both sides can be reopened and merged
+        await get().saveSpreadsheet();
+        const state = get();
+        const createdAt = new Date();
+        const base: Snapshot = {
+          id: `snapshot-${Date.now()}`,
+          spreadsheetId: state.spreadsheetId,
+          name: `Branch point: ${name.trim()}`,
+          createdAt,
+          data: toSpreadsheet(state),
+        };
+        await dbService.saveSnapshot(base);
+        const { data: _data, ...metadata } = base;
+        set((state) => {
+          state.snapshots.unshift(metadata);
+        });
+
+        const branch: Spreadsheet = {
+          ...toSpreadsheet(state),
+          id: `spreadsheet-${Date.now()}`,
+          name: name.trim(),
+          branch: {
+            parentId: state.spreadsheetId,
+            parentName: state.spreadsheetName,
+            baseSnapshotId: base.id,
+            createdAt,
+          },
+          createdAt,
+        };
+        await dbService.save(branch);
+        return {
+          id: branch.id,
+          name: branch.name,
+          branch: branch.branch,
+          createdAt,
+          updatedAt: createdAt,
+        };
+      } catch (error) {
+        console.error('Failed to create branch:', error);
+        return null;
+      }
+    },
+
+    listBranches: async () => {
+      try {
+        return await dbService.listBranches(get().spreadsheetId);
+      } catch (error) {
+        console.error('Failed to list branches:', error);
+        return [];
+      }
+    },
+
+    switchSpreadsheet: async (id) => {
+      await get().saveSpreadsheet();
+      await get().loadSpreadsheet(id);
+    },
+
+    prepareMerge: async (spreadsheetId) => {
+      try {
+        const state = get();
+        const theirs = await dbService.load(spreadsheetId);
+        if (!theirs) {
+          console.warn('Cannot merge: the spreadsheet was not found');
+          return null;
+        }
+
+        // The common base is the branch point of whichever side is the branch
+        const baseSnapshotId =
+          theirs.branch?.parentId === state.spreadsheetId
+            ? theirs.branch.baseSnapshotId
+            : state.branch?.parentId === theirs.id
+              ? state.branch.baseSnapshotId
+              : null;
+        if (!baseSnapshotId) {
+          console.warn(
+            'Cannot merge: the spreadsheets are not a branch and its parent'
+          );
+          return null;
+        }
+        const base = await dbService.getSnapshot(baseSnapshotId);
+        if (!base) {
+          console.warn('Cannot merge: the branch point snapshot is missing');
+          return null;
+        }
+
+        return {
+          sourceId: theirs.id,
+          sourceName: theirs.name,
+          theirs,
+          result: mergeWorkbooks(base.data, get(), theirs),
+        };
+      } catch (error) {
+        console.error('Failed to prepare merge:', error);
+        return null;
+      }
+    },
+
+    applyMerge: (merge, choices) => {
+      const merged = resolveMerge(merge.result, choices);
+      set((state) => {
+        state.sheets = merged.sheets;
+        state.names = merged.names;
+        state.randomSeed = merged.randomSeed ?? 0;
+        state.iterativeCalculation =
+          merged.iterativeCalculation ?? DEFAULT_ITERATIVE_CALCULATION;
+        restoreActiveSheet(state);
+        state.formulaTrace = null;
+        state.formulaEditing = null;
+        state.pendingReferenceChange = null;
+        state.hasUnsavedChanges = true;
+      });
+      syncRestoredWorkbook(get());
+      get().recalculateWorkbook();
+      get()._triggerAutoSave();
+      get()._advanceMergeBase(merge);
+    },
+
+    /**
+     * The merged-in version becomes the base of the next merge
+     * (다음 병합에서 이미 합친 변경이 다시 충돌로 나오지 않는다)
+     */
+    _advanceMergeBase: async (merge) => {
+      const state = get();
+      const branchId =
+        merge.theirs.branch?.parentId === state.spreadsheetId
+          ? merge.sourceId
+          : state.spreadsheetId;
+      const base: Snapshot = {
+        id: `snapshot-${Date.now()}`,
+        spreadsheetId: branchId,
+        name: `Merged: ${merge.sourceName} → ${state.spreadsheetName}`,
+        createdAt: new Date(),
+        data: merge.theirs,
+      };
+
+      try {
+        await dbService.saveSnapshot(base);
+        if (branchId === state.spreadsheetId && state.branch) {
+          set((state) => {
+            if (state.branch) state.branch.baseSnapshotId = base.id;
+          });
+        } else if (merge.theirs.branch) {
+          await dbService.save({
+            ...merge.theirs,
+            branch: { ...merge.theirs.branch, baseSnapshotId: base.id },
+          });
+        }
+      } catch (error) {
+        console.error('Failed to record merge base:', error);
+      }
+    },
+
     _triggerAutoSave: () => {
       const state = get();
       set({ saving: true });
       debouncedAutoSave(state);
     },
 
-    _recalculateDependents: (sheetId, cellId) => {
+    recalculateWorkbook: async () => {
       const state = get();
-      const sheet = state.sheets.find((s) => s.id === sheetId);
-      if (!sheet) return;
+      if (!recalculationClient.isAvailable()) {
+        set((state) => {
+          recalculateWorkbook(state.sheets);
+        });
+        return;
+      }
 
-      // Get all cells that depend on this cell
-      const dependents = formulaEvaluator.getDependents(cellId);
+      // The worker builds its own graph; this thread's graph must match the new workbook too
+      prepareWorkbook(state.sheets);
+      set({ recalculating: true });
+      try {
+        const completed = await recalculationClient.recalculate(
+          {
+            sheets: state.sheets,
+            names: state.names,
+            randomSeed: state.randomSeed,
+            iterativeCalculation: state.iterativeCalculation,
+            sources: null,
+          },
+          (updates) =>
+            set((state) => {
+              updates.forEach((update) =>
+                applyCellUpdate(state.sheets, update)
+              );
+            })
+        );
+        if (completed) set({ recalculating: false });
+      } catch (error) {
+        console.error('Failed to recalculate workbook:', error);
+        if (error instanceof RecalculationWorkerError) {
+          set((state) => recalculateAfterWorkerFailure(state, error));
+        }
+        set({ recalculating: false });
+      }
+    },
 
-      // Recalculate each dependent cell
-      dependents.forEach((dependentCellId) => {
-        // Parse cellId to get row and column
-        const [rowId, columnId] = dependentCellId.split(':');
-        const row = sheet.rows.find((r) => r.id === rowId);
-        if (!row || !row.cells[columnId]) return;
+    _writeCells: (sheetId, cells) => {
+      if (cells.length === 0) return;
 
-        const cell = row.cells[columnId];
-        if (!cell.formula) return;
+      const spillChanged: string[] = [];
+      set((state) => {
+        const sheet = state.sheets.find((s) => s.id === sheetId);
+        if (!sheet) return;
 
-        try {
-          // Re-evaluate the formula
-          const result = formulaEvaluator.evaluate(
-            dependentCellId,
-            cell.formula,
-            sheet
+        const rows = new Map(sheet.rows.map((row) => [row.id, row]));
+        cells.forEach((written) => {
+          const row = rows.get(written.rowId);
+          if (!row?.cells[written.columnId]) return;
+
+          // A copy (held cells are frozen in pendingReferenceChange) that
+          // takes the cell over from any array formula spilling into it
+          const cell = { ...written, spilledFrom: undefined };
+          row.cells[written.columnId] = cell;
+          spillChanged.push(
+            ...(cell.formula
+              ? evaluateCellFormula(cell, sheet, state.sheets)
+              : clearSpill(cell, sheet))
           );
+        });
 
-          set((state) => {
-            const sheet = state.sheets.find((s) => s.id === sheetId);
-            if (!sheet) return;
-
-            const row = sheet.rows.find((r) => r.id === rowId);
-            if (!row || !row.cells[columnId]) return;
-
-            row.cells[columnId].value = result;
-
-            // Update cell type based on result
-            if (typeof result === 'number') {
-              row.cells[columnId].type = 'number';
-            } else if (typeof result === 'boolean') {
-              row.cells[columnId].type = 'boolean';
-            } else if (result instanceof Date) {
-              row.cells[columnId].type = 'date';
-            } else {
-              row.cells[columnId].type = 'text';
-            }
-          });
+        sheet.updatedAt = new Date();
+        state.hasUnsavedChanges = true;
+      });
 
-          // Update cache
-          formulaCache.set(dependentCellId, result);
+      // Dependents (including other sheets) see the new values
+      get()._recalculateCells(
+        [
+          ...prepareWrittenCells(sheetId, cells),
+          ...spillChanged.map((cellId) => generateSheetCellId(sheetId, cellId)),
+        ],
+        { includeSources: true }
+      );
+    },
 
-          // Recursively recalculate cells that depend on this dependent cell
-          get()._recalculateDependents(sheetId, dependentCellId);
-        } catch (error) {
-          // If recalculation fails, show error
-          set((state) => {
-            const sheet = state.sheets.find((s) => s.id === sheetId);
-            if (!sheet) return;
+    recalculateVolatile: () => {
+      // TODAY/NOW cells (and their dependents) are refreshed even without edits
+      get()._recalculateCells(formulaEvaluator.getGraph().getVolatileCells());
+    },
+
+    _recalculateDependents: (sheetId, cellId) => {
+      get()._recalculateCells([generateSheetCellId(sheetId, cellId)]);
+    },
 
-            const row = sheet.rows.find((r) => r.id === rowId);
-            if (!row || !row.cells[columnId]) return;
+    _recalculateCells: (sources, options = {}) => {
+      if (sources.length === 0) return;
 
-            row.cells[columnId].value =
-              `#ERROR: ${error instanceof Error ? error.message : 'Unknown error'}`;
-            row.cells[columnId].type = 'text';
-          });
-        }
+      // Large recalculations (and anything queued behind one) run in the worker
+      const dirtyCount =
+        formulaEvaluator.getGraph().collectDirty(sources).size +
+        (options.includeSources ? sources.length : 0);
+      const useWorker =
+        recalculationClient.isAvailable() &&
+        (recalculationClient.isBusy() || dirtyCount > WORKER_RECALC_THRESHOLD);
+
+      if (!useWorker) {
+        if (dirtyCount === 0) return;
+        set((state) => {
+          recalculateCells(state.sheets, sources, options);
+        });
+        return;
+      }
+
+      const state = get();
+      set({ recalculating: true });
+      recalculationClient
+        .recalculate(
+          {
+            sheets: state.sheets,
+            names: state.names,
+            randomSeed: state.randomSeed,
+            iterativeCalculation: state.iterativeCalculation,
+            sources,
+            includeSources: options.includeSources,
+          },
+          (updates) =>
+            set((state) => {
+              updates.forEach((update) =>
+                applyCellUpdate(state.sheets, update)
+              );
+            })
+        )
+        .then((completed) => {
+          if (completed) set({ recalculating: false });
+        })
+        .catch((error) => {
+          console.error('Failed to recalculate formulas:', error);
+          if (error instanceof RecalculationWorkerError) {
+            set((state) => recalculateAfterWorkerFailure(state, error));
+          }
+          set({ recalculating: false });
+        });
+    },
+
+    _recalculateNameUsages: (name) => {
+      // Names whose definitions use this name are affected as well
+      const state = get();
+      const affectedNames = new Set<string>([name.toLowerCase()]);
+      const queue = [name];
+      for (let i = 0; i < queue.length; i++) {
+        findNameUsages([], state.names, queue[i]).forEach((usage) => {
+          if (
+            usage.type === 'name' &&
+            !affectedNames.has(usage.name.toLowerCase())
+          ) {
+            affectedNames.add(usage.name.toLowerCase());
+            queue.push(usage.name);
+          }
+        });
+      }
+
+      const usages = Array.from(affectedNames).flatMap((n) =>
+        findNameUsages(state.sheets, [], n)
+      );
+      if (usages.length === 0) return;
+
+      const sheetCellIds = usages.flatMap((usage) => {
+        if (usage.type !== 'cell') return [];
+        const sheet = state.sheets.find((s) => s.id === usage.sheetId);
+        const column = sheet?.columns[usage.columnIndex];
+        const row = sheet?.rows[usage.rowIndex];
+        if (!sheet || !column || !row) return [];
+        return [
+          generateSheetCellId(sheet.id, generateCellId(row.id, column.id)),
+        ];
       });
+
+      get()._recalculateCells(sheetCellIds, { includeSources: true });
     },
   }))
 );
@@ -12,8 +12,10 @@ export type {
   BorderStyle,
   Row,
   Column,
+  ColumnReference,
   Sheet,
   Spreadsheet,
+  SpreadsheetBranch,
   SelectionRange,
   MultiSelection,
   HistoryEntry,
@@ -23,7 +25,12 @@ export type {
   ConditionalFormat,
   SpreadsheetMetadata,
   AutoSaveBackup,
+  Snapshot,
+  SnapshotMetadata,
   MergedCell,
+  NamedRange,
+  SpillRange,
+  IterativeCalculation,
 } from './spreadsheet';
 
 // Game data types
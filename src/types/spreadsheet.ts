@@ -3,6 +3,8 @@
  * 스프레드시트의 핵심 타입 정의
  */
 
+import type { Patch } from 'immer';
+
 // Cell Value Types
 export type CellValue = string | number | boolean | Date | null;
 
@@ -13,7 +15,8 @@ export type CellType =
   | 'date'
   | 'formula'
   | 'select'
-  | 'multiselect';
+  | 'multiselect'
+  | 'reference';
 
 // Border Style
 export interface BorderStyle {
@@ -98,6 +101,14 @@ export interface Cell {
   validation?: ValidationRule;
   error?: string;
   metadata?: Record<string, unknown>;
+  spill?: SpillRange; // 배열 수식의 앵커 셀: 펼친(또는 펼치려던) 영역 크기
+  spilledFrom?: string; // 배열 수식 결과가 펼쳐진 셀: 앵커 셀 ID (rowId:columnId)
+}
+
+// Spill Range (dynamic array result anchored at a formula cell)
+export interface SpillRange {
+  rows: number;
+  columns: number;
 }
 
 // Column
@@ -111,6 +122,14 @@ export interface Column {
   index: number;
   validation?: ValidationRule;
   options?: string[]; // For select/multiselect types
+  reference?: ColumnReference; // For reference type
+}
+
+// Column Reference (다른 시트의 키 열을 가리키는 외래 키)
+export interface ColumnReference {
+  sheetId: string;
+  keyColumnId: string; // 참조 대상 시트의 ID 열
+  displayColumnId?: string; // 셀 옆에 함께 표시할 열 (예: Name)
 }
 
 // Row
@@ -149,17 +168,44 @@ export interface Sheet {
   updatedAt: Date;
 }
 
+// Named Range / Constant (워크북 수준 이름 정의)
+export interface NamedRange {
+  id: string;
+  name: string; // CRIT_MULTIPLIER, DropRates
+  definition: string; // 1.5, 'Drop Table'!F2:F200
+  comment?: string;
+}
+
+// Iterative Calculation (의도적인 순환 참조를 반복 계산으로 수렴시키는 워크북 설정)
+export interface IterativeCalculation {
+  enabled: boolean;
+  maxIterations: number; // 최대 반복 횟수
+  tolerance: number; // 반복 사이 값 변화가 이보다 작으면 수렴
+}
+
 // Spreadsheet
 export interface Spreadsheet {
   id: string;
   name: string;
   sheets: Sheet[];
   activeSheetId: string;
+  names?: NamedRange[];
+  randomSeed?: number; // RAND 등 난수 함수의 워크북 시드
+  iterativeCalculation?: IterativeCalculation;
+  branch?: SpreadsheetBranch; // 다른 스프레드시트에서 분기한 사본
   metadata?: Record<string, unknown>;
   createdAt: Date;
   updatedAt: Date;
 }
 
+// Spreadsheet Branch (병합 기준은 분기 시점의 스냅샷)
+export interface SpreadsheetBranch {
+  parentId: string;
+  parentName: string;
+  baseSnapshotId: string;
+  createdAt: Date;
+}
+
 // Selection Range
 export interface SelectionRange {
   startRow: number;
@@ -174,15 +220,13 @@ export interface MultiSelection {
   primary?: SelectionRange; // 주 선택 영역 (포커스된 영역)
 }
 
-// History Entry (for undo/redo)
+// History Entry (for undo/redo) - 액션/트랜잭션 하나의 immer 패치
 export interface HistoryEntry {
   id: string;
   timestamp: Date;
-  type: 'cell' | 'row' | 'column' | 'sheet';
-  action: 'add' | 'update' | 'delete';
-  before?: unknown;
-  after?: unknown;
-  sheetId: string;
+  label: string; // 기록한 액션 이름 (예: 'sortSheet', 'pasteFromClipboard')
+  patches: Patch[]; // redo
+  inversePatches: Patch[]; // undo
 }
 
 // Sort Configuration
@@ -208,6 +252,7 @@ export interface FilterConfig {
 export interface SpreadsheetMetadata {
   id: string;
   name: string;
+  branch?: SpreadsheetBranch;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -217,3 +262,16 @@ export interface AutoSaveBackup {
   data: Spreadsheet;
   timestamp: Date;
 }
+
+// Named Snapshot (version history) - 이름을 붙여 보관하는 워크북 버전
+export interface SnapshotMetadata {
+  id: string;
+  spreadsheetId: string;
+  name: string; // 예: "pre-patch 1.4 balance"
+  description?: string;
+  createdAt: Date;
+}
+
+export interface Snapshot extends SnapshotMetadata {
+  data: Spreadsheet;
+}
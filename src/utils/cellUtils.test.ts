@@ -5,6 +5,7 @@
 import { describe, it, expect } from 'vitest';
 import {
   generateCellId,
+  parseCellId,
   parseCellValue,
   formatCellValue,
   getCellType,
@@ -19,6 +20,19 @@ describe('cellUtils', () => {
     });
   });
 
+  describe('parseCellId', () => {
+    it('should split cell ID into row and column IDs', () => {
+      expect(parseCellId('row-0:col-A')).toEqual({
+        rowId: 'row-0',
+        columnId: 'col-A',
+      });
+      expect(parseCellId(generateCellId('row-1', 'attack'))).toEqual({
+        rowId: 'row-1',
+        columnId: 'attack',
+      });
+    });
+  });
+
   describe('parseCellValue', () => {
     it('should parse empty values as null', () => {
       expect(parseCellValue('')).toBeNull();
@@ -12,6 +12,42 @@ export const generateCellId = (rowId: string, columnId: string): string => {
   return `${rowId}:${columnId}`;
 };
 
+/**
+ * 셀 ID 파싱 (generateCellId의 역변환)
+ */
+export const parseCellId = (
+  cellId: string
+): { rowId: string; columnId: string } => {
+  const separatorIndex = cellId.indexOf(':');
+  return {
+    rowId: cellId.substring(0, separatorIndex),
+    columnId: cellId.substring(separatorIndex + 1),
+  };
+};
+
+/**
+ * 시트 ID를 포함한 셀 ID 생성 (시트 간 의존성 추적용)
+ */
+export const generateSheetCellId = (
+  sheetId: string,
+  cellId: string
+): string => {
+  return `${sheetId}!${cellId}`;
+};
+
+/**
+ * 시트 ID를 포함한 셀 ID 파싱
+ */
+export const parseSheetCellId = (
+  sheetCellId: string
+): { sheetId: string; cellId: string } => {
+  const separatorIndex = sheetCellId.indexOf('!');
+  return {
+    sheetId: sheetCellId.substring(0, separatorIndex),
+    cellId: sheetCellId.substring(separatorIndex + 1),
+  };
+};
+
 /**
  * 문자열을 적절한 타입으로 파싱
  */
@@ -119,6 +155,9 @@ export const isValidCellValue = (value: CellValue, type: CellType): boolean => {
     case 'select':
     case 'multiselect':
       return typeof value === 'string';
+    case 'reference':
+      // 참조 대상 ID는 숫자일 수도 있다
+      return typeof value === 'string' || typeof value === 'number';
     default:
       return true;
   }
@@ -415,6 +415,43 @@ describe('clipboardUtils', () => {
 
       expect(copy.formula).toBe('=SUM(A1:A10)');
     });
+
+    it('should shift relative references by the paste offset', () => {
+      const originalCell: Cell = {
+        id: 'row-0:col-0',
+        rowId: 'row-0',
+        columnId: 'col-0',
+        value: 110,
+        type: 'formula',
+        formula: '=B2*1.1+$B$2+B$2+$B2',
+      };
+
+      const copy = createCellCopy(originalCell, 'row-1', 'col-1', {
+        rows: 1,
+        columns: 1,
+      });
+
+      expect(copy.formula).toBe('=C3*1.1+$B$2+C$2+$B3');
+      expect(originalCell.formula).toBe('=B2*1.1+$B$2+B$2+$B2');
+    });
+
+    it('should keep the formula unchanged for a zero offset', () => {
+      const originalCell: Cell = {
+        id: 'row-0:col-0',
+        rowId: 'row-0',
+        columnId: 'col-0',
+        value: 100,
+        type: 'formula',
+        formula: '=SUM(A1:A10)',
+      };
+
+      const copy = createCellCopy(originalCell, 'row-1', 'col-1', {
+        rows: 0,
+        columns: 0,
+      });
+
+      expect(copy.formula).toBe('=SUM(A1:A10)');
+    });
   });
 
   describe('isClipboardAPIAvailable', () => {
@@ -4,6 +4,7 @@
  */
 
 import type { Cell, CellValue, CellStyle } from '@types';
+import { shiftFormulaReferences } from '@services/formula/formulaParser';
 
 /**
  * Clipboard data structure
@@ -11,6 +12,7 @@ import type { Cell, CellValue, CellStyle } from '@types';
 export interface ClipboardData {
   cells: Cell[][]; // 2D array of cells [row][column]
   isCut: boolean; // Track if it was a cut operation
+  origin?: { rowIndex: number; columnIndex: number }; // Top-left of the copied selection
 }
 
 /**
@@ -228,19 +230,26 @@ export const copyCellStyle = (style?: CellStyle): CellStyle | undefined => {
 
 /**
  * Create a cell copy (deep copy)
+ * offset이 주어지면 수식의 상대 참조를 이동 거리만큼 조정한다
  */
 export const createCellCopy = (
   cell: Cell,
   newRowId: string,
-  newColumnId: string
+  newColumnId: string,
+  offset?: { rows: number; columns: number }
 ): Cell => {
+  const formula =
+    cell.formula && offset
+      ? shiftFormulaReferences(cell.formula, offset.rows, offset.columns)
+      : cell.formula;
+
   return {
     id: `${newRowId}:${newColumnId}`,
     rowId: newRowId,
     columnId: newColumnId,
     value: cell.value,
     type: cell.type,
-    formula: cell.formula,
+    formula,
     style: copyCellStyle(cell.style),
     validation: cell.validation ? { ...cell.validation } : undefined,
     error: cell.error,
@@ -0,0 +1,82 @@
+/**
+ * Combat Matrix Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createMockSheet } from '@test/utils/mockData';
+import { recalculateWorkbook } from '@services/formula/recalculation';
+import { createTtkMatrixSheet, validateTtkMatrixSources } from './combatMatrix';
+
+describe('combatMatrix', () => {
+  const characters = () =>
+    createMockSheet({
+      name: 'Character Data',
+      columns: ['Name', 'Attack', 'Attack Speed'],
+      rows: [
+        { Name: 'Knight', Attack: 100, 'Attack Speed': 1 },
+        { Name: 'Rogue', Attack: 50, 'Attack Speed': 4 },
+        {},
+      ],
+    });
+  const enemies = () => {
+    const sheet = createMockSheet({
+      name: 'Enemy Data',
+      columns: ['Name', 'HP', 'Defense'],
+      rows: [
+        { Name: 'Goblin', HP: 300, Defense: 0 },
+        { Name: 'Golem', HP: 2000, Defense: 100 },
+      ],
+    });
+    sheet.id = 'enemy-sheet';
+    return sheet;
+  };
+
+  it('should fill a character × enemy grid with TTK formulas', () => {
+    const characterSheet = characters();
+    const enemySheet = enemies();
+    const matrix = createTtkMatrixSheet(characterSheet, enemySheet, {
+      id: 'matrix',
+    });
+
+    expect(matrix.name).toBe('TTK Character Data vs Enemy Data');
+    expect(matrix.columns.map((c) => c.name)).toEqual([
+      'Character',
+      'Goblin',
+      'Golem',
+    ]);
+    // Rows without a name are skipped
+    expect(matrix.rows).toHaveLength(2);
+    expect(matrix.rows[0].cells['enemy-1'].formula).toBe(
+      "=TTK('Enemy Data'!B2, 'Character Data'!B1, 'Enemy Data'!C2, 'Character Data'!C1)"
+    );
+    expect(matrix.conditionalFormats).toHaveLength(3);
+
+    recalculateWorkbook([characterSheet, enemySheet, matrix]);
+    const ttk = (row: number, enemy: number) =>
+      matrix.rows[row].cells[`enemy-${enemy}`].value;
+    expect(ttk(0, 0)).toBe(3);
+    expect(ttk(0, 1)).toBe(40);
+    expect(ttk(1, 0)).toBe(1.5);
+    expect(ttk(1, 1)).toBe(20);
+  });
+
+  it('should require names and the stats used by TTK', () => {
+    const enemySheet = enemies();
+    const noAttack = createMockSheet({
+      name: 'Heroes',
+      columns: ['Name'],
+      rows: [{ Name: 'Knight' }],
+    });
+
+    expect(validateTtkMatrixSources(characters(), enemySheet)).toBeNull();
+    expect(validateTtkMatrixSources(noAttack, enemySheet)).toBe(
+      "'Heroes' needs attack column(s)"
+    );
+    expect(
+      validateTtkMatrixSources(
+        createMockSheet({ name: 'Empty', columns: ['Name', 'Attack'] }),
+        enemySheet
+      )
+    ).toBe("'Empty' has no named rows");
+  });
+});
@@ -0,0 +1,230 @@
+/**
+ * Combat Matrix
+ * 캐릭터 × 적 TTK(처치 시간) 매트릭스 시트 생성
+ * Character/Enemy 템플릿 시트의 스탯 셀을 참조하는 TTK 수식으로 채워
+ * 원본 스탯을 고치면 매트릭스도 다시 계산된다
+ */
+
+import type { Cell, Column, ConditionalFormat, Row, Sheet } from '@types';
+import { formatSheetReference } from '@services/formula/formulaParser';
+import { generateCellId } from './cellUtils';
+import { getCellReference } from './gridUtils';
+
+/**
+ * 매트릭스가 읽는 스탯 (열 ID나 이름으로 찾는다)
+ */
+type CombatStat =
+  | 'name'
+  | 'hp'
+  | 'attack'
+  | 'defense'
+  | 'attackSpeed'
+  | 'critChance'
+  | 'critMultiplier';
+
+/**
+ * 스탯별로 인식하는 열 이름 (소문자, 공백/기호 제거 후 비교)
+ */
+const STAT_COLUMN_NAMES: Record<CombatStat, string[]> = {
+  name: ['name'],
+  hp: ['hp', 'health'],
+  attack: ['attack', 'atk'],
+  defense: ['defense', 'def'],
+  attackSpeed: ['attackspeed', 'aspd'],
+  critChance: ['critchance', 'critrate'],
+  critMultiplier: ['critmultiplier', 'critdamage'],
+};
+
+/**
+ * 생략한 스탯 대신 넣을 TTK 인수 기본값
+ */
+const STAT_DEFAULTS: Partial<Record<CombatStat, string>> = {
+  defense: '0',
+  attackSpeed: '1',
+  critChance: '0',
+  critMultiplier: '1.5',
+};
+
+/**
+ * TTK 조건부 서식 기준 (초)
+ * fast 미만은 초록, slow 초과는 빨강, 그 사이는 노랑
+ */
+export interface TtkMatrixOptions {
+  id?: string;
+  name?: string;
+  fast?: number;
+  slow?: number;
+}
+
+const normalize = (text: string) =>
+  text.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Find the column index of a stat by column id or name
+ * @returns 없으면 -1
+ */
+const findStatColumn = (sheet: Sheet, stat: CombatStat): number =>
+  sheet.columns.findIndex(
+    (column) =>
+      STAT_COLUMN_NAMES[stat].includes(normalize(column.id)) ||
+      STAT_COLUMN_NAMES[stat].includes(normalize(column.name))
+  );
+
+/**
+ * Rows with a name (템플릿의 빈 입력 행은 제외), with their indexes
+ */
+const namedRows = (sheet: Sheet): { row: Row; index: number }[] => {
+  const nameColumn = sheet.columns[findStatColumn(sheet, 'name')];
+  if (!nameColumn) return [];
+
+  return sheet.rows.flatMap((row, index) => {
+    const name = row.cells[nameColumn.id]?.value;
+    return name === null || name === undefined || name === ''
+      ? []
+      : [{ row, index }];
+  });
+};
+
+/**
+ * Check that the sheets have the stats the matrix needs
+ * @returns 오류 메시지 (사용할 수 있으면 null)
+ */
+export const validateTtkMatrixSources = (
+  characterSheet: Sheet,
+  enemySheet: Sheet
+): string | null => {
+  const required: [Sheet, CombatStat[]][] = [
+    [characterSheet, ['name', 'attack']],
+    [enemySheet, ['name', 'hp']],
+  ];
+  for (const [sheet, stats] of required) {
+    const missing = stats.filter((stat) => findStatColumn(sheet, stat) === -1);
+    if (missing.length > 0) {
+      return `'${sheet.name}' needs ${missing.join(', ')} column(s)`;
+    }
+    if (namedRows(sheet).length === 0) {
+      return `'${sheet.name}' has no named rows`;
+    }
+  }
+  return null;
+};
+
+/**
+ * Create a character (rows) × enemy (columns) TTK matrix sheet
+ * 각 셀: =TTK(적 HP, 캐릭터 공격력, 적 방어력, 캐릭터 공격 속도, 치명타 확률, 치명타 배율)
+ * 없는 스탯은 기본값으로 채우고 끝에 남는 기본값은 생략한다
+ */
+export const createTtkMatrixSheet = (
+  characterSheet: Sheet,
+  enemySheet: Sheet,
+  options: TtkMatrixOptions = {}
+): Sheet => {
+  const id = options.id ?? `sheet-${Date.now()}`;
+  const fast = options.fast ?? 5;
+  const slow = options.slow ?? 15;
+  const characters = namedRows(characterSheet);
+  const enemies = namedRows(enemySheet);
+
+  const statReference = (sheet: Sheet, rowIndex: number, stat: CombatStat) => {
+    const columnIndex = findStatColumn(sheet, stat);
+    return columnIndex === -1
+      ? (STAT_DEFAULTS[stat] ?? '')
+      : formatSheetReference(
+          sheet.name,
+          getCellReference(rowIndex, columnIndex)
+        );
+  };
+  const nameOf = (sheet: Sheet, row: Row) =>
+    String(row.cells[sheet.columns[findStatColumn(sheet, 'name')].id].value);
+
+  const columns: Column[] = [
+    { id: 'character', name: 'Character', type: 'text', width: 150, index: 0 },
+    ...enemies.map(({ row }, index) => ({
+      id: `enemy-${index}`,
+      name: nameOf(enemySheet, row),
+      type: 'number' as const,
+      width: 120,
+      index: index + 1,
+    })),
+  ];
+
+  const rows: Row[] = characters.map((character, rowIndex) => {
+    const rowId = `row-${rowIndex}`;
+    const cells: Record<string, Cell> = {
+      character: {
+        id: generateCellId(rowId, 'character'),
+        rowId,
+        columnId: 'character',
+        value: nameOf(characterSheet, character.row),
+        type: 'text',
+      },
+    };
+
+    enemies.forEach((enemy, index) => {
+      const args = [
+        statReference(enemySheet, enemy.index, 'hp'),
+        statReference(characterSheet, character.index, 'attack'),
+        statReference(enemySheet, enemy.index, 'defense'),
+        statReference(characterSheet, character.index, 'attackSpeed'),
+        statReference(characterSheet, character.index, 'critChance'),
+        statReference(characterSheet, character.index, 'critMultiplier'),
+      ];
+      const defaults = Object.values(STAT_DEFAULTS);
+      while (args.length > 2 && defaults.includes(args[args.length - 1])) {
+        args.pop();
+      }
+
+      const columnId = `enemy-${index}`;
+      cells[columnId] = {
+        id: generateCellId(rowId, columnId),
+        rowId,
+        columnId,
+        value: null,
+        type: 'number',
+        formula: `=TTK(${args.join(', ')})`,
+      };
+    });
+
+    return { id: rowId, index: rowIndex, cells };
+  });
+
+  const range = {
+    startRow: 0,
+    endRow: Math.max(rows.length - 1, 0),
+    startColumn: 1,
+    endColumn: Math.max(enemies.length, 1),
+  };
+  const conditionalFormats: ConditionalFormat[] = [
+    {
+      id: `${id}-ttk-fast`,
+      range,
+      condition: { type: 'value', operator: 'lessThan', value: fast },
+      style: { backgroundColor: '#c8e6c9' },
+      priority: 0,
+    },
+    {
+      id: `${id}-ttk-even`,
+      range,
+      condition: { type: 'value', operator: 'between', value: [fast, slow] },
+      style: { backgroundColor: '#fff9c4' },
+      priority: 1,
+    },
+    {
+      id: `${id}-ttk-slow`,
+      range,
+      condition: { type: 'value', operator: 'greaterThan', value: slow },
+      style: { backgroundColor: '#ffcdd2' },
+      priority: 2,
+    },
+  ];
+
+  return {
+    id,
+    name: options.name ?? `TTK ${characterSheet.name} vs ${enemySheet.name}`,
+    columns,
+    rows,
+    conditionalFormats,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+};
@@ -0,0 +1,343 @@
+/**
+ * Merge Utilities Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import type {
+  CellValue,
+  IterativeCalculation,
+  NamedRange,
+  Row,
+  Sheet,
+} from '@types';
+import { createMockSheet } from '@test/utils/mockData';
+import { findKeyColumnId, mergeWorkbooks, resolveMerge } from './mergeUtils';
+
+describe('mergeUtils', () => {
+  const items = (): Sheet => {
+    const sheet = createMockSheet({
+      name: 'Item',
+      columns: ['Name', 'ID', 'Attack'],
+      rows: [
+        { Name: 'Sword', ID: 'sword', Attack: 10 },
+        { Name: 'Axe', ID: 'axe', Attack: 14 },
+        { Name: 'Bow', ID: 'bow', Attack: 8 },
+      ],
+    });
+    sheet.id = 'items';
+    return sheet;
+  };
+
+  const findRow = (sheet: Sheet, id: string) =>
+    sheet.rows.find((row) => row.cells['col-ID'].value === id);
+
+  const attackOf = (sheet: Sheet, id: string) =>
+    findRow(sheet, id)?.cells['col-Attack'].value;
+
+  const setAttack = (sheet: Sheet, id: string, value: CellValue) => {
+    findRow(sheet, id)!.cells['col-Attack'].value = value;
+  };
+
+  const newRow = (rowId: string, id: string, attack: number): Row => ({
+    id: rowId,
+    index: 0,
+    cells: {
+      'col-ID': {
+        id: `${rowId}:col-ID`,
+        rowId,
+        columnId: 'col-ID',
+        value: id,
+        type: 'text',
+      },
+      'col-Attack': {
+        id: `${rowId}:col-Attack`,
+        rowId,
+        columnId: 'col-Attack',
+        value: attack,
+        type: 'number',
+      },
+    },
+  });
+
+  it('should pick the ID column as the key column', () => {
+    expect(findKeyColumnId(items())).toBe('col-ID');
+    expect(findKeyColumnId(createMockSheet({ columns: ['A', 'B'] }))).toBe(
+      'col-A'
+    );
+  });
+
+  it('should auto-merge cells changed on one side, matching rows by key', () => {
+    const base = items();
+    const ours = items();
+    const theirs = items();
+    setAttack(ours, 'sword', 12);
+    // Their copy is sorted differently; rows still match by ID
+    theirs.rows.reverse();
+    setAttack(theirs, 'bow', 9);
+
+    const result = mergeWorkbooks(
+      { sheets: [base] },
+      { sheets: [ours] },
+      { sheets: [theirs] }
+    );
+    const [merged] = result.sheets;
+
+    expect(result.conflicts).toEqual([]);
+    expect(result.stats.mergedCells).toBe(1);
+    expect(merged.rows.map((row) => row.cells['col-ID'].value)).toEqual([
+      'sword',
+      'axe',
+      'bow',
+    ]);
+    expect(attackOf(merged, 'sword')).toBe(12);
+    expect(attackOf(merged, 'bow')).toBe(9);
+  });
+
+  it('should report cells changed differently on both sides as conflicts', () => {
+    const base = items();
+    const ours = items();
+    const theirs = items();
+    setAttack(ours, 'axe', 15);
+    setAttack(theirs, 'axe', 16);
+    // The same change on both sides is not a conflict
+    setAttack(ours, 'bow', 11);
+    setAttack(theirs, 'bow', 11);
+
+    const result = mergeWorkbooks(
+      { sheets: [base] },
+      { sheets: [ours] },
+      { sheets: [theirs] }
+    );
+
+    expect(result.conflicts).toHaveLength(1);
+    expect(result.conflicts[0]).toMatchObject({
+      kind: 'cell',
+      rowKey: 'axe',
+      columnName: 'Attack',
+      base: { value: 14 },
+      ours: { value: 15 },
+      theirs: { value: 16 },
+    });
+    // Ours stays until the conflict is resolved
+    expect(attackOf(result.sheets[0], 'axe')).toBe(15);
+    expect(attackOf(result.sheets[0], 'bow')).toBe(11);
+
+    const conflictId = result.conflicts[0].id;
+    expect(
+      attackOf(
+        resolveMerge(result, { [conflictId]: 'theirs' }).sheets[0],
+        'axe'
+      )
+    ).toBe(16);
+    expect(
+      attackOf(resolveMerge(result, { [conflictId]: 'ours' }).sheets[0], 'axe')
+    ).toBe(15);
+  });
+
+  it('should merge rows added on either side by key, not by index', () => {
+    const base = items();
+    const ours = items();
+    const theirs = items();
+    ours.rows.splice(1, 0, newRow('row-ours', 'staff', 5));
+    theirs.rows.splice(1, 0, newRow('row-theirs', 'dagger', 6));
+    // Both added the same item: one row, their differing value conflicts
+    ours.rows.push(newRow('row-ours-2', 'spear', 11));
+    theirs.rows.push(newRow('row-theirs-2', 'spear', 12));
+
+    const result = mergeWorkbooks(
+      { sheets: [base] },
+      { sheets: [ours] },
+      { sheets: [theirs] }
+    );
+    const [merged] = result.sheets;
+
+    // Their row follows the row it follows in their copy
+    expect(merged.rows.map((row) => row.cells['col-ID'].value)).toEqual([
+      'sword',
+      'dagger',
+      'staff',
+      'axe',
+      'bow',
+      'spear',
+    ]);
+    expect(merged.rows.map((row) => row.index)).toEqual([0, 1, 2, 3, 4, 5]);
+    // Added rows get cells for every column
+    expect(findRow(merged, 'dagger')!.cells['col-Name']).toMatchObject({
+      id: 'row-theirs:col-Name',
+      value: null,
+    });
+    expect(result.stats.addedRows).toBe(1);
+    expect(result.conflicts.map((conflict) => conflict.rowKey)).toEqual([
+      'spear',
+    ]);
+  });
+
+  it('should follow a row deletion unless the other side edited the row', () => {
+    const base = items();
+    const ours = items();
+    const theirs = items();
+    theirs.rows = theirs.rows.filter(
+      (row) => row.cells['col-ID'].value !== 'sword'
+    );
+    // They removed axe, we rebalanced it
+    theirs.rows = theirs.rows.filter(
+      (row) => row.cells['col-ID'].value !== 'axe'
+    );
+    setAttack(ours, 'axe', 20);
+    // We removed bow, they rebalanced it
+    ours.rows = ours.rows.filter((row) => row.cells['col-ID'].value !== 'bow');
+    setAttack(theirs, 'bow', 7);
+
+    const result = mergeWorkbooks(
+      { sheets: [base] },
+      { sheets: [ours] },
+      { sheets: [theirs] }
+    );
+    const [merged] = result.sheets;
+
+    expect(result.stats.removedRows).toBe(1);
+    expect(merged.rows.map((row) => row.cells['col-ID'].value)).toEqual([
+      'axe',
+    ]);
+    expect(
+      result.conflicts.map((conflict) =>
+        conflict.kind === 'row' ? [conflict.rowKey, conflict.deletedIn] : []
+      )
+    ).toEqual([
+      ['axe', 'theirs'],
+      ['bow', 'ours'],
+    ]);
+
+    const choices = Object.fromEntries(
+      result.conflicts.map((conflict) => [conflict.id, 'theirs' as const])
+    );
+    const [resolved] = resolveMerge(result, choices).sheets;
+    expect(resolved.rows.map((row) => row.cells['col-ID'].value)).toEqual([
+      'bow',
+    ]);
+    expect(attackOf(resolved, 'bow')).toBe(7);
+  });
+
+  it('should merge columns and sheets added or removed on one side', () => {
+    const base = items();
+    const ours = items();
+    const theirs = items();
+    theirs.columns.push({
+      id: 'col-Rarity',
+      name: 'Rarity',
+      type: 'text',
+      index: 3,
+    });
+    theirs.rows[0].cells['col-Rarity'] = {
+      id: 'row-0:col-Rarity',
+      rowId: 'row-0',
+      columnId: 'col-Rarity',
+      value: 'rare',
+      type: 'text',
+    };
+    ours.columns = ours.columns.filter((c) => c.id !== 'col-Name');
+
+    const enemies = createMockSheet({ name: 'Enemy', rows: [{ A: 'slime' }] });
+    enemies.id = 'enemies';
+    const skills = createMockSheet({ name: 'Skill', rows: [{ A: 'fire' }] });
+    skills.id = 'skills';
+
+    const result = mergeWorkbooks(
+      { sheets: [base, enemies] },
+      { sheets: [ours, structuredClone(enemies)] },
+      { sheets: [theirs, skills] }
+    );
+
+    expect(result.sheets.map((sheet) => sheet.name)).toEqual(['Item', 'Skill']);
+    expect(result.stats).toMatchObject({ addedSheets: 1, removedSheets: 1 });
+    const [merged] = result.sheets;
+    expect(merged.columns.map((c) => [c.name, c.index])).toEqual([
+      ['ID', 0],
+      ['Attack', 1],
+      ['Rarity', 2],
+    ]);
+    expect(findRow(merged, 'sword')!.cells['col-Rarity'].value).toBe('rare');
+  });
+
+  it('should merge name definitions and calculation settings three-way', () => {
+    const named = (
+      id: string,
+      name: string,
+      definition: string
+    ): NamedRange => ({
+      id,
+      name,
+      definition,
+    });
+    const iterative: IterativeCalculation = {
+      enabled: false,
+      maxIterations: 100,
+      tolerance: 0.001,
+    };
+    const base = {
+      sheets: [],
+      names: [
+        named('n1', 'CRIT', '1.5'),
+        named('n2', 'DROP', '0.1'),
+        named('n3', 'GOLD', '100'),
+      ],
+      randomSeed: 1,
+      iterativeCalculation: iterative,
+    };
+    const ours = {
+      ...base,
+      names: [
+        named('n1', 'CRIT', '1.5'),
+        named('n2', 'DROP', '0.2'),
+        named('n3', 'GOLD', '150'),
+        named('n4', 'XP', '10'),
+      ],
+    };
+    const theirs = {
+      sheets: [],
+      names: [
+        named('n1', 'CRIT', '2'),
+        named('n2', 'DROP', '0.3'),
+        named('n5', 'HP', '500'),
+      ],
+      randomSeed: 42,
+      iterativeCalculation: { ...iterative, enabled: true },
+    };
+
+    const result = mergeWorkbooks(base, ours, theirs);
+    expect(result.names.map((n) => [n.name, n.definition])).toEqual([
+      ['CRIT', '2'],
+      ['DROP', '0.2'],
+      ['GOLD', '150'],
+      ['XP', '10'],
+      ['HP', '500'],
+    ]);
+    expect(result.stats.mergedNames).toBe(2);
+    expect(result.randomSeed).toBe(42);
+    expect(result.iterativeCalculation?.enabled).toBe(true);
+
+    // Edited on both sides, and edited on ours but deleted on theirs
+    expect(
+      result.conflicts.map((conflict) =>
+        conflict.kind === 'name'
+          ? [conflict.name, conflict.ours?.definition, conflict.theirs]
+          : []
+      )
+    ).toEqual([
+      ['DROP', '0.2', named('n2', 'DROP', '0.3')],
+      ['GOLD', '150', null],
+    ]);
+
+    const choices = Object.fromEntries(
+      result.conflicts.map((conflict) => [conflict.id, 'theirs' as const])
+    );
+    const resolved = resolveMerge(result, choices);
+    expect(resolved.names.map((n) => [n.id, n.definition])).toEqual([
+      ['n1', '2'],
+      ['n2', '0.3'],
+      ['n4', '10'],
+      ['n5', '500'],
+    ]);
+    expect(resolved.randomSeed).toBe(42);
+  });
+});
@@ -0,0 +1,656 @@
+/**
+ * Merge Utilities
+ * 브랜치(작업본 사본)와 원본의 3-way 병합
+ * 행은 인덱스가 아니라 키 열 값(ID)으로 맞춰 보므로 정렬, 행 추가로 위치가 달라도 된다
+ * 한쪽만 바꾼 셀은 자동으로 합치고, 양쪽이 다르게 바꾼 셀은 충돌로 돌려준다
+ * 이름 정의와 워크북 계산 설정(난수 시드, 반복 계산)도 같은 기준으로 합친다
+ */
+
+import { isEqual } from 'lodash';
+import type {
+  Cell,
+  Column,
+  NamedRange,
+  Row,
+  Sheet,
+  Spreadsheet,
+  SpreadsheetMetadata,
+} from '@types';
+import { generateCellId } from './cellUtils';
+import { toReferenceKey } from './referenceUtils';
+import {
+  diffSheets,
+  isSameCellValue,
+  toCellContent,
+  type CellContent,
+} from './versionUtils';
+
+// 키 열로 먼저 찾는 열 이름
+const KEY_COLUMN_NAMES = ['id', 'key'];
+
+/**
+ * 양쪽에서 다르게 바뀐 셀 (병합 결과에는 우선 내 값이 들어 있다)
+ */
+export interface CellConflict {
+  kind: 'cell';
+  id: string;
+  sheetId: string;
+  sheetName: string;
+  rowKey: string; // 키 값 (키가 없으면 행 번호)
+  rowId: string; // 병합 결과에서의 행 ID
+  columnId: string;
+  columnName: string;
+  base: CellContent | null;
+  ours: CellContent | null;
+  theirs: CellContent | null;
+  theirsCell: Cell | null;
+}
+
+/**
+ * 한쪽은 행을 지우고 다른 쪽은 그 행을 고친 경우
+ * - deletedIn 'theirs': 결과에 내 행이 남아 있고, 상대 값을 고르면 지운다
+ * - deletedIn 'ours': 결과에 행이 없고, 상대 값을 고르면 insertIndex에 다시 넣는다
+ */
+export interface RowConflict {
+  kind: 'row';
+  id: string;
+  sheetId: string;
+  sheetName: string;
+  rowKey: string;
+  rowId: string;
+  deletedIn: 'ours' | 'theirs';
+  theirsRow: Row | null;
+  insertIndex: number;
+}
+
+/**
+ * 양쪽에서 다르게 바뀐 이름 정의 (지운 쪽은 null, 결과에는 우선 내 정의)
+ */
+export interface NameConflict {
+  kind: 'name';
+  id: string;
+  name: string;
+  base: NamedRange | null;
+  ours: NamedRange | null;
+  theirs: NamedRange | null;
+}
+
+export type MergeConflict = CellConflict | RowConflict | NameConflict;
+
+export type ConflictChoice = 'ours' | 'theirs';
+
+export interface MergeStats {
+  mergedCells: number; // 상대 쪽에서 가져온 셀
+  addedRows: number;
+  removedRows: number;
+  addedSheets: number;
+  removedSheets: number;
+  mergedNames: number; // 상대 쪽에서 가져온 이름 정의 (추가/수정/삭제)
+}
+
+/**
+ * 병합하는 워크북 내용 (시트, 이름 정의, 워크북 계산 설정)
+ */
+export type MergeWorkbook = Pick<
+  Spreadsheet,
+  'sheets' | 'names' | 'randomSeed' | 'iterativeCalculation'
+>;
+
+export interface MergeResult extends MergeWorkbook {
+  names: NamedRange[];
+  conflicts: MergeConflict[];
+  stats: MergeStats;
+}
+
+/**
+ * Check a branch name (빈 이름, 같은 원본에서 만든 브랜치와 중복된 이름 거부)
+ * @returns 오류 메시지 (사용할 수 있으면 null)
+ */
+export const validateBranchName = (
+  branches: SpreadsheetMetadata[],
+  name: string
+): string | null => {
+  const trimmed = name.trim();
+  if (!trimmed) return 'Branch name is required';
+  if (branches.some((b) => b.name.toLowerCase() === trimmed.toLowerCase())) {
+    return `A branch named "${trimmed}" already exists`;
+  }
+  return null;
+};
+
+/**
+ * 행을 맞춰 보는 키 열 ('ID'/'Key' 이름의 열, 없으면 첫 열)
+ */
+export const findKeyColumnId = (sheet: Sheet): string | undefined =>
+  (
+    sheet.columns.find((c) =>
+      KEY_COLUMN_NAMES.includes(c.name.trim().toLowerCase())
+    ) ?? sheet.columns[0]
+  )?.id;
+
+/**
+ * Row identities of one version (키 값, 비었거나 중복된 키는 행 ID)
+ */
+const indexRows = (sheet: Sheet | undefined): Map<string, Row> => {
+  const rows = new Map<string, Row>();
+  if (!sheet) return rows;
+
+  const keyColumnId = findKeyColumnId(sheet);
+  const keyOf = (row: Row) => {
+    const value = keyColumnId ? row.cells[keyColumnId]?.value : null;
+    return value === null || value === undefined || value === ''
+      ? null
+      : toReferenceKey(value);
+  };
+  const counts = new Map<string, number>();
+  sheet.rows.forEach((row) => {
+    const key = keyOf(row);
+    if (key !== null) counts.set(key, (counts.get(key) ?? 0) + 1);
+  });
+
+  sheet.rows.forEach((row) => {
+    const key = keyOf(row);
+    rows.set(
+      key !== null && counts.get(key) === 1 ? `key:${key}` : `row:${row.id}`,
+      row
+    );
+  });
+  return rows;
+};
+
+const describeRow = (identity: string, row: Row) =>
+  identity.startsWith('key:') ? identity.slice(4) : `${row.index + 1}행`;
+
+// Spilled values are recalculated from their formula, so they count as empty
+const contentOf = (cell: Cell | undefined): CellContent | null =>
+  cell?.spilledFrom ? null : toCellContent(cell);
+
+const isSameContent = (a: CellContent | null, b: CellContent | null) =>
+  a === null || b === null
+    ? a === b
+    : (a.formula ?? '') === (b.formula ?? '') &&
+      (a.formula !== undefined || isSameCellValue(a.value, b.value));
+
+const isRowChanged = (base: Row, row: Row, columnIds: string[]) =>
+  columnIds.some(
+    (columnId) =>
+      !isSameContent(
+        contentOf(base.cells[columnId]),
+        contentOf(row.cells[columnId])
+      )
+  );
+
+/**
+ * Copy a cell into a merged row (셀 ID를 그 행 기준으로 다시 만든다)
+ */
+const copyCell = (
+  cell: Cell | undefined,
+  rowId: string,
+  column: Column
+): Cell => ({
+  ...(cell ?? { value: null, type: column.type }),
+  id: generateCellId(rowId, column.id),
+  rowId,
+  columnId: column.id,
+  ...(cell?.spilledFrom ? { value: null } : {}),
+  spill: undefined,
+  spilledFrom: undefined,
+});
+
+/**
+ * Copy a row with cells for every merged column (없는 열은 빈 셀)
+ */
+const copyRow = (row: Row, rowId: string, columns: Column[]): Row => ({
+  ...structuredClone(row),
+  id: rowId,
+  cells: Object.fromEntries(
+    columns.map((column) => [
+      column.id,
+      copyCell(structuredClone(row.cells[column.id]), rowId, column),
+    ])
+  ),
+});
+
+/**
+ * 한 시트의 3-way 병합 (세 버전에 모두 있는 시트)
+ */
+const mergeSheet = (
+  base: Sheet,
+  ours: Sheet,
+  theirs: Sheet,
+  conflicts: MergeConflict[],
+  stats: MergeStats
+): Sheet => {
+  const baseColumnIds = new Set(base.columns.map((c) => c.id));
+  const ourColumnIds = new Set(ours.columns.map((c) => c.id));
+  const theirColumnIds = new Set(theirs.columns.map((c) => c.id));
+
+  // Both sides keep their new columns; a column removed on either side goes
+  const columns = [
+    ...ours.columns.filter(
+      (c) => !baseColumnIds.has(c.id) || theirColumnIds.has(c.id)
+    ),
+    ...theirs.columns.filter(
+      (c) => !baseColumnIds.has(c.id) && !ourColumnIds.has(c.id)
+    ),
+  ].map((column, index) => ({ ...structuredClone(column), index }));
+  const sharedColumnIds = columns
+    .filter((c) => baseColumnIds.has(c.id))
+    .map((c) => c.id);
+
+  const baseRows = indexRows(base);
+  const ourRows = indexRows(ours);
+  const theirRows = indexRows(theirs);
+  const rowIds = new Set(ours.rows.map((row) => row.id));
+  const rows: Row[] = [];
+  const positions = new Map<string, number>(); // identity -> rows의 위치
+
+  ourRows.forEach((ourRow, identity) => {
+    const baseRow = baseRows.get(identity);
+    const theirRow = theirRows.get(identity);
+
+    if (!theirRow && baseRow) {
+      // Removed on their side: follow it unless we edited the row
+      if (!isRowChanged(baseRow, ourRow, sharedColumnIds)) {
+        stats.removedRows += 1;
+        return;
+      }
+      conflicts.push({
+        kind: 'row',
+        id: `${ours.id}:${identity}`,
+        sheetId: ours.id,
+        sheetName: ours.name,
+        rowKey: describeRow(identity, ourRow),
+        rowId: ourRow.id,
+        deletedIn: 'theirs',
+        theirsRow: null,
+        insertIndex: rows.length,
+      });
+    }
+
+    const row = copyRow(ourRow, ourRow.id, columns);
+    columns.forEach((column) => {
+      if (!theirRow || !theirColumnIds.has(column.id)) return;
+
+      const theirCell = theirRow.cells[column.id];
+      const theirContent = contentOf(theirCell);
+      if (!ourColumnIds.has(column.id)) {
+        // Column added on their side
+        row.cells[column.id] = copyCell(theirCell, row.id, column);
+        return;
+      }
+
+      const baseContent = baseRow ? contentOf(baseRow.cells[column.id]) : null;
+      const ourContent = contentOf(ourRow.cells[column.id]);
+      if (
+        isSameContent(ourContent, theirContent) ||
+        isSameContent(theirContent, baseContent)
+      ) {
+        return;
+      }
+      if (isSameContent(ourContent, baseContent)) {
+        row.cells[column.id] = copyCell(theirCell, row.id, column);
+        stats.mergedCells += 1;
+        return;
+      }
+      conflicts.push({
+        kind: 'cell',
+        id: `${ours.id}:${identity}:${column.id}`,
+        sheetId: ours.id,
+        sheetName: ours.name,
+        rowKey: describeRow(identity, ourRow),
+        rowId: row.id,
+        columnId: column.id,
+        columnName: column.name,
+        base: baseContent,
+        ours: ourContent,
+        theirs: theirContent,
+        theirsCell: theirCell ? copyCell(theirCell, row.id, column) : null,
+      });
+    });
+
+    positions.set(identity, rows.length);
+    rows.push(row);
+  });
+
+  // Rows only on their side, placed after the row that precedes them there
+  const pending: RowConflict[] = [];
+  let insertAt = 0;
+  theirRows.forEach((theirRow, identity) => {
+    const position = positions.get(identity);
+    if (position !== undefined) {
+      insertAt = position + 1;
+      return;
+    }
+
+    // A colliding row ID (같은 ID, 다른 키) gets a new one
+    const rowId = rowIds.has(theirRow.id)
+      ? `${theirRow.id}-${theirs.id}`
+      : theirRow.id;
+    rowIds.add(rowId);
+    const row = copyRow(theirRow, rowId, columns);
+
+    const baseRow = baseRows.get(identity);
+    if (baseRow) {
+      // Removed on our side: stays removed unless they edited the row
+      if (isRowChanged(baseRow, theirRow, sharedColumnIds)) {
+        pending.push({
+          kind: 'row',
+          id: `${ours.id}:${identity}`,
+          sheetId: ours.id,
+          sheetName: ours.name,
+          rowKey: describeRow(identity, theirRow),
+          rowId,
+          deletedIn: 'ours',
+          theirsRow: row,
+          insertIndex: insertAt,
+        });
+      }
+      return;
+    }
+
+    rows.splice(insertAt, 0, row);
+    positions.forEach((value, key) => {
+      if (value >= insertAt) positions.set(key, value + 1);
+    });
+    pending.forEach((conflict) => {
+      if (conflict.insertIndex > insertAt) conflict.insertIndex += 1;
+    });
+    positions.set(identity, insertAt);
+    insertAt += 1;
+    stats.addedRows += 1;
+  });
+
+  // Our kept rows may have moved when their rows were inserted
+  conflicts.forEach((conflict) => {
+    if (conflict.kind === 'row' && conflict.sheetId === ours.id) {
+      conflict.insertIndex = rows.findIndex((r) => r.id === conflict.rowId);
+    }
+  });
+  conflicts.push(...pending);
+
+  return {
+    ...structuredClone(ours),
+    // A rename on one side wins over the unchanged name
+    name: ours.name === base.name ? theirs.name : ours.name,
+    columns,
+    rows: rows.map((row, index) => ({ ...row, index })),
+    updatedAt: new Date(),
+  };
+};
+
+const isSameName = (a: NamedRange, b: NamedRange) =>
+  a.name === b.name &&
+  a.definition === b.definition &&
+  (a.comment ?? '') === (b.comment ?? '');
+
+/**
+ * 이름 정의의 3-way 병합 (ID, 없으면 대소문자를 무시한 이름으로 맞춘다)
+ * 한쪽만 바꾼 정의는 합치고, 양쪽이 다르게 바꿨거나 한쪽이 지우고 다른 쪽이
+ * 고친 정의는 conflicts로 돌려준다
+ */
+const mergeNames = (
+  base: NamedRange[],
+  ours: NamedRange[],
+  theirs: NamedRange[],
+  conflicts: MergeConflict[],
+  stats: MergeStats
+): NamedRange[] => {
+  const findName = (names: NamedRange[], named: NamedRange) =>
+    names.find((n) => n.id === named.id) ??
+    names.find((n) => n.name.toLowerCase() === named.name.toLowerCase());
+  const addConflict = (
+    named: NamedRange,
+    baseNamed: NamedRange | undefined,
+    ourNamed: NamedRange | null,
+    theirNamed: NamedRange | null
+  ) =>
+    conflicts.push({
+      kind: 'name',
+      id: `name:${named.id}`,
+      name: named.name,
+      base: baseNamed ?? null,
+      ours: ourNamed,
+      theirs: theirNamed,
+    });
+
+  const matchedTheirs = new Set<NamedRange>();
+  const names: NamedRange[] = [];
+
+  ours.forEach((ourNamed) => {
+    const baseNamed = findName(base, ourNamed);
+    const theirNamed = findName(theirs, ourNamed);
+    if (theirNamed) matchedTheirs.add(theirNamed);
+
+    if (!theirNamed) {
+      // Removed on their side (or added on ours)
+      if (baseNamed && isSameName(baseNamed, ourNamed)) {
+        stats.mergedNames += 1;
+        return;
+      }
+      if (baseNamed) addConflict(ourNamed, baseNamed, ourNamed, null);
+      names.push({ ...ourNamed });
+      return;
+    }
+
+    if (
+      isSameName(ourNamed, theirNamed) ||
+      (baseNamed && isSameName(baseNamed, theirNamed))
+    ) {
+      names.push({ ...ourNamed });
+    } else if (baseNamed && isSameName(baseNamed, ourNamed)) {
+      names.push({ ...theirNamed, id: ourNamed.id });
+      stats.mergedNames += 1;
+    } else {
+      // Changed (or added) differently on both sides
+      addConflict(ourNamed, baseNamed, ourNamed, theirNamed);
+      names.push({ ...ourNamed });
+    }
+  });
+
+  theirs.forEach((theirNamed) => {
+    if (matchedTheirs.has(theirNamed)) return;
+    const baseNamed = findName(base, theirNamed);
+    if (!baseNamed) {
+      names.push({ ...theirNamed });
+      stats.mergedNames += 1;
+    } else if (!isSameName(baseNamed, theirNamed)) {
+      // Removed on our side but edited on theirs
+      addConflict(theirNamed, baseNamed, null, theirNamed);
+    }
+  });
+
+  return names;
+};
+
+/**
+ * 워크북 설정의 3-way 병합 (양쪽이 다르게 바꿨으면 내 쪽)
+ */
+const mergeSetting = <T>(base: T, ours: T, theirs: T): T =>
+  isEqual(base, ours) ? theirs : ours;
+
+/**
+ * Three-way merge of two workbooks that share a base version
+ * - 시트는 ID(없으면 이름), 열은 ID, 행은 키 열 값으로 맞춘다
+ * - 한쪽만 바꾼 셀/행/시트/이름 정의는 자동으로 합친다
+ * - 양쪽이 다르게 바꾼 셀과 이름 정의, 한쪽이 지우고 다른 쪽이 고친 행은
+ *   conflicts로 돌려준다 (결과에는 우선 내 쪽이 들어 있다, resolveMerge로 선택 적용)
+ * - 한쪽이 지운 시트는 다른 쪽이 고치지 않았을 때만 지운다
+ * - 난수 시드와 반복 계산 설정은 한쪽만 바꿨으면 그 값을 쓴다
+ */
+export const mergeWorkbooks = (
+  baseWorkbook: MergeWorkbook,
+  ourWorkbook: MergeWorkbook,
+  theirWorkbook: MergeWorkbook
+): MergeResult => {
+  const base = baseWorkbook.sheets;
+  const ours = ourWorkbook.sheets;
+  const theirs = theirWorkbook.sheets;
+  const conflicts: MergeConflict[] = [];
+  const stats: MergeStats = {
+    mergedCells: 0,
+    addedRows: 0,
+    removedRows: 0,
+    addedSheets: 0,
+    removedSheets: 0,
+    mergedNames: 0,
+  };
+
+  const findSheet = (sheets: Sheet[], sheet: Sheet) =>
+    sheets.find((s) => s.id === sheet.id) ??
+    sheets.find((s) => s.name === sheet.name);
+
+  const matchedTheirs = new Set<Sheet>();
+  const sheets: Sheet[] = [];
+
+  ours.forEach((ourSheet) => {
+    const baseSheet = findSheet(base, ourSheet);
+    const theirSheet = findSheet(theirs, ourSheet);
+    if (theirSheet) matchedTheirs.add(theirSheet);
+
+    if (!theirSheet) {
+      // Removed on their side (or added on ours)
+      if (baseSheet && !diffSheets(baseSheet, ourSheet)) {
+        stats.removedSheets += 1;
+        return;
+      }
+      sheets.push(structuredClone(ourSheet));
+      return;
+    }
+
+    sheets.push(
+      mergeSheet(
+        baseSheet ?? { ...ourSheet, columns: [], rows: [] },
+        ourSheet,
+        theirSheet,
+        conflicts,
+        stats
+      )
+    );
+  });
+
+  theirs.forEach((theirSheet) => {
+    if (matchedTheirs.has(theirSheet)) return;
+    const baseSheet = findSheet(base, theirSheet);
+    // Removed on our side: comes back only when they edited it
+    if (baseSheet && !diffSheets(baseSheet, theirSheet)) return;
+
+    sheets.push(structuredClone(theirSheet));
+    stats.addedSheets += 1;
+  });
+
+  const names = mergeNames(
+    baseWorkbook.names ?? [],
+    ourWorkbook.names ?? [],
+    theirWorkbook.names ?? [],
+    conflicts,
+    stats
+  );
+
+  return {
+    sheets,
+    names,
+    randomSeed: mergeSetting(
+      baseWorkbook.randomSeed,
+      ourWorkbook.randomSeed,
+      theirWorkbook.randomSeed
+    ),
+    iterativeCalculation: mergeSetting(
+      baseWorkbook.iterativeCalculation,
+      ourWorkbook.iterativeCalculation,
+      theirWorkbook.iterativeCalculation
+    ),
+    conflicts,
+    stats,
+  };
+};
+
+/**
+ * Apply the chosen side of each conflict to a merge result
+ * 고르지 않은 충돌은 내 쪽(결과에 이미 있는 값)을 유지한다
+ */
+export const resolveMerge = (
+  result: MergeResult,
+  choices: Record<string, ConflictChoice>
+): MergeWorkbook & { names: NamedRange[] } => {
+  const sheets = structuredClone(result.sheets);
+
+  sheets.forEach((sheet) => {
+    const taken = result.conflicts.filter(
+      (conflict) =>
+        conflict.kind !== 'name' &&
+        conflict.sheetId === sheet.id &&
+        choices[conflict.id] === 'theirs'
+    );
+    if (taken.length === 0) return;
+
+    taken.forEach((conflict) => {
+      if (conflict.kind !== 'cell') return;
+      const row = sheet.rows.find((r) => r.id === conflict.rowId);
+      if (!row) return;
+      row.cells[conflict.columnId] = structuredClone(conflict.theirsCell) ?? {
+        id: generateCellId(row.id, conflict.columnId),
+        rowId: row.id,
+        columnId: conflict.columnId,
+        value: null,
+        type:
+          sheet.columns.find((c) => c.id === conflict.columnId)?.type ?? 'text',
+      };
+    });
+
+    const rowConflicts = taken.filter(
+      (conflict): conflict is RowConflict => conflict.kind === 'row'
+    );
+    const removed = new Set(
+      rowConflicts
+        .filter((conflict) => conflict.deletedIn === 'theirs')
+        .map((conflict) => conflict.rowId)
+    );
+    const inserted = rowConflicts.flatMap((conflict) =>
+      conflict.deletedIn === 'ours' && conflict.theirsRow
+        ? [{ insertIndex: conflict.insertIndex, row: conflict.theirsRow }]
+        : []
+    );
+    const insertedAt = (index: number) =>
+      inserted
+        .filter(({ insertIndex }) =>
+          index < sheet.rows.length
+            ? insertIndex === index
+            : insertIndex >= index
+        )
+        .map(({ row }) => structuredClone(row));
+
+    // Insert positions refer to the unresolved result rows
+    sheet.rows = sheet.rows
+      .flatMap((row, index) => [
+        ...insertedAt(index),
+        ...(removed.has(row.id) ? [] : [row]),
+      ])
+      .concat(insertedAt(sheet.rows.length))
+      .map((row, index) => ({ ...row, index }));
+  });
+
+  // Names taken from their side replace ours in place (지운 정의는 빠진다)
+  const takenNames = result.conflicts.filter(
+    (conflict): conflict is NameConflict =>
+      conflict.kind === 'name' && choices[conflict.id] === 'theirs'
+  );
+  const names = result.names
+    .flatMap((named) => {
+      const conflict = takenNames.find((c) => c.ours?.id === named.id);
+      if (!conflict) return [{ ...named }];
+      return conflict.theirs ? [{ ...conflict.theirs, id: named.id }] : [];
+    })
+    .concat(
+      takenNames.flatMap((conflict) =>
+        !conflict.ours && conflict.theirs ? [{ ...conflict.theirs }] : []
+      )
+    );
+
+  return {
+    sheets,
+    names,
+    randomSeed: result.randomSeed,
+    iterativeCalculation: result.iterativeCalculation,
+  };
+};
@@ -0,0 +1,140 @@
+/**
+ * Reference Utilities Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createMockSheet } from '@test/utils/mockData';
+import {
+  describeReference,
+  findBatchInboundReferences,
+  findInboundReferences,
+  getReferenceKeys,
+  getReferenceOptions,
+} from './referenceUtils';
+
+describe('referenceUtils', () => {
+  const items = () => {
+    const sheet = createMockSheet({
+      name: 'Item Data',
+      columns: ['ID', 'Name'],
+      rows: [
+        { ID: 'item_steel_sword', Name: 'Steel Sword' },
+        { ID: 'item_potion' },
+        {},
+        { ID: 'item_steel_sword', Name: 'Duplicate' },
+        { ID: 101, Name: 'Numeric ID' },
+      ],
+    });
+    sheet.id = 'items';
+    return sheet;
+  };
+  const reference = {
+    sheetId: 'items',
+    keyColumnId: 'col-ID',
+    displayColumnId: 'col-Name',
+  };
+
+  it('should list live IDs with their display names', () => {
+    expect(getReferenceOptions([items()], reference)).toEqual([
+      { key: 'item_steel_sword', label: 'Steel Sword', rowId: 'row-0' },
+      { key: 'item_potion', label: null, rowId: 'row-1' },
+      { key: '101', label: 'Numeric ID', rowId: 'row-4' },
+    ]);
+  });
+
+  it('should return no IDs when the target sheet or key column is gone', () => {
+    expect(getReferenceOptions([], reference)).toEqual([]);
+    expect(
+      getReferenceOptions([items()], { ...reference, keyColumnId: 'col-X' })
+    ).toEqual([]);
+    expect(describeReference([], reference)).toBeNull();
+    expect(describeReference([items()], reference)).toBe('Item Data.ID');
+  });
+
+  it('should only resolve keys for reference columns', () => {
+    const column = {
+      id: 'itemId',
+      name: 'Item ID',
+      type: 'reference' as const,
+      index: 0,
+      reference,
+    };
+
+    expect(getReferenceKeys([items()], column)).toEqual([
+      'item_steel_sword',
+      'item_potion',
+      '101',
+    ]);
+    expect(
+      getReferenceKeys([items()], { ...column, type: 'text' })
+    ).toBeUndefined();
+  });
+
+  it('should find inbound references unless the ID survives in another row', () => {
+    const itemSheet = items();
+    const drops = createMockSheet({
+      name: 'Drop Table',
+      columns: ['Item'],
+      rows: [{ Item: 'item_potion' }, { Item: 101 }, { Item: 'item_potion' }],
+    });
+    drops.columns[0] = { ...drops.columns[0], type: 'reference', reference };
+    const sheets = [itemSheet, drops];
+
+    expect(
+      findInboundReferences(sheets, 'items', itemSheet.rows[1]).map(
+        (ref) => ref.rowId
+      )
+    ).toEqual(['row-0', 'row-2']);
+    expect(findInboundReferences(sheets, 'items', itemSheet.rows[4])).toEqual([
+      { sheetId: drops.id, rowId: 'row-1', columnId: 'col-Item', key: '101' },
+    ]);
+    // Only references through the given key column
+    expect(
+      findInboundReferences(sheets, 'items', itemSheet.rows[1], 'col-Name')
+    ).toEqual([]);
+    // item_steel_sword is duplicated, so removing one row breaks nothing
+    drops.rows[0].cells['col-Item'].value = 'item_steel_sword';
+    expect(findInboundReferences(sheets, 'items', itemSheet.rows[0])).toEqual(
+      []
+    );
+  });
+
+  it('should judge a batch of key edits and deletions as a whole', () => {
+    const itemSheet = items();
+    const drops = createMockSheet({
+      name: 'Drop Table',
+      columns: ['Item'],
+      rows: [{ Item: 'item_steel_sword' }, { Item: 'item_potion' }],
+    });
+    drops.columns[0] = { ...drops.columns[0], type: 'reference', reference };
+    const sheets = [itemSheet, drops];
+
+    // Deleting both item_steel_sword rows breaks the reference, one alone does not
+    const deleted = findBatchInboundReferences(sheets, 'items', [
+      { rowId: 'row-0' },
+      { rowId: 'row-3' },
+    ]);
+    expect(deleted.targets).toHaveLength(2);
+    expect(deleted.references).toEqual([
+      {
+        sheetId: drops.id,
+        rowId: 'row-0',
+        columnId: 'col-Item',
+        key: 'item_steel_sword',
+      },
+    ]);
+
+    // Unchanged IDs and edits outside the key column break nothing
+    expect(
+      findBatchInboundReferences(sheets, 'items', [
+        { rowId: 'row-1', columnId: 'col-ID', value: ' item_potion ' },
+        { rowId: 'row-1', columnId: 'col-Name', value: 'Elixir' },
+      ]).targets
+    ).toEqual([]);
+    expect(
+      findBatchInboundReferences(sheets, 'items', [
+        { rowId: 'row-1', columnId: 'col-ID', value: 'item_elixir' },
+      ]).references.map((ref) => ref.rowId)
+    ).toEqual(['row-1']);
+  });
+});
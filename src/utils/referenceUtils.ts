@@ -0,0 +1,282 @@
+/**
+ * Reference Utilities
+ * 참조(reference) 열: 다른 시트의 키 열을 가리키는 외래 키 값 조회
+ */
+
+import type {
+  Cell,
+  CellValue,
+  Column,
+  ColumnReference,
+  Row,
+  Sheet,
+} from '@types';
+
+/**
+ * 참조 대상 시트의 한 행 (피커 항목)
+ */
+export interface ReferenceOption {
+  key: string;
+  label: string | null; // displayColumnId 열의 값
+  rowId: string;
+}
+
+/**
+ * 빈 값 (공백만 있는 문자열 포함), false면 값이 있는 CellValue로 좁혀진다
+ */
+const isEmptyValue = (
+  value: CellValue | undefined
+): value is null | undefined =>
+  value === null || value === undefined || String(value).trim() === '';
+
+/**
+ * 참조 값 비교용 키 (숫자 ID도 문자열로 비교)
+ */
+export const toReferenceKey = (value: CellValue): string =>
+  String(value).trim();
+
+/**
+ * Live IDs of the referenced sheet's key column (중복/빈 값 제외, 행 순서)
+ * 대상 시트나 키 열이 없으면 빈 배열
+ */
+export const getReferenceOptions = (
+  sheets: Sheet[],
+  reference: ColumnReference
+): ReferenceOption[] => {
+  const target = sheets.find((s) => s.id === reference.sheetId);
+  if (!target?.columns.some((c) => c.id === reference.keyColumnId)) {
+    return [];
+  }
+
+  const seen = new Set<string>();
+  return target.rows.flatMap((row) => {
+    const keyValue = row.cells[reference.keyColumnId]?.value;
+    if (isEmptyValue(keyValue)) return [];
+
+    const key = toReferenceKey(keyValue);
+    if (seen.has(key)) return [];
+    seen.add(key);
+
+    const labelValue = reference.displayColumnId
+      ? row.cells[reference.displayColumnId]?.value
+      : undefined;
+    return [
+      {
+        key,
+        label: isEmptyValue(labelValue) ? null : String(labelValue),
+        rowId: row.id,
+      },
+    ];
+  });
+};
+
+/**
+ * Valid keys for a reference column (validation options로 사용)
+ * 참조 열이 아니면 undefined
+ */
+export const getReferenceKeys = (
+  sheets: Sheet[],
+  column: Column
+): string[] | undefined =>
+  column.type === 'reference' && column.reference
+    ? getReferenceOptions(sheets, column.reference).map((o) => o.key)
+    : undefined;
+
+/**
+ * 참조 설정 설명 (예: "Item Data.ID")
+ * 대상 시트가 삭제되었으면 null
+ */
+export const describeReference = (
+  sheets: Sheet[],
+  reference: ColumnReference
+): string | null => {
+  const target = sheets.find((s) => s.id === reference.sheetId);
+  if (!target) return null;
+
+  const keyColumn = target.columns.find((c) => c.id === reference.keyColumnId);
+  return `${target.name}.${keyColumn?.name ?? reference.keyColumnId}`;
+};
+
+/**
+ * 다른 행에서 참조 중인 셀 위치
+ */
+export interface InboundReference {
+  sheetId: string;
+  rowId: string;
+  columnId: string;
+  key: string;
+}
+
+/**
+ * Cells in reference columns that point at a row's key(s)
+ * keyColumnId를 주면 그 키 열을 통한 참조만 찾는다
+ * 같은 키를 가진 다른 행이 남아 있으면 참조가 끊어지지 않으므로 제외한다
+ */
+export const findInboundReferences = (
+  sheets: Sheet[],
+  sheetId: string,
+  row: Row,
+  keyColumnId?: string
+): InboundReference[] => {
+  const target = sheets.find((s) => s.id === sheetId);
+  if (!target) return [];
+
+  const references: InboundReference[] = [];
+  sheets.forEach((source) => {
+    source.columns.forEach((column) => {
+      const reference = column.reference;
+      if (
+        column.type !== 'reference' ||
+        reference?.sheetId !== sheetId ||
+        (keyColumnId && reference.keyColumnId !== keyColumnId)
+      ) {
+        return;
+      }
+
+      const keyValue = row.cells[reference.keyColumnId]?.value;
+      if (isEmptyValue(keyValue)) return;
+      const key = toReferenceKey(keyValue);
+
+      const stillExists = target.rows.some(
+        (other) =>
+          other.id !== row.id &&
+          !isEmptyValue(other.cells[reference.keyColumnId]?.value) &&
+          toReferenceKey(other.cells[reference.keyColumnId].value) === key
+      );
+      if (stillExists) return;
+
+      source.rows.forEach((sourceRow) => {
+        // A row pointing at itself is not an inbound reference
+        if (source.id === sheetId && sourceRow.id === row.id) return;
+
+        const value = sourceRow.cells[column.id]?.value;
+        if (!isEmptyValue(value) && toReferenceKey(value) === key) {
+          references.push({
+            sheetId: source.id,
+            rowId: sourceRow.id,
+            columnId: column.id,
+            key,
+          });
+        }
+      });
+    });
+  });
+  return references;
+};
+
+/**
+ * 일괄 변경의 대상: columnId가 있으면 키 셀에 value를 쓰고, 없으면 행을 삭제한다
+ */
+export interface ReferenceTarget {
+  rowId: string;
+  columnId?: string;
+  value?: CellValue;
+}
+
+/**
+ * Inbound references broken by a batch of key writes or row deletions
+ * 배치 전체가 적용된 상태로 판단하므로, 같은 배치에서 참조도 바뀌거나
+ * 함께 삭제되는 행의 참조, 다른 행에 남는 키는 끊어진 것으로 보지 않는다
+ * @returns 참조를 끊는 대상과 끊어지는 참조 (셀마다 한 번)
+ */
+export const findBatchInboundReferences = (
+  sheets: Sheet[],
+  sheetId: string,
+  targets: ReferenceTarget[]
+): { targets: ReferenceTarget[]; references: InboundReference[] } => {
+  const target = sheets.find((s) => s.id === sheetId);
+  if (!target) return { targets: [], references: [] };
+
+  const deleted = new Set(
+    targets.filter((t) => !t.columnId).map((t) => t.rowId)
+  );
+  const writes = new Map(
+    targets
+      .filter((t) => t.columnId)
+      .map((t) => [`${t.rowId}:${t.columnId}`, t.value ?? null])
+  );
+
+  // The workbook as it will be once the whole batch is applied
+  const applied: Sheet = {
+    ...target,
+    rows: target.rows
+      .filter((row) => !deleted.has(row.id))
+      .map((row) => {
+        const cells = { ...row.cells };
+        Object.keys(cells).forEach((columnId) => {
+          const value = writes.get(`${row.id}:${columnId}`);
+          if (value !== undefined) {
+            cells[columnId] = { ...cells[columnId], value };
+          }
+        });
+        return { ...row, cells };
+      }),
+  };
+  const after = sheets.map((s) => (s.id === sheetId ? applied : s));
+
+  const broken: ReferenceTarget[] = [];
+  const references = new Map<string, InboundReference>();
+  targets.forEach((t) => {
+    const row = target.rows.find((r) => r.id === t.rowId);
+    if (!row) return;
+    if (t.columnId) {
+      // Writing the same ID (or to a missing cell) breaks nothing
+      const cell = row.cells[t.columnId];
+      if (
+        !cell ||
+        toReferenceKey(t.value ?? '') === toReferenceKey(cell.value ?? '')
+      ) {
+        return;
+      }
+    }
+
+    const found = findInboundReferences(after, sheetId, row, t.columnId);
+    if (found.length === 0) return;
+    broken.push(t);
+    found.forEach((ref) =>
+      references.set(`${ref.sheetId}:${ref.rowId}:${ref.columnId}`, ref)
+    );
+  });
+
+  return { targets: broken, references: Array.from(references.values()) };
+};
+
+/**
+ * 참조 중인 ID의 이름 변경/행 삭제 처리 방법
+ * cascade: 참조도 새 ID로 변경 (이름 변경만), nullify: 참조를 비움
+ * block: 참조 중인 대상의 변경만 취소 (나머지는 적용)
+ */
+export type ReferenceResolution = 'cascade' | 'nullify' | 'block';
+
+/**
+ * 사용자의 선택을 기다리는 참조 ID 변경 (붙여넣기, 여러 행 삭제 등은 한 번에)
+ */
+export interface ReferenceChange {
+  action: 'rename' | 'delete';
+  sheetId: string;
+  targets: ReferenceTarget[]; // rename: 바뀌는 키 셀과 새 값, delete: 삭제할 행
+  references: InboundReference[];
+  cells?: Cell[]; // 붙여넣기/채우기 등 셀 전체를 쓰는 변경 (대상 외 셀 포함)
+}
+
+/**
+ * Check that a resolution applies to the change
+ * @returns 오류 메시지 (적용할 수 있으면 null)
+ */
+export const validateReferenceResolution = (
+  change: ReferenceChange,
+  resolution: ReferenceResolution
+): string | null => {
+  if (resolution !== 'cascade') return null;
+  if (change.action === 'delete') {
+    return 'A deleted row has no new ID to cascade';
+  }
+  if (
+    change.targets.some(
+      (t) => typeof t.value === 'string' && t.value.startsWith('=')
+    )
+  ) {
+    return 'A formula cannot be cascaded as an ID';
+  }
+  return null;
+};
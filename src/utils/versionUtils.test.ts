@@ -0,0 +1,145 @@
+/**
+ * Version Utilities Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { Sheet } from '@types';
+import { createMockSheet } from '@test/utils/mockData';
+import {
+  diffSheets,
+  diffWorkbooks,
+  summarizeDiff,
+  validateSnapshotName,
+} from './versionUtils';
+
+describe('versionUtils', () => {
+  const items = (): Sheet => {
+    const sheet = createMockSheet({
+      name: 'Item Data',
+      columns: ['ID', 'Attack'],
+      rows: [
+        { ID: 'sword', Attack: 10 },
+        { ID: 'axe', Attack: 14 },
+        { ID: 'bow', Attack: 8 },
+      ],
+    });
+    sheet.id = 'items';
+    return sheet;
+  };
+
+  it('should reject empty and duplicate snapshot names', () => {
+    const snapshots = [
+      {
+        id: 'snapshot-1',
+        spreadsheetId: 'default-spreadsheet',
+        name: 'pre-patch 1.4 balance',
+        createdAt: new Date(),
+      },
+    ];
+
+    expect(validateSnapshotName(snapshots, '  ')).not.toBeNull();
+    expect(
+      validateSnapshotName(snapshots, 'Pre-Patch 1.4 Balance ')
+    ).not.toBeNull();
+    expect(validateSnapshotName(snapshots, 'patch 1.5')).toBeNull();
+  });
+
+  it('should report nothing for identical or only reordered sheets', () => {
+    const base = items();
+    const sorted = items();
+    sorted.rows.reverse();
+
+    expect(diffSheets(base, items())).toBeNull();
+    expect(diffSheets(base, sorted)).toBeNull();
+  });
+
+  it('should list added, removed and changed rows by row ID', () => {
+    const base = items();
+    const target = items();
+    target.rows[0].cells['col-Attack'].value = 12;
+    target.rows[1].cells['col-Attack'].formula = '=B1+4';
+    const [removed] = target.rows.splice(2, 1);
+    target.rows.push({
+      ...removed,
+      id: 'row-new',
+      cells: {
+        'col-ID': { ...removed.cells['col-ID'], value: 'staff' },
+        'col-Attack': { ...removed.cells['col-Attack'], value: null },
+      },
+    });
+
+    const diff = diffSheets(base, target)!;
+
+    expect(diff.status).toBe('changed');
+    expect(diff.rows.map((row) => [row.rowId, row.status])).toEqual([
+      ['row-0', 'changed'],
+      ['row-1', 'changed'],
+      ['row-new', 'added'],
+      ['row-2', 'removed'],
+    ]);
+    expect(diff.rows[0].cells).toEqual([
+      {
+        columnId: 'col-Attack',
+        before: { value: 10 },
+        after: { value: 12 },
+        formulaChanged: false,
+      },
+    ]);
+    expect(diff.rows[1].cells[0].formulaChanged).toBe(true);
+    // Empty cells of an added row are left out
+    expect(diff.rows[2].cells.map((cell) => cell.after?.value)).toEqual([
+      'staff',
+    ]);
+    expect(diff.rows[3].rowIndex).toBe(2);
+    expect(diff.rows[3].cells.map((cell) => cell.before?.value)).toEqual([
+      'bow',
+      8,
+    ]);
+
+    expect(summarizeDiff([diff])).toEqual({
+      addedRows: 1,
+      removedRows: 1,
+      changedRows: 2,
+      changedCells: 2,
+    });
+  });
+
+  it('should report added and removed columns without their cells', () => {
+    const base = items();
+    const target = items();
+    target.columns.push({ id: 'col-Rarity', name: 'Rarity', type: 'text' });
+    target.rows[0].cells['col-Rarity'] = {
+      id: 'row-0:col-Rarity',
+      rowId: 'row-0',
+      columnId: 'col-Rarity',
+      value: 'rare',
+      type: 'text',
+    };
+    target.columns = target.columns.filter((c) => c.id !== 'col-Attack');
+
+    const diff = diffSheets(base, target)!;
+
+    expect(diff.addedColumns).toEqual(['Rarity']);
+    expect(diff.removedColumns).toEqual(['Attack']);
+    expect(diff.rows).toEqual([]);
+  });
+
+  it('should compare workbooks including added and removed sheets', () => {
+    const enemies = createMockSheet({ name: 'Enemy', rows: [{ A: 'slime' }] });
+    enemies.id = 'enemies';
+    const skills = createMockSheet({
+      name: 'Skill',
+      rows: [{ A: 'fireball' }],
+    });
+    skills.id = 'skills';
+
+    const diffs = diffWorkbooks([items(), enemies], [items(), skills]);
+
+    expect(diffs.map((diff) => [diff.name, diff.status])).toEqual([
+      ['Skill', 'added'],
+      ['Enemy', 'removed'],
+    ]);
+    expect(diffs[0].rows[0].status).toBe('added');
+    expect(diffs[1].rows[0].status).toBe('removed');
+  });
+});
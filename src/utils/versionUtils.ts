@@ -0,0 +1,257 @@
+/**
+ * Version Utilities
+ * 이름 붙인 스냅샷(버전) 검증과 두 버전 사이의 셀 단위 비교
+ * 시트/열/행은 ID로 맞춰 보므로 정렬로 순서만 바뀐 행은 변경으로 보지 않는다
+ */
+
+import type { Cell, CellValue, Row, Sheet, SnapshotMetadata } from '@types';
+
+/**
+ * 비교에 쓰는 셀 내용 (값과 수식)
+ */
+export interface CellContent {
+  value: CellValue;
+  formula?: string;
+}
+
+/**
+ * 한 셀의 변경 (추가/삭제된 행에서는 before/after 중 하나가 null)
+ */
+export interface CellChange {
+  columnId: string;
+  before: CellContent | null;
+  after: CellContent | null;
+  formulaChanged: boolean;
+}
+
+export type DiffStatus = 'added' | 'removed' | 'changed';
+
+/**
+ * 한 행의 변경
+ * rowIndex는 행이 있는 쪽 버전에서의 위치 (삭제된 행은 기준 버전, 그 밖은 비교 버전)
+ */
+export interface RowDiff {
+  rowId: string;
+  rowIndex: number;
+  status: DiffStatus;
+  cells: CellChange[];
+}
+
+/**
+ * 한 시트의 변경 (열 이름은 그 열이 있는 쪽 버전의 이름)
+ */
+export interface SheetDiff {
+  sheetId: string;
+  name: string;
+  status: DiffStatus;
+  addedColumns: string[];
+  removedColumns: string[];
+  rows: RowDiff[];
+}
+
+export interface DiffSummary {
+  addedRows: number;
+  removedRows: number;
+  changedRows: number;
+  changedCells: number;
+}
+
+/**
+ * Check a snapshot name (빈 이름, 같은 스프레드시트 안의 중복 이름 거부)
+ * @returns 오류 메시지 (사용할 수 있으면 null)
+ */
+export const validateSnapshotName = (
+  snapshots: SnapshotMetadata[],
+  name: string
+): string | null => {
+  const trimmed = name.trim();
+  if (!trimmed) return 'Snapshot name is required';
+  if (snapshots.some((s) => s.name.toLowerCase() === trimmed.toLowerCase())) {
+    return `A snapshot named "${trimmed}" already exists`;
+  }
+  return null;
+};
+
+const isEmptyContent = (cell: Cell | undefined): cell is undefined =>
+  !cell ||
+  (!cell.formula &&
+    (cell.value === null ||
+      cell.value === undefined ||
+      String(cell.value) === ''));
+
+/**
+ * 셀의 비교용 내용 (빈 셀은 null)
+ */
+export const toCellContent = (cell: Cell | undefined): CellContent | null =>
+  isEmptyContent(cell)
+    ? null
+    : {
+        value: cell.value ?? null,
+        ...(cell.formula && { formula: cell.formula }),
+      };
+
+export const isSameCellValue = (a: CellValue, b: CellValue): boolean =>
+  a instanceof Date && b instanceof Date
+    ? a.getTime() === b.getTime()
+    : a === b;
+
+const isSameContent = (a: CellContent | null, b: CellContent | null) =>
+  a === null || b === null
+    ? a === b
+    : a.formula === b.formula && isSameCellValue(a.value, b.value);
+
+/**
+ * Non-empty cells of a row that exists in only one version
+ */
+const collectRowCells = (
+  row: Row,
+  columnIds: string[],
+  side: 'before' | 'after'
+): CellChange[] =>
+  columnIds.flatMap((columnId) => {
+    const content = toCellContent(row.cells[columnId]);
+    if (!content) return [];
+    return [
+      {
+        columnId,
+        before: side === 'before' ? content : null,
+        after: side === 'after' ? content : null,
+        formulaChanged: false,
+      },
+    ];
+  });
+
+/**
+ * Compare one sheet between two versions
+ * 한쪽에만 있는 시트는 added/removed, 바뀐 것이 없으면 null
+ * 한쪽에만 있는 열은 addedColumns/removedColumns로만 보고한다 (셀 변경 제외)
+ */
+export const diffSheets = (
+  base: Sheet | undefined,
+  target: Sheet | undefined
+): SheetDiff | null => {
+  const sheet = target ?? base;
+  if (!sheet) return null;
+
+  const baseColumns = base?.columns ?? [];
+  const targetColumns = target?.columns ?? [];
+  const baseColumnIds = new Set(baseColumns.map((c) => c.id));
+  const targetColumnIds = new Set(targetColumns.map((c) => c.id));
+  const sharedColumnIds = targetColumns
+    .filter((c) => baseColumnIds.has(c.id))
+    .map((c) => c.id);
+
+  const baseRows = new Map((base?.rows ?? []).map((row) => [row.id, row]));
+  const targetRowIds = new Set((target?.rows ?? []).map((row) => row.id));
+  const rows: RowDiff[] = [];
+
+  (target?.rows ?? []).forEach((row, rowIndex) => {
+    const baseRow = baseRows.get(row.id);
+    if (!baseRow) {
+      rows.push({
+        rowId: row.id,
+        rowIndex,
+        status: 'added',
+        cells: collectRowCells(
+          row,
+          targetColumns.map((c) => c.id),
+          'after'
+        ),
+      });
+      return;
+    }
+
+    const cells = sharedColumnIds.flatMap((columnId) => {
+      const before = toCellContent(baseRow.cells[columnId]);
+      const after = toCellContent(row.cells[columnId]);
+      if (isSameContent(before, after)) return [];
+      return [
+        {
+          columnId,
+          before,
+          after,
+          formulaChanged: before?.formula !== after?.formula,
+        },
+      ];
+    });
+    if (cells.length > 0) {
+      rows.push({ rowId: row.id, rowIndex, status: 'changed', cells });
+    }
+  });
+
+  (base?.rows ?? []).forEach((row, rowIndex) => {
+    if (targetRowIds.has(row.id)) return;
+    rows.push({
+      rowId: row.id,
+      rowIndex,
+      status: 'removed',
+      cells: collectRowCells(
+        row,
+        baseColumns.map((c) => c.id),
+        'before'
+      ),
+    });
+  });
+
+  const addedColumns = targetColumns
+    .filter((c) => !baseColumnIds.has(c.id))
+    .map((c) => c.name);
+  const removedColumns = baseColumns
+    .filter((c) => !targetColumnIds.has(c.id))
+    .map((c) => c.name);
+
+  const status: DiffStatus = !base ? 'added' : !target ? 'removed' : 'changed';
+  if (
+    base &&
+    target &&
+    rows.length === 0 &&
+    addedColumns.length === 0 &&
+    removedColumns.length === 0 &&
+    base.name === target.name
+  ) {
+    return null;
+  }
+
+  return {
+    sheetId: sheet.id,
+    name: sheet.name,
+    status,
+    addedColumns,
+    removedColumns,
+    rows,
+  };
+};
+
+/**
+ * Compare two versions of a workbook, sheet by sheet
+ * 비교 버전의 시트 순서 다음에 삭제된 시트가 온다
+ */
+export const diffWorkbooks = (base: Sheet[], target: Sheet[]): SheetDiff[] => {
+  const baseById = new Map(base.map((sheet) => [sheet.id, sheet]));
+  const targetIds = new Set(target.map((sheet) => sheet.id));
+
+  return [
+    ...target.map((sheet) => diffSheets(baseById.get(sheet.id), sheet)),
+    ...base
+      .filter((sheet) => !targetIds.has(sheet.id))
+      .map((sheet) => diffSheets(sheet, undefined)),
+  ].filter((diff): diff is SheetDiff => diff !== null);
+};
+
+/**
+ * 변경 개수 요약
+ */
+export const summarizeDiff = (diffs: SheetDiff[]): DiffSummary =>
+  diffs
+    .flatMap((diff) => diff.rows)
+    .reduce<DiffSummary>(
+      (summary, row) => ({
+        addedRows: summary.addedRows + (row.status === 'added' ? 1 : 0),
+        removedRows: summary.removedRows + (row.status === 'removed' ? 1 : 0),
+        changedRows: summary.changedRows + (row.status === 'changed' ? 1 : 0),
+        changedCells:
+          summary.changedCells +
+          (row.status === 'changed' ? row.cells.length : 0),
+      }),
+      { addedRows: 0, removedRows: 0, changedRows: 0, changedCells: 0 }
+    );